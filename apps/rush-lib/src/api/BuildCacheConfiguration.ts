@@ -18,8 +18,12 @@ import { ICloudBuildCacheProvider } from '../logic/buildCache/ICloudBuildCachePr
 import { RushUserConfiguration } from './RushUserConfiguration';
 import { EnvironmentConfiguration } from './EnvironmentConfiguration';
 import { CacheEntryId, GetCacheEntryIdFunction } from '../logic/buildCache/CacheEntryId';
+import { BuildCacheCompression, BuildCacheCompressor } from '../logic/buildCache/BuildCacheCompression';
 import type { CloudBuildCacheProviderFactory, RushSession } from '../pluginFramework/RushSession';
 
+const BYTES_PER_MEGABYTE: number = 1024 * 1024;
+const MILLISECONDS_PER_DAY: number = 24 * 60 * 60 * 1000;
+
 /**
  * Describes the file structure for the "common/config/rush/build-cache.json" config file.
  */
@@ -27,6 +31,16 @@ export interface IBaseBuildCacheJson {
   buildCacheEnabled: boolean;
   cacheProvider: string;
   cacheEntryNamePattern?: string;
+  compression?: BuildCacheCompression;
+  localCacheLimits?: ILocalCacheLimitsJson;
+}
+
+/**
+ * Describes the "localCacheLimits" section of the "common/config/rush/build-cache.json" config file.
+ */
+export interface ILocalCacheLimitsJson {
+  maxSizeMb?: number;
+  maxAgeDays?: number;
 }
 
 /**
@@ -80,6 +94,10 @@ export class BuildCacheConfiguration {
    * Method to calculate the cache entry id for a project, phase, and project state.
    */
   public readonly getCacheEntryId: GetCacheEntryIdFunction;
+  /**
+   * The compression codec for new cache entries.
+   */
+  public readonly compression: BuildCacheCompression;
   /**
    * The provider for interacting with the local build cache.
    */
@@ -95,13 +113,18 @@ export class BuildCacheConfiguration {
     this.cacheWriteEnabled =
       !!this.buildCacheEnabled && EnvironmentConfiguration.buildCacheWriteAllowed !== false;
 
+    const { buildCacheJson } = options;
+    const { maxSizeMb, maxAgeDays } = buildCacheJson.localCacheLimits || {};
+
     this.getCacheEntryId = options.getCacheEntryId;
+    this.compression = buildCacheJson.compression || BuildCacheCompressor.defaultCompression;
     this.localCacheProvider = new FileSystemBuildCacheProvider({
       rushUserConfiguration: options.rushUserConfiguration,
-      rushConfiguration: options.rushConfiguration
+      rushConfiguration: options.rushConfiguration,
+      maxCacheSizeBytes: maxSizeMb !== undefined ? maxSizeMb * BYTES_PER_MEGABYTE : undefined,
+      maxCacheEntryAgeMs: maxAgeDays !== undefined ? maxAgeDays * MILLISECONDS_PER_DAY : undefined
     });
 
-    const { buildCacheJson } = options;
     // Don't configure a cloud cache provider if local-only
     if (buildCacheJson.cacheProvider !== 'local-only') {
       const cloudCacheProviderFactory: CloudBuildCacheProviderFactory | undefined =
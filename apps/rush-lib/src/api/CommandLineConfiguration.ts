@@ -14,7 +14,12 @@ import type {
   IFlagParameterJson,
   IChoiceParameterJson,
   IStringParameterJson,
-  IPhasedCommandWithoutPhasesJson
+  IIntegerParameterJson,
+  IStringListParameterJson,
+  IChoiceListParameterJson,
+  IIntegerListParameterJson,
+  IPhasedCommandWithoutPhasesJson,
+  IPhaseRetryPolicyJson
 } from './CommandLineJson';
 
 export interface IShellCommandTokenContext {
@@ -66,6 +71,35 @@ export interface IPhase {
    * By default, Rush returns a nonzero exit code if errors or warnings occur during a command. If this option is set to \"true\", Rush will return a zero exit code if warnings occur during the execution of this phase.
    */
   allowWarningsOnSuccess: boolean;
+
+  /**
+   * If specified, the operations of this phase are retried if they fail.
+   */
+  retryPolicy: IPhaseRetryPolicy | undefined;
+}
+
+/**
+ * Determines which failures of the operations of a phase are retried.
+ * @alpha
+ */
+export interface IPhaseRetryPolicy {
+  /**
+   * The number of times that a failed operation is retried.
+   */
+  maxRetries: number;
+
+  /**
+   * If specified, a failure is retried if the command returned one of these exit codes.
+   */
+  retryableExitCodes: ReadonlySet<number> | undefined;
+
+  /**
+   * If specified, a failure is retried if the output of the command matched one of these patterns.
+   *
+   * @remarks
+   * If neither `retryableExitCodes` nor `retryableOutputPatterns` is specified, every failure is retried.
+   */
+  retryableOutputPatterns: ReadonlyArray<RegExp> | undefined;
 }
 
 export interface ICommandWithParameters {
@@ -90,6 +124,10 @@ export interface IPhasedCommandConfig extends IPhasedCommandWithoutPhasesJson, I
    * The set of phases to execute when running this phased command in watch mode.
    */
   watchPhases: Set<IPhase>;
+  /**
+   * Globs of files, relative to each project folder, whose changes do not trigger the watch phases.
+   */
+  watchIgnoredGlobs: ReadonlyArray<string>;
 }
 
 export interface IGlobalCommandConfig extends IGlobalCommandJson, ICommandWithParameters {}
@@ -100,7 +138,14 @@ export type Command = IGlobalCommandConfig | IPhasedCommandConfig;
  * Metadata about a custom parameter defined in command-line.json
  * @alpha
  */
-export type IParameterJson = IFlagParameterJson | IChoiceParameterJson | IStringParameterJson;
+export type IParameterJson =
+  | IFlagParameterJson
+  | IChoiceParameterJson
+  | IStringParameterJson
+  | IIntegerParameterJson
+  | IStringListParameterJson
+  | IChoiceListParameterJson
+  | IIntegerListParameterJson;
 
 const DEFAULT_BUILD_COMMAND_JSON: IBulkCommandJson = {
   commandKind: RushConstants.bulkCommandKind,
@@ -215,7 +260,8 @@ export class CommandLineConfiguration {
             upstream: new Set()
           },
           ignoreMissingScript: !!phase.ignoreMissingScript,
-          allowWarningsOnSuccess: !!phase.allowWarningsOnSuccess
+          allowWarningsOnSuccess: !!phase.allowWarningsOnSuccess,
+          retryPolicy: this._parseRetryPolicy(phase.name, phase.retryPolicy)
         };
 
         this.phases.set(phase.name, processedPhase);
@@ -287,6 +333,7 @@ export class CommandLineConfiguration {
               associatedParameters: new Set<IParameterJson>(),
               phases: commandPhases,
               watchPhases,
+              watchIgnoredGlobs: [],
               alwaysWatch: false
             };
 
@@ -319,6 +366,7 @@ export class CommandLineConfiguration {
 
             if (watchOptions) {
               normalizedCommand.alwaysWatch = watchOptions.alwaysWatch;
+              normalizedCommand.watchIgnoredGlobs = watchOptions.ignoredGlobs || [];
 
               // No implicit phase dependency expansion for watch mode.
               for (const phaseName of watchOptions.watchPhases) {
@@ -401,6 +449,7 @@ export class CommandLineConfiguration {
           disableBuildCache: DEFAULT_REBUILD_COMMAND_JSON.disableBuildCache,
           associatedParameters: buildCommand.associatedParameters, // rebuild should share build's parameters in this case,
           watchPhases: new Set(),
+          watchIgnoredGlobs: [],
           alwaysWatch: false
         };
         this.commands.set(rebuildCommand.name, rebuildCommand);
@@ -638,6 +687,38 @@ export class CommandLineConfiguration {
     return name.replace(/:/g, '_'); // Replace colons with underscores to be filesystem-safe
   }
 
+  private _parseRetryPolicy(
+    phaseName: string,
+    retryPolicyJson: IPhaseRetryPolicyJson | undefined
+  ): IPhaseRetryPolicy | undefined {
+    if (!retryPolicyJson || retryPolicyJson.maxRetries <= 0) {
+      return undefined;
+    }
+
+    let retryableOutputPatterns: RegExp[] | undefined;
+    if (retryPolicyJson.retryableOutputPatterns) {
+      retryableOutputPatterns = [];
+      for (const pattern of retryPolicyJson.retryableOutputPatterns) {
+        try {
+          retryableOutputPatterns.push(new RegExp(pattern));
+        } catch (error) {
+          throw new Error(
+            `In ${RushConstants.commandLineFilename}, the phase "${phaseName}" has an invalid ` +
+              `retryable output pattern "${pattern}": ${(error as Error).message}`
+          );
+        }
+      }
+    }
+
+    return {
+      maxRetries: retryPolicyJson.maxRetries,
+      retryableExitCodes: retryPolicyJson.retryableExitCodes
+        ? new Set(retryPolicyJson.retryableExitCodes)
+        : undefined,
+      retryableOutputPatterns
+    };
+  }
+
   private _translateBulkCommandToPhasedCommand(command: IBulkCommandJson): IPhasedCommandConfig {
     const phaseName: string = command.name;
     const phase: IPhase = {
@@ -650,7 +731,8 @@ export class CommandLineConfiguration {
         upstream: new Set()
       },
       ignoreMissingScript: !!command.ignoreMissingScript,
-      allowWarningsOnSuccess: !!command.allowWarningsInSuccessfulBuild
+      allowWarningsOnSuccess: !!command.allowWarningsInSuccessfulBuild,
+      retryPolicy: undefined
     };
 
     if (!command.ignoreDependencyOrder) {
@@ -670,6 +752,7 @@ export class CommandLineConfiguration {
       phases,
       // Bulk commands used the same phases for watch as for regular execution. Preserve behavior.
       watchPhases: command.watchForChanges ? phases : new Set(),
+      watchIgnoredGlobs: [],
       alwaysWatch: !!command.watchForChanges
     };
 
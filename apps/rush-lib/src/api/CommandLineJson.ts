@@ -48,6 +48,7 @@ export interface IPhasedCommandJson extends IPhasedCommandWithoutPhasesJson {
   watchOptions?: {
     alwaysWatch: boolean;
     watchPhases: string[];
+    ignoredGlobs?: string[];
   };
 }
 
@@ -97,6 +98,31 @@ export interface IPhaseJson {
    * By default, Rush returns a nonzero exit code if errors or warnings occur during a command. If this option is set to \"true\", Rush will return a zero exit code if warnings occur during the execution of this phase.
    */
   allowWarningsOnSuccess?: boolean;
+  /**
+   * Retries the operations of this phase if they fail, for example because of a flaky test.
+   */
+  retryPolicy?: IPhaseRetryPolicyJson;
+}
+
+/**
+ * The retry policy of a phase, used in the phased command feature.
+ * @alpha
+ */
+export interface IPhaseRetryPolicyJson {
+  /**
+   * The number of times that a failed operation is retried.
+   */
+  maxRetries: number;
+  /**
+   * If specified, a failure is only retried if the command returned one of these exit codes, or if its output
+   * matched one of the "retryableOutputPatterns".
+   */
+  retryableExitCodes?: number[];
+  /**
+   * If specified, a failure is only retried if the output of the command matched one of these regular
+   * expressions, or if the command returned one of the "retryableExitCodes".
+   */
+  retryableOutputPatterns?: string[];
 }
 
 /**
@@ -105,9 +131,10 @@ export interface IPhaseJson {
  */
 export interface IBaseParameterJson {
   /**
-   * Indicates the kind of syntax for this command-line parameter: \"flag\" or \"choice\" or \"string\".
+   * Indicates the kind of syntax for this command-line parameter: \"flag\", \"choice\", \"string\", \"integer\",
+   * \"stringList\", \"choiceList\" or \"integerList\".
    */
-  parameterKind: 'flag' | 'choice' | 'string';
+  parameterKind: 'flag' | 'choice' | 'string' | 'integer' | 'stringList' | 'choiceList' | 'integerList';
   /**
    * The name of the parameter (e.g. \"--verbose\").  This is a required field.
    */
@@ -132,6 +159,11 @@ export interface IBaseParameterJson {
    * If true, then this parameter must be included on the command line.
    */
   required?: boolean;
+  /**
+   * The name of an environment variable that the parameter value will be read from, if it was omitted from
+   * the command line. For the list parameter kinds, the value can be a JSON array such as \"[\"a\", \"b\"]\".
+   */
+  environmentVariable?: string;
 }
 
 /**
@@ -194,7 +226,81 @@ export interface IStringParameterJson extends IBaseParameterJson {
   argumentName: string;
 }
 
-export type ParameterJson = IFlagParameterJson | IChoiceParameterJson | IStringParameterJson;
+/**
+ * A custom command-line parameter whose value is interpreted as an integer.
+ * @public
+ */
+export interface IIntegerParameterJson extends IBaseParameterJson {
+  /**
+   * Denotes that this is an integer parameter.
+   */
+  parameterKind: 'integer';
+  /**
+   * The name of the argument for this parameter.
+   */
+  argumentName: string;
+  /**
+   * If the parameter is omitted from the command line, this value will be inserted by default.
+   */
+  defaultValue?: number;
+}
+
+/**
+ * A custom command-line parameter whose value is interpreted as a string. The parameter can be specified
+ * multiple times to build a list.
+ * @public
+ */
+export interface IStringListParameterJson extends IBaseParameterJson {
+  /**
+   * Denotes that this is a string list parameter.
+   */
+  parameterKind: 'stringList';
+  /**
+   * The name of the argument for this parameter.
+   */
+  argumentName: string;
+}
+
+/**
+ * A custom command-line parameter whose argument must be chosen from a list of allowable alternatives.
+ * The parameter can be specified multiple times to build a list.
+ * @public
+ */
+export interface IChoiceListParameterJson extends IBaseParameterJson {
+  /**
+   * Denotes that this is a choice list parameter.
+   */
+  parameterKind: 'choiceList';
+  /**
+   * A list of alternative argument values that can be chosen for this parameter.
+   */
+  alternatives: IChoiceParameterAlternativeJson[];
+}
+
+/**
+ * A custom command-line parameter whose value is interpreted as an integer. The parameter can be specified
+ * multiple times to build a list.
+ * @public
+ */
+export interface IIntegerListParameterJson extends IBaseParameterJson {
+  /**
+   * Denotes that this is an integer list parameter.
+   */
+  parameterKind: 'integerList';
+  /**
+   * The name of the argument for this parameter.
+   */
+  argumentName: string;
+}
+
+export type ParameterJson =
+  | IFlagParameterJson
+  | IChoiceParameterJson
+  | IStringParameterJson
+  | IIntegerParameterJson
+  | IStringListParameterJson
+  | IChoiceListParameterJson
+  | IIntegerListParameterJson;
 
 /**
  * Interfaces for the file format described by command-line.schema.json
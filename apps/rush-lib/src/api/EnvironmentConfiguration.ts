@@ -142,6 +142,18 @@ export enum EnvironmentVariableNames {
    */
   RUSH_TAR_BINARY_PATH = 'RUSH_TAR_BINARY_PATH',
 
+  /**
+   * A comma-separated list of the URLs of remote workers (started with "rush remote-worker") that
+   * phased commands should execute operations on, for example `http://agent1:8910,http://agent2:8910`.
+   * Outputs are returned through the build cache, so the build cache must be enabled, and each worker must
+   * have a checkout of the same commit. Operations that cannot be executed remotely are executed locally.
+   *
+   * @remarks
+   * Remote execution is limited by the `--parallelism` parameter, so it should be increased to the total
+   * number of operations that the workers can execute at once.
+   */
+  RUSH_REMOTE_WORKER_URLS = 'RUSH_REMOTE_WORKER_URLS',
+
   /**
    * When Rush executes shell scripts, it sometimes changes the working directory to be a project folder or
    * the repository root folder.  The original working directory (where the Rush command was invoked) is assigned
@@ -187,6 +199,8 @@ export class EnvironmentConfiguration {
 
   private static _tarBinaryPath: string | undefined;
 
+  private static _remoteWorkerUrls: string[] | undefined;
+
   /**
    * An override for the common/temp folder path.
    */
@@ -289,6 +303,15 @@ export class EnvironmentConfiguration {
     return EnvironmentConfiguration._tarBinaryPath;
   }
 
+  /**
+   * The URLs of remote workers that operations should be executed on.
+   * See {@link EnvironmentVariableNames.RUSH_REMOTE_WORKER_URLS}
+   */
+  public static get remoteWorkerUrls(): ReadonlyArray<string> | undefined {
+    EnvironmentConfiguration._ensureValidated();
+    return EnvironmentConfiguration._remoteWorkerUrls;
+  }
+
   /**
    * The front-end RushVersionSelector relies on `RUSH_GLOBAL_FOLDER`, so its value must be read before
    * `EnvironmentConfiguration` is initialized (and actually before the correct version of `EnvironmentConfiguration`
@@ -405,6 +428,16 @@ export class EnvironmentConfiguration {
             break;
           }
 
+          case EnvironmentVariableNames.RUSH_REMOTE_WORKER_URLS: {
+            const remoteWorkerUrls: string[] = (value || '')
+              .split(',')
+              .map((url: string) => url.trim())
+              .filter((url: string) => url.length > 0);
+            EnvironmentConfiguration._remoteWorkerUrls =
+              remoteWorkerUrls.length > 0 ? remoteWorkerUrls : undefined;
+            break;
+          }
+
           case EnvironmentVariableNames.RUSH_PARALLELISM:
           case EnvironmentVariableNames.RUSH_PREVIEW_VERSION:
           case EnvironmentVariableNames.RUSH_VARIANT:
@@ -24,13 +24,58 @@ export enum Event {
   /**
    * Post Rush build event
    */
-  postRushBuild = 4
+  postRushBuild = 4,
+  /**
+   * Pre Rush publish event
+   */
+  preRushPublish = 5,
+  /**
+   * Post Rush publish event
+   */
+  postRushPublish = 6,
+  /**
+   * Pre Rush version event
+   */
+  preRushVersion = 7,
+  /**
+   * Post Rush version event
+   */
+  postRushVersion = 8,
+  /**
+   * Pre Rush change event
+   */
+  preRushChange = 9,
+  /**
+   * Post Rush change event
+   */
+  postRushChange = 10,
+  /**
+   * Pre Rush deploy event
+   */
+  preRushDeploy = 11,
+  /**
+   * Post Rush deploy event
+   */
+  postRushDeploy = 12,
+  /**
+   * The event that happens before any custom command that is defined in command-line.json
+   */
+  preRushCustomCommand = 13,
+  /**
+   * The event that happens after any custom command that is defined in command-line.json
+   */
+  postRushCustomCommand = 14
 }
 
 /**
  * This class represents Rush event hooks configured for this repo.
  * Hooks are customized script actions that Rush executes when specific events occur.
  * The actions are expressed as a command-line that is executed using the operating system shell.
+ *
+ * @remarks
+ * The `RUSH_EVENT_NAME` environment variable is set to the name of the event, and the `RUSH_EVENT_INFO_PATH`
+ * environment variable is set to the path of a JSON file that describes the command, its selected projects
+ * and, for the events that happen after a command, the result and duration of the command.
  * @beta
  */
 export class EventHooks {
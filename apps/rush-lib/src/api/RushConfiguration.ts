@@ -54,6 +54,7 @@ const knownRushConfigFilenames: string[] = [
   RushConstants.commandLineFilename,
   RushConstants.commonVersionsFilename,
   RushConstants.experimentsFilename,
+  RushConstants.licensesFilename,
   RushConstants.nonbrowserApprovedPackagesFilename,
   RushConstants.pinnedVersionsFilename,
   RushConstants.repoStateFilename,
@@ -89,6 +90,46 @@ export interface IEventHooksJson {
    * The list of scripts to run after every Rush build command finishes
    */
   postRushBuild?: string[];
+  /**
+   * The list of scripts to run before the Rush publish command starts
+   */
+  preRushPublish?: string[];
+  /**
+   * The list of scripts to run after the Rush publish command finishes
+   */
+  postRushPublish?: string[];
+  /**
+   * The list of scripts to run before the Rush version command starts
+   */
+  preRushVersion?: string[];
+  /**
+   * The list of scripts to run after the Rush version command finishes
+   */
+  postRushVersion?: string[];
+  /**
+   * The list of scripts to run before the Rush change command starts
+   */
+  preRushChange?: string[];
+  /**
+   * The list of scripts to run after the Rush change command finishes
+   */
+  postRushChange?: string[];
+  /**
+   * The list of scripts to run before the Rush deploy command starts
+   */
+  preRushDeploy?: string[];
+  /**
+   * The list of scripts to run after the Rush deploy command finishes
+   */
+  postRushDeploy?: string[];
+  /**
+   * The list of scripts to run before any custom command from command-line.json starts
+   */
+  preRushCustomCommand?: string[];
+  /**
+   * The list of scripts to run after any custom command from command-line.json finishes
+   */
+  postRushCustomCommand?: string[];
 }
 
 /**
@@ -24,6 +24,8 @@ export interface IRushConfigurationProjectJson {
   shouldPublish?: boolean;
   skipRushCheck?: boolean;
   publishFolder?: string;
+  tags?: string[];
+  suppressedPolicyIssueCodes?: string[];
 }
 
 /**
@@ -65,6 +67,8 @@ export class RushConfigurationProject {
   private readonly _shouldPublish: boolean;
   private readonly _skipRushCheck: boolean;
   private readonly _publishFolder: string;
+  private readonly _tags: ReadonlySet<string>;
+  private readonly _suppressedPolicyIssueCodes: ReadonlySet<string>;
   private readonly _rushConfiguration: RushConfiguration;
 
   private _versionPolicy: VersionPolicy | undefined = undefined;
@@ -165,6 +169,9 @@ export class RushConfigurationProject {
     if (projectJson.publishFolder) {
       this._publishFolder = path.join(this._publishFolder, projectJson.publishFolder);
     }
+
+    this._tags = new Set(projectJson.tags);
+    this._suppressedPolicyIssueCodes = new Set(projectJson.suppressedPolicyIssueCodes);
   }
 
   /**
@@ -405,6 +412,27 @@ export class RushConfigurationProject {
     return this._publishFolder;
   }
 
+  /**
+   * An optional set of custom tags that can be used to select this project. For example,
+   * adding "my-custom-tag" will allow this project to be selected by the
+   * command `rush list --only tag:my-custom-tag`.
+   *
+   * @beta
+   */
+  public get tags(): ReadonlySet<string> {
+    return this._tags;
+  }
+
+  /**
+   * The codes of the issues reported by repository policies that should be ignored for this project.
+   * See {@link RushPolicy}.
+   *
+   * @beta
+   */
+  public get suppressedPolicyIssueCodes(): ReadonlySet<string> {
+    return this._suppressedPolicyIssueCodes;
+  }
+
   /**
    * Version policy of the project
    * @beta
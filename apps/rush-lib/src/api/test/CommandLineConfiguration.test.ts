@@ -2,7 +2,13 @@
 // See LICENSE in the project root for license information.
 
 import { RushConstants } from '../../logic/RushConstants';
-import { Command, CommandLineConfiguration, IParameterJson } from '../CommandLineConfiguration';
+import {
+  Command,
+  CommandLineConfiguration,
+  IParameterJson,
+  IPhasedCommandConfig,
+  IPhaseRetryPolicy
+} from '../CommandLineConfiguration';
 
 describe(CommandLineConfiguration.name, () => {
   it('Forbids a misnamed phase', () => {
@@ -136,6 +142,106 @@ describe(CommandLineConfiguration.name, () => {
     ).toThrowErrorMatchingSnapshot();
   });
 
+  describe('retryPolicy', () => {
+    it('parses the retry policy of a phase', () => {
+      const commandLineConfiguration: CommandLineConfiguration = new CommandLineConfiguration({
+        phases: [
+          {
+            name: '_phase:a',
+            retryPolicy: {
+              maxRetries: 2,
+              retryableExitCodes: [3],
+              retryableOutputPatterns: ['ECONNRESET']
+            }
+          },
+          {
+            name: '_phase:b',
+            retryPolicy: {
+              maxRetries: 0
+            }
+          },
+          {
+            name: '_phase:c'
+          }
+        ]
+      });
+
+      const retryPolicy: IPhaseRetryPolicy | undefined =
+        commandLineConfiguration.phases.get('_phase:a')?.retryPolicy;
+      expect(retryPolicy?.maxRetries).toEqual(2);
+      expect(retryPolicy?.retryableExitCodes).toEqual(new Set([3]));
+      expect(retryPolicy?.retryableOutputPatterns).toEqual([/ECONNRESET/]);
+      expect(commandLineConfiguration.phases.get('_phase:b')?.retryPolicy).toBeUndefined();
+      expect(commandLineConfiguration.phases.get('_phase:c')?.retryPolicy).toBeUndefined();
+    });
+
+    it('detects an invalid retryable output pattern', () => {
+      expect(
+        () =>
+          new CommandLineConfiguration({
+            phases: [
+              {
+                name: '_phase:a',
+                retryPolicy: {
+                  maxRetries: 1,
+                  retryableOutputPatterns: ['(']
+                }
+              }
+            ]
+          })
+      ).toThrowErrorMatchingSnapshot();
+    });
+  });
+
+  describe('watchOptions', () => {
+    it('populates the ignored globs of watch mode', () => {
+      const commandLineConfiguration: CommandLineConfiguration = new CommandLineConfiguration({
+        phases: [
+          {
+            name: '_phase:a'
+          }
+        ],
+        commands: [
+          {
+            commandKind: 'phased',
+            name: 'watch',
+            summary: 'Watch',
+            enableParallelism: true,
+            safeForSimultaneousRushProcesses: false,
+            phases: ['_phase:a'],
+            watchOptions: {
+              alwaysWatch: true,
+              watchPhases: ['_phase:a'],
+              ignoredGlobs: ['*.md', 'temp/']
+            }
+          },
+          {
+            commandKind: 'phased',
+            name: 'no-ignored-globs',
+            summary: 'Watch without ignored globs',
+            enableParallelism: true,
+            safeForSimultaneousRushProcesses: false,
+            phases: ['_phase:a'],
+            watchOptions: {
+              alwaysWatch: true,
+              watchPhases: ['_phase:a']
+            }
+          }
+        ]
+      });
+
+      const watchCommand: IPhasedCommandConfig = commandLineConfiguration.commands.get(
+        'watch'
+      ) as IPhasedCommandConfig;
+      expect(watchCommand.watchIgnoredGlobs).toEqual(['*.md', 'temp/']);
+
+      const otherCommand: IPhasedCommandConfig = commandLineConfiguration.commands.get(
+        'no-ignored-globs'
+      ) as IPhasedCommandConfig;
+      expect(otherCommand.watchIgnoredGlobs).toEqual([]);
+    });
+  });
+
   describe('parameters', () => {
     it('correctly populates the associatedParameters object for a parameter associated with the "build" command', () => {
       const commandLineConfiguration: CommandLineConfiguration = new CommandLineConfiguration({
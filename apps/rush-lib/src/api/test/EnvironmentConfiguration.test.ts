@@ -108,4 +108,13 @@ describe(EnvironmentConfiguration.name, () => {
       expect(EnvironmentConfiguration.pnpmStorePathOverride).toEqual(expectedValue);
     });
   });
+
+  describe('remoteWorkerUrls', () => {
+    it('parses a comma-separated list of URLs', () => {
+      process.env['RUSH_REMOTE_WORKER_URLS'] = 'http://agent1:8910, http://agent2:8910,'; // eslint-disable-line dot-notation
+      EnvironmentConfiguration.validate();
+
+      expect(EnvironmentConfiguration.remoteWorkerUrls).toEqual(['http://agent1:8910', 'http://agent2:8910']);
+    });
+  });
 });
@@ -24,4 +24,14 @@ describe(EventHooks.name, () => {
     const resultHooks: string[] = eventHooks.get(Event.postRushBuild);
     expect(resultHooks).toEqual(expectedHooks);
   });
+
+  it('loads hooks for other commands', () => {
+    const eventHooks: EventHooks = new EventHooks({
+      preRushPublish: ['do one'],
+      postRushCustomCommand: ['do two']
+    });
+    expect(eventHooks.get(Event.preRushPublish)).toEqual(['do one']);
+    expect(eventHooks.get(Event.postRushCustomCommand)).toEqual(['do two']);
+    expect(eventHooks.get(Event.postRushPublish)).toHaveLength(0);
+  });
 });
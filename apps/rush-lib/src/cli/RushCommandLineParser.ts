@@ -26,19 +26,24 @@ import {
 import { AddAction } from './actions/AddAction';
 import { ChangeAction } from './actions/ChangeAction';
 import { CheckAction } from './actions/CheckAction';
+import { CheckPoliciesAction } from './actions/CheckPoliciesAction';
 import { DeployAction } from './actions/DeployAction';
 import { InitAction } from './actions/InitAction';
 import { InitAutoinstallerAction } from './actions/InitAutoinstallerAction';
 import { InitDeployAction } from './actions/InitDeployAction';
 import { InstallAction } from './actions/InstallAction';
+import { LicensesAction } from './actions/LicensesAction';
 import { LinkAction } from './actions/LinkAction';
 import { ListAction } from './actions/ListAction';
+import { LockfileDiffAction } from './actions/LockfileDiffAction';
 import { PublishAction } from './actions/PublishAction';
 import { PurgeAction } from './actions/PurgeAction';
+import { RemoteWorkerAction } from './actions/RemoteWorkerAction';
 import { ScanAction } from './actions/ScanAction';
 import { UnlinkAction } from './actions/UnlinkAction';
 import { UpdateAction } from './actions/UpdateAction';
 import { UpdateAutoinstallerAction } from './actions/UpdateAutoinstallerAction';
+import { UpgradeInteractiveAction } from './actions/UpgradeInteractiveAction';
 import { VersionAction } from './actions/VersionAction';
 import { UpdateCloudCredentialsAction } from './actions/UpdateCloudCredentialsAction';
 
@@ -173,6 +178,16 @@ export class RushCommandLineParser extends CommandLineParser {
     }
   }
 
+  /**
+   * Like {@link RushCommandLineParser.flushTelemetry}, but also waits for the telemetry sinks to send the
+   * records that they have buffered.
+   */
+  public async flushTelemetryAsync(): Promise<void> {
+    if (this.telemetry) {
+      await this.telemetry.flushAsync();
+    }
+  }
+
   public async execute(args?: string[]): Promise<boolean> {
     this._terminalProvider.verboseEnabled = this.isDebug;
 
@@ -226,12 +241,14 @@ export class RushCommandLineParser extends CommandLineParser {
 
   private async _wrapOnExecuteAsync(): Promise<void> {
     if (this.rushConfiguration) {
-      this.telemetry = new Telemetry(this.rushConfiguration);
+      this.telemetry = new Telemetry(this.rushConfiguration, this.rushSession);
     }
 
-    await super.onExecute();
-    if (this.telemetry) {
-      this.flushTelemetry();
+    try {
+      await super.onExecute();
+    } finally {
+      // This also runs if the command failed, before _reportErrorAndSetExitCode() calls process.exit()
+      await this.flushTelemetryAsync();
     }
   }
 
@@ -243,21 +260,26 @@ export class RushCommandLineParser extends CommandLineParser {
       this.addAction(new AddAction(this));
       this.addAction(new ChangeAction(this));
       this.addAction(new CheckAction(this));
+      this.addAction(new CheckPoliciesAction(this));
       this.addAction(new DeployAction(this));
       this.addAction(new InitAction(this));
       this.addAction(new InitAutoinstallerAction(this));
       this.addAction(new InitDeployAction(this));
       this.addAction(new InstallAction(this));
+      this.addAction(new LicensesAction(this));
       this.addAction(new LinkAction(this));
       this.addAction(new ListAction(this));
+      this.addAction(new LockfileDiffAction(this));
       this.addAction(new PublishAction(this));
       this.addAction(new PurgeAction(this));
+      this.addAction(new RemoteWorkerAction(this));
       this.addAction(new ScanAction(this));
       this.addAction(new SetupAction(this));
       this.addAction(new UnlinkAction(this));
       this.addAction(new UpdateAction(this));
       this.addAction(new UpdateAutoinstallerAction(this));
       this.addAction(new UpdateCloudCredentialsAction(this));
+      this.addAction(new UpgradeInteractiveAction(this));
       this.addAction(new VersionAction(this));
 
       this._populateScriptActions();
@@ -392,6 +414,7 @@ export class RushCommandLineParser extends CommandLineParser {
 
         initialPhases: command.phases,
         watchPhases: command.watchPhases,
+        watchIgnoredGlobs: command.watchIgnoredGlobs,
         phases: commandLineConfiguration.phases,
 
         alwaysWatch: command.alwaysWatch
@@ -19,6 +19,10 @@ import {
 } from '../logic/selectors/GitChangedProjectSelectorParser';
 import { NamedProjectSelectorParser } from '../logic/selectors/NamedProjectSelectorParser';
 import { VersionPolicyProjectSelectorParser } from '../logic/selectors/VersionPolicyProjectSelectorParser';
+import { TagProjectSelectorParser } from '../logic/selectors/TagProjectSelectorParser';
+import { PathProjectSelectorParser } from '../logic/selectors/PathProjectSelectorParser';
+import { PhaseFailedProjectSelectorParser } from '../logic/selectors/PhaseFailedProjectSelectorParser';
+import type { RushSession } from '../pluginFramework/RushSession';
 
 /**
  * This class is provides the set of command line parameters used to select projects
@@ -39,14 +43,18 @@ export class SelectionParameterSet {
   private readonly _fromVersionPolicy: CommandLineStringListParameter;
   private readonly _toVersionPolicy: CommandLineStringListParameter;
 
-  private readonly _selectorParserByScope: Map<string, ISelectorParser<RushConfigurationProject>>;
+  private readonly _rushSession: RushSession;
+  private readonly _builtInSelectorParserByScope: Map<string, ISelectorParser<RushConfigurationProject>>;
+  private _selectorParserByScope: Map<string, ISelectorParser<RushConfigurationProject>> | undefined;
 
   public constructor(
     rushConfiguration: RushConfiguration,
+    rushSession: RushSession,
     action: CommandLineParameterProvider,
     gitOptions: IGitSelectorParserOptions
   ) {
     this._rushConfiguration = rushConfiguration;
+    this._rushSession = rushSession;
 
     const selectorParsers: Map<string, ISelectorParser<RushConfigurationProject>> = new Map<
       string,
@@ -56,11 +64,14 @@ export class SelectionParameterSet {
     selectorParsers.set('name', new NamedProjectSelectorParser(rushConfiguration));
     selectorParsers.set('git', new GitChangedProjectSelectorParser(rushConfiguration, gitOptions));
     selectorParsers.set('version-policy', new VersionPolicyProjectSelectorParser(rushConfiguration));
-    this._selectorParserByScope = selectorParsers;
+    selectorParsers.set('tag', new TagProjectSelectorParser(rushConfiguration));
+    selectorParsers.set('path', new PathProjectSelectorParser(rushConfiguration));
+    selectorParsers.set('phase-failed', new PhaseFailedProjectSelectorParser(rushConfiguration));
+    this._builtInSelectorParserByScope = selectorParsers;
 
     const getSpecifierCompletions: () => Promise<string[]> = async (): Promise<string[]> => {
       const completions: string[] = ['.'];
-      for (const [prefix, selector] of selectorParsers) {
+      for (const [prefix, selector] of this._getSelectorParserByScope()) {
         for (const completion of selector.getCompletions()) {
           completions.push(`${prefix}:${completion}`);
         }
@@ -368,13 +379,16 @@ export class SelectionParameterSet {
       const scope: string = scopeIndex < 0 ? 'name' : rawSelector.slice(0, scopeIndex);
       const unscopedSelector: string = scopeIndex < 0 ? rawSelector : rawSelector.slice(scopeIndex + 1);
 
-      const handler: ISelectorParser<RushConfigurationProject> | undefined =
-        this._selectorParserByScope.get(scope);
+      const selectorParserByScope: Map<
+        string,
+        ISelectorParser<RushConfigurationProject>
+      > = this._getSelectorParserByScope();
+      const handler: ISelectorParser<RushConfigurationProject> | undefined = selectorParserByScope.get(scope);
       if (!handler) {
         terminal.writeErrorLine(
           `Unsupported selector prefix "${scope}" passed to "${parameterName}": "${rawSelector}".` +
             ` Supported prefixes: ${Array.from(
-              this._selectorParserByScope.keys(),
+              selectorParserByScope.keys(),
               (scope: string) => `"${scope}:"`
             ).join(', ')}`
         );
@@ -392,4 +406,29 @@ export class SelectionParameterSet {
 
     return selection;
   }
+
+  /**
+   * Combines the built-in selector parsers with the ones registered by plugins. Plugins are initialized
+   * after the command-line parameters are defined, so this is evaluated on first use.
+   */
+  private _getSelectorParserByScope(): Map<string, ISelectorParser<RushConfigurationProject>> {
+    if (!this._selectorParserByScope) {
+      const selectorParserByScope: Map<string, ISelectorParser<RushConfigurationProject>> = new Map(
+        this._builtInSelectorParserByScope
+      );
+
+      for (const [scope, selectorParser] of this._rushSession.getProjectSelectorParsers()) {
+        if (selectorParserByScope.has(scope)) {
+          throw new Error(
+            `A plugin registered a project selector parser for the "${scope}:" scope, which is built into Rush.`
+          );
+        }
+        selectorParserByScope.set(scope, selectorParser);
+      }
+
+      this._selectorParserByScope = selectorParserByScope;
+    }
+
+    return this._selectorParserByScope;
+  }
 }
@@ -111,7 +111,10 @@ export abstract class BaseInstallAction extends BaseRushAction {
     this.eventHooksManager.handle(
       Event.preRushInstall,
       this.parser.isDebug,
-      this._ignoreHooksParameter.value
+      this._ignoreHooksParameter.value,
+      {
+        commandName: this.actionName
+      }
     );
 
     const purgeManager: PurgeManager = new PurgeManager(this.rushConfiguration, this.rushGlobalFolder);
@@ -154,7 +157,12 @@ export abstract class BaseInstallAction extends BaseRushAction {
       this.eventHooksManager.handle(
         Event.postRushInstall,
         this.parser.isDebug,
-        this._ignoreHooksParameter.value
+        this._ignoreHooksParameter.value,
+        {
+          commandName: this.actionName,
+          success: true,
+          durationInSeconds: stopwatch.duration
+        }
       );
 
       if (warnAboutScriptUpdate) {
@@ -177,12 +185,13 @@ export abstract class BaseInstallAction extends BaseRushAction {
       purgeManager.deleteAll();
       stopwatch.stop();
 
-      this._collectTelemetry(stopwatch, installManagerOptions, installSuccessful);
+      this._collectTelemetry(stopwatch, installManager, installManagerOptions, installSuccessful);
     }
   }
 
   private _collectTelemetry(
     stopwatch: Stopwatch,
+    installManager: BaseInstallManager,
     installManagerOptions: IInstallManagerOptions,
     success: boolean
   ): void {
@@ -199,6 +208,7 @@ export abstract class BaseInstallAction extends BaseRushAction {
         name: 'install',
         duration: stopwatch.duration,
         result: success ? 'Succeeded' : 'Failed',
+        installTimings: { ...installManager.stepTimings },
         extraData
       });
     }
@@ -9,7 +9,10 @@ import { CommandLineAction, ICommandLineActionOptions } from '@rushstack/ts-comm
 import { LockFile } from '@rushstack/node-core-library';
 
 import { RushConfiguration } from '../../api/RushConfiguration';
-import { EventHooksManager } from '../../logic/EventHooksManager';
+import type { RushConfigurationProject } from '../../api/RushConfigurationProject';
+import { EventHooksManager, IEventHookContext } from '../../logic/EventHooksManager';
+import { Event } from '../../api/EventHooks';
+import { Stopwatch } from '../../utilities/Stopwatch';
 import { RushCommandLineParser } from './../RushCommandLineParser';
 import { Utilities } from '../../utilities/Utilities';
 import { RushGlobalFolder } from '../../api/RushGlobalFolder';
@@ -101,6 +104,19 @@ export abstract class BaseConfiglessRushAction extends CommandLineAction impleme
   }
 }
 
+export interface IRunWithEventHooksOptions {
+  preEvent: Event;
+  postEvent: Event;
+  /**
+   * The value of the "--ignore-hooks" parameter.
+   */
+  ignoreHooks: boolean;
+  /**
+   * The projects that the command operates on, if they are known before the command runs.
+   */
+  selectedProjects?: Iterable<RushConfigurationProject>;
+}
+
 /**
  * The base class that most Rush command-line actions should extend.
  */
@@ -119,6 +135,37 @@ export abstract class BaseRushAction extends BaseConfiglessRushAction {
     return super.rushConfiguration!;
   }
 
+  /**
+   * Runs the "eventHooks" scripts for `preEvent` before the callback, and the scripts for `postEvent`
+   * after the callback, including if the callback fails. The callback can assign the
+   * `selectedProjects` of the context, if they are not known until the command runs.
+   */
+  protected async runWithEventHooksAsync(
+    options: IRunWithEventHooksOptions,
+    callback: (context: IEventHookContext) => Promise<void>
+  ): Promise<void> {
+    const { preEvent, postEvent, ignoreHooks } = options;
+    const context: IEventHookContext = {
+      commandName: this.actionName,
+      selectedProjects: options.selectedProjects
+    };
+    this.eventHooksManager.handle(preEvent, this.parser.isDebug, ignoreHooks, context);
+
+    const stopwatch: Stopwatch = Stopwatch.start();
+    let success: boolean = false;
+    try {
+      await callback(context);
+      success = true;
+    } finally {
+      stopwatch.stop();
+      this.eventHooksManager.handle(postEvent, this.parser.isDebug, ignoreHooks, {
+        ...context,
+        success,
+        durationInSeconds: stopwatch.duration
+      });
+    }
+  }
+
   protected async onExecute(): Promise<void> {
     if (!this.rushConfiguration) {
       throw Utilities.getRushConfigNotFoundError();
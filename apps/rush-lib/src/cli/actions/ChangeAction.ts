@@ -33,8 +33,11 @@ import {
   LockStepVersionPolicy,
   VersionPolicyDefinitionName
 } from '../../api/VersionPolicy';
-import { ProjectChangeAnalyzer } from '../../logic/ProjectChangeAnalyzer';
+import { ICommitWithChangedProjects, ProjectChangeAnalyzer } from '../../logic/ProjectChangeAnalyzer';
+import { ConventionalCommit, IConventionalCommit } from '../../logic/ConventionalCommit';
 import { Git } from '../../logic/Git';
+import { Event } from '../../api/EventHooks';
+import type { IEventHookContext } from '../../logic/EventHooksManager';
 
 import type * as inquirerTypes from 'inquirer';
 const inquirer: typeof inquirerTypes = Import.lazy('inquirer', require);
@@ -50,6 +53,8 @@ export class ChangeAction extends BaseRushAction {
   private _bulkChangeMessageParameter!: CommandLineStringParameter;
   private _bulkChangeBumpTypeParameter!: CommandLineChoiceParameter;
   private _overwriteFlagParameter!: CommandLineFlagParameter;
+  private _conventionalCommitsParameter!: CommandLineFlagParameter;
+  private _ignoreHooksParameter!: CommandLineFlagParameter;
 
   private _targetBranchName: string | undefined;
 
@@ -157,9 +162,36 @@ export class ChangeAction extends BaseRushAction {
       alternatives: [...Object.keys(this._getBumpOptions())],
       description: `The bump type to apply to all changed projects if the ${BULK_LONG_NAME} flag is provided.`
     });
+
+    this._conventionalCommitsParameter = this.defineFlagParameter({
+      parameterLongName: '--conventional-commits',
+      description:
+        'If this flag is specified, generate the change files from the messages of the commits on the current ' +
+        'branch, instead of prompting for them. The commit messages must follow the Conventional Commits ' +
+        'format (https://www.conventionalcommits.org). A breaking change requires a major bump, a "feat" commit ' +
+        'a minor bump, and a "fix" or "perf" commit a patch bump. Other commits are recorded with the "none" ' +
+        'change type. Each commit adds a change to the change file of every project that it modified, ' +
+        'using the commit description as the comment.'
+    });
+
+    this._ignoreHooksParameter = this.defineFlagParameter({
+      parameterLongName: '--ignore-hooks',
+      description: `Skips execution of the "eventHooks" scripts defined in rush.json. Make sure you know what you are skipping.`
+    });
   }
 
   public async runAsync(): Promise<void> {
+    await this.runWithEventHooksAsync(
+      {
+        preEvent: Event.preRushChange,
+        postEvent: Event.postRushChange,
+        ignoreHooks: this._ignoreHooksParameter.value
+      },
+      async (context: IEventHookContext) => await this._changeAsync(context)
+    );
+  }
+
+  private async _changeAsync(context: IEventHookContext): Promise<void> {
     console.log(`The target branch is ${this._targetBranch}`);
 
     if (this._verifyParameter.value) {
@@ -167,7 +199,8 @@ export class ChangeAction extends BaseRushAction {
         this._bulkChangeParameter,
         this._bulkChangeMessageParameter,
         this._bulkChangeBumpTypeParameter,
-        this._overwriteFlagParameter
+        this._overwriteFlagParameter,
+        this._conventionalCommitsParameter
       ]
         .map((parameter) => {
           return parameter.value
@@ -186,6 +219,9 @@ export class ChangeAction extends BaseRushAction {
     }
 
     const sortedProjectList: string[] = (await this._getChangedProjectNamesAsync()).sort();
+    context.selectedProjects = sortedProjectList.map(
+      (packageName: string) => this.rushConfiguration.getProjectByName(packageName)!
+    );
     if (sortedProjectList.length === 0) {
       this._logNoChangeFileRequired();
       this._warnUncommittedChanges();
@@ -197,7 +233,21 @@ export class ChangeAction extends BaseRushAction {
     const promptModule: inquirerTypes.PromptModule = inquirer.createPromptModule();
     let changeFileData: Map<string, IChangeFile> = new Map<string, IChangeFile>();
     let interactiveMode: boolean = false;
-    if (this._bulkChangeParameter.value) {
+    if (this._conventionalCommitsParameter.value) {
+      if (
+        this._bulkChangeParameter.value ||
+        this._bulkChangeBumpTypeParameter.value ||
+        this._bulkChangeMessageParameter.value
+      ) {
+        throw new Error(
+          `The ${this._conventionalCommitsParameter.longName} flag cannot be provided with the ` +
+            `${this._bulkChangeParameter.longName}, ${this._bulkChangeBumpTypeParameter.longName} or ` +
+            `${this._bulkChangeMessageParameter.longName} parameters.`
+        );
+      }
+
+      changeFileData = this._getChangeFileDataFromCommits(sortedProjectList);
+    } else if (this._bulkChangeParameter.value) {
       if (
         !this._bulkChangeBumpTypeParameter.value ||
         (!this._bulkChangeMessageParameter.value &&
@@ -331,6 +381,122 @@ export class ChangeAction extends BaseRushAction {
     return this._targetBranchName;
   }
 
+  /**
+   * Generates the change files from the Conventional Commits messages of the commits on the current branch.
+   */
+  private _getChangeFileDataFromCommits(sortedProjectList: string[]): Map<string, IChangeFile> {
+    const email: string | undefined = this._changeEmailParameter.value || this._detectEmail();
+    if (!email) {
+      throw new Error(
+        "Unable to detect Git email and an email address wasn't provided using the " +
+          `${this._changeEmailParameter.longName} parameter.`
+      );
+    }
+
+    const projectChangeAnalyzer: ProjectChangeAnalyzer = new ProjectChangeAnalyzer(this.rushConfiguration);
+    const commits: ICommitWithChangedProjects[] = projectChangeAnalyzer.getCommitsWithChangedProjects({
+      targetBranchName: this._targetBranch,
+      terminal: this._terminal,
+      // The target branch was already fetched while detecting the changed projects
+      shouldFetch: false
+    });
+    const projectHostMap: Map<RushConfigurationProject, string> = this._generateHostMap();
+    const changedProjectNames: Set<string> = new Set(sortedProjectList);
+
+    const changeFileData: Map<string, IChangeFile> = new Map<string, IChangeFile>();
+    const nonConventionalCommits: string[] = [];
+    const errors: string[] = [];
+
+    for (const { hash, message, changedProjects } of commits) {
+      const shortHash: string = hash.substring(0, 8);
+      const conventionalCommit: IConventionalCommit | undefined = ConventionalCommit.tryParse(message);
+
+      let changeType: string;
+      let comment: string;
+      if (conventionalCommit) {
+        changeType = ChangeType[ConventionalCommit.getChangeType(conventionalCommit)];
+        comment = conventionalCommit.description;
+      } else {
+        changeType = ChangeType[ChangeType.none];
+        comment = message.split('\n')[0].trim();
+        nonConventionalCommits.push(`${shortHash} ${comment}`);
+      }
+
+      for (const packageName of this._getChangeFileProjectNames(changedProjects, projectHostMap)) {
+        if (!changedProjectNames.has(packageName)) {
+          // For example, the changes to the project were reverted by a later commit
+          continue;
+        }
+
+        const allowedBumpTypes: string[] = Object.keys(this._getBumpOptions(packageName));
+        let projectChangeType: string = changeType;
+        if (allowedBumpTypes.length === 0) {
+          projectChangeType = ChangeType[ChangeType.none];
+        } else if (
+          projectChangeType !== ChangeType[ChangeType.none] &&
+          allowedBumpTypes.indexOf(projectChangeType) === -1
+        ) {
+          if (allowedBumpTypes.indexOf(ChangeType[ChangeType.hotfix]) !== -1) {
+            projectChangeType = ChangeType[ChangeType.hotfix];
+          } else {
+            errors.push(
+              `The "${projectChangeType}" change type of commit ${shortHash} is not allowed for package "${packageName}".`
+            );
+          }
+        }
+
+        let changeFile: IChangeFile | undefined = changeFileData.get(packageName);
+        if (!changeFile) {
+          changeFile = {
+            changes: [],
+            packageName,
+            email
+          };
+          changeFileData.set(packageName, changeFile);
+        }
+
+        changeFile.changes.push({
+          comment,
+          type: projectChangeType,
+          packageName
+        } as IChangeInfo);
+      }
+    }
+
+    if (nonConventionalCommits.length > 0) {
+      console.log(
+        os.EOL +
+          colors.yellow(
+            'Warning: These commits do not follow the Conventional Commits format, so their changes were ' +
+              `recorded with the "${ChangeType[ChangeType.none]}" change type:`
+          )
+      );
+      for (const nonConventionalCommit of nonConventionalCommits) {
+        console.log(`    ${nonConventionalCommit}`);
+      }
+    }
+
+    for (const packageName of sortedProjectList) {
+      if (!changeFileData.has(packageName)) {
+        console.log(
+          colors.yellow(
+            `Warning: No commits were found for the changes to "${packageName}", so no change file was generated.`
+          )
+        );
+      }
+    }
+
+    if (errors.length > 0) {
+      for (const error of errors) {
+        console.error(error);
+      }
+
+      throw new AlreadyReportedError();
+    }
+
+    return changeFileData;
+  }
+
   private async _getChangedProjectNamesAsync(): Promise<string[]> {
     const projectChangeAnalyzer: ProjectChangeAnalyzer = new ProjectChangeAnalyzer(this.rushConfiguration);
     const changedProjects: Set<RushConfigurationProject> =
@@ -344,8 +510,16 @@ export class ChangeAction extends BaseRushAction {
         // Since install may not have happened, cannot read rush-project.json
         enableFiltering: false
       });
-    const projectHostMap: Map<RushConfigurationProject, string> = this._generateHostMap();
+    return Array.from(this._getChangeFileProjectNames(changedProjects, this._generateHostMap()));
+  }
 
+  /**
+   * Gets the names of the projects whose change files record the changes to the specified projects.
+   */
+  private _getChangeFileProjectNames(
+    changedProjects: Iterable<RushConfigurationProject>,
+    projectHostMap: Map<RushConfigurationProject, string>
+  ): Set<string> {
     const changedProjectNames: Set<string> = new Set<string>();
     for (const changedProject of changedProjects) {
       if (changedProject.shouldPublish && !changedProject.versionPolicy?.exemptFromRushChange) {
@@ -356,7 +530,7 @@ export class ChangeAction extends BaseRushAction {
       }
     }
 
-    return Array.from(changedProjectNames);
+    return changedProjectNames;
   }
 
   private _validateChangeFile(changedPackages: string[]): void {
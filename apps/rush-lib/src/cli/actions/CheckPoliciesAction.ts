@@ -0,0 +1,43 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import colors from 'colors/safe';
+import { CommandLineStringParameter } from '@rushstack/ts-command-line';
+
+import { RushCommandLineParser } from '../RushCommandLineParser';
+import { BaseRushAction } from './BaseRushAction';
+import { PolicyValidator } from '../../logic/policy/PolicyValidator';
+import { Variants } from '../../api/Variants';
+
+export class CheckPoliciesAction extends BaseRushAction {
+  private _variant!: CommandLineStringParameter;
+
+  public constructor(parser: RushCommandLineParser) {
+    super({
+      actionName: 'check-policies',
+      summary: 'Checks the repository policies, including the policies that are registered by Rush plugins.',
+      documentation:
+        'Checks the policies that "rush install" enforces, without installing anything. These are the Git email ' +
+        'policy from rush.json, the validation of the shrinkwrap file, and the policies that are registered by ' +
+        'Rush plugins. Issues that are reported by plugin policies can be ignored for a project by adding their ' +
+        'codes to the "suppressedPolicyIssueCodes" setting of the project in rush.json.',
+      safeForSimultaneousRushProcesses: true,
+      parser
+    });
+  }
+
+  protected onDefineParameters(): void {
+    this._variant = this.defineStringParameter(Variants.VARIANT_PARAMETER);
+  }
+
+  protected async runAsync(): Promise<void> {
+    await PolicyValidator.validatePolicyAsync(this.rushConfiguration, {
+      bypassPolicy: false,
+      allowShrinkwrapUpdates: false,
+      shrinkwrapVariant: this._variant.value,
+      rushPolicies: Array.from(this.rushSession.getPolicies().values())
+    });
+
+    console.log(colors.green('All policies passed.'));
+  }
+}
@@ -6,6 +6,8 @@ import { CommandLineFlagParameter, CommandLineStringParameter } from '@rushstack
 
 import { BaseRushAction } from './BaseRushAction';
 import { RushCommandLineParser } from '../RushCommandLineParser';
+import type { RushConfigurationProject } from '../../api/RushConfigurationProject';
+import { Event } from '../../api/EventHooks';
 
 import type * as deployManagerTypes from '../../logic/deploy/DeployManager';
 const deployManagerModule: typeof deployManagerTypes = Import.lazy(
@@ -19,6 +21,8 @@ export class DeployAction extends BaseRushAction {
   private _overwrite!: CommandLineFlagParameter;
   private _targetFolder!: CommandLineStringParameter;
   private _createArchivePath!: CommandLineStringParameter;
+  private _createOciImagePath!: CommandLineStringParameter;
+  private _ignoreHooksParameter!: CommandLineFlagParameter;
 
   public constructor(parser: RushCommandLineParser) {
     super({
@@ -86,18 +90,49 @@ export class DeployAction extends BaseRushAction {
         ' The newly created archive file will be placed according to the designated path, relative' +
         ' to the target folder. Supported file extensions: .zip'
     });
+
+    this._createOciImagePath = this.defineStringParameter({
+      parameterLongName: '--create-oci-image',
+      argumentName: 'IMAGE_PATH',
+      description:
+        'If specified, after the deployment has been prepared, "rush deploy" will create a container image' +
+        ' in the OCI image layout format from the contents of the target folder, without requiring a Docker' +
+        ' daemon. The base image and the entry point are specified by the "ociImage" setting in the' +
+        ' deployment config file. The newly created image file will be placed according to the designated path,' +
+        ' relative to the target folder. Supported file extensions: .tar'
+    });
+
+    this._ignoreHooksParameter = this.defineFlagParameter({
+      parameterLongName: '--ignore-hooks',
+      description: `Skips execution of the "eventHooks" scripts defined in rush.json. Make sure you know what you are skipping.`
+    });
   }
 
   protected async runAsync(): Promise<void> {
-    const deployManager: deployManagerTypes.DeployManager = new deployManagerModule.DeployManager(
-      this.rushConfiguration
-    );
-    await deployManager.deployAsync(
-      this._project.value,
-      this._scenario.value,
-      !!this._overwrite.value,
-      this._targetFolder.value,
-      this._createArchivePath.value
+    const mainProject: RushConfigurationProject | undefined = this._project.value
+      ? this.rushConfiguration.getProjectByName(this._project.value)
+      : undefined;
+
+    await this.runWithEventHooksAsync(
+      {
+        preEvent: Event.preRushDeploy,
+        postEvent: Event.postRushDeploy,
+        ignoreHooks: this._ignoreHooksParameter.value,
+        selectedProjects: mainProject ? [mainProject] : undefined
+      },
+      async () => {
+        const deployManager: deployManagerTypes.DeployManager = new deployManagerModule.DeployManager(
+          this.rushConfiguration
+        );
+        await deployManager.deployAsync(
+          this._project.value,
+          this._scenario.value,
+          !!this._overwrite.value,
+          this._targetFolder.value,
+          this._createArchivePath.value,
+          this._createOciImagePath.value
+        );
+      }
     );
   }
 }
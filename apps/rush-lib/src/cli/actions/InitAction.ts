@@ -169,6 +169,7 @@ export class InitAction extends BaseConfiglessRushAction {
       'common/config/rush/command-line.json',
       'common/config/rush/common-versions.json',
       'common/config/rush/experiments.json',
+      'common/config/rush/licenses.json',
       'common/config/rush/.pnpmfile.cjs',
       'common/config/rush/version-policies.json',
       'common/config/rush/rush-plugins.json',
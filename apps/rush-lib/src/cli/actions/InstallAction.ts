@@ -1,16 +1,21 @@
 // Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
 // See LICENSE in the project root for license information.
 
-import { CommandLineFlagParameter } from '@rushstack/ts-command-line';
+import * as path from 'path';
+import { CommandLineFlagParameter, CommandLineStringParameter } from '@rushstack/ts-command-line';
 import { ConsoleTerminalProvider, Terminal } from '@rushstack/node-core-library';
 
 import { BaseInstallAction } from './BaseInstallAction';
 import { IInstallManagerOptions } from '../../logic/base/BaseInstallManager';
 import { RushCommandLineParser } from '../RushCommandLineParser';
 import { SelectionParameterSet } from '../SelectionParameterSet';
+import { RushConstants } from '../../logic/RushConstants';
 
 export class InstallAction extends BaseInstallAction {
   private _checkOnlyParameter!: CommandLineFlagParameter;
+  private _prepareOfflineParameter!: CommandLineFlagParameter;
+  private _offlineParameter!: CommandLineFlagParameter;
+  private _offlineMirrorFolderParameter!: CommandLineStringParameter;
 
   public constructor(parser: RushCommandLineParser) {
     super({
@@ -37,7 +42,7 @@ export class InstallAction extends BaseInstallAction {
   protected onDefineParameters(): void {
     super.onDefineParameters();
 
-    this._selectionParameters = new SelectionParameterSet(this.rushConfiguration, this, {
+    this._selectionParameters = new SelectionParameterSet(this.rushConfiguration, this.rushSession, this, {
       // Include lockfile processing since this expands the selection, and we need to select
       // at least the same projects selected with the same query to "rush build"
       includeExternalDependencies: true,
@@ -49,6 +54,31 @@ export class InstallAction extends BaseInstallAction {
       parameterLongName: '--check-only',
       description: `Only check the validity of the shrinkwrap file without performing an install.`
     });
+
+    this._prepareOfflineParameter = this.defineFlagParameter({
+      parameterLongName: '--prepare-offline',
+      description:
+        'Before installing, download the tarball of every package in the shrinkwrap file into the offline' +
+        ' mirror folder, so that a later "rush install --offline" can install without access to the package' +
+        ' registry. Tarballs that are already in the folder are not downloaded again.' +
+        ' This parameter is currently only supported for PNPM.'
+    });
+
+    this._offlineParameter = this.defineFlagParameter({
+      parameterLongName: '--offline',
+      description:
+        'Install the packages from the offline mirror folder instead of the package registry. Rush serves' +
+        ' the folder using a local registry for the duration of the install. The package manager itself' +
+        ' must already be installed. This parameter is currently only supported for PNPM.'
+    });
+
+    this._offlineMirrorFolderParameter = this.defineStringParameter({
+      parameterLongName: '--offline-mirror-folder',
+      argumentName: 'FOLDER',
+      description:
+        'The folder where --prepare-offline stores the package tarballs, and from which --offline installs them.' +
+        ` If it is not specified, the "common/temp/${RushConstants.offlineMirrorFolderName}" folder is used.`
+    });
   }
 
   protected async buildInstallOptionsAsync(): Promise<IInstallManagerOptions> {
@@ -57,6 +87,7 @@ export class InstallAction extends BaseInstallAction {
       debug: this.parser.isDebug,
       allowShrinkwrapUpdates: false,
       bypassPolicy: this._bypassPolicyParameter.value!,
+      bypassPolicyAllowed: true,
       noLink: this._noLinkParameter.value!,
       fullUpgrade: false,
       recheckShrinkwrap: false,
@@ -68,7 +99,13 @@ export class InstallAction extends BaseInstallAction {
       maxInstallAttempts: this._maxInstallAttempts.value!,
       // These are derived independently of the selection for command line brevity
       pnpmFilterArguments: await this._selectionParameters!.getPnpmFilterArgumentsAsync(terminal),
-      checkOnly: this._checkOnlyParameter.value
+      checkOnly: this._checkOnlyParameter.value,
+      prepareOffline: this._prepareOfflineParameter.value,
+      offline: this._offlineParameter.value,
+      offlineMirrorFolder: this._offlineMirrorFolderParameter.value
+        ? path.resolve(this._offlineMirrorFolderParameter.value)
+        : path.join(this.rushConfiguration.commonTempFolder, RushConstants.offlineMirrorFolderName),
+      rushPolicies: Array.from(this.rushSession.getPolicies().values())
     };
   }
 }
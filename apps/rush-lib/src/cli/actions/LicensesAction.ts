@@ -0,0 +1,125 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import colors from 'colors/safe';
+import * as path from 'path';
+import {
+  AlreadyReportedError,
+  ConsoleTerminalProvider,
+  FileSystem,
+  JsonFile,
+  Terminal
+} from '@rushstack/node-core-library';
+import {
+  CommandLineChoiceParameter,
+  CommandLineFlagParameter,
+  CommandLineStringParameter
+} from '@rushstack/ts-command-line';
+
+import { BaseRushAction } from './BaseRushAction';
+import { RushCommandLineParser } from '../RushCommandLineParser';
+import { RushConfigurationProject } from '../../api/RushConfigurationProject';
+import { SelectionParameterSet } from '../SelectionParameterSet';
+import { RushConstants } from '../../logic/RushConstants';
+import { LicensesConfiguration } from '../../logic/licenses/LicensesConfiguration';
+import { IPackageLicenseInfo, LicenseAuditor } from '../../logic/licenses/LicenseAuditor';
+
+/**
+ * Shape of "rush licenses --format json" output.
+ */
+export interface ILicensesOutputJson {
+  packages: IPackageLicenseInfo[];
+}
+
+export class LicensesAction extends BaseRushAction {
+  private _formatParameter!: CommandLineChoiceParameter;
+  private _outputFileParameter!: CommandLineStringParameter;
+  private _includeDevDependenciesParameter!: CommandLineFlagParameter;
+  private _selectionParameters!: SelectionParameterSet;
+
+  public constructor(parser: RushCommandLineParser) {
+    super({
+      actionName: 'licenses',
+      summary: 'Lists the licenses of the packages that are installed for the projects in the repo.',
+      documentation:
+        'Walks the installed dependencies of the selected projects (or all projects), following the symbolic ' +
+        'links that the package manager created, and lists the license of each package. The license is read ' +
+        'from the "license" field of package.json, or recognized from the LICENSE file if that field is ' +
+        `missing. The licenses are checked against the common/config/rush/${RushConstants.licensesFilename} ` +
+        'config file if it exists, and the command fails if any license is not allowed. ' +
+        'Run "rush install" before this command.',
+      safeForSimultaneousRushProcesses: true,
+      parser
+    });
+  }
+
+  protected onDefineParameters(): void {
+    this._formatParameter = this.defineChoiceParameter({
+      parameterLongName: '--format',
+      alternatives: ['csv', 'json'],
+      defaultValue: 'csv',
+      description: 'The format of the output.'
+    });
+    this._outputFileParameter = this.defineStringParameter({
+      parameterLongName: '--output-file',
+      argumentName: 'FILE',
+      description:
+        'If this parameter is specified, the output is written to this file instead of the console.'
+    });
+    this._includeDevDependenciesParameter = this.defineFlagParameter({
+      parameterLongName: '--include-dev-dependencies',
+      description:
+        'If this flag is specified, the devDependencies of the projects and their dependencies are also listed.'
+    });
+
+    this._selectionParameters = new SelectionParameterSet(this.rushConfiguration, this.rushSession, this, {
+      includeExternalDependencies: false,
+      // Disable filtering because rush-project.json is riggable and therefore may not be available
+      enableFiltering: false
+    });
+  }
+
+  protected async runAsync(): Promise<void> {
+    const terminal: Terminal = new Terminal(new ConsoleTerminalProvider());
+    const selection: Set<RushConfigurationProject> = await this._selectionParameters.getSelectedProjectsAsync(
+      terminal
+    );
+
+    const licensesConfiguration: LicensesConfiguration = LicensesConfiguration.loadFromFile(
+      path.join(this.rushConfiguration.commonRushConfigFolder, RushConstants.licensesFilename)
+    );
+    const licenseAuditor: LicenseAuditor = new LicenseAuditor(this.rushConfiguration, licensesConfiguration);
+    const packages: IPackageLicenseInfo[] = licenseAuditor.auditProjects(selection, {
+      includeDevDependencies: this._includeDevDependenciesParameter.value
+    });
+
+    const output: string =
+      this._formatParameter.value === 'json'
+        ? JsonFile.stringify({ packages } as ILicensesOutputJson)
+        : LicenseAuditor.formatCsv(packages);
+
+    if (this._outputFileParameter.value) {
+      const outputFilePath: string = path.resolve(this._outputFileParameter.value);
+      FileSystem.writeFile(outputFilePath, output, { ensureFolderExists: true });
+      console.log(`Wrote the licenses of ${packages.length} packages to ${outputFilePath}`);
+    } else {
+      process.stdout.write(output);
+    }
+
+    const violations: IPackageLicenseInfo[] = packages.filter(
+      (packageInfo: IPackageLicenseInfo) => packageInfo.violation
+    );
+    if (violations.length > 0) {
+      console.error(
+        colors.red(
+          `${violations.length} package(s) have licenses that are not allowed by ` +
+            `${RushConstants.licensesFilename}:`
+        )
+      );
+      for (const { packageName, version, violation, projectNames } of violations) {
+        console.error(`  ${packageName}@${version}: ${violation} (used by ${projectNames.join(', ')})`);
+      }
+      throw new AlreadyReportedError();
+    }
+  }
+}
@@ -1,14 +1,22 @@
 // Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
 // See LICENSE in the project root for license information.
 
+import * as path from 'path';
 import { ConsoleTerminalProvider, Import, Sort, Terminal } from '@rushstack/node-core-library';
-import { CommandLineFlagParameter } from '@rushstack/ts-command-line';
+import {
+  CommandLineChoiceParameter,
+  CommandLineFlagParameter,
+  CommandLineStringParameter
+} from '@rushstack/ts-command-line';
 
 import { BaseRushAction } from './BaseRushAction';
 import { RushCommandLineParser } from '../RushCommandLineParser';
 import { RushConfigurationProject } from '../../api/RushConfigurationProject';
 import { VersionPolicyDefinitionName } from '../../api/VersionPolicy';
 import { SelectionParameterSet } from '../SelectionParameterSet';
+import { Command, CommandLineConfiguration } from '../../api/CommandLineConfiguration';
+import { RushConstants } from '../../logic/RushConstants';
+import { DependencyGraph } from '../../logic/DependencyGraph';
 
 const cliTable: typeof import('cli-table') = Import.lazy('cli-table', require);
 
@@ -54,6 +62,8 @@ export class ListAction extends BaseRushAction {
   private _fullPath!: CommandLineFlagParameter;
   private _jsonFlag!: CommandLineFlagParameter;
   private _detailedFlag!: CommandLineFlagParameter;
+  private _graphParameter!: CommandLineChoiceParameter;
+  private _graphPhasedCommandParameter!: CommandLineStringParameter;
   private _selectionParameters!: SelectionParameterSet;
 
   public constructor(parser: RushCommandLineParser) {
@@ -107,7 +117,25 @@ export class ListAction extends BaseRushAction {
       description: 'If this flag is specified, output will be in JSON format.'
     });
 
-    this._selectionParameters = new SelectionParameterSet(this.rushConfiguration, this, {
+    this._graphParameter = this.defineChoiceParameter({
+      parameterLongName: '--graph',
+      alternatives: ['dot', 'mermaid', 'json'],
+      description:
+        'If this parameter is specified, the dependency graph of the selected projects is printed instead ' +
+        'of a list, in the Graphviz DOT, Mermaid or JSON adjacency list format. Only the dependencies ' +
+        'between the selected projects are included.'
+    });
+
+    this._graphPhasedCommandParameter = this.defineStringParameter({
+      parameterLongName: '--graph-phased-command',
+      argumentName: 'COMMAND',
+      description:
+        'Used with --graph. If this parameter is specified, the graph has a node for each phase of each ' +
+        'selected project, with the dependencies between the phases of the specified phased command ' +
+        `from ${RushConstants.commandLineFilename}. For example: "--graph-phased-command build"`
+    });
+
+    this._selectionParameters = new SelectionParameterSet(this.rushConfiguration, this.rushSession, this, {
       // Include lockfile processing since this expands the selection, and we need to select
       // at least the same projects selected with the same query to "rush build"
       includeExternalDependencies: true,
@@ -125,7 +153,20 @@ export class ListAction extends BaseRushAction {
     if (this._jsonFlag.value && this._detailedFlag.value) {
       throw new Error(`The parameters "--json" and "--detailed" cannot be used together.`);
     }
-    if (this._jsonFlag.value) {
+    if (this._graphParameter.value && (this._jsonFlag.value || this._detailedFlag.value)) {
+      throw new Error(
+        `The "${this._graphParameter.longName}" parameter cannot be used with "--json" or "--detailed".`
+      );
+    }
+    if (this._graphPhasedCommandParameter.value && !this._graphParameter.value) {
+      throw new Error(
+        `The "${this._graphPhasedCommandParameter.longName}" parameter must be used with ` +
+          `"${this._graphParameter.longName}".`
+      );
+    }
+    if (this._graphParameter.value) {
+      this._printGraph(selection);
+    } else if (this._jsonFlag.value) {
       this._printJson(selection);
     } else if (this._version.value || this._path.value || this._fullPath.value || this._detailedFlag.value) {
       this._printListTable(selection);
@@ -168,6 +209,39 @@ export class ListAction extends BaseRushAction {
     console.log(JSON.stringify(output, undefined, 2));
   }
 
+  private _printGraph(selection: Set<RushConfigurationProject>): void {
+    let graph: DependencyGraph;
+    const phasedCommandName: string | undefined = this._graphPhasedCommandParameter.value;
+    if (phasedCommandName) {
+      const commandLineConfiguration: CommandLineConfiguration =
+        CommandLineConfiguration.loadFromFileOrDefault(
+          path.join(this.rushConfiguration.commonRushConfigFolder, RushConstants.commandLineFilename)
+        );
+      const command: Command | undefined = commandLineConfiguration.commands.get(phasedCommandName);
+      if (command?.commandKind !== RushConstants.phasedCommandKind) {
+        throw new Error(
+          `The command "${phasedCommandName}" is not a phased command or bulk command in ` +
+            `${RushConstants.commandLineFilename}.`
+        );
+      }
+      graph = DependencyGraph.fromPhases(selection, command.phases);
+    } else {
+      graph = DependencyGraph.fromProjects(selection);
+    }
+
+    switch (this._graphParameter.value) {
+      case 'dot':
+        console.log(graph.toDot());
+        break;
+      case 'mermaid':
+        console.log(graph.toMermaid());
+        break;
+      default:
+        console.log(JSON.stringify(graph.toJson(), undefined, 2));
+        break;
+    }
+  }
+
   private _printList(selection: Set<RushConfigurationProject>): void {
     for (const project of selection) {
       console.log(project.packageName);
@@ -0,0 +1,119 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as path from 'path';
+import { ConsoleTerminalProvider, FileSystem, JsonFile, Path, Terminal } from '@rushstack/node-core-library';
+import { CommandLineChoiceParameter, CommandLineStringParameter } from '@rushstack/ts-command-line';
+import { getRepoRoot } from '@rushstack/package-deps-hash';
+
+import { BaseRushAction } from './BaseRushAction';
+import { RushCommandLineParser } from '../RushCommandLineParser';
+import { Git } from '../../logic/Git';
+import { PnpmShrinkwrapFile } from '../../logic/pnpm/PnpmShrinkwrapFile';
+import { ILockfileDiffJson, PnpmLockfileDiff } from '../../logic/pnpm/PnpmLockfileDiff';
+import { Variants } from '../../api/Variants';
+
+export class LockfileDiffAction extends BaseRushAction {
+  private _targetBranchParameter!: CommandLineStringParameter;
+  private _formatParameter!: CommandLineChoiceParameter;
+  private _outputFileParameter!: CommandLineStringParameter;
+  private _variant!: CommandLineStringParameter;
+
+  public constructor(parser: RushCommandLineParser) {
+    super({
+      actionName: 'lockfile-diff',
+      summary: 'Summarizes the changes to the PNPM lockfile for each project.',
+      documentation:
+        'Compares the shrinkwrap file in the working copy with the version at the merge base of the target ' +
+        'branch, and summarizes the changes for each project: the direct dependencies that were added, ' +
+        'removed or updated, the transitive dependencies that were added or removed, and the packages whose ' +
+        'integrity hash changed. Each transitive change lists the direct dependencies that caused it. ' +
+        'The Markdown output is intended for pull request reviews. This command is only supported for PNPM.',
+      safeForSimultaneousRushProcesses: true,
+      parser
+    });
+  }
+
+  protected onDefineParameters(): void {
+    this._targetBranchParameter = this.defineStringParameter({
+      parameterLongName: '--target-branch',
+      parameterShortName: '-b',
+      argumentName: 'BRANCH',
+      description:
+        'The branch to compare with. The shrinkwrap file is read from the merge base of this branch and the ' +
+        'checked out branch. If this parameter is not specified, the default branch of the remote is used.'
+    });
+    this._formatParameter = this.defineChoiceParameter({
+      parameterLongName: '--format',
+      alternatives: ['markdown', 'json'],
+      defaultValue: 'markdown',
+      description: 'The format of the output.'
+    });
+    this._outputFileParameter = this.defineStringParameter({
+      parameterLongName: '--output-file',
+      argumentName: 'FILE',
+      description:
+        'If this parameter is specified, the output is written to this file instead of the console.'
+    });
+    this._variant = this.defineStringParameter(Variants.VARIANT_PARAMETER);
+  }
+
+  protected async runAsync(): Promise<void> {
+    if (this.rushConfiguration.packageManager !== 'pnpm') {
+      throw new Error('The "rush lockfile-diff" command is only supported for PNPM.');
+    }
+
+    const terminal: Terminal = new Terminal(new ConsoleTerminalProvider());
+    const git: Git = new Git(this.rushConfiguration);
+    const targetBranch: string = this._targetBranchParameter.value || git.getRemoteDefaultBranch();
+    const mergeBase: string = git.getMergeBase(targetBranch, terminal);
+
+    const shrinkwrapFilePath: string = this.rushConfiguration.getCommittedShrinkwrapFilename(
+      this._variant.value
+    );
+    const newShrinkwrapFile: PnpmShrinkwrapFile | undefined = FileSystem.exists(shrinkwrapFilePath)
+      ? PnpmShrinkwrapFile.loadFromFile(shrinkwrapFilePath)
+      : undefined;
+
+    const repoRoot: string = getRepoRoot(this.rushConfiguration.rushJsonFolder);
+    let oldShrinkwrapFile: PnpmShrinkwrapFile | undefined;
+    try {
+      const oldShrinkwrapText: string = git.getBlobContent({
+        // <ref>:<path> syntax: https://git-scm.com/docs/gitrevisions
+        blobSpec: `${mergeBase}:${Path.convertToSlashes(path.relative(repoRoot, shrinkwrapFilePath))}`,
+        repositoryRoot: repoRoot
+      });
+      oldShrinkwrapFile = PnpmShrinkwrapFile.loadFromString(oldShrinkwrapText);
+    } catch (error) {
+      // The shrinkwrap file did not exist at the merge base
+      terminal.writeVerboseLine(`Unable to read the shrinkwrap file at ${mergeBase}: ${error}`);
+    }
+
+    const projectNamesByImporterKey: Map<string, string> = new Map();
+    for (const project of this.rushConfiguration.projects) {
+      projectNamesByImporterKey.set(
+        Path.convertToSlashes(path.relative(this.rushConfiguration.commonTempFolder, project.projectFolder)),
+        project.packageName
+      );
+      projectNamesByImporterKey.set(project.tempProjectName, project.packageName);
+    }
+
+    const diff: ILockfileDiffJson = PnpmLockfileDiff.compare(
+      mergeBase,
+      oldShrinkwrapFile,
+      newShrinkwrapFile,
+      projectNamesByImporterKey
+    );
+
+    const output: string =
+      this._formatParameter.value === 'json' ? JsonFile.stringify(diff) : PnpmLockfileDiff.toMarkdown(diff);
+
+    if (this._outputFileParameter.value) {
+      const outputFilePath: string = path.resolve(this._outputFileParameter.value);
+      FileSystem.writeFile(outputFilePath, output, { ensureFolderExists: true });
+      console.log(`Wrote the lockfile changes of ${diff.projects.length} projects to ${outputFilePath}`);
+    } else {
+      process.stdout.write(output);
+    }
+  }
+}
@@ -13,6 +13,7 @@ import {
 import { FileSystem } from '@rushstack/node-core-library';
 
 import { IChangeInfo, ChangeType } from '../../api/ChangeManagement';
+import { IChangelog } from '../../api/Changelog';
 import { RushConfigurationProject } from '../../api/RushConfigurationProject';
 import { Npm } from '../../utilities/Npm';
 import { RushCommandLineParser } from '../RushCommandLineParser';
@@ -27,6 +28,7 @@ import { VersionPolicy } from '../../api/VersionPolicy';
 import { DEFAULT_PACKAGE_UPDATE_MESSAGE } from './VersionAction';
 import { Utilities } from '../../utilities/Utilities';
 import { Git } from '../../logic/Git';
+import { Event } from '../../api/EventHooks';
 
 export class PublishAction extends BaseRushAction {
   private _addCommitDetails!: CommandLineFlagParameter;
@@ -37,6 +39,7 @@ export class PublishAction extends BaseRushAction {
   private _npmAccessLevel!: CommandLineChoiceParameter;
   private _publish!: CommandLineFlagParameter;
   private _regenerateChangelogs!: CommandLineFlagParameter;
+  private _releaseNotesFolder!: CommandLineStringParameter;
   private _registryUrl!: CommandLineStringParameter;
   private _targetBranch!: CommandLineStringParameter;
   private _prereleaseName!: CommandLineStringParameter;
@@ -49,6 +52,7 @@ export class PublishAction extends BaseRushAction {
   private _releaseFolder!: CommandLineStringParameter;
   private _pack!: CommandLineFlagParameter;
   private _ignoreGitHooksParameter!: CommandLineFlagParameter;
+  private _ignoreHooksParameter!: CommandLineFlagParameter;
 
   private _prereleaseToken!: PrereleaseToken;
   private _hotfixTagOverride!: string;
@@ -96,6 +100,15 @@ export class PublishAction extends BaseRushAction {
       parameterShortName: undefined,
       description: 'Regenerates all changelog files based on the current JSON content.'
     });
+    this._releaseNotesFolder = this.defineStringParameter({
+      parameterLongName: '--release-notes-folder',
+      argumentName: 'FOLDER',
+      description:
+        'If this parameter is specified, release-notes.md and release-notes.json files are written to the ' +
+        'specified folder. They list the new version of each package that is released, with its changes ' +
+        'grouped by change type. Use --add-commit-details to include the author and commit of each change. ' +
+        'This parameter cannot be used with --include-all.'
+    });
 
     // NPM registry related parameters
     this._registryUrl = this.defineStringParameter({
@@ -208,13 +221,31 @@ export class PublishAction extends BaseRushAction {
       parameterLongName: '--ignore-git-hooks',
       description: `Skips execution of all git hooks. Make sure you know what you are skipping.`
     });
+    this._ignoreHooksParameter = this.defineFlagParameter({
+      parameterLongName: '--ignore-hooks',
+      description: `Skips execution of the "eventHooks" scripts defined in rush.json. Make sure you know what you are skipping.`
+    });
   }
 
   /**
    * Executes the publish action, which will read change request files, apply changes to package.jsons,
    */
   protected async runAsync(): Promise<void> {
-    PolicyValidator.validatePolicy(this.rushConfiguration, { bypassPolicy: false });
+    await this.runWithEventHooksAsync(
+      {
+        preEvent: Event.preRushPublish,
+        postEvent: Event.postRushPublish,
+        ignoreHooks: this._ignoreHooksParameter.value,
+        selectedProjects: this.rushConfiguration.projects.filter(
+          (project: RushConfigurationProject) => project.shouldPublish
+        )
+      },
+      async () => await this._publishAsync()
+    );
+  }
+
+  private async _publishAsync(): Promise<void> {
+    await PolicyValidator.validatePolicyAsync(this.rushConfiguration, { bypassPolicy: false });
 
     // Example: "common\temp\publish-home"
     this._targetNpmrcPublishFolder = path.join(this.rushConfiguration.commonTempFolder, 'publish-home');
@@ -263,6 +294,11 @@ export class PublishAction extends BaseRushAction {
     if (this._applyGitTagsOnPack.value && !this._pack.value) {
       throw new Error(`${this._applyGitTagsOnPack.longName} must be used with ${this._pack.longName}`);
     }
+    if (this._releaseNotesFolder.value && this._includeAll.value) {
+      throw new Error(
+        `${this._releaseNotesFolder.longName} cannot be used with ${this._includeAll.longName}`
+      );
+    }
   }
 
   private _publishChanges(
@@ -288,7 +324,7 @@ export class PublishAction extends BaseRushAction {
 
       // Make changes to package.json and change logs.
       changeManager.apply(this._apply.value);
-      changeManager.updateChangelog(this._apply.value);
+      const updatedChangelogs: IChangelog[] = changeManager.updateChangelog(this._apply.value);
 
       this._setDependenciesBeforeCommit();
 
@@ -343,6 +379,15 @@ export class PublishAction extends BaseRushAction {
         publishGit.checkout(this._targetBranch.value!);
         publishGit.deleteBranch(tempBranchName, false, !this._ignoreGitHooksParameter.value);
       }
+
+      // Write the release notes after the changes were committed, in case the folder is in the repo
+      if (this._releaseNotesFolder.value) {
+        ChangelogGenerator.writeReleaseNotes(
+          ChangelogGenerator.createReleaseNotes(updatedChangelogs),
+          path.resolve(this._releaseNotesFolder.value),
+          this.rushConfiguration
+        );
+      }
     }
   }
 
@@ -371,7 +416,13 @@ export class PublishAction extends BaseRushAction {
             return;
           }
 
-          git.addTag(!!this._publish.value, packageName, packageVersion, this._commitId.value, this._prereleaseName.value);
+          git.addTag(
+            !!this._publish.value,
+            packageName,
+            packageVersion,
+            this._commitId.value,
+            this._prereleaseName.value
+          );
           updated = true;
         };
 
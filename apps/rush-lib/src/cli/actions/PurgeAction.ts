@@ -5,15 +5,23 @@ import colors from 'colors/safe';
 import * as os from 'os';
 
 import { CommandLineFlagParameter } from '@rushstack/ts-command-line';
+import { AlreadyReportedError, ConsoleTerminalProvider, Terminal } from '@rushstack/node-core-library';
 
 import { BaseRushAction } from './BaseRushAction';
 import { RushCommandLineParser } from '../RushCommandLineParser';
 import { Stopwatch } from '../../utilities/Stopwatch';
 import { PurgeManager } from '../../logic/PurgeManager';
 import { UnlinkManager } from '../../logic/UnlinkManager';
+import { BuildCacheConfiguration } from '../../api/BuildCacheConfiguration';
+import {
+  FileSystemBuildCacheProvider,
+  IFileSystemBuildCacheTrimResult
+} from '../../logic/buildCache/FileSystemBuildCacheProvider';
+import { Utilities } from '../../utilities/Utilities';
 
 export class PurgeAction extends BaseRushAction {
   private _unsafeParameter!: CommandLineFlagParameter;
+  private _buildCacheParameter!: CommandLineFlagParameter;
 
   public constructor(parser: RushCommandLineParser) {
     super({
@@ -35,11 +43,29 @@ export class PurgeAction extends BaseRushAction {
         ' the ".rush" folder in the user\'s home directory.  This is a more aggressive fix that is' +
         ' NOT SAFE to run in a live environment because it will cause other concurrent Rush processes to fail.'
     });
+    this._buildCacheParameter = this.defineFlagParameter({
+      parameterLongName: '--build-cache',
+      description:
+        'Instead of deleting temporary files, report the size of the local build cache and evict the least' +
+        ' recently used entries until it is within the "localCacheLimits" configured in build-cache.json.'
+    });
   }
 
   protected async runAsync(): Promise<void> {
     const stopwatch: Stopwatch = Stopwatch.start();
 
+    if (this._buildCacheParameter.value) {
+      if (this._unsafeParameter.value) {
+        throw new Error(
+          `The ${this._unsafeParameter.longName} parameter cannot be combined with ` +
+            `${this._buildCacheParameter.longName}.`
+        );
+      }
+
+      await this._trimBuildCacheAsync();
+      return;
+    }
+
     const unlinkManager: UnlinkManager = new UnlinkManager(this.rushConfiguration);
     const purgeManager: PurgeManager = new PurgeManager(this.rushConfiguration, this.rushGlobalFolder);
 
@@ -60,4 +86,42 @@ export class PurgeAction extends BaseRushAction {
         )
     );
   }
+
+  private async _trimBuildCacheAsync(): Promise<void> {
+    const terminal: Terminal = new Terminal(new ConsoleTerminalProvider());
+    const buildCacheConfiguration: BuildCacheConfiguration | undefined =
+      await BuildCacheConfiguration.tryLoadAsync(terminal, this.rushConfiguration, this.rushSession);
+    if (!buildCacheConfiguration) {
+      const configFilePath: string = BuildCacheConfiguration.getBuildCacheConfigFilePath(
+        this.rushConfiguration
+      );
+      terminal.writeErrorLine(
+        `The build cache is not configured. Create the "${configFilePath}" config file to use this command.`
+      );
+      throw new AlreadyReportedError();
+    }
+
+    const localCacheProvider: FileSystemBuildCacheProvider = buildCacheConfiguration.localCacheProvider;
+    const result: IFileSystemBuildCacheTrimResult = await localCacheProvider.trimAsync(terminal);
+    const { entryCount, totalSizeBytes, evictedEntryCount, evictedSizeBytes } = result;
+
+    terminal.writeLine(`Local build cache folder: ${localCacheProvider.cacheFolderPath}`);
+    terminal.writeLine(`  Before: ${entryCount} entries (${Utilities.getByteSizeString(totalSizeBytes)})`);
+    terminal.writeLine(
+      `  Evicted: ${evictedEntryCount} entries (${Utilities.getByteSizeString(evictedSizeBytes)})`
+    );
+    terminal.writeLine(
+      `  After: ${entryCount - evictedEntryCount} entries ` +
+        `(${Utilities.getByteSizeString(totalSizeBytes - evictedSizeBytes)})`
+    );
+
+    if (!localCacheProvider.isEvictionEnabled) {
+      terminal.writeLine();
+      terminal.writeLine(
+        colors.yellow(
+          'No entries were evicted because "localCacheLimits" is not specified in build-cache.json.'
+        )
+      );
+    }
+  }
 }
@@ -0,0 +1,103 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as os from 'os';
+import * as path from 'path';
+
+import { CommandLineIntegerParameter, CommandLineStringParameter } from '@rushstack/ts-command-line';
+import { AlreadyReportedError, ConsoleTerminalProvider, Terminal } from '@rushstack/node-core-library';
+
+import { BaseRushAction } from './BaseRushAction';
+import { RushCommandLineParser } from '../RushCommandLineParser';
+import { BuildCacheConfiguration } from '../../api/BuildCacheConfiguration';
+import { CommandLineConfiguration } from '../../api/CommandLineConfiguration';
+import { EnvironmentVariableNames } from '../../api/EnvironmentConfiguration';
+import { RushConstants } from '../../logic/RushConstants';
+import { RemoteOperationWorker } from '../../logic/operations/RemoteOperationWorker';
+import { RemoteOperationExecutor } from '../../logic/operations/RemoteOperationExecutor';
+
+const DEFAULT_PORT: number = 8910;
+const DEFAULT_HOST: string = '127.0.0.1';
+
+export class RemoteWorkerAction extends BaseRushAction {
+  private _portParameter!: CommandLineIntegerParameter;
+  private _hostParameter!: CommandLineStringParameter;
+  private _parallelismParameter!: CommandLineIntegerParameter;
+
+  public constructor(parser: RushCommandLineParser) {
+    super({
+      actionName: 'remote-worker',
+      summary: 'Starts a worker that executes operations for phased commands on other machines',
+      documentation:
+        'The "rush remote-worker" command starts a server that executes the operations of phased commands' +
+        ` for Rush processes where the ${EnvironmentVariableNames.RUSH_REMOTE_WORKER_URLS} environment` +
+        ' variable is set. The worker must have the same checkout of the repo as the client and must be able to' +
+        ' read and write the same build cache, which is used to transfer the outputs of operations.' +
+        ' The worker does not authenticate clients, so it must only be reachable from a trusted network.',
+      parser
+    });
+  }
+
+  protected onDefineParameters(): void {
+    this._portParameter = this.defineIntegerParameter({
+      parameterLongName: '--port',
+      argumentName: 'PORT',
+      description: `The port to listen on. The default is ${DEFAULT_PORT}.`,
+      defaultValue: DEFAULT_PORT
+    });
+    this._hostParameter = this.defineStringParameter({
+      parameterLongName: '--host',
+      argumentName: 'HOST',
+      description:
+        `The address to listen on. The default is ${DEFAULT_HOST}, which only accepts connections from` +
+        ' this machine.',
+      defaultValue: DEFAULT_HOST
+    });
+    this._parallelismParameter = this.defineIntegerParameter({
+      parameterLongName: '--parallelism',
+      parameterShortName: '-p',
+      argumentName: 'COUNT',
+      description:
+        'The maximum number of operations to execute at the same time. The default is the number of CPU cores.'
+    });
+  }
+
+  protected async runAsync(): Promise<void> {
+    const terminal: Terminal = new Terminal(new ConsoleTerminalProvider());
+
+    const buildCacheConfiguration: BuildCacheConfiguration | undefined =
+      await BuildCacheConfiguration.tryLoadAsync(terminal, this.rushConfiguration, this.rushSession);
+    if (!buildCacheConfiguration?.buildCacheEnabled || !buildCacheConfiguration.cacheWriteEnabled) {
+      terminal.writeErrorLine(
+        'The build cache must be enabled, and writing to it must be allowed, to start a remote worker.'
+      );
+      throw new AlreadyReportedError();
+    }
+
+    const commandLineConfiguration: CommandLineConfiguration = CommandLineConfiguration.loadFromFileOrDefault(
+      path.join(this.rushConfiguration.commonRushConfigFolder, RushConstants.commandLineFilename)
+    );
+
+    const worker: RemoteOperationWorker = new RemoteOperationWorker({
+      executor: new RemoteOperationExecutor({
+        rushConfiguration: this.rushConfiguration,
+        buildCacheConfiguration,
+        phases: commandLineConfiguration.phases,
+        parameters: commandLineConfiguration.parameters
+      }),
+      parallelism: this._parallelismParameter.value ?? os.cpus().length,
+      terminal
+    });
+
+    const url: string = await worker.listenAsync(this._portParameter.value!, this._hostParameter.value!);
+    terminal.writeLine(`The remote worker is listening at ${url}. Press Ctrl+C to stop it.`);
+
+    await new Promise<void>((resolve: () => void) => {
+      process.once('SIGINT', resolve);
+      process.once('SIGTERM', resolve);
+    });
+
+    terminal.writeLine('Stopping the remote worker...');
+    await worker.closeAsync();
+  }
+}
@@ -71,6 +71,7 @@ export class UpdateAction extends BaseInstallAction {
       debug: this.parser.isDebug,
       allowShrinkwrapUpdates: true,
       bypassPolicy: this._bypassPolicyParameter.value!,
+      bypassPolicyAllowed: true,
       noLink: this._noLinkParameter.value!,
       fullUpgrade: this._fullParameter.value!,
       recheckShrinkwrap: this._recheckParameter.value!,
@@ -81,7 +82,8 @@ export class UpdateAction extends BaseInstallAction {
       // it is safe to assume that the value is not null
       maxInstallAttempts: this._maxInstallAttempts.value!,
       pnpmFilterArguments: [],
-      checkOnly: false
+      checkOnly: false,
+      rushPolicies: Array.from(this.rushSession.getPolicies().values())
     };
   }
 }
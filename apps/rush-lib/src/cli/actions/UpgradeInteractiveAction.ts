@@ -0,0 +1,87 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import colors from 'colors/safe';
+import { Import } from '@rushstack/node-core-library';
+import { CommandLineFlagParameter, CommandLineStringParameter } from '@rushstack/ts-command-line';
+
+import { BaseRushAction } from './BaseRushAction';
+import { RushCommandLineParser } from '../RushCommandLineParser';
+import { Variants } from '../../api/Variants';
+
+import type * as PackageJsonUpdaterTypes from '../../logic/PackageJsonUpdater';
+const packageJsonUpdaterModule: typeof PackageJsonUpdaterTypes = Import.lazy(
+  '../../logic/PackageJsonUpdater',
+  require
+);
+
+import type * as InteractiveUpgraderTypes from '../../logic/InteractiveUpgrader';
+const interactiveUpgraderModule: typeof InteractiveUpgraderTypes = Import.lazy(
+  '../../logic/InteractiveUpgrader',
+  require
+);
+
+export class UpgradeInteractiveAction extends BaseRushAction {
+  private _skipUpdateFlag!: CommandLineFlagParameter;
+  private _variant!: CommandLineStringParameter;
+
+  public constructor(parser: RushCommandLineParser) {
+    super({
+      actionName: 'upgrade-interactive',
+      summary: 'Provides an interactive way to upgrade your dependencies.',
+      documentation:
+        'Queries the registry for newer versions of the direct dependencies of all projects, and lists the ' +
+        'outdated dependencies grouped by package. After you select the dependencies to upgrade and the version ' +
+        'of each one, the package.json file of every project that consumes them is updated to the same ' +
+        'version, and then "rush update" is run. The "preferredVersions" and "allowedAlternativeVersions" ' +
+        'from common-versions.json are honored: projects that use an allowed alternative version are not ' +
+        'upgraded, and a preferred version is updated if it does not match the selected version.',
+      safeForSimultaneousRushProcesses: false,
+      parser
+    });
+  }
+
+  protected onDefineParameters(): void {
+    this._skipUpdateFlag = this.defineFlagParameter({
+      parameterLongName: '--skip-update',
+      parameterShortName: '-s',
+      description:
+        'If specified, the "rush update" command will not be run after updating the package.json files.'
+    });
+    this._variant = this.defineStringParameter(Variants.VARIANT_PARAMETER);
+  }
+
+  protected async runAsync(): Promise<void> {
+    const upgrader: InteractiveUpgraderTypes.InteractiveUpgrader =
+      new interactiveUpgraderModule.InteractiveUpgrader(this.rushConfiguration);
+
+    const outdatedDependencies: InteractiveUpgraderTypes.IOutdatedDependency[] =
+      upgrader.findOutdatedDependencies(this._variant.value);
+    console.log();
+
+    if (outdatedDependencies.length === 0) {
+      console.log(colors.green('All dependencies are up to date.'));
+      return;
+    }
+
+    const upgrades: InteractiveUpgraderTypes.IDependencyUpgrade[] = await upgrader.promptForUpgradesAsync(
+      outdatedDependencies
+    );
+    console.log();
+
+    if (upgrades.length === 0) {
+      console.log('No dependencies were selected.');
+      return;
+    }
+
+    const updater: PackageJsonUpdaterTypes.PackageJsonUpdater =
+      new packageJsonUpdaterModule.PackageJsonUpdater(this.rushConfiguration, this.rushGlobalFolder);
+
+    await updater.doRushUpgradeAsync({
+      upgrades,
+      skipUpdate: this._skipUpdateFlag.value,
+      debugInstall: this.parser.isDebug,
+      variant: this._variant.value
+    });
+  }
+}
@@ -8,6 +8,8 @@ import { CommandLineFlagParameter, CommandLineStringParameter } from '@rushstack
 import { BumpType, LockStepVersionPolicy } from '../../api/VersionPolicy';
 import { VersionPolicyConfiguration } from '../../api/VersionPolicyConfiguration';
 import { RushConfiguration } from '../../api/RushConfiguration';
+import type { RushConfigurationProject } from '../../api/RushConfigurationProject';
+import { Event } from '../../api/EventHooks';
 import { VersionMismatchFinder } from '../../logic/versionMismatch/VersionMismatchFinder';
 import { RushCommandLineParser } from '../RushCommandLineParser';
 import { PolicyValidator } from '../../logic/policy/PolicyValidator';
@@ -31,6 +33,7 @@ export class VersionAction extends BaseRushAction {
   private _overwriteBump!: CommandLineStringParameter;
   private _prereleaseIdentifier!: CommandLineStringParameter;
   private _ignoreGitHooksParameter!: CommandLineFlagParameter;
+  private _ignoreHooksParameter!: CommandLineFlagParameter;
 
   public constructor(parser: RushCommandLineParser) {
     super({
@@ -94,10 +97,32 @@ export class VersionAction extends BaseRushAction {
       parameterLongName: '--ignore-git-hooks',
       description: `Skips execution of all git hooks. Make sure you know what you are skipping.`
     });
+    this._ignoreHooksParameter = this.defineFlagParameter({
+      parameterLongName: '--ignore-hooks',
+      description: `Skips execution of the "eventHooks" scripts defined in rush.json. Make sure you know what you are skipping.`
+    });
   }
 
   protected async runAsync(): Promise<void> {
-    PolicyValidator.validatePolicy(this.rushConfiguration, { bypassPolicy: this._bypassPolicy.value });
+    const versionPolicyName: string | undefined = this._versionPolicy.value;
+    await this.runWithEventHooksAsync(
+      {
+        preEvent: Event.preRushVersion,
+        postEvent: Event.postRushVersion,
+        ignoreHooks: this._ignoreHooksParameter.value,
+        selectedProjects: this.rushConfiguration.projects.filter((project: RushConfigurationProject) =>
+          versionPolicyName ? project.versionPolicyName === versionPolicyName : !!project.versionPolicyName
+        )
+      },
+      async () => await this._versionAsync()
+    );
+  }
+
+  private async _versionAsync(): Promise<void> {
+    await PolicyValidator.validatePolicyAsync(this.rushConfiguration, {
+      bypassPolicy: this._bypassPolicy.value,
+      bypassPolicyAllowed: true
+    });
     const git: Git = new Git(this.rushConfiguration);
     const userEmail: string = git.getGitEmail();
 
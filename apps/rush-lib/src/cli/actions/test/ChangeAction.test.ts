@@ -0,0 +1,123 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+jest.mock('@rushstack/package-deps-hash', () => {
+  return {
+    ...jest.requireActual('@rushstack/package-deps-hash'),
+    // The paths of the changed files are relative to the test repo
+    getRepoRoot: (rushJsonFolder: string) => rushJsonFolder
+  };
+});
+
+import '../../test/mockRushCommandLineParser';
+
+import type { IChangeFile } from '../../../api/ChangeManagement';
+import type { RushConfigurationProject } from '../../../api/RushConfigurationProject';
+import { Git, IGitCommit } from '../../../logic/Git';
+import { ProjectChangeAnalyzer } from '../../../logic/ProjectChangeAnalyzer';
+import { RushCommandLineParser } from '../../RushCommandLineParser';
+import { ChangeAction } from '../ChangeAction';
+
+describe(ChangeAction.name, () => {
+  let oldExitCode: number | undefined;
+  let oldArgs: string[];
+
+  beforeEach(() => {
+    jest.spyOn(process, 'exit').mockImplementation();
+    oldExitCode = process.exitCode;
+    oldArgs = process.argv;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    process.exitCode = oldExitCode;
+    process.argv = oldArgs;
+  });
+
+  describe("'change' action with --conventional-commits", () => {
+    it('generates change files from the commit messages', async () => {
+      const startPath: string = `${__dirname}/changeRepo`;
+
+      // Create a Rush CLI instance. This instance is heavy-weight and relies on setting process.exit
+      // to exit and clear the Rush file lock. So running multiple `it` or `describe` test blocks over the same test
+      // repo will fail due to contention over the same lock which is kept until the test runner process
+      // ends.
+      const parser: RushCommandLineParser = new RushCommandLineParser({ cwd: startPath });
+
+      const commits: IGitCommit[] = [
+        {
+          hash: '1111111111111111',
+          message: 'feat(a): add a feature',
+          changedFiles: ['project-a/src/index.ts']
+        },
+        {
+          hash: '2222222222222222',
+          message: 'fix: fix a bug in a and b\n\nThe bug was in both projects.',
+          changedFiles: [
+            'project-a/src/index.ts',
+            'project-b/src/index.ts',
+            'common/config/rush/pnpm-lock.yaml'
+          ]
+        },
+        { hash: '3333333333333333', message: 'chore: an empty commit', changedFiles: [] },
+        { hash: '4444444444444444', message: 'Update the README', changedFiles: ['project-b/README.md'] },
+        // "c" is not published
+        { hash: '5555555555555555', message: 'feat!: change c', changedFiles: ['project-c/src/index.ts'] }
+      ];
+
+      jest.spyOn(Git.prototype, 'getMergeBase').mockReturnValue('0000000000000000');
+      const getCommitsSinceMock: jest.SpyInstance = jest
+        .spyOn(Git.prototype, 'getCommitsSince')
+        .mockReturnValue(commits);
+      jest.spyOn(Git.prototype, 'hasUncommittedChanges').mockReturnValue(false);
+      jest.spyOn(ProjectChangeAnalyzer.prototype, 'getChangedProjectsAsync').mockImplementation(async () => {
+        return new Set(
+          ['a', 'b', 'c'].map((name: string) => parser.rushConfiguration.getProjectByName(name)!)
+        ) as Set<RushConfigurationProject>;
+      });
+      const writeChangeFilesMock: jest.SpyInstance = jest
+        .spyOn(
+          ChangeAction.prototype as unknown as { _writeChangeFiles: () => Promise<void> },
+          '_writeChangeFiles'
+        )
+        .mockResolvedValue();
+      const consoleLogMock: jest.SpyInstance = jest.spyOn(console, 'log').mockImplementation();
+
+      process.argv = [
+        'pretend-this-is-node.exe',
+        'pretend-this-is-rush',
+        'change',
+        '--conventional-commits',
+        '--email',
+        'developer@example.com',
+        '--target-branch',
+        'origin/main'
+      ];
+
+      await expect(parser.execute()).resolves.toEqual(true);
+      expect(getCommitsSinceMock).toHaveBeenCalledWith('0000000000000000');
+      expect(writeChangeFilesMock).toHaveBeenCalledTimes(1);
+
+      const changeFileData: Map<string, IChangeFile> = writeChangeFilesMock.mock.calls[0][1];
+      expect(Array.from(changeFileData.values())).toEqual([
+        {
+          packageName: 'a',
+          email: 'developer@example.com',
+          changes: [
+            { packageName: 'a', type: 'minor', comment: 'add a feature' },
+            { packageName: 'a', type: 'patch', comment: 'fix a bug in a and b' }
+          ]
+        },
+        {
+          packageName: 'b',
+          email: 'developer@example.com',
+          changes: [
+            { packageName: 'b', type: 'patch', comment: 'fix a bug in a and b' },
+            { packageName: 'b', type: 'none', comment: 'Update the README' }
+          ]
+        }
+      ]);
+      expect(consoleLogMock).toHaveBeenCalledWith('    44444444 Update the README');
+    });
+  });
+});
@@ -51,7 +51,8 @@ export abstract class BaseScriptAction<TCommand extends Command> extends BaseRus
             parameterShortName: parameter.shortName,
             parameterLongName: parameter.longName,
             description: parameter.description,
-            required: parameter.required
+            required: parameter.required,
+            environmentVariable: parameter.environmentVariable
           });
           break;
         case 'choice':
@@ -60,6 +61,7 @@ export abstract class BaseScriptAction<TCommand extends Command> extends BaseRus
             parameterLongName: parameter.longName,
             description: parameter.description,
             required: parameter.required,
+            environmentVariable: parameter.environmentVariable,
             alternatives: parameter.alternatives.map((x) => x.name),
             defaultValue: parameter.defaultValue
           });
@@ -70,6 +72,48 @@ export abstract class BaseScriptAction<TCommand extends Command> extends BaseRus
             parameterShortName: parameter.shortName,
             description: parameter.description,
             required: parameter.required,
+            environmentVariable: parameter.environmentVariable,
+            argumentName: parameter.argumentName
+          });
+          break;
+        case 'integer':
+          tsCommandLineParameter = this.defineIntegerParameter({
+            parameterLongName: parameter.longName,
+            parameterShortName: parameter.shortName,
+            description: parameter.description,
+            required: parameter.required,
+            environmentVariable: parameter.environmentVariable,
+            argumentName: parameter.argumentName,
+            defaultValue: parameter.defaultValue
+          });
+          break;
+        case 'stringList':
+          tsCommandLineParameter = this.defineStringListParameter({
+            parameterLongName: parameter.longName,
+            parameterShortName: parameter.shortName,
+            description: parameter.description,
+            required: parameter.required,
+            environmentVariable: parameter.environmentVariable,
+            argumentName: parameter.argumentName
+          });
+          break;
+        case 'choiceList':
+          tsCommandLineParameter = this.defineChoiceListParameter({
+            parameterShortName: parameter.shortName,
+            parameterLongName: parameter.longName,
+            description: parameter.description,
+            required: parameter.required,
+            environmentVariable: parameter.environmentVariable,
+            alternatives: parameter.alternatives.map((x) => x.name)
+          });
+          break;
+        case 'integerList':
+          tsCommandLineParameter = this.defineIntegerListParameter({
+            parameterLongName: parameter.longName,
+            parameterShortName: parameter.shortName,
+            description: parameter.description,
+            required: parameter.required,
+            environmentVariable: parameter.environmentVariable,
             argumentName: parameter.argumentName
           });
           break;
@@ -5,6 +5,7 @@ import * as os from 'os';
 import * as path from 'path';
 import colors from 'colors/safe';
 import type { AsyncSeriesHook } from 'tapable';
+import type { CommandLineFlagParameter } from '@rushstack/ts-command-line';
 
 import { FileSystem, IPackageJson, JsonFile, AlreadyReportedError, Text } from '@rushstack/node-core-library';
 
@@ -12,6 +13,8 @@ import type { IGlobalCommand } from '../../pluginFramework/RushLifeCycle';
 import { BaseScriptAction, IBaseScriptActionOptions } from './BaseScriptAction';
 import { Utilities } from '../../utilities/Utilities';
 import { Autoinstaller } from '../../logic/Autoinstaller';
+import { Event } from '../../api/EventHooks';
+import type { IEventHookContext } from '../../logic/EventHooksManager';
 import type { IGlobalCommandConfig, IShellCommandTokenContext } from '../../api/CommandLineConfiguration';
 
 /**
@@ -36,6 +39,7 @@ export class GlobalScriptAction extends BaseScriptAction<IGlobalCommandConfig> {
   private readonly _shellCommand: string;
   private readonly _autoinstallerName: string;
   private readonly _autoinstallerFullPath: string;
+  private _ignoreHooksParameter!: CommandLineFlagParameter;
 
   public constructor(options: IGlobalScriptActionOptions) {
     super(options);
@@ -90,6 +94,17 @@ export class GlobalScriptAction extends BaseScriptAction<IGlobalCommandConfig> {
   }
 
   public async runAsync(): Promise<void> {
+    await this.runWithEventHooksAsync(
+      {
+        preEvent: Event.preRushCustomCommand,
+        postEvent: Event.postRushCustomCommand,
+        ignoreHooks: this._ignoreHooksParameter.value
+      },
+      async (context: IEventHookContext) => await this._runGlobalCommandAsync(context)
+    );
+  }
+
+  private async _runGlobalCommandAsync(context: IEventHookContext): Promise<void> {
     const { hooks: sessionHooks } = this.rushSession;
     if (sessionHooks.runAnyGlobalCustomCommand.isUsed()) {
       // Avoid the cost of compiling the hook if it wasn't tapped.
@@ -154,6 +169,7 @@ export class GlobalScriptAction extends BaseScriptAction<IGlobalCommandConfig> {
     });
 
     process.exitCode = exitCode;
+    context.exitCode = exitCode;
 
     if (exitCode > 0) {
       console.log(os.EOL + colors.red(`The script failed with exit code ${exitCode}`));
@@ -162,6 +178,11 @@ export class GlobalScriptAction extends BaseScriptAction<IGlobalCommandConfig> {
   }
 
   protected onDefineParameters(): void {
+    this._ignoreHooksParameter = this.defineFlagParameter({
+      parameterLongName: '--ignore-hooks',
+      description: `Skips execution of the "eventHooks" scripts defined in rush.json. Make sure you know what you are skipping.`
+    });
+
     this.defineScriptParameters();
   }
 
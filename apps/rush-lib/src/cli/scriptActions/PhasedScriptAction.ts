@@ -2,6 +2,7 @@
 // See LICENSE in the project root for license information.
 
 import * as os from 'os';
+import * as path from 'path';
 import colors from 'colors/safe';
 import type { AsyncSeriesHook } from 'tapable';
 
@@ -22,18 +23,29 @@ import {
   OperationExecutionManager
 } from '../../logic/operations/OperationExecutionManager';
 import { RushConstants } from '../../logic/RushConstants';
-import { EnvironmentVariableNames } from '../../api/EnvironmentConfiguration';
+import { EnvironmentConfiguration, EnvironmentVariableNames } from '../../api/EnvironmentConfiguration';
 import { LastLinkFlag, LastLinkFlagFactory } from '../../api/LastLinkFlag';
 import { RushConfigurationProject } from '../../api/RushConfigurationProject';
 import { BuildCacheConfiguration } from '../../api/BuildCacheConfiguration';
 import { SelectionParameterSet } from '../SelectionParameterSet';
 import type { IPhase, IPhasedCommandConfig } from '../../api/CommandLineConfiguration';
 import { Operation } from '../../logic/operations/Operation';
+import type {
+  IExecutionResult,
+  IOperationExecutionResult
+} from '../../logic/operations/IOperationExecutionResult';
+import { OperationStatus } from '../../logic/operations/OperationStatus';
 import { PhasedOperationPlugin } from '../../logic/operations/PhasedOperationPlugin';
 import { ShellOperationRunnerPlugin } from '../../logic/operations/ShellOperationRunnerPlugin';
-import { Selection } from '../../logic/Selection';
+import { FailedOperationsTrackingPlugin } from '../../logic/operations/FailedOperationsTrackingPlugin';
+import { BuildCacheEvictionPlugin } from '../../logic/operations/BuildCacheEvictionPlugin';
+import { RemoteOperationClient } from '../../logic/operations/RemoteOperationClient';
+import { OperationTimelinePlugin } from '../../logic/operations/OperationTimelinePlugin';
 import { Event } from '../../api/EventHooks';
 import { ProjectChangeAnalyzer } from '../../logic/ProjectChangeAnalyzer';
+import type { ITelemetryPhaseData } from '../../logic/Telemetry';
+import type { IProjectChangeResult } from '../../logic/ProjectWatcher';
+import type { WatchKeyboardCommand } from '../../logic/WatchKeyboardLoop';
 
 /**
  * Constructor parameters for BulkScriptAction.
@@ -45,6 +57,7 @@ export interface IPhasedScriptActionOptions extends IBaseScriptActionOptions<IPh
 
   initialPhases: Set<IPhase>;
   watchPhases: Set<IPhase>;
+  watchIgnoredGlobs: ReadonlyArray<string>;
   phases: Map<string, IPhase>;
 
   alwaysWatch: boolean;
@@ -58,6 +71,7 @@ interface IRunPhasesOptions {
 }
 
 interface IExecutionOperationsOptions {
+  createOperationsContext: ICreateOperationsContext;
   executionManagerOptions: IOperationExecutionManagerOptions;
   ignoreHooks: boolean;
   operations: Set<Operation>;
@@ -66,6 +80,14 @@ interface IExecutionOperationsOptions {
   terminal: Terminal;
 }
 
+/**
+ * Something that happened while waiting in watch mode: either projects changed, or a key was pressed.
+ */
+interface IWatchEvent {
+  changeResult?: IProjectChangeResult;
+  command?: WatchKeyboardCommand;
+}
+
 /**
  * This class implements phased commands which are run individually for each project in the repo,
  * possibly in parallel, and which may define multiple phases.
@@ -83,6 +105,7 @@ export class PhasedScriptAction extends BaseScriptAction<IPhasedCommandConfig> {
   private readonly _disableBuildCache: boolean;
   private readonly _initialPhases: ReadonlySet<IPhase>;
   private readonly _watchPhases: ReadonlySet<IPhase>;
+  private readonly _watchIgnoredGlobs: ReadonlyArray<string>;
   private readonly _alwaysWatch: boolean;
   private readonly _knownPhases: ReadonlyMap<string, IPhase>;
 
@@ -93,6 +116,7 @@ export class PhasedScriptAction extends BaseScriptAction<IPhasedCommandConfig> {
   private _ignoreHooksParameter!: CommandLineFlagParameter;
   private _watchParameter: CommandLineFlagParameter | undefined;
   private _timelineParameter: CommandLineFlagParameter | undefined;
+  private _timelineTraceParameter: CommandLineStringParameter | undefined;
 
   public constructor(options: IPhasedScriptActionOptions) {
     super(options);
@@ -101,6 +125,7 @@ export class PhasedScriptAction extends BaseScriptAction<IPhasedCommandConfig> {
     this._disableBuildCache = options.disableBuildCache;
     this._initialPhases = options.initialPhases;
     this._watchPhases = options.watchPhases;
+    this._watchIgnoredGlobs = options.watchIgnoredGlobs;
     this._alwaysWatch = options.alwaysWatch;
     this._knownPhases = options.phases;
 
@@ -108,8 +133,15 @@ export class PhasedScriptAction extends BaseScriptAction<IPhasedCommandConfig> {
 
     // Generates the default operation graph
     new PhasedOperationPlugin().apply(this.hooks);
-    // Applies the Shell Operation Runner to selected operations
-    new ShellOperationRunnerPlugin().apply(this.hooks);
+    // Applies the Shell Operation Runner to selected operations, running them on remote workers if configured
+    const remoteWorkerUrls: ReadonlyArray<string> | undefined = EnvironmentConfiguration.remoteWorkerUrls;
+    new ShellOperationRunnerPlugin(
+      remoteWorkerUrls?.length ? new RemoteOperationClient(remoteWorkerUrls) : undefined
+    ).apply(this.hooks);
+    // Records failed operations for the "phase-failed:" selector
+    new FailedOperationsTrackingPlugin().apply(this.hooks);
+    // Trims the local build cache to the configured limits
+    new BuildCacheEvictionPlugin(this.rushSession.terminalProvider).apply(this.hooks);
   }
 
   public async runAsync(): Promise<void> {
@@ -125,8 +157,6 @@ export class PhasedScriptAction extends BaseScriptAction<IPhasedCommandConfig> {
       }
     }
 
-    this._doBeforeTask();
-
     const stopwatch: Stopwatch = Stopwatch.start();
 
     const { hooks: sessionHooks } = this.rushSession;
@@ -149,7 +179,15 @@ export class PhasedScriptAction extends BaseScriptAction<IPhasedCommandConfig> {
     // if parallelism is not enabled, then restrict to 1 core
     const parallelism: string | undefined = this._enableParallelism ? this._parallelismParameter!.value : '1';
 
-    const showTimeline: boolean = this._timelineParameter ? this._timelineParameter.value : false;
+    const timelineTraceFilePath: string | undefined = this._timelineTraceParameter?.value;
+    const showTimeline: boolean = this._timelineParameter?.value || !!timelineTraceFilePath;
+    if (showTimeline) {
+      // Writes the timeline files after the operations have executed
+      new OperationTimelinePlugin({
+        terminalProvider: this.rushSession.terminalProvider,
+        chromeTraceFilePath: timelineTraceFilePath ? path.resolve(timelineTraceFilePath) : undefined
+      }).apply(this.hooks);
+    }
 
     const changedProjectsOnly: boolean = this._isIncrementalBuildAllowed && this._changedProjectsOnly.value;
 
@@ -171,6 +209,8 @@ export class PhasedScriptAction extends BaseScriptAction<IPhasedCommandConfig> {
       return;
     }
 
+    this._doBeforeTask(projectSelection);
+
     const isWatch: boolean = this._watchParameter?.value || this._alwaysWatch;
 
     const customParametersByName: Map<string, CommandLineParameter> = new Map();
@@ -205,7 +245,8 @@ export class PhasedScriptAction extends BaseScriptAction<IPhasedCommandConfig> {
       terminal
     };
 
-    await this._runInitialPhases(internalOptions);
+    const initialOperationResults: ReadonlyMap<Operation, IOperationExecutionResult> =
+      await this._runInitialPhases(internalOptions);
 
     if (isWatch) {
       if (buildCacheConfiguration) {
@@ -213,11 +254,13 @@ export class PhasedScriptAction extends BaseScriptAction<IPhasedCommandConfig> {
         buildCacheConfiguration.cacheWriteEnabled = false;
       }
 
-      await this._runWatchPhases(internalOptions);
+      await this._runWatchPhases(internalOptions, initialOperationResults);
     }
   }
 
-  private async _runInitialPhases(options: IRunPhasesOptions): Promise<void> {
+  private async _runInitialPhases(
+    options: IRunPhasesOptions
+  ): Promise<ReadonlyMap<Operation, IOperationExecutionResult>> {
     const { initialCreateOperationsContext, executionManagerOptions, stopwatch, terminal } = options;
 
     const operations: Set<Operation> = await this.hooks.createOperations.promise(
@@ -228,6 +271,7 @@ export class PhasedScriptAction extends BaseScriptAction<IPhasedCommandConfig> {
     const { isWatch } = initialCreateOperationsContext;
 
     const initialOptions: IExecutionOperationsOptions = {
+      createOperationsContext: initialCreateOperationsContext,
       ignoreHooks: false,
       operations,
       stopwatch,
@@ -236,82 +280,119 @@ export class PhasedScriptAction extends BaseScriptAction<IPhasedCommandConfig> {
       terminal
     };
 
-    await this._executeOperations(initialOptions);
+    return await this._executeOperations(initialOptions);
   }
 
   /**
    * Runs the command in watch mode. Fundamentally is a simple loop:
-   * 1) Wait for a change to one or more projects in the selection
+   * 1) Wait for a change to one or more projects in the selection, or for a keyboard command
    * 2) Invoke the command on the changed projects, and, if applicable, impacted projects
    *    Uses the same algorithm as --impacted-by
    * 3) Goto (1)
+   *
+   * If STDIN is a TTY, the developer can also force a full rebuild, rerun failed operations,
+   * toggle verbose output, or pause watching. Projects that change while watching is paused are
+   * queued, and are processed when watching is resumed.
    */
-  private async _runWatchPhases(options: IRunPhasesOptions): Promise<void> {
+  private async _runWatchPhases(
+    options: IRunPhasesOptions,
+    initialOperationResults: ReadonlyMap<Operation, IOperationExecutionResult>
+  ): Promise<void> {
     const { initialCreateOperationsContext, executionManagerOptions, stopwatch, terminal } = options;
 
     const phaseSelection: Set<IPhase> = new Set(this._watchPhases);
 
-    const { projectChangeAnalyzer: initialState, projectSelection: projectsToWatch } =
-      initialCreateOperationsContext;
+    const {
+      projectChangeAnalyzer: initialState,
+      projectSelection: projectsToWatch,
+      isIncrementalBuildAllowed
+    } = initialCreateOperationsContext;
 
     // Use async import so that we don't pay the cost for sync builds
     const { ProjectWatcher } = await import('../../logic/ProjectWatcher');
+    const { WatchKeyboardLoop } = await import('../../logic/WatchKeyboardLoop');
+    const { WatchState } = await import('../../logic/WatchState');
 
     const projectWatcher: typeof ProjectWatcher.prototype = new ProjectWatcher({
       debounceMilliseconds: 1000,
       rushConfiguration: this.rushConfiguration,
       projectsToWatch,
       terminal,
-      initialState
+      initialState,
+      ignoredGlobs: this._watchIgnoredGlobs
     });
 
+    // Keyboard commands are only available if a developer is at the terminal
+    const keyboardLoop: typeof WatchKeyboardLoop.prototype | undefined = process.stdin.isTTY
+      ? new WatchKeyboardLoop()
+      : undefined;
+
+    let latestState: ProjectChangeAnalyzer = initialState;
+    const watchState: typeof WatchState.prototype = new WatchState({
+      projectsToWatch,
+      watchPhases: phaseSelection,
+      isVerbose: this._verboseParameter.value
+    });
+    watchState.recordResults(projectsToWatch, initialOperationResults);
+
+    const writeProjectNames = (projects: ReadonlySet<RushConfigurationProject>): void => {
+      const names: string[] = [...projects].map((x) => x.packageName).sort();
+      for (const name of names) {
+        terminal.writeLine(`    ${colors.cyan(name)}`);
+      }
+    };
+
     const onWaitingForChanges = (): void => {
       // Allow plugins to display their own messages when waiting for changes.
       this.hooks.waitingForChanges.call();
 
+      const projectCount: string = `${projectsToWatch.size} ${
+        projectsToWatch.size === 1 ? 'project' : 'projects'
+      }`;
+      const exitHint: string = keyboardLoop
+        ? 'Press "h" for help or Ctrl+C to exit.'
+        : 'Press Ctrl+C to exit.';
+
       // Report so that the developer can always see that it is in watch mode as the latest console line.
-      terminal.writeLine(
-        `Watching for changes to ${projectsToWatch.size} ${
-          projectsToWatch.size === 1 ? 'project' : 'projects'
-        }. Press Ctrl+C to exit.`
-      );
+      if (watchState.isPaused) {
+        terminal.writeLine(
+          colors.yellow(`Watching is paused. Changes to ${projectCount} will be queued. `) +
+            'Press "p" to resume or Ctrl+C to exit.'
+        );
+      } else {
+        terminal.writeLine(`Watching for changes to ${projectCount}. ${exitHint}`);
+      }
     };
 
-    // Loop until Ctrl+C
-    // eslint-disable-next-line no-constant-condition
-    while (true) {
-      // On the initial invocation, this promise will return immediately with the full set of projects
-      const { changedProjects, state } = await projectWatcher.waitForChange(onWaitingForChanges);
-
+    const runAsync = async (
+      projectSelection: Set<RushConfigurationProject>,
+      isIncrementalBuildAllowedForRun: boolean
+    ): Promise<void> => {
       if (stopwatch.state === StopwatchState.Stopped) {
         // Clear and reset the stopwatch so that we only report time from a single execution at a time
         stopwatch.reset();
         stopwatch.start();
       }
 
-      terminal.writeLine(
-        `Detected changes in ${changedProjects.size} project${changedProjects.size === 1 ? '' : 's'}:`
-      );
-      const names: string[] = [...changedProjects].map((x) => x.packageName).sort();
-      for (const name of names) {
-        terminal.writeLine(`    ${colors.cyan(name)}`);
-      }
+      terminal.writeLine(`Queued ${projectSelection.size} project${projectSelection.size === 1 ? '' : 's'}:`);
+      writeProjectNames(projectSelection);
 
-      // Account for consumer relationships
-      const projectSelection: Set<RushConfigurationProject> = Selection.intersection(
-        Selection.expandAllConsumers(changedProjects),
-        projectsToWatch
-      );
-
-      const operations: Set<Operation> = await this.hooks.createOperations.promise(new Set(), {
+      const createOperationsContext: ICreateOperationsContext = {
         ...initialCreateOperationsContext,
+        isIncrementalBuildAllowed: isIncrementalBuildAllowedForRun,
         isInitial: false,
-        projectChangeAnalyzer: state,
+        projectChangeAnalyzer: latestState,
         projectSelection,
         phaseSelection
-      });
+      };
+
+      const operations: Set<Operation> = await this.hooks.createOperations.promise(
+        new Set(),
+        createOperationsContext
+      );
 
       const executeOptions: IExecutionOperationsOptions = {
+        createOperationsContext,
         // For now, don't run pre-build or post-build in watch mode
         ignoreHooks: true,
         operations,
@@ -321,15 +402,130 @@ export class PhasedScriptAction extends BaseScriptAction<IPhasedCommandConfig> {
         terminal
       };
 
+      let operationResults: ReadonlyMap<Operation, IOperationExecutionResult> | undefined;
       try {
         // Delegate the the underlying command, for only the projects that need reprocessing
-        await this._executeOperations(executeOptions);
+        operationResults = await this._executeOperations(executeOptions);
       } catch (err) {
         // In watch mode, we want to rebuild even if the original build failed.
         if (!(err instanceof AlreadyReportedError)) {
           throw err;
         }
       }
+
+      if (operationResults) {
+        watchState.recordResults(projectSelection, operationResults);
+      }
+    };
+
+    const runQueuedAsync = async (): Promise<void> => {
+      await runAsync(watchState.dequeueProjects(), isIncrementalBuildAllowed);
+    };
+
+    const runCommandAsync = async (command: WatchKeyboardCommand): Promise<void> => {
+      switch (command) {
+        case 'build-all': {
+          terminal.writeLine('Rebuilding all watched projects.');
+          // Everything is rebuilt from the latest state, so queued changes are covered too
+          watchState.dequeueProjects();
+          await runAsync(new Set(projectsToWatch), false);
+          break;
+        }
+
+        case 'build-failed': {
+          if (watchState.failedProjects.size === 0) {
+            terminal.writeLine('There are no failed operations to rerun.');
+          } else {
+            terminal.writeLine('Rerunning failed operations.');
+            await runAsync(new Set(watchState.failedProjects), isIncrementalBuildAllowed);
+          }
+          break;
+        }
+
+        case 'toggle-verbose': {
+          const isVerbose: boolean = watchState.toggleVerbose();
+          executionManagerOptions.quietMode = !isVerbose;
+          terminal.writeLine(`Verbose output is ${isVerbose ? 'on' : 'off'}.`);
+          break;
+        }
+
+        case 'toggle-pause': {
+          if (watchState.togglePause()) {
+            terminal.writeLine('Paused watching.');
+          } else {
+            terminal.writeLine('Resumed watching.');
+            if (watchState.queuedProjects.size > 0) {
+              await runQueuedAsync();
+            }
+          }
+          break;
+        }
+
+        default: {
+          // This should be impossible
+          throw new InternalError(`Unknown watch command: ${command}`);
+        }
+      }
+    };
+
+    let changePromise: Promise<IProjectChangeResult> | undefined;
+    let commandPromise: Promise<WatchKeyboardCommand> | undefined;
+
+    keyboardLoop?.start();
+    try {
+      // Loop until Ctrl+C
+      // eslint-disable-next-line no-constant-condition
+      while (true) {
+        // On the initial invocation, this promise will return immediately with the full set of projects
+        changePromise ??= projectWatcher.waitForChange(onWaitingForChanges);
+        commandPromise ??= keyboardLoop?.waitForCommandAsync();
+
+        const events: Promise<IWatchEvent>[] = [
+          changePromise.then((changeResult: IProjectChangeResult) => ({ changeResult }))
+        ];
+        if (commandPromise) {
+          events.push(commandPromise.then((command: WatchKeyboardCommand) => ({ command })));
+        }
+
+        const { changeResult, command } = await Promise.race(events);
+
+        if (changeResult) {
+          changePromise = undefined;
+
+          const { changedProjects, state } = changeResult;
+          latestState = state;
+
+          terminal.writeLine(
+            `Detected changes in ${changedProjects.size} project${changedProjects.size === 1 ? '' : 's'}:`
+          );
+          writeProjectNames(changedProjects);
+
+          // Account for consumer relationships
+          watchState.queueChangedProjects(changedProjects);
+
+          if (watchState.isPaused) {
+            const { queuedProjects } = watchState;
+            terminal.writeLine(
+              `Queued ${queuedProjects.size} project${
+                queuedProjects.size === 1 ? '' : 's'
+              } until watching is resumed:`
+            );
+            writeProjectNames(queuedProjects);
+          } else {
+            await runQueuedAsync();
+          }
+        } else if (command) {
+          commandPromise = undefined;
+
+          await runCommandAsync(command);
+
+          // The watcher is still waiting from before the command, so it will not report again
+          onWaitingForChanges();
+        }
+      }
+    } finally {
+      await keyboardLoop?.stopAsync();
+      projectWatcher.dispose();
     }
   }
 
@@ -350,11 +546,20 @@ export class PhasedScriptAction extends BaseScriptAction<IPhasedCommandConfig> {
         parameterLongName: '--timeline',
         description:
           'After the build is complete, print additional statistics and CPU usage information,' +
-          ' including an ASCII chart of the start and stop times for each operation.'
+          ' including an ASCII chart of the start and stop times for each operation and the critical path' +
+          ' of dependent operations that determined the total time. The timing of each operation is also' +
+          ` written to "common/temp/${RushConstants.operationTimelineFilename}".`
+      });
+      this._timelineTraceParameter = this.defineStringParameter({
+        parameterLongName: '--timeline-trace',
+        argumentName: 'FILE_PATH',
+        description:
+          'Implies "--timeline", and also writes the timing of each operation to the specified file' +
+          ' in the Chrome trace event format, which can be viewed with chrome://tracing or https://ui.perfetto.dev'
       });
     }
 
-    this._selectionParameters = new SelectionParameterSet(this.rushConfiguration, this, {
+    this._selectionParameters = new SelectionParameterSet(this.rushConfiguration, this.rushSession, this, {
       // Include lockfile processing since this expands the selection, and we need to select
       // at least the same projects selected with the same query to "rush build"
       includeExternalDependencies: true,
@@ -414,14 +619,18 @@ export class PhasedScriptAction extends BaseScriptAction<IPhasedCommandConfig> {
 
   /**
    * Runs a set of operations and reports the results.
+   *
+   * @returns The result of each operation, which in watch mode is returned even if some operations failed
    */
-  private async _executeOperations(options: IExecutionOperationsOptions): Promise<void> {
-    const { executionManagerOptions, ignoreHooks, operations, stopwatch, isWatch, terminal } = options;
-
-    const executionManager: OperationExecutionManager = new OperationExecutionManager(
-      operations,
-      executionManagerOptions
-    );
+  private async _executeOperations(
+    options: IExecutionOperationsOptions
+  ): Promise<ReadonlyMap<Operation, IOperationExecutionResult>> {
+    const { createOperationsContext, ignoreHooks, operations, stopwatch, isWatch, terminal } = options;
+
+    const executionManager: OperationExecutionManager = new OperationExecutionManager(operations, {
+      ...options.executionManagerOptions,
+      ...this._getExecutionHookOptions(createOperationsContext)
+    });
 
     try {
       await executionManager.executeAsync();
@@ -430,7 +639,12 @@ export class PhasedScriptAction extends BaseScriptAction<IPhasedCommandConfig> {
       terminal.writeLine(colors.green(`rush ${this.actionName} (${stopwatch.toString()})`));
 
       if (!ignoreHooks) {
-        this._doAfterTask(stopwatch, true);
+        await this._doAfterTask(
+          stopwatch,
+          true,
+          createOperationsContext.projectSelection,
+          executionManager.operationResults
+        );
       }
     } catch (error) {
       stopwatch.stop();
@@ -450,43 +664,119 @@ export class PhasedScriptAction extends BaseScriptAction<IPhasedCommandConfig> {
       }
 
       if (!ignoreHooks) {
-        this._doAfterTask(stopwatch, false);
+        await this._doAfterTask(
+          stopwatch,
+          false,
+          createOperationsContext.projectSelection,
+          executionManager.operationResults
+        );
       }
 
       if (!isWatch) {
         throw new AlreadyReportedError();
       }
     }
+
+    return executionManager.operationResults;
   }
 
-  private _doBeforeTask(): void {
-    if (
-      this.actionName !== RushConstants.buildCommandName &&
-      this.actionName !== RushConstants.rebuildCommandName
-    ) {
-      // Only collects information for built-in commands like build or rebuild.
-      return;
-    }
+  /**
+   * Adapts the operation lifecycle hooks to the callbacks used by the OperationExecutionManager.
+   * Hooks that have not been tapped are omitted to avoid the cost of invoking them.
+   */
+  private _getExecutionHookOptions(
+    createOperationsContext: ICreateOperationsContext
+  ): Partial<IOperationExecutionManagerOptions> {
+    const {
+      beforeExecuteOperations,
+      onOperationStatusChanged,
+      beforeExecuteOperation,
+      afterExecuteOperation,
+      afterExecuteOperations
+    } = this.hooks;
+
+    return {
+      beforeExecuteOperations: beforeExecuteOperations.isUsed()
+        ? async (records: ReadonlyMap<Operation, IOperationExecutionResult>) => {
+            await beforeExecuteOperations.promise(records, createOperationsContext);
+          }
+        : undefined,
+      onOperationStatusChanged: onOperationStatusChanged.isUsed()
+        ? (record: IOperationExecutionResult) => {
+            onOperationStatusChanged.call(record);
+          }
+        : undefined,
+      beforeExecuteOperation: beforeExecuteOperation.isUsed()
+        ? async (record: IOperationExecutionResult) => {
+            await beforeExecuteOperation.promise(record);
+          }
+        : undefined,
+      afterExecuteOperation: afterExecuteOperation.isUsed()
+        ? async (record: IOperationExecutionResult) => {
+            await afterExecuteOperation.promise(record);
+          }
+        : undefined,
+      afterExecuteOperations: afterExecuteOperations.isUsed()
+        ? async (result: IExecutionResult) => {
+            await afterExecuteOperations.promise(result, createOperationsContext);
+          }
+        : undefined
+    };
+  }
+
+  private get _isBuildCommand(): boolean {
+    return (
+      this.actionName === RushConstants.buildCommandName ||
+      this.actionName === RushConstants.rebuildCommandName
+    );
+  }
 
-    SetupChecks.validate(this.rushConfiguration);
+  private _doBeforeTask(projectSelection: ReadonlySet<RushConfigurationProject>): void {
+    if (this._isBuildCommand) {
+      SetupChecks.validate(this.rushConfiguration);
+    }
 
-    this.eventHooksManager.handle(Event.preRushBuild, this.parser.isDebug, this._ignoreHooksParameter.value);
+    this.eventHooksManager.handle(
+      this._isBuildCommand ? Event.preRushBuild : Event.preRushCustomCommand,
+      this.parser.isDebug,
+      this._ignoreHooksParameter.value,
+      {
+        commandName: this.actionName,
+        selectedProjects: projectSelection
+      }
+    );
   }
 
-  private _doAfterTask(stopwatch: Stopwatch, success: boolean): void {
-    if (
-      this.actionName !== RushConstants.buildCommandName &&
-      this.actionName !== RushConstants.rebuildCommandName
-    ) {
+  private async _doAfterTask(
+    stopwatch: Stopwatch,
+    success: boolean,
+    projectSelection: ReadonlySet<RushConfigurationProject>,
+    operationResults: ReadonlyMap<Operation, IOperationExecutionResult>
+  ): Promise<void> {
+    if (this._isBuildCommand) {
       // Only collects information for built-in commands like build or rebuild.
-      return;
+      this._collectTelemetry(stopwatch, success, operationResults);
+      await this.parser.flushTelemetryAsync();
     }
-    this._collectTelemetry(stopwatch, success);
-    this.parser.flushTelemetry();
-    this.eventHooksManager.handle(Event.postRushBuild, this.parser.isDebug, this._ignoreHooksParameter.value);
+
+    this.eventHooksManager.handle(
+      this._isBuildCommand ? Event.postRushBuild : Event.postRushCustomCommand,
+      this.parser.isDebug,
+      this._ignoreHooksParameter.value,
+      {
+        commandName: this.actionName,
+        selectedProjects: projectSelection,
+        success,
+        durationInSeconds: stopwatch.duration
+      }
+    );
   }
 
-  private _collectTelemetry(stopwatch: Stopwatch, success: boolean): void {
+  private _collectTelemetry(
+    stopwatch: Stopwatch,
+    success: boolean,
+    operationResults: ReadonlyMap<Operation, IOperationExecutionResult>
+  ): void {
     const extraData: Record<string, string> = {
       ...this._selectionParameters.getTelemetry(),
       ...this.getParameterStringMap()
@@ -497,8 +787,55 @@ export class PhasedScriptAction extends BaseScriptAction<IPhasedCommandConfig> {
         name: this.actionName,
         duration: stopwatch.duration,
         result: success ? 'Succeeded' : 'Failed',
+        phases: this._getPhaseTelemetry(operationResults),
         extraData
       });
     }
   }
+
+  private _getPhaseTelemetry(operationResults: ReadonlyMap<Operation, IOperationExecutionResult>): {
+    [phaseName: string]: ITelemetryPhaseData;
+  } {
+    const phases: { [phaseName: string]: ITelemetryPhaseData } = {};
+    // The number of operations of each phase that were either restored from the build cache or executed
+    const cacheableCountByPhase: Map<string, number> = new Map();
+
+    for (const [operation, { status }] of operationResults) {
+      const phaseName: string | undefined = operation.associatedPhase?.name;
+      if (!phaseName) {
+        continue;
+      }
+
+      let phaseData: ITelemetryPhaseData | undefined = phases[phaseName];
+      if (!phaseData) {
+        phaseData = phases[phaseName] = {
+          operationCount: 0,
+          operationCountByStatus: {},
+          cacheHitRate: 0
+        };
+      }
+
+      phaseData.operationCount++;
+      phaseData.operationCountByStatus[status] = (phaseData.operationCountByStatus[status] || 0) + 1;
+
+      switch (status) {
+        case OperationStatus.FromCache:
+        case OperationStatus.Success:
+        case OperationStatus.SuccessWithWarning:
+        case OperationStatus.Flaky:
+        case OperationStatus.Failure: {
+          cacheableCountByPhase.set(phaseName, (cacheableCountByPhase.get(phaseName) || 0) + 1);
+          break;
+        }
+      }
+    }
+
+    for (const [phaseName, cacheableCount] of cacheableCountByPhase) {
+      const phaseData: ITelemetryPhaseData = phases[phaseName];
+      phaseData.cacheHitRate =
+        (phaseData.operationCountByStatus[OperationStatus.FromCache] || 0) / cacheableCount;
+    }
+
+    return phases;
+  }
 }
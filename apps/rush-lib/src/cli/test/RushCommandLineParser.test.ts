@@ -6,6 +6,7 @@ import './mockRushCommandLineParser';
 import { FileSystem, Path } from '@rushstack/node-core-library';
 import { RushCommandLineParser } from '../RushCommandLineParser';
 import { LastLinkFlagFactory } from '../../api/LastLinkFlag';
+import type { ITelemetryData, ITelemetrySink } from '../../logic/Telemetry';
 
 /**
  * See `__mocks__/child_process.js`.
@@ -288,6 +289,35 @@ describe(RushCommandLineParser.name, () => {
       });
     });
 
+    describe('in repo with telemetry enabled', () => {
+      it('flushes the telemetry sinks if the command fails', async () => {
+        const instance: IParserTestInstance = getCommandLineParserInstance(
+          'telemetryAndFailBuildActionRepo',
+          'build'
+        );
+        setSpawnMock({ emitError: false, returnCode: 1 });
+
+        const results: string[] = [];
+        const sink: ITelemetrySink = {
+          onRecord: (telemetryData: Readonly<ITelemetryData>) => results.push(telemetryData.result),
+          flushAsync: jest.fn(async () => {
+            // The records must be sent before Rush exits
+            expect(results).toEqual(['Failed']);
+          })
+        };
+        instance.parser.rushSession.registerTelemetrySink('test', sink);
+
+        const exitCode: number | undefined = process.exitCode;
+        try {
+          await expect(instance.parser.execute()).resolves.toEqual(false);
+        } finally {
+          process.exitCode = exitCode;
+        }
+
+        expect(sink.flushAsync).toHaveBeenCalled();
+      });
+    });
+
     describe("in repo with 'build' command overridden as a global command", () => {
       it(`throws an error when starting Rush`, async () => {
         const repoName: string = 'overrideBuildAsGlobalCommandRepo';
@@ -26,12 +26,15 @@ export {
 
 export { BuildCacheConfiguration } from './api/BuildCacheConfiguration';
 export { GetCacheEntryIdFunction, IGenerateCacheEntryIdOptions } from './logic/buildCache/CacheEntryId';
+export { BuildCacheCompression } from './logic/buildCache/BuildCacheCompression';
+
 export {
   FileSystemBuildCacheProvider,
-  IFileSystemBuildCacheProviderOptions
+  IFileSystemBuildCacheProviderOptions,
+  IFileSystemBuildCacheTrimResult
 } from './logic/buildCache/FileSystemBuildCacheProvider';
 
-export { IPhase } from './api/CommandLineConfiguration';
+export { IPhase, IPhaseRetryPolicy } from './api/CommandLineConfiguration';
 
 export {
   EnvironmentConfiguration,
@@ -58,6 +61,7 @@ export { PackageJsonEditor, PackageJsonDependency, DependencyType } from './api/
 export { RepoStateFile } from './logic/RepoStateFile';
 
 export { LookupByPath } from './logic/LookupByPath';
+export { IEvaluateSelectorOptions, ISelectorParser } from './logic/selectors/ISelectorParser';
 export { EventHooks, Event } from './api/EventHooks';
 
 export { ChangeManager } from './api/ChangeManager';
@@ -78,11 +82,17 @@ export { ILaunchOptions, Rush } from './api/Rush';
 
 export { ExperimentsConfiguration, IExperimentsJson } from './api/ExperimentsConfiguration';
 
-export { ProjectChangeAnalyzer, IGetChangedProjectsOptions } from './logic/ProjectChangeAnalyzer';
+export {
+  ProjectChangeAnalyzer,
+  IGetChangedProjectsOptions,
+  ICommitWithChangedProjects
+} from './logic/ProjectChangeAnalyzer';
 
 export { IOperationRunner, IOperationRunnerContext } from './logic/operations/IOperationRunner';
 export { IOperationOptions, Operation } from './logic/operations/Operation';
 export { OperationStatus } from './logic/operations/OperationStatus';
+export { IExecutionResult, IOperationExecutionResult } from './logic/operations/IOperationExecutionResult';
+export { IStopwatchResult } from './utilities/Stopwatch';
 
 export {
   RushSession,
@@ -106,4 +116,8 @@ export { ILogger } from './pluginFramework/logging/Logger';
 
 export { ICloudBuildCacheProvider } from './logic/buildCache/ICloudBuildCacheProvider';
 
+export { ITelemetryData, ITelemetryPhaseData, ITelemetrySink } from './logic/Telemetry';
+
+export { IRushPolicyContext, IRushPolicyIssue, RushPolicy } from './logic/policy/RushPolicy';
+
 export { ICredentialCacheOptions, ICredentialCacheEntry, CredentialCache } from './logic/CredentialCache';
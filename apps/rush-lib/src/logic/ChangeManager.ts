@@ -117,7 +117,10 @@ export class ChangeManager {
     return updatedPackages;
   }
 
-  public updateChangelog(shouldCommit: boolean): void {
+  /**
+   * Updates the changelogs, and returns the changelogs that were updated.
+   */
+  public updateChangelog(shouldCommit: boolean): IChangelog[] {
     // Do not update changelog or delete the change files for prerelease.
     // Save them for the official release.
     if (!this._prereleaseToken.hasValue) {
@@ -131,6 +134,8 @@ export class ChangeManager {
 
       // Remove the change request files only if "-a" was provided.
       this._changeFiles.deleteAll(shouldCommit, updatedChangelogs);
+      return updatedChangelogs;
     }
+    return [];
   }
 }
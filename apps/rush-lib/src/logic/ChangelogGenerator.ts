@@ -14,8 +14,40 @@ import { RushConfiguration } from '../api/RushConfiguration';
 
 const CHANGELOG_JSON: string = 'CHANGELOG.json';
 const CHANGELOG_MD: string = 'CHANGELOG.md';
+const RELEASE_NOTES_JSON: string = 'release-notes.json';
+const RELEASE_NOTES_MD: string = 'release-notes.md';
 const EOL: string = '\n';
 
+/**
+ * The release-notes.json file format. It describes the packages that were released by a publish run.
+ */
+export interface IReleaseNotesJson {
+  /**
+   * The UTC date when the release notes were generated. (Example: Fri, 02 Dec 2016 22:27:16 GMT)
+   */
+  date: string;
+
+  packages: IReleaseNotesPackageJson[];
+}
+
+/**
+ * Part of the release-notes.json file format. Represents the new version of a package.
+ */
+export interface IReleaseNotesPackageJson {
+  packageName: string;
+  version: string;
+
+  /**
+   * Git tag used to identify the published commit.
+   */
+  tag: string;
+
+  /**
+   * The changes in this version, grouped by the ChangeType string.
+   */
+  comments: IChangeLogEntryComments;
+}
+
 export class ChangelogGenerator {
   /**
    * Updates the appropriate changelogs with the given changes.
@@ -157,6 +189,54 @@ export class ChangelogGenerator {
     return undefined;
   }
 
+  /**
+   * Creates the release notes for a publish run from the changelogs that it updated. Only the newest
+   * entry of each changelog is included.
+   */
+  public static createReleaseNotes(updatedChangelogs: IChangelog[]): IReleaseNotesJson {
+    const packages: IReleaseNotesPackageJson[] = [];
+    for (const changelog of updatedChangelogs) {
+      const entry: IChangeLogEntry | undefined = changelog.entries[0];
+      if (entry) {
+        packages.push({
+          packageName: changelog.name,
+          version: entry.version,
+          tag: entry.tag,
+          comments: entry.comments
+        });
+      }
+    }
+    packages.sort((a: IReleaseNotesPackageJson, b: IReleaseNotesPackageJson) =>
+      a.packageName.localeCompare(b.packageName)
+    );
+
+    return {
+      date: new Date().toUTCString(),
+      packages
+    };
+  }
+
+  /**
+   * Writes the release-notes.json and release-notes.md files to the specified folder.
+   */
+  public static writeReleaseNotes(
+    releaseNotes: IReleaseNotesJson,
+    folderPath: string,
+    rushConfiguration: RushConfiguration
+  ): void {
+    const releaseNotesJsonPath: string = path.join(folderPath, RELEASE_NOTES_JSON);
+    const releaseNotesMarkdownPath: string = path.join(folderPath, RELEASE_NOTES_MD);
+
+    JsonFile.save(releaseNotes, releaseNotesJsonPath, { ensureFolderExists: true });
+    FileSystem.writeFile(
+      releaseNotesMarkdownPath,
+      ChangelogGenerator._translateReleaseNotesToMarkdown(releaseNotes, rushConfiguration),
+      { ensureFolderExists: true }
+    );
+
+    console.log(`${EOL}Wrote release notes to ${releaseNotesMarkdownPath} and ${releaseNotesJsonPath}`);
+  }
+
   /**
    * Loads the changelog json from disk, or creates a new one if there isn't one.
    */
@@ -238,16 +318,107 @@ export class ChangelogGenerator {
     return markdown;
   }
 
+  /**
+   * Translates the given release notes into a markdown string. The changes are listed with the same
+   * headings as in the CHANGELOG.md files, and link to their authors and commits if they are known.
+   */
+  private static _translateReleaseNotesToMarkdown(
+    releaseNotes: IReleaseNotesJson,
+    rushConfiguration: RushConfiguration
+  ): string {
+    const commitUrlPrefix: string | undefined = ChangelogGenerator._getCommitUrlPrefix(rushConfiguration);
+    const getCommentText: (comment: IChangeLogComment) => string = (comment: IChangeLogComment) =>
+      ChangelogGenerator._getReleaseNotesCommentText(comment, commitUrlPrefix);
+
+    let markdown: string = ['# Release Notes', '', releaseNotes.date, '', ''].join(EOL);
+
+    for (const { packageName, version, tag, comments } of releaseNotes.packages) {
+      markdown += `## ${packageName} ${version}${EOL + EOL}`;
+      markdown += `Tag: \`${tag}\`${EOL + EOL}`;
+
+      const project: RushConfigurationProject | undefined = rushConfiguration.getProjectByName(packageName);
+      const isLockstepped: boolean = !!project?.versionPolicy?.isLockstepped;
+
+      let commentsMarkdown: string = '';
+      commentsMarkdown += ChangelogGenerator._getChangeComments(
+        'Breaking changes',
+        comments.major,
+        getCommentText
+      );
+      commentsMarkdown += ChangelogGenerator._getChangeComments(
+        'Minor changes',
+        comments.minor,
+        getCommentText
+      );
+      commentsMarkdown += ChangelogGenerator._getChangeComments('Patches', comments.patch, getCommentText);
+      if (isLockstepped) {
+        commentsMarkdown += ChangelogGenerator._getChangeComments('Updates', comments.none, getCommentText);
+      }
+      if (rushConfiguration.hotfixChangeEnabled) {
+        commentsMarkdown += ChangelogGenerator._getChangeComments(
+          'Hotfixes',
+          comments.hotfix,
+          getCommentText
+        );
+      }
+
+      markdown += commentsMarkdown || `_Version update only_${EOL + EOL}`;
+    }
+
+    return markdown;
+  }
+
+  private static _getReleaseNotesCommentText(
+    comment: IChangeLogComment,
+    commitUrlPrefix: string | undefined
+  ): string {
+    let text: string = comment.comment;
+
+    if (comment.author) {
+      // The author is formatted like "Name <email>"
+      const authorMatch: RegExpMatchArray | null = comment.author.match(/^(.*?)\s*<([^<>]+)>$/);
+      text += authorMatch
+        ? ` by [${authorMatch[1] || authorMatch[2]}](mailto:${authorMatch[2]})`
+        : ` by ${comment.author}`;
+    }
+
+    if (comment.commit) {
+      const shortCommit: string = comment.commit.substring(0, 8);
+      text += commitUrlPrefix
+        ? ` in [${shortCommit}](${commitUrlPrefix}${comment.commit})`
+        : ` in ${shortCommit}`;
+    }
+
+    return text;
+  }
+
+  /**
+   * Returns the prefix of the URLs of the commits, if the repository URL from rush.json is a web URL.
+   */
+  private static _getCommitUrlPrefix(rushConfiguration: RushConfiguration): string | undefined {
+    for (const repositoryUrl of rushConfiguration.repositoryUrls) {
+      if (/^https?:\/\//.test(repositoryUrl)) {
+        // Example: "https://github.com/microsoft/rushstack.git" --> "https://github.com/microsoft/rushstack/commit/"
+        return `${repositoryUrl.replace(/(\.git)?\/*$/, '')}/commit/`;
+      }
+    }
+    return undefined;
+  }
+
   /**
    * Helper to return the comments string to be appends to the markdown content.
    */
-  private static _getChangeComments(title: string, commentsArray: IChangeLogComment[] | undefined): string {
+  private static _getChangeComments(
+    title: string,
+    commentsArray: IChangeLogComment[] | undefined,
+    getCommentText: (comment: IChangeLogComment) => string = (comment: IChangeLogComment) => comment.comment
+  ): string {
     let comments: string = '';
 
     if (commentsArray) {
       comments = `### ${title}${EOL + EOL}`;
       commentsArray.forEach((comment) => {
-        comments += `- ${comment.comment}${EOL}`;
+        comments += `- ${getCommentText(comment)}${EOL}`;
       });
       comments += EOL;
     }
@@ -0,0 +1,74 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { ChangeType } from '../api/ChangeManagement';
+
+/**
+ * The parsed header of a commit message that follows the Conventional Commits specification.
+ * See https://www.conventionalcommits.org/en/v1.0.0/
+ */
+export interface IConventionalCommit {
+  /**
+   * The type of the commit, for example "feat" or "fix". It is converted to lowercase.
+   */
+  type: string;
+  scope: string | undefined;
+  /**
+   * The text after the colon in the header.
+   */
+  description: string;
+  /**
+   * True if the header has a "!" after the type or scope, or a footer starts with "BREAKING CHANGE:".
+   */
+  isBreakingChange: boolean;
+}
+
+// Matches headers such as "feat: add a parameter", "fix(parser)!: handle empty input"
+const HEADER_REGEXP: RegExp = /^([a-zA-Z]+)(?:\(([^()]*)\))?(!)?: *(\S.*)$/;
+const BREAKING_CHANGE_FOOTER_REGEXP: RegExp = /^BREAKING[ -]CHANGE: /m;
+
+export class ConventionalCommit {
+  /**
+   * Parses a commit message, returning undefined if its header does not follow the Conventional Commits
+   * specification.
+   */
+  public static tryParse(message: string): IConventionalCommit | undefined {
+    const newlineIndex: number = message.indexOf('\n');
+    const header: string = (newlineIndex < 0 ? message : message.substring(0, newlineIndex)).trim();
+    const body: string = newlineIndex < 0 ? '' : message.substring(newlineIndex + 1);
+
+    const match: RegExpMatchArray | null = header.match(HEADER_REGEXP);
+    if (!match) {
+      return undefined;
+    }
+
+    const [, type, scope, breakingMarker, description] = match;
+    return {
+      type: type.toLowerCase(),
+      scope: scope || undefined,
+      description: description.trim(),
+      isBreakingChange: !!breakingMarker || BREAKING_CHANGE_FOOTER_REGEXP.test(body)
+    };
+  }
+
+  /**
+   * Determines how a commit affects the version number: breaking changes require a major bump,
+   * "feat" commits a minor bump, and "fix" and "perf" commits a patch bump. Other types of commits,
+   * such as "docs" or "chore", do not require a release.
+   */
+  public static getChangeType(commit: IConventionalCommit): ChangeType {
+    if (commit.isBreakingChange) {
+      return ChangeType.major;
+    }
+
+    switch (commit.type) {
+      case 'feat':
+        return ChangeType.minor;
+      case 'fix':
+      case 'perf':
+        return ChangeType.patch;
+      default:
+        return ChangeType.none;
+    }
+  }
+}
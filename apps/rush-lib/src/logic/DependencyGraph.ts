@@ -0,0 +1,173 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import type { RushConfigurationProject } from '../api/RushConfigurationProject';
+import type { IPhase } from '../api/CommandLineConfiguration';
+
+/**
+ * A node of a {@link DependencyGraph}, which is either a project or a phase of a project.
+ */
+export interface IDependencyGraphNode {
+  id: string;
+  project: RushConfigurationProject;
+  phase: IPhase | undefined;
+  dependencies: Set<IDependencyGraphNode>;
+}
+
+/**
+ * The JSON representation of a {@link DependencyGraph}, as an adjacency list.
+ */
+export interface IDependencyGraphJson {
+  nodes: IDependencyGraphNodeJson[];
+}
+
+/**
+ * Part of the {@link IDependencyGraphJson} format.
+ */
+export interface IDependencyGraphNodeJson {
+  id: string;
+  project: string;
+  phase?: string;
+  /**
+   * The IDs of the nodes that this node depends on.
+   */
+  dependencies: string[];
+}
+
+/**
+ * The dependency graph of a set of projects, which can be exported in several formats.
+ * Only the dependencies between the specified projects are included.
+ */
+export class DependencyGraph {
+  private readonly _nodes: IDependencyGraphNode[];
+
+  private constructor(nodes: IDependencyGraphNode[]) {
+    this._nodes = nodes;
+  }
+
+  public get nodes(): ReadonlyArray<IDependencyGraphNode> {
+    return this._nodes;
+  }
+
+  /**
+   * Creates a graph with a node for each project.
+   */
+  public static fromProjects(projects: ReadonlySet<RushConfigurationProject>): DependencyGraph {
+    const nodesByProject: Map<RushConfigurationProject, IDependencyGraphNode> = new Map();
+    for (const project of projects) {
+      nodesByProject.set(project, {
+        id: project.packageName,
+        project,
+        phase: undefined,
+        dependencies: new Set()
+      });
+    }
+
+    for (const [project, node] of nodesByProject) {
+      for (const dependencyProject of project.dependencyProjects) {
+        const dependencyNode: IDependencyGraphNode | undefined = nodesByProject.get(dependencyProject);
+        if (dependencyNode) {
+          node.dependencies.add(dependencyNode);
+        }
+      }
+    }
+
+    return new DependencyGraph(Array.from(nodesByProject.values()));
+  }
+
+  /**
+   * Creates a graph with a node for each phase of each project, in the same way as the operations of
+   * a phased command. Phases that the specified phases depend on are also included.
+   */
+  public static fromPhases(
+    projects: ReadonlySet<RushConfigurationProject>,
+    phases: ReadonlySet<IPhase>
+  ): DependencyGraph {
+    const nodesById: Map<string, IDependencyGraphNode> = new Map();
+
+    function getOrCreateNode(phase: IPhase, project: RushConfigurationProject): IDependencyGraphNode {
+      const id: string = `${project.packageName} (${phase.name})`;
+      let node: IDependencyGraphNode | undefined = nodesById.get(id);
+      if (!node) {
+        node = {
+          id,
+          project,
+          phase,
+          dependencies: new Set()
+        };
+        nodesById.set(id, node);
+
+        for (const dependencyPhase of phase.dependencies.self) {
+          node.dependencies.add(getOrCreateNode(dependencyPhase, project));
+        }
+
+        for (const dependencyPhase of phase.dependencies.upstream) {
+          for (const dependencyProject of project.dependencyProjects) {
+            if (projects.has(dependencyProject)) {
+              node.dependencies.add(getOrCreateNode(dependencyPhase, dependencyProject));
+            }
+          }
+        }
+      }
+      return node;
+    }
+
+    for (const project of projects) {
+      for (const phase of phases) {
+        getOrCreateNode(phase, project);
+      }
+    }
+
+    return new DependencyGraph(Array.from(nodesById.values()));
+  }
+
+  public toJson(): IDependencyGraphJson {
+    return {
+      nodes: this._nodes.map((node: IDependencyGraphNode) => ({
+        id: node.id,
+        project: node.project.packageName,
+        phase: node.phase?.name,
+        dependencies: Array.from(node.dependencies, (dependency: IDependencyGraphNode) => dependency.id)
+      }))
+    };
+  }
+
+  /**
+   * Formats the graph for Graphviz. The edges point from each node to its dependencies.
+   */
+  public toDot(): string {
+    const escape: (id: string) => string = (id: string) => `"${id.replace(/["\\]/g, '\\$&')}"`;
+
+    const lines: string[] = ['digraph dependencies {', '  rankdir=LR;'];
+    for (const node of this._nodes) {
+      lines.push(`  ${escape(node.id)};`);
+    }
+    for (const node of this._nodes) {
+      for (const dependency of node.dependencies) {
+        lines.push(`  ${escape(node.id)} -> ${escape(dependency.id)};`);
+      }
+    }
+    lines.push('}');
+    return lines.join('\n');
+  }
+
+  /**
+   * Formats the graph as a Mermaid flowchart. The edges point from each node to its dependencies.
+   */
+  public toMermaid(): string {
+    // Mermaid node IDs cannot contain characters such as "@" or "/", so the names are used as labels
+    const mermaidIds: Map<IDependencyGraphNode, string> = new Map();
+    const lines: string[] = ['graph LR'];
+    for (const node of this._nodes) {
+      const mermaidId: string = `n${mermaidIds.size}`;
+      mermaidIds.set(node, mermaidId);
+      lines.push(`  ${mermaidId}["${node.id.replace(/"/g, '#quot;')}"]`);
+    }
+    for (const node of this._nodes) {
+      for (const dependency of node.dependencies) {
+        lines.push(`  ${mermaidIds.get(node)} --> ${mermaidIds.get(dependency)}`);
+      }
+    }
+    return lines.join('\n');
+  }
+}
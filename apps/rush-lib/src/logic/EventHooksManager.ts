@@ -2,13 +2,63 @@
 // See LICENSE in the project root for license information.
 
 import * as os from 'os';
+import * as path from 'path';
 import colors from 'colors/safe';
+import { JsonFile } from '@rushstack/node-core-library';
 
 import { EventHooks } from '../api/EventHooks';
-import { Utilities } from '../utilities/Utilities';
+import { IEnvironment, Utilities } from '../utilities/Utilities';
 import { Event } from '../api/EventHooks';
 import { Stopwatch } from '../utilities/Stopwatch';
 import { RushConfiguration } from '../api/RushConfiguration';
+import type { RushConfigurationProject } from '../api/RushConfigurationProject';
+import { RushConstants } from './RushConstants';
+
+/**
+ * Information about the command that caused an event, which is passed to the event hook scripts.
+ */
+export interface IEventHookContext {
+  /**
+   * The name of the Rush command, for example "publish" or the name of a custom command.
+   */
+  commandName: string;
+  /**
+   * The projects that the command operates on, if the command selects projects.
+   */
+  selectedProjects?: Iterable<RushConfigurationProject>;
+  /**
+   * For the events that happen after a command, true if the command succeeded.
+   */
+  success?: boolean;
+  /**
+   * For the events that happen after a command, the exit code of the command. If it is not specified,
+   * the exit code is 0 if the command succeeded, or 1 otherwise.
+   */
+  exitCode?: number;
+  /**
+   * For the events that happen after a command, how long the command took to run, in seconds.
+   */
+  durationInSeconds?: number;
+}
+
+/**
+ * The format of the JSON file whose path is passed to the event hook scripts
+ * in the "RUSH_EVENT_INFO_PATH" environment variable.
+ */
+export interface IEventHookInfoJson {
+  event: string;
+  commandName: string;
+  /**
+   * Undefined if the command does not select projects.
+   */
+  selectedProjects?: {
+    packageName: string;
+    projectRelativeFolder: string;
+  }[];
+  status?: 'success' | 'failure';
+  exitCode?: number;
+  durationInSeconds?: number;
+}
 
 export class EventHooksManager {
   private _rushConfiguration: RushConfiguration;
@@ -21,7 +71,7 @@ export class EventHooksManager {
     this._commonTempFolder = rushConfiguration.commonTempFolder;
   }
 
-  public handle(event: Event, isDebug: boolean, ignoreHooks: boolean): void {
+  public handle(event: Event, isDebug: boolean, ignoreHooks: boolean, context?: IEventHookContext): void {
     if (!this._eventHooks) {
       return;
     }
@@ -33,6 +83,14 @@ export class EventHooksManager {
         return;
       }
 
+      const environment: IEnvironment = {
+        ...process.env,
+        RUSH_EVENT_NAME: Event[event]
+      };
+      if (context) {
+        environment.RUSH_EVENT_INFO_PATH = this._writeEventInfo(event, context);
+      }
+
       const stopwatch: Stopwatch = Stopwatch.start();
       console.log(os.EOL + colors.green(`Executing event hooks for ${Event[event]}`));
       scripts.forEach((script) => {
@@ -44,7 +102,8 @@ export class EventHooksManager {
             handleOutput: !isDebug,
             environmentPathOptions: {
               includeRepoBin: true
-            }
+            },
+            initialEnvironment: environment
           });
         } catch (error) {
           console.error(
@@ -63,4 +122,43 @@ export class EventHooksManager {
       console.log(os.EOL + colors.green(`Event hooks finished. (${stopwatch.toString()})`));
     }
   }
+
+  /**
+   * Writes the file that describes the event to the hook scripts, and returns its path.
+   */
+  private _writeEventInfo(event: Event, context: IEventHookContext): string {
+    const { commandName, selectedProjects, success, exitCode, durationInSeconds } = context;
+
+    const eventInfo: IEventHookInfoJson = {
+      event: Event[event],
+      commandName
+    };
+
+    if (selectedProjects) {
+      eventInfo.selectedProjects = [];
+      for (const project of selectedProjects) {
+        eventInfo.selectedProjects.push({
+          packageName: project.packageName,
+          projectRelativeFolder: project.projectRelativeFolder
+        });
+      }
+    }
+
+    if (success !== undefined) {
+      eventInfo.status = success ? 'success' : 'failure';
+      eventInfo.exitCode = exitCode ?? (success ? 0 : 1);
+    }
+
+    if (durationInSeconds !== undefined) {
+      eventInfo.durationInSeconds = durationInSeconds;
+    }
+
+    const eventInfoPath: string = path.join(
+      this._commonTempFolder,
+      RushConstants.eventHooksFolderName,
+      `${Event[event]}.json`
+    );
+    JsonFile.save(eventInfo, eventInfoPath, { ensureFolderExists: true });
+    return eventInfoPath;
+  }
 }
@@ -0,0 +1,182 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { getGitHashForFiles, getRepoState } from '@rushstack/package-deps-hash';
+import { FileSystem } from '@rushstack/node-core-library';
+
+import { Git } from './Git';
+
+/**
+ * If more paths than this changed at once (e.g. because a different branch was checked out), it is faster
+ * to query Git for the state of the whole repo than to update the paths individually.
+ */
+const MAX_INCREMENTAL_UPDATE_PATH_COUNT: number = 1000;
+
+/**
+ * The number of paths that are passed to a single "git ls-files" invocation, to stay below the
+ * command line length limit.
+ */
+const PATHS_PER_GIT_INVOCATION: number = 100;
+
+/**
+ * An in-memory index of the Git hashes of all files in the repo that are not ignored by .gitignore.
+ *
+ * @remarks
+ * The index is populated once from Git, and then updated incrementally by re-hashing only the paths that
+ * changed. This is much cheaper than recomputing the state of the whole repo, which is what
+ * ProjectChangeAnalyzer does.
+ */
+export class FileHashIndex {
+  /**
+   * The root folder of the Git repo. The keys of the index are relative to this folder.
+   */
+  public readonly rootDir: string;
+
+  private readonly _git: Git;
+  private _hashes: Map<string, string>;
+
+  public constructor(git: Git, rootDir: string) {
+    this._git = git;
+    this.rootDir = rootDir;
+    this._hashes = this._getRepoState();
+  }
+
+  /**
+   * Returns a copy of the index, which is not affected by later updates.
+   */
+  public getSnapshot(): Map<string, string> {
+    return new Map(this._hashes);
+  }
+
+  /**
+   * Updates the index for the specified repo-root-relative paths, which can refer to files or folders
+   * that were created, modified or deleted.
+   *
+   * @returns The paths of the files that were added to the index, removed from the index, or whose hash changed
+   */
+  public update(changedPaths: ReadonlySet<string>): Set<string> {
+    if (changedPaths.size > MAX_INCREMENTAL_UPDATE_PATH_COUNT) {
+      return this.refresh();
+    }
+
+    let newHashes: Map<string, string>;
+    try {
+      const filePaths: string[] = [];
+      const pathsToList: string[] = Array.from(changedPaths);
+      for (let i: number = 0; i < pathsToList.length; i += PATHS_PER_GIT_INVOCATION) {
+        for (const filePath of this._git.getFilesNotIgnored(
+          pathsToList.slice(i, i + PATHS_PER_GIT_INVOCATION),
+          this.rootDir
+        )) {
+          // Files that were deleted are still listed if they are tracked by Git
+          if (FileSystem.exists(`${this.rootDir}/${filePath}`)) {
+            filePaths.push(filePath);
+          }
+        }
+      }
+
+      newHashes = this._hashFiles(filePaths);
+    } catch (error) {
+      // A file may have been deleted after it was listed. Fall back to recomputing everything.
+      return this.refresh();
+    }
+
+    const changedFiles: Set<string> = new Set();
+
+    // If a folder was deleted or changed, the index may contain files under it that no longer exist
+    const changedFolders: Set<string> = new Set();
+    for (const changedPath of changedPaths) {
+      if (!newHashes.has(changedPath)) {
+        if (this._hashes.delete(changedPath)) {
+          changedFiles.add(changedPath);
+        } else if (!this._isExistingFile(changedPath)) {
+          changedFolders.add(changedPath);
+        }
+      }
+    }
+
+    if (changedFolders.size > 0) {
+      for (const filePath of this._hashes.keys()) {
+        if (!newHashes.has(filePath) && FileHashIndex._isUnderAnyFolder(filePath, changedFolders)) {
+          this._hashes.delete(filePath);
+          changedFiles.add(filePath);
+        }
+      }
+    }
+
+    for (const [filePath, hash] of newHashes) {
+      if (this._hashes.get(filePath) !== hash) {
+        this._hashes.set(filePath, hash);
+        changedFiles.add(filePath);
+      }
+    }
+
+    return changedFiles;
+  }
+
+  /**
+   * Returns true if the specified repo-root-relative path, or a folder that contains it, is ignored by .gitignore.
+   * Files under such a path are never added to the index.
+   */
+  public isIgnored(relativePath: string): boolean {
+    return this._git.isPathIgnored(relativePath, this.rootDir);
+  }
+
+  /**
+   * Recomputes the whole index from Git.
+   *
+   * @returns The paths of the files that were added to the index, removed from the index, or whose hash changed
+   */
+  public refresh(): Set<string> {
+    const oldHashes: Map<string, string> = this._hashes;
+    const newHashes: Map<string, string> = this._getRepoState();
+    this._hashes = newHashes;
+
+    const changedFiles: Set<string> = new Set();
+    for (const [filePath, hash] of newHashes) {
+      if (oldHashes.get(filePath) !== hash) {
+        changedFiles.add(filePath);
+      }
+    }
+
+    for (const filePath of oldHashes.keys()) {
+      if (!newHashes.has(filePath)) {
+        changedFiles.add(filePath);
+      }
+    }
+
+    return changedFiles;
+  }
+
+  private _isExistingFile(relativePath: string): boolean {
+    try {
+      return FileSystem.getStatistics(`${this.rootDir}/${relativePath}`).isFile();
+    } catch (error) {
+      if (FileSystem.isNotExistError(error as Error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private _getRepoState(): Map<string, string> {
+    return getRepoState(this.rootDir, this._git.getGitPathOrThrow());
+  }
+
+  private _hashFiles(filePaths: string[]): Map<string, string> {
+    return getGitHashForFiles(filePaths, this.rootDir, this._git.getGitPathOrThrow());
+  }
+
+  private static _isUnderAnyFolder(filePath: string, folders: ReadonlySet<string>): boolean {
+    let slashIndex: number = filePath.lastIndexOf('/');
+    while (slashIndex > 0) {
+      if (folders.has(filePath.slice(0, slashIndex))) {
+        return true;
+      }
+
+      slashIndex = filePath.lastIndexOf('/', slashIndex - 1);
+    }
+
+    return false;
+  }
+}
@@ -28,6 +28,22 @@ export interface IGetBlobOptions {
   repositoryRoot: string;
 }
 
+export interface IGitCommit {
+  hash: string;
+  /**
+   * The full commit message, including the subject line.
+   */
+  message: string;
+  /**
+   * The repo-root-relative paths of the files that were changed by the commit.
+   */
+  changedFiles: string[];
+}
+
+// Separators for the fields of "git log" output, which cannot occur in commit messages or file paths
+const COMMIT_SEPARATOR: string = '\x00';
+const FIELD_SEPARATOR: string = '\x1f';
+
 export class Git {
   private readonly _rushConfiguration: RushConfiguration;
   private _checkedGitPath: boolean = false;
@@ -294,6 +310,43 @@ export class Git {
       }) as string[];
   }
 
+  /**
+   * Gets the non-merge commits that are reachable from HEAD but not from the specified commit,
+   * from oldest to newest.
+   */
+  public getCommitsSince(baseCommit: string): IGitCommit[] {
+    const gitPath: string = this.getGitPathOrThrow();
+    const output: string = this._executeGitCommandAndCaptureOutput(gitPath, [
+      'log',
+      '--no-merges',
+      '--reverse',
+      '--name-only',
+      '--no-renames',
+      `--format=%x00%H%x1f%B%x1f`,
+      `${baseCommit}..HEAD`,
+      '--'
+    ]);
+
+    const commits: IGitCommit[] = [];
+    for (const commitOutput of output.split(COMMIT_SEPARATOR)) {
+      if (!commitOutput) {
+        continue;
+      }
+
+      const [hash, message, filesOutput] = commitOutput.split(FIELD_SEPARATOR);
+      commits.push({
+        hash,
+        message: message.trim(),
+        changedFiles: (filesOutput || '')
+          .split('\n')
+          .map((line) => line.trim())
+          .filter((line) => line.length > 0)
+      });
+    }
+
+    return commits;
+  }
+
   /**
    * Gets the remote default branch that maps to the provided repository url.
    * This method is used by 'Rush change' to find the default remote branch to compare against.
@@ -366,6 +419,60 @@ export class Git {
     }
   }
 
+  /**
+   * Lists the files under the specified repo-root-relative paths that are either tracked by Git,
+   * or untracked and not ignored by .gitignore. The returned paths are relative to the repo root.
+   */
+  public getFilesNotIgnored(paths: ReadonlyArray<string>, repositoryRoot: string): string[] {
+    const gitPath: string = this.getGitPathOrThrow();
+    const output: string = this._executeGitCommandAndCaptureOutput(
+      gitPath,
+      [
+        // Don't treat characters such as "*" in file names as wildcards
+        '--literal-pathspecs',
+        'ls-files',
+        '--cached',
+        '--others',
+        '--exclude-standard',
+        '-z',
+        '--',
+        ...paths
+      ],
+      repositoryRoot
+    );
+
+    // Files with merge conflicts are listed once for each stage
+    return Array.from(new Set(output.split('\0').filter((filePath: string) => filePath.length > 0)));
+  }
+
+  /**
+   * Returns true if the specified repo-root-relative path, or a folder that contains it, is ignored by .gitignore.
+   * Paths that are tracked by Git are never ignored.
+   */
+  public isPathIgnored(relativePath: string, repositoryRoot: string): boolean {
+    const gitPath: string = this.getGitPathOrThrow();
+    const spawnResult: child_process.SpawnSyncReturns<string> = Executable.spawnSync(
+      gitPath,
+      ['check-ignore', '--quiet', '--', relativePath],
+      {
+        currentWorkingDirectory: repositoryRoot
+      }
+    );
+
+    // "git check-ignore" exits with code 1 if the path is not ignored
+    switch (spawnResult.status) {
+      case 0:
+        return true;
+      case 1:
+        return false;
+      default:
+        ensureGitMinimumVersion(gitPath);
+        throw new Error(
+          `"git check-ignore" failed for the path "${relativePath}": ${spawnResult.stderr.trim()}`
+        );
+    }
+  }
+
   public hasUncommittedChanges(): boolean {
     return this.getUncommittedChanges().length > 0;
   }
@@ -0,0 +1,396 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import colors from 'colors/safe';
+import * as semver from 'semver';
+import { Import } from '@rushstack/node-core-library';
+
+import { RushConfiguration } from '../api/RushConfiguration';
+import { RushConfigurationProject } from '../api/RushConfigurationProject';
+import { CommonVersionsConfiguration } from '../api/CommonVersionsConfiguration';
+import { PackageJsonDependency } from '../api/PackageJsonEditor';
+import { Utilities } from '../utilities/Utilities';
+
+import type * as inquirerTypes from 'inquirer';
+const inquirer: typeof inquirerTypes = Import.lazy('inquirer', require);
+
+/**
+ * The versions of a package that are available in the registry.
+ */
+export interface IAvailableVersions {
+  versions: string[];
+  latestVersion: string;
+}
+
+/**
+ * A project that has a direct dependency on a package.
+ */
+export interface IDependencyConsumer {
+  project: RushConfigurationProject;
+  versionSpecifier: string;
+}
+
+/**
+ * A direct dependency for which the registry has a newer version than the consuming projects can install.
+ */
+export interface IOutdatedDependency {
+  packageName: string;
+  /**
+   * The projects that should be upgraded. Projects that use one of the "allowedAlternativeVersions" from
+   * common-versions.json are not included.
+   */
+  consumers: IDependencyConsumer[];
+  /**
+   * The distinct version specifiers that the consumers use, sorted alphabetically.
+   */
+  currentVersionSpecifiers: string[];
+  /**
+   * The oldest of the versions that the current version specifiers resolve to, or undefined if
+   * one of the specifiers does not match any version in the registry.
+   */
+  currentVersion: string | undefined;
+  /**
+   * The version with the "latest" dist-tag.
+   */
+  latestVersion: string;
+  /**
+   * The newest version that has the same major version as the current version, if it is
+   * newer than the current version and older than the latest version.
+   */
+  wantedVersion: string | undefined;
+  /**
+   * The entry for this package in the "preferredVersions" of common-versions.json, if there is one.
+   */
+  preferredVersionSpecifier: string | undefined;
+  /**
+   * The newest version that satisfies the preferred version specifier, if there is one.
+   */
+  preferredVersion: string | undefined;
+  /**
+   * The range prefix ("^", "~" or "") of the most common current version specifier, which is applied to the
+   * version that is selected.
+   */
+  rangePrefix: string;
+}
+
+/**
+ * A dependency upgrade that was selected by the user.
+ */
+export interface IDependencyUpgrade {
+  packageName: string;
+  newVersionSpecifier: string;
+  projects: RushConfigurationProject[];
+}
+
+interface IVersionChoice {
+  name: string;
+  short: string;
+  value: string;
+}
+
+/**
+ * Finds the outdated direct dependencies of the projects in the repo, and asks the user which
+ * versions they should be upgraded to.  The core business logic for "rush upgrade-interactive".
+ */
+export class InteractiveUpgrader {
+  private readonly _rushConfiguration: RushConfiguration;
+
+  public constructor(rushConfiguration: RushConfiguration) {
+    this._rushConfiguration = rushConfiguration;
+  }
+
+  /**
+   * Groups the direct dependencies of the projects by package name. Dependencies on local projects,
+   * dependencies whose specifier is not a SemVer range (e.g. "workspace:*" or a tarball URL), and
+   * dependencies that use one of the allowed alternative versions are skipped.
+   */
+  public static collectDirectDependencies(
+    projects: ReadonlyArray<RushConfigurationProject>,
+    localProjectNames: ReadonlySet<string>,
+    commonVersions: CommonVersionsConfiguration
+  ): Map<string, IDependencyConsumer[]> {
+    const consumersByPackageName: Map<string, IDependencyConsumer[]> = new Map();
+
+    for (const project of projects) {
+      const dependencies: PackageJsonDependency[] = [
+        ...project.packageJsonEditor.dependencyList,
+        ...project.packageJsonEditor.devDependencyList
+      ];
+
+      for (const { name, version } of dependencies) {
+        if (localProjectNames.has(name) && !project.cyclicDependencyProjects.has(name)) {
+          continue;
+        }
+
+        if (semver.validRange(version) === null) {
+          continue;
+        }
+
+        const allowedAlternativeVersions: ReadonlyArray<string> | undefined =
+          commonVersions.allowedAlternativeVersions.get(name);
+        if (allowedAlternativeVersions && allowedAlternativeVersions.indexOf(version) >= 0) {
+          continue;
+        }
+
+        let consumers: IDependencyConsumer[] | undefined = consumersByPackageName.get(name);
+        if (!consumers) {
+          consumers = [];
+          consumersByPackageName.set(name, consumers);
+        }
+        consumers.push({ project, versionSpecifier: version });
+      }
+    }
+
+    return consumersByPackageName;
+  }
+
+  /**
+   * Compares the direct dependencies with the versions that are available in the registry, and returns
+   * the dependencies that can be upgraded, sorted by package name.
+   */
+  public static findOutdatedDependencies(
+    consumersByPackageName: ReadonlyMap<string, IDependencyConsumer[]>,
+    availableVersionsByPackageName: ReadonlyMap<string, IAvailableVersions>,
+    commonVersions: CommonVersionsConfiguration
+  ): IOutdatedDependency[] {
+    const outdatedDependencies: IOutdatedDependency[] = [];
+
+    for (const [packageName, consumers] of consumersByPackageName) {
+      const availableVersions: IAvailableVersions | undefined =
+        availableVersionsByPackageName.get(packageName);
+      if (!availableVersions) {
+        continue;
+      }
+
+      const { versions, latestVersion } = availableVersions;
+      const currentVersionSpecifiers: string[] = Array.from(
+        new Set(consumers.map((consumer: IDependencyConsumer) => consumer.versionSpecifier))
+      ).sort();
+
+      // If the projects use different ranges, the oldest of the resolved versions determines whether
+      // the package is outdated
+      let currentVersion: string | undefined;
+      let hasUnresolvedSpecifier: boolean = false;
+      for (const versionSpecifier of currentVersionSpecifiers) {
+        const resolvedVersion: string | null = semver.maxSatisfying(versions, versionSpecifier);
+        if (resolvedVersion === null) {
+          hasUnresolvedSpecifier = true;
+        } else if (currentVersion === undefined || semver.lt(resolvedVersion, currentVersion)) {
+          currentVersion = resolvedVersion;
+        }
+      }
+
+      if (!hasUnresolvedSpecifier && currentVersion && !semver.lt(currentVersion, latestVersion)) {
+        continue;
+      }
+
+      let wantedVersion: string | undefined;
+      if (currentVersion) {
+        const resolvedWantedVersion: string | null = semver.maxSatisfying(
+          versions,
+          `${semver.major(currentVersion)}.x`
+        );
+        if (
+          resolvedWantedVersion !== null &&
+          semver.gt(resolvedWantedVersion, currentVersion) &&
+          semver.lt(resolvedWantedVersion, latestVersion)
+        ) {
+          wantedVersion = resolvedWantedVersion;
+        }
+      }
+
+      const preferredVersionSpecifier: string | undefined = commonVersions.preferredVersions.get(packageName);
+      const preferredVersion: string | null | undefined =
+        preferredVersionSpecifier !== undefined
+          ? semver.maxSatisfying(versions, preferredVersionSpecifier)
+          : undefined;
+
+      outdatedDependencies.push({
+        packageName,
+        consumers,
+        currentVersionSpecifiers,
+        currentVersion: hasUnresolvedSpecifier ? undefined : currentVersion,
+        latestVersion,
+        wantedVersion,
+        preferredVersionSpecifier,
+        preferredVersion: preferredVersion || undefined,
+        rangePrefix: InteractiveUpgrader._getRangePrefix(consumers)
+      });
+    }
+
+    return outdatedDependencies.sort((a: IOutdatedDependency, b: IOutdatedDependency) =>
+      a.packageName.localeCompare(b.packageName)
+    );
+  }
+
+  /**
+   * Finds the outdated direct dependencies of all projects in the repo by querying the registry.
+   */
+  public findOutdatedDependencies(variant: string | undefined): IOutdatedDependency[] {
+    const commonVersions: CommonVersionsConfiguration = this._rushConfiguration.getCommonVersions(variant);
+    const consumersByPackageName: Map<string, IDependencyConsumer[]> =
+      InteractiveUpgrader.collectDirectDependencies(
+        this._rushConfiguration.projects,
+        new Set(this._rushConfiguration.projectsByName.keys()),
+        commonVersions
+      );
+
+    console.log(`Querying the registry for ${consumersByPackageName.size} packages...`);
+
+    const availableVersionsByPackageName: Map<string, IAvailableVersions> = new Map();
+    for (const packageName of consumersByPackageName.keys()) {
+      const availableVersions: IAvailableVersions | undefined = this._tryGetAvailableVersions(packageName);
+      if (availableVersions) {
+        availableVersionsByPackageName.set(packageName, availableVersions);
+      }
+    }
+
+    return InteractiveUpgrader.findOutdatedDependencies(
+      consumersByPackageName,
+      availableVersionsByPackageName,
+      commonVersions
+    );
+  }
+
+  /**
+   * Asks the user which of the outdated dependencies should be upgraded, and which version each of
+   * them should be upgraded to.
+   */
+  public async promptForUpgradesAsync(
+    outdatedDependencies: IOutdatedDependency[]
+  ): Promise<IDependencyUpgrade[]> {
+    const promptModule: inquirerTypes.PromptModule = inquirer.createPromptModule();
+
+    const { selectedPackageNames }: { selectedPackageNames: string[] } = await promptModule({
+      name: 'selectedPackageNames',
+      type: 'checkbox',
+      message: 'Select the dependencies to upgrade:',
+      pageSize: 20,
+      choices: outdatedDependencies.map((outdatedDependency: IOutdatedDependency) => {
+        const { packageName, currentVersionSpecifiers, latestVersion, consumers } = outdatedDependency;
+        const projectCount: string = consumers.length === 1 ? '1 project' : `${consumers.length} projects`;
+        return {
+          name:
+            `${packageName} ${colors.gray(currentVersionSpecifiers.join(', '))} -> ` +
+            `${colors.green(latestVersion)} ${colors.gray(`(${projectCount})`)}`,
+          short: packageName,
+          value: packageName
+        };
+      })
+    });
+
+    const upgrades: IDependencyUpgrade[] = [];
+    for (const outdatedDependency of outdatedDependencies) {
+      if (selectedPackageNames.indexOf(outdatedDependency.packageName) < 0) {
+        continue;
+      }
+
+      const { newVersionSpecifier }: { newVersionSpecifier: string } = await promptModule({
+        name: 'newVersionSpecifier',
+        type: 'list',
+        message: `Select the version of "${outdatedDependency.packageName}":`,
+        choices: this._getVersionChoices(outdatedDependency)
+      });
+
+      upgrades.push({
+        packageName: outdatedDependency.packageName,
+        newVersionSpecifier,
+        projects: outdatedDependency.consumers.map((consumer: IDependencyConsumer) => consumer.project)
+      });
+    }
+
+    return upgrades;
+  }
+
+  private _getVersionChoices(outdatedDependency: IOutdatedDependency): IVersionChoice[] {
+    const { latestVersion, wantedVersion, preferredVersionSpecifier, preferredVersion, rangePrefix } =
+      outdatedDependency;
+
+    const choices: IVersionChoice[] = [];
+    const addChoice: (version: string, description: string) => void = (
+      version: string,
+      description: string
+    ): void => {
+      const versionSpecifier: string = rangePrefix + version;
+      if (!choices.some((choice: IVersionChoice) => choice.value === versionSpecifier)) {
+        choices.push({
+          name: `${versionSpecifier} ${colors.gray(`(${description})`)}`,
+          short: versionSpecifier,
+          value: versionSpecifier
+        });
+      }
+    };
+
+    // Offer the version that is allowed by common-versions.json first, so that it is the default
+    if (preferredVersion) {
+      addChoice(preferredVersion, `matches the preferred version "${preferredVersionSpecifier}"`);
+    }
+
+    addChoice(latestVersion, 'latest');
+    if (wantedVersion) {
+      addChoice(wantedVersion, 'newest version without breaking changes');
+    }
+
+    return choices;
+  }
+
+  private _tryGetAvailableVersions(packageName: string): IAvailableVersions | undefined {
+    let commandArgs: string[];
+    if (this._rushConfiguration.packageManager === 'yarn') {
+      commandArgs = ['info', packageName, '--json'];
+    } else {
+      commandArgs = ['view', packageName, 'versions', 'dist-tags', '--json'];
+    }
+
+    let packageInfo: { versions: string | string[]; 'dist-tags': Record<string, string> };
+    try {
+      const output: string = Utilities.executeCommandAndCaptureOutput(
+        this._rushConfiguration.packageManagerToolFilename,
+        commandArgs,
+        this._rushConfiguration.commonTempFolder
+      );
+      packageInfo =
+        this._rushConfiguration.packageManager === 'yarn' ? JSON.parse(output).data : JSON.parse(output);
+    } catch (error) {
+      console.log(colors.yellow(`Unable to query the registry for "${packageName}": ${error}`));
+      return undefined;
+    }
+
+    const latestVersion: string | undefined = packageInfo['dist-tags'] && packageInfo['dist-tags'].latest;
+    if (!latestVersion) {
+      return undefined;
+    }
+
+    return {
+      // "npm view" prints a string instead of an array if there is only one version
+      versions: typeof packageInfo.versions === 'string' ? [packageInfo.versions] : packageInfo.versions,
+      latestVersion
+    };
+  }
+
+  private static _getRangePrefix(consumers: IDependencyConsumer[]): string {
+    const countsByPrefix: Map<string, number> = new Map();
+    for (const { versionSpecifier } of consumers) {
+      let prefix: string;
+      if (semver.valid(versionSpecifier)) {
+        prefix = '';
+      } else if (/^\^\d/.test(versionSpecifier)) {
+        prefix = '^';
+      } else {
+        // Use a tilde for other ranges, which is what "rush add" does by default
+        prefix = '~';
+      }
+      countsByPrefix.set(prefix, (countsByPrefix.get(prefix) || 0) + 1);
+    }
+
+    let mostCommonPrefix: string = '~';
+    let mostCommonCount: number = 0;
+    for (const [prefix, count] of countsByPrefix) {
+      if (count > mostCommonCount) {
+        mostCommonPrefix = prefix;
+        mostCommonCount = count;
+      }
+    }
+    return mostCommonPrefix;
+  }
+}
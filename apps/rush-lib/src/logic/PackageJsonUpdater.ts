@@ -17,6 +17,8 @@ import { VersionMismatchFinderEntity } from './versionMismatch/VersionMismatchFi
 import { VersionMismatchFinderProject } from './versionMismatch/VersionMismatchFinderProject';
 import { RushConstants } from './RushConstants';
 import { InstallHelpers } from './installManager/InstallHelpers';
+import { CommonVersionsConfiguration } from '../api/CommonVersionsConfiguration';
+import type { IDependencyUpgrade } from './InteractiveUpgrader';
 
 /**
  * The type of SemVer range specifier that is prepended to the version
@@ -73,6 +75,28 @@ export interface IPackageJsonUpdaterRushAddOptions {
   variant?: string | undefined;
 }
 
+/**
+ * Options for upgrading dependencies across the projects that consume them.
+ */
+export interface IPackageJsonUpdaterRushUpgradeOptions {
+  /**
+   * The dependencies to upgrade, along with the projects whose package.jsons should get updated
+   */
+  upgrades: IDependencyUpgrade[];
+  /**
+   * If specified, "rush update" will not be run after updating the package.json file(s).
+   */
+  skipUpdate: boolean;
+  /**
+   * If specified, "rush update" will be run in debug mode.
+   */
+  debugInstall: boolean;
+  /**
+   * The variant to consider when performing installations and validating shrinkwrap updates.
+   */
+  variant?: string | undefined;
+}
+
 /**
  * Configuration options for adding or updating a dependency in a single project
  */
@@ -126,26 +150,7 @@ export class PackageJsonUpdater {
     const implicitlyPinned: Map<string, string> =
       this._rushConfiguration.getImplicitlyPreferredVersions(variant);
     const purgeManager: PurgeManager = new PurgeManager(this._rushConfiguration, this._rushGlobalFolder);
-    const installManagerOptions: IInstallManagerOptions = {
-      debug: debugInstall,
-      allowShrinkwrapUpdates: true,
-      bypassPolicy: false,
-      noLink: false,
-      fullUpgrade: false,
-      recheckShrinkwrap: false,
-      networkConcurrency: undefined,
-      collectLogFile: false,
-      variant: variant,
-      maxInstallAttempts: RushConstants.defaultMaxInstallAttempts,
-      pnpmFilterArguments: [],
-      checkOnly: false
-    };
-    const installManager: BaseInstallManager = InstallManagerFactory.getInstallManager(
-      this._rushConfiguration,
-      this._rushGlobalFolder,
-      purgeManager,
-      installManagerOptions
-    );
+    const installManager: BaseInstallManager = this._getInstallManager(purgeManager, debugInstall, variant);
 
     console.log();
     const updatePackages: Record<string, string> = {};
@@ -203,9 +208,8 @@ export class PackageJsonUpdater {
 
           // otherwise we need to go update a bunch of other projects
           for (const [packageName, version] of Object.entries(updatePackages)) {
-            const mismatchedVersions: string[] | undefined = mismatchFinder.getVersionsOfMismatch(
-              packageName
-            );
+            const mismatchedVersions: string[] | undefined =
+              mismatchFinder.getVersionsOfMismatch(packageName);
             if (mismatchedVersions) {
               for (const mismatchedVersion of mismatchedVersions) {
                 for (const consumer of mismatchFinder.getConsumersOfMismatch(
@@ -250,6 +254,68 @@ export class PackageJsonUpdater {
     }
   }
 
+  /**
+   * Upgrades dependencies in every project that consumes them. The core business logic for
+   * "rush upgrade-interactive".
+   */
+  public async doRushUpgradeAsync(options: IPackageJsonUpdaterRushUpgradeOptions): Promise<void> {
+    const { upgrades, skipUpdate, debugInstall, variant } = options;
+
+    const commonVersions: CommonVersionsConfiguration = this._rushConfiguration.getCommonVersions(variant);
+    const allPackageUpdates: IUpdateProjectOptions[] = [];
+
+    for (const { packageName, newVersionSpecifier, projects } of upgrades) {
+      console.log(
+        colors.green(`Updating projects to use `) + packageName + '@' + colors.cyan(newVersionSpecifier)
+      );
+
+      for (const project of projects) {
+        const projectUpdate: IUpdateProjectOptions = {
+          project: new VersionMismatchFinderProject(project),
+          updatePackages: { [packageName]: newVersionSpecifier }
+        };
+        this.updateProject(projectUpdate);
+        allPackageUpdates.push(projectUpdate);
+      }
+
+      // Keep the preferred version consistent with the projects, otherwise it would be injected
+      // into the installation and override the upgrade
+      const preferredVersionSpecifier: string | undefined = commonVersions.preferredVersions.get(packageName);
+      const newVersion: semver.SemVer | null = semver.minVersion(newVersionSpecifier);
+      if (
+        preferredVersionSpecifier !== undefined &&
+        newVersion !== null &&
+        !semver.satisfies(newVersion, preferredVersionSpecifier)
+      ) {
+        commonVersions.preferredVersions.set(packageName, newVersionSpecifier);
+      }
+    }
+
+    console.log();
+    for (const { project } of allPackageUpdates) {
+      if (project.saveIfModified()) {
+        console.log(colors.green('Wrote ') + project.filePath);
+      }
+    }
+    if (commonVersions.save()) {
+      console.log(colors.green('Wrote ') + commonVersions.filePath);
+    }
+
+    if (!skipUpdate) {
+      const purgeManager: PurgeManager = new PurgeManager(this._rushConfiguration, this._rushGlobalFolder);
+      const installManager: BaseInstallManager = this._getInstallManager(purgeManager, debugInstall, variant);
+
+      console.log();
+      console.log(colors.green('Running "rush update"'));
+      console.log();
+      try {
+        await installManager.doInstallAsync();
+      } finally {
+        purgeManager.deleteAll();
+      }
+    }
+  }
+
   /**
    * Updates several projects' package.json files
    */
@@ -282,6 +348,33 @@ export class PackageJsonUpdater {
     }
   }
 
+  private _getInstallManager(
+    purgeManager: PurgeManager,
+    debugInstall: boolean,
+    variant: string | undefined
+  ): BaseInstallManager {
+    const installManagerOptions: IInstallManagerOptions = {
+      debug: debugInstall,
+      allowShrinkwrapUpdates: true,
+      bypassPolicy: false,
+      noLink: false,
+      fullUpgrade: false,
+      recheckShrinkwrap: false,
+      networkConcurrency: undefined,
+      collectLogFile: false,
+      variant: variant,
+      maxInstallAttempts: RushConstants.defaultMaxInstallAttempts,
+      pnpmFilterArguments: [],
+      checkOnly: false
+    };
+    return InstallManagerFactory.getInstallManager(
+      this._rushConfiguration,
+      this._rushGlobalFolder,
+      purgeManager,
+      installManagerOptions
+    );
+  }
+
   /**
    * Selects an appropriate version number for a particular package, given an optional initial SemVer spec.
    * If ensureConsistentVersions, tries to pick a version that will be consistent.
@@ -16,7 +16,7 @@ import { Path, InternalError, FileSystem, ITerminal, Async } from '@rushstack/no
 
 import { RushConfiguration } from '../api/RushConfiguration';
 import { RushProjectConfiguration } from '../api/RushProjectConfiguration';
-import { Git } from './Git';
+import { Git, IGitCommit } from './Git';
 import { BaseProjectShrinkwrapFile } from './base/BaseProjectShrinkwrapFile';
 import { RushConfigurationProject } from '../api/RushConfigurationProject';
 import { RushConstants } from './RushConstants';
@@ -45,6 +45,25 @@ export interface IGetChangedProjectsOptions {
   enableFiltering: boolean;
 }
 
+/**
+ * A commit on the current branch, and the projects whose files it changed.
+ * @beta
+ */
+export interface ICommitWithChangedProjects {
+  /**
+   * The hash of the commit.
+   */
+  hash: string;
+  /**
+   * The full commit message, including the subject line.
+   */
+  message: string;
+  /**
+   * The projects that contain files that were changed by the commit.
+   */
+  changedProjects: Set<RushConfigurationProject>;
+}
+
 interface IGitState {
   gitPath: string;
   hashes: Map<string, string>;
@@ -69,12 +88,36 @@ export class ProjectChangeAnalyzer {
   private readonly _projectStateCache: Map<RushConfigurationProject, string> = new Map();
   private readonly _rushConfiguration: RushConfiguration;
   private readonly _git: Git;
+  private _repoState: IGitState | undefined;
 
   public constructor(rushConfiguration: RushConfiguration) {
     this._rushConfiguration = rushConfiguration;
     this._git = new Git(this._rushConfiguration);
   }
 
+  /**
+   * Creates an instance that uses the specified file hashes as the state of the repo, instead of
+   * querying Git for the hashes of all files.
+   *
+   * @param rootDir - The root folder of the Git repo
+   * @param hashes - The Git hashes of the files in the repo, keyed by repo-root-relative path
+   *
+   * @internal
+   */
+  public static _fromRepoState(
+    rushConfiguration: RushConfiguration,
+    rootDir: string,
+    hashes: Map<string, string>
+  ): ProjectChangeAnalyzer {
+    const projectChangeAnalyzer: ProjectChangeAnalyzer = new ProjectChangeAnalyzer(rushConfiguration);
+    projectChangeAnalyzer._repoState = {
+      gitPath: projectChangeAnalyzer._git.getGitPathOrThrow(),
+      hashes,
+      rootDir
+    };
+    return projectChangeAnalyzer;
+  }
+
   /**
    * Try to get a list of the specified project's dependencies and their hashes.
    *
@@ -316,6 +359,37 @@ export class ProjectChangeAnalyzer {
     return changedProjects;
   }
 
+  /**
+   * Gets the commits on the current branch since it diverged from the specified branch, from oldest
+   * to newest, together with the projects that each commit changed. Merge commits are not included.
+   */
+  public getCommitsWithChangedProjects(
+    options: Pick<IGetChangedProjectsOptions, 'targetBranchName' | 'terminal' | 'shouldFetch'>
+  ): ICommitWithChangedProjects[] {
+    const { targetBranchName, terminal, shouldFetch } = options;
+
+    const repoRoot: string = getRepoRoot(this._rushConfiguration.rushJsonFolder);
+    const mergeCommit: string = this._git.getMergeBase(targetBranchName, terminal, shouldFetch);
+    const lookup: LookupByPath<RushConfigurationProject> =
+      this._rushConfiguration.getProjectLookupForRoot(repoRoot);
+
+    return this._git.getCommitsSince(mergeCommit).map((commit: IGitCommit) => {
+      const changedProjects: Set<RushConfigurationProject> = new Set();
+      for (const file of commit.changedFiles) {
+        const project: RushConfigurationProject | undefined = lookup.findChildPath(file);
+        if (project) {
+          changedProjects.add(project);
+        }
+      }
+
+      return {
+        hash: commit.hash,
+        message: commit.message,
+        changedProjects
+      };
+    });
+  }
+
   private _getData(terminal: ITerminal): IRawRepoState {
     const repoState: IGitState | undefined = this._getRepoDeps(terminal);
     if (!repoState) {
@@ -426,6 +500,10 @@ export class ProjectChangeAnalyzer {
   }
 
   private _getRepoDeps(terminal: ITerminal): IGitState | undefined {
+    if (this._repoState) {
+      return this._repoState;
+    }
+
     try {
       if (this._git.isPathUnderGitWorkingTree()) {
         // Load the package deps hash for the whole repository
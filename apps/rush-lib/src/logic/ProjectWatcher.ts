@@ -3,12 +3,17 @@
 
 import * as fs from 'fs';
 import * as os from 'os';
-import { once } from 'events';
+import * as path from 'path';
+import ignore, { Ignore } from 'ignore';
+import { getRepoRoot } from '@rushstack/package-deps-hash';
 import { Path, ITerminal, FileSystemStats, FileSystem } from '@rushstack/node-core-library';
 
 import { ProjectChangeAnalyzer } from './ProjectChangeAnalyzer';
 import { RushConfiguration } from '../api/RushConfiguration';
 import { RushConfigurationProject } from '../api/RushConfigurationProject';
+import { FileHashIndex } from './FileHashIndex';
+import { Git } from './Git';
+import { LookupByPath } from './LookupByPath';
 
 export interface IProjectWatcherOptions {
   debounceMilliseconds?: number;
@@ -16,6 +21,10 @@ export interface IProjectWatcherOptions {
   projectsToWatch: ReadonlySet<RushConfigurationProject>;
   terminal: ITerminal;
   initialState?: ProjectChangeAnalyzer | undefined;
+  /**
+   * Globs of files whose changes are ignored, relative to each project folder, in .gitignore syntax.
+   */
+  ignoredGlobs?: ReadonlyArray<string>;
 }
 
 export interface IProjectChangeResult {
@@ -32,9 +41,13 @@ export interface IProjectChangeResult {
 /**
  * This class is for incrementally watching a set of projects in the repository for changes.
  *
- * We are manually using fs.watch() instead of `chokidar` because all we want from the file system watcher is a boolean
- * signal indicating that "at least 1 file in a watched project changed". We then defer to ProjectChangeAnalyzer (which
- * is responsible for change detection in all incremental builds) to determine what actually chanaged.
+ * We are manually using fs.watch() instead of `chokidar` because all we want from the file system watcher is the
+ * list of paths that changed. The watchers are started the first time `waitForChange()` is invoked and stay active
+ * for the lifetime of the object, so that changes made while a build is running are not missed. The changed paths
+ * are re-hashed to update an in-memory index of the Git hashes of all files (see FileHashIndex), which is much
+ * cheaper than recomputing the state of the whole repo. Folders that are ignored by .gitignore, such as build
+ * outputs, are not watched, and changes under them are dropped. ProjectChangeAnalyzer (which is responsible for
+ * change detection in all incremental builds) is then used to determine what actually changed.
  *
  * Calling `waitForChange()` will return a promise that resolves when the package-deps of one or
  * more projects differ from the value the previous time it was invoked. The first time will always resolve with the full selection.
@@ -44,17 +57,47 @@ export class ProjectWatcher {
   private readonly _rushConfiguration: RushConfiguration;
   private readonly _projectsToWatch: ReadonlySet<RushConfigurationProject>;
   private readonly _terminal: ITerminal;
+  private readonly _ignoreMatcher: Ignore | undefined;
+
+  // Node 12 supports the "recursive" parameter to fs.watch only on win32 and OSX
+  // https://nodejs.org/docs/latest-v12.x/api/fs.html#fs_caveats
+  private readonly _useNativeRecursiveWatch: boolean =
+    os.platform() === 'win32' || os.platform() === 'darwin';
 
   private _initialState: ProjectChangeAnalyzer | undefined;
   private _previousState: ProjectChangeAnalyzer | undefined;
 
+  private _fileHashIndex: FileHashIndex | undefined;
+  private _projectLookup: LookupByPath<RushConfigurationProject> | undefined;
+  /**
+   * The repo-root-relative folder of each project
+   */
+  private readonly _projectKeys: Map<RushConfigurationProject, string> = new Map();
+
+  /**
+   * The watchers, keyed by the repo-root-relative path that they watch
+   */
+  private readonly _watchers: Map<string, fs.FSWatcher> = new Map();
+  /**
+   * Whether each repo-root-relative folder that was reported by a watcher is ignored by .gitignore
+   */
+  private readonly _isIgnoredFolderByPath: Map<string, boolean> = new Map();
+  /**
+   * The repo-root-relative paths that changed since they were last applied to the file hash index
+   */
+  private _pendingPaths: Set<string> = new Set();
+  private _changeCount: number = 0;
+  private _watcherError: Error | undefined;
+  private _onChange: (() => void) | undefined;
+
   public constructor(options: IProjectWatcherOptions) {
     const {
       debounceMilliseconds = 1000,
       rushConfiguration,
       projectsToWatch,
       terminal,
-      initialState
+      initialState,
+      ignoredGlobs
     } = options;
 
     this._debounceMilliseconds = debounceMilliseconds;
@@ -62,6 +105,11 @@ export class ProjectWatcher {
     this._projectsToWatch = projectsToWatch;
     this._terminal = terminal;
 
+    if (ignoredGlobs && ignoredGlobs.length) {
+      this._ignoreMatcher = ignore();
+      this._ignoreMatcher.add(ignoredGlobs as string[]);
+    }
+
     this._initialState = initialState;
     this._previousState = initialState;
   }
@@ -72,174 +120,90 @@ export class ProjectWatcher {
    * If no change is currently present, watches the source tree of all selected projects for file changes.
    */
   public async waitForChange(onWatchingFiles?: () => void): Promise<IProjectChangeResult> {
-    const initialChangeResult: IProjectChangeResult = await this._computeChanged();
-    // Ensure that the new state is recorded so that we don't loop infinitely
-    this._commitChanges(initialChangeResult.state);
-    if (initialChangeResult.changedProjects.size) {
-      return initialChangeResult;
-    }
+    if (!this._fileHashIndex) {
+      const git: Git = new Git(this._rushConfiguration);
+      const rootDir: string = getRepoRoot(this._rushConfiguration.rushJsonFolder, git.getGitPathOrThrow());
+      this._fileHashIndex = new FileHashIndex(git, rootDir);
+      this._projectLookup = this._rushConfiguration.getProjectLookupForRoot(rootDir);
 
-    const previousState: ProjectChangeAnalyzer = initialChangeResult.state;
-    const repoRoot: string = Path.convertToSlashes(this._rushConfiguration.rushJsonFolder);
-
-    const pathsToWatch: Set<string> = new Set();
+      const initialChangeResult: IProjectChangeResult = await this._computeChanged(this._projectsToWatch);
+      // Ensure that the new state is recorded so that we don't loop infinitely
+      this._commitChanges(initialChangeResult.state);
 
-    // Node 12 supports the "recursive" parameter to fs.watch only on win32 and OSX
-    // https://nodejs.org/docs/latest-v12.x/api/fs.html#fs_caveats
-    const useNativeRecursiveWatch: boolean = os.platform() === 'win32' || os.platform() === 'darwin';
+      await this._startWatchingAsync(initialChangeResult.state);
 
-    for (const project of this._projectsToWatch) {
-      const projectState: Map<string, string> = (await previousState._tryGetProjectDependenciesAsync(
-        project,
-        this._terminal
-      ))!;
-      const projectFolder: string = project.projectRelativeFolder;
-      // Watch files in the root of the project, or
-      for (const fileName of projectState.keys()) {
-        for (const pathToWatch of ProjectWatcher._enumeratePathsToWatch(
-          fileName,
-          projectFolder,
-          useNativeRecursiveWatch
-        )) {
-          pathsToWatch.add(`${repoRoot}/${pathToWatch}`);
-        }
+      if (initialChangeResult.changedProjects.size) {
+        return initialChangeResult;
       }
     }
 
-    const watchers: Map<string, fs.FSWatcher> = new Map();
+    let hasReportedWatching: boolean = false;
 
-    const watchedResult: IProjectChangeResult = await new Promise(
-      (resolve: (result: IProjectChangeResult) => void, reject: (err: Error) => void) => {
-        let timeout: NodeJS.Timeout | undefined;
-        let terminated: boolean = false;
+    // eslint-disable-next-line no-constant-condition
+    while (true) {
+      this._throwIfWatcherFailed();
 
-        const resolveIfChanged = async (): Promise<void> => {
-          timeout = undefined;
-          if (terminated) {
-            return;
-          }
+      if (this._pendingPaths.size === 0) {
+        if (onWatchingFiles && !hasReportedWatching) {
+          onWatchingFiles();
+          hasReportedWatching = true;
+        }
 
-          try {
-            const result: IProjectChangeResult = await this._computeChanged();
-
-            // Need an async tick to allow for more file system events to be handled
-            process.nextTick(() => {
-              if (timeout) {
-                // If another file has changed, wait for another pass.
-                return;
-              }
-
-              this._commitChanges(result.state);
-
-              if (result.changedProjects.size) {
-                terminated = true;
-                resolve(result);
-              }
-            });
-          } catch (err) {
-            // eslint-disable-next-line require-atomic-updates
-            terminated = true;
-            reject(err as NodeJS.ErrnoException);
-          }
-        };
+        await new Promise<void>((resolve: () => void) => {
+          this._onChange = resolve;
+        });
+      }
 
-        const onError = (err: Error): void => {
-          if (terminated) {
-            return;
-          }
+      // Debounce changes, e.g. bulk copying files into the directory while the watcher is running.
+      await this._waitForQuietAsync();
 
-          terminated = true;
-          reject(err);
-        };
-
-        const addWatcher = (
-          watchedPath: string,
-          listener: (event: string, fileName: string) => void
-        ): void => {
-          const watcher: fs.FSWatcher = fs.watch(
-            watchedPath,
-            {
-              encoding: 'utf-8',
-              recursive: useNativeRecursiveWatch
-            },
-            listener
-          );
-          watchers.set(watchedPath, watcher);
-          watcher.on('error', (err) => {
-            watchers.delete(watchedPath);
-            onError(err);
-          });
-        };
-
-        const changeListener = (event: string, fileName: string): void => {
-          try {
-            if (terminated) {
-              return;
-            }
-
-            // Handling for added directories
-            if (!useNativeRecursiveWatch) {
-              const decodedName: string = fileName && fileName.toString();
-              const normalizedName: string = decodedName && Path.convertToSlashes(decodedName);
-
-              if (normalizedName && !watchers.has(normalizedName)) {
-                try {
-                  const stat: FileSystemStats = FileSystem.getStatistics(fileName);
-                  if (stat.isDirectory()) {
-                    addWatcher(normalizedName, changeListener);
-                  }
-                } catch (err) {
-                  const code: string | undefined = (err as NodeJS.ErrnoException).code;
-
-                  if (code !== 'ENOENT' && code !== 'ENOTDIR') {
-                    throw err;
-                  }
-                }
-              }
-            }
-
-            // Use a timeout to debounce changes, e.g. bulk copying files into the directory while the watcher is running.
-            if (timeout) {
-              clearTimeout(timeout);
-            }
-
-            timeout = setTimeout(resolveIfChanged, this._debounceMilliseconds);
-          } catch (err) {
-            terminated = true;
-            reject(err as NodeJS.ErrnoException);
-          }
-        };
+      const changedPaths: Set<string> = this._pendingPaths;
+      this._pendingPaths = new Set();
 
-        for (const pathToWatch of pathsToWatch) {
-          addWatcher(pathToWatch, changeListener);
+      const changedFiles: Set<string> = this._fileHashIndex.update(changedPaths);
+      const candidateProjects: Set<RushConfigurationProject> = new Set();
+      for (const filePath of changedFiles) {
+        const project: RushConfigurationProject | undefined = this._projectLookup!.findChildPath(filePath);
+        if (project && this._projectsToWatch.has(project) && !this._isIgnored(project, filePath)) {
+          candidateProjects.add(project);
         }
+      }
 
-        if (onWatchingFiles) {
-          onWatchingFiles();
-        }
+      if (candidateProjects.size === 0) {
+        continue;
       }
-    );
 
-    const closePromises: Promise<void>[] = [];
-    for (const [watchedPath, watcher] of watchers) {
-      closePromises.push(
-        once(watcher, 'close').then(() => {
-          watchers.delete(watchedPath);
-        })
-      );
-      watcher.close();
-    }
+      const result: IProjectChangeResult = await this._computeChanged(candidateProjects);
+      this._commitChanges(result.state);
 
-    await Promise.all(closePromises);
+      if (result.changedProjects.size) {
+        return result;
+      }
+    }
+  }
 
-    return watchedResult;
+  /**
+   * Stops watching the file system.
+   */
+  public dispose(): void {
+    for (const watcher of this._watchers.values()) {
+      watcher.close();
+    }
+    this._watchers.clear();
   }
 
   /**
-   * Determines which, if any, projects (within the selection) have new hashes for files that are not in .gitignore
+   * Determines which, if any, of the specified projects have new hashes for files that are not in .gitignore
    */
-  private async _computeChanged(): Promise<IProjectChangeResult> {
-    const state: ProjectChangeAnalyzer = new ProjectChangeAnalyzer(this._rushConfiguration);
+  private async _computeChanged(
+    projectsToCheck: ReadonlySet<RushConfigurationProject>
+  ): Promise<IProjectChangeResult> {
+    const fileHashIndex: FileHashIndex = this._fileHashIndex!;
+    const state: ProjectChangeAnalyzer = ProjectChangeAnalyzer._fromRepoState(
+      this._rushConfiguration,
+      fileHashIndex.rootDir,
+      fileHashIndex.getSnapshot()
+    );
 
     const previousState: ProjectChangeAnalyzer | undefined = this._previousState;
 
@@ -251,13 +215,13 @@ export class ProjectWatcher {
     }
 
     const changedProjects: Set<RushConfigurationProject> = new Set();
-    for (const project of this._projectsToWatch) {
+    for (const project of projectsToCheck) {
       const [previous, current] = await Promise.all([
         previousState._tryGetProjectDependenciesAsync(project, this._terminal),
         state._tryGetProjectDependenciesAsync(project, this._terminal)
       ]);
 
-      if (ProjectWatcher._haveProjectDepsChanged(previous!, current!)) {
+      if (this._haveProjectDepsChanged(project, previous!, current!)) {
         // May need to detect if the nature of the change will break the process, e.g. changes to package.json
         changedProjects.add(project);
       }
@@ -276,18 +240,189 @@ export class ProjectWatcher {
     }
   }
 
+  private async _startWatchingAsync(state: ProjectChangeAnalyzer): Promise<void> {
+    const pathsToWatch: Set<string> = new Set();
+    const filePaths: Set<string> = new Set();
+
+    for (const project of this._projectsToWatch) {
+      const projectState: Map<string, string> = (await state._tryGetProjectDependenciesAsync(
+        project,
+        this._terminal
+      ))!;
+      const projectFolder: string = this._getProjectKey(project);
+      // Watch files in the root of the project, or
+      for (const fileName of projectState.keys()) {
+        filePaths.add(fileName);
+        for (const pathToWatch of ProjectWatcher._enumeratePathsToWatch(
+          fileName,
+          projectFolder,
+          this._useNativeRecursiveWatch
+        )) {
+          pathsToWatch.add(pathToWatch);
+        }
+      }
+    }
+
+    for (const pathToWatch of pathsToWatch) {
+      this._addWatcher(pathToWatch, filePaths.has(pathToWatch));
+    }
+  }
+
+  private _addWatcher(watchedPath: string, isFile: boolean): void {
+    const watcher: fs.FSWatcher = fs.watch(
+      `${this._fileHashIndex!.rootDir}/${watchedPath}`,
+      {
+        encoding: 'utf-8',
+        recursive: this._useNativeRecursiveWatch && !isFile
+      },
+      (event: string, fileName: string | null) => {
+        this._onWatcherEvent(watchedPath, isFile, fileName);
+      }
+    );
+    this._watchers.set(watchedPath, watcher);
+    watcher.on('error', (err: NodeJS.ErrnoException) => {
+      watcher.close();
+      this._watchers.delete(watchedPath);
+      // The watched folder may have been deleted, which is reported as an error on some platforms
+      if (FileSystem.exists(`${this._fileHashIndex!.rootDir}/${watchedPath}`)) {
+        this._onWatcherError(err);
+      }
+    });
+  }
+
+  private _onWatcherEvent(watchedPath: string, isFile: boolean, fileName: string | null): void {
+    const changedPath: string =
+      isFile || !fileName ? watchedPath : `${watchedPath}/${Path.convertToSlashes(fileName)}`;
+
+    try {
+      if (path.posix.basename(changedPath) === '.gitignore') {
+        this._isIgnoredFolderByPath.clear();
+      }
+
+      if (!isFile) {
+        // The folder may have been deleted and recreated
+        this._isIgnoredFolderByPath.delete(changedPath);
+
+        // Build outputs such as "lib/" are ignored. A build writes many files there, which would otherwise all
+        // be re-hashed, and would exceed the limit for incremental updates of the file hash index.
+        if (this._isInIgnoredFolder(watchedPath, changedPath)) {
+          return;
+        }
+
+        let isDirectory: boolean = false;
+        try {
+          const stat: FileSystemStats = FileSystem.getStatistics(
+            `${this._fileHashIndex!.rootDir}/${changedPath}`
+          );
+          isDirectory = stat.isDirectory();
+        } catch (err) {
+          const code: string | undefined = (err as NodeJS.ErrnoException).code;
+
+          if (code !== 'ENOENT' && code !== 'ENOTDIR') {
+            throw err;
+          }
+        }
+
+        if (isDirectory) {
+          if (this._isIgnoredFolder(changedPath)) {
+            return;
+          }
+
+          // Handling for added directories
+          if (!this._useNativeRecursiveWatch && !this._watchers.has(changedPath)) {
+            this._addWatcher(changedPath, false);
+          }
+        }
+      }
+    } catch (err) {
+      this._onWatcherError(err as Error);
+      return;
+    }
+
+    this._pendingPaths.add(changedPath);
+    this._changeCount++;
+    this._notifyChange();
+  }
+
+  /**
+   * Returns true if a folder between the watched folder and the changed path is ignored by .gitignore
+   */
+  private _isInIgnoredFolder(watchedPath: string, changedPath: string): boolean {
+    let slashIndex: number = changedPath.indexOf('/', watchedPath.length + 1);
+    while (slashIndex >= 0) {
+      if (this._isIgnoredFolder(changedPath.slice(0, slashIndex))) {
+        return true;
+      }
+
+      slashIndex = changedPath.indexOf('/', slashIndex + 1);
+    }
+
+    return false;
+  }
+
+  private _isIgnoredFolder(folderPath: string): boolean {
+    let isIgnored: boolean | undefined = this._isIgnoredFolderByPath.get(folderPath);
+    if (isIgnored === undefined) {
+      isIgnored = this._fileHashIndex!.isIgnored(folderPath);
+      this._isIgnoredFolderByPath.set(folderPath, isIgnored);
+    }
+    return isIgnored;
+  }
+
+  private _onWatcherError(err: Error): void {
+    if (!this._watcherError) {
+      this._watcherError = err;
+    }
+    this._notifyChange();
+  }
+
+  private _notifyChange(): void {
+    const onChange: (() => void) | undefined = this._onChange;
+    if (onChange) {
+      this._onChange = undefined;
+      onChange();
+    }
+  }
+
   /**
-   * Tests for inequality of the passed Maps. Order invariant.
+   * Waits until no file system events have been received for the debounce interval.
+   */
+  private async _waitForQuietAsync(): Promise<void> {
+    let changeCount: number;
+    do {
+      this._throwIfWatcherFailed();
+      changeCount = this._changeCount;
+      await new Promise<void>((resolve: () => void) => setTimeout(resolve, this._debounceMilliseconds));
+    } while (changeCount !== this._changeCount);
+
+    this._throwIfWatcherFailed();
+  }
+
+  private _throwIfWatcherFailed(): void {
+    if (this._watcherError) {
+      this.dispose();
+      throw this._watcherError;
+    }
+  }
+
+  /**
+   * Tests for inequality of the passed Maps, ignoring files that match the ignored globs. Order invariant.
    *
    * @returns `true` if the maps are different, `false` otherwise
    */
-  private static _haveProjectDepsChanged(prev: Map<string, string>, next: Map<string, string>): boolean {
-    if (prev.size !== next.size) {
-      return true;
+  private _haveProjectDepsChanged(
+    project: RushConfigurationProject,
+    prev: Map<string, string>,
+    next: Map<string, string>
+  ): boolean {
+    for (const [key, value] of prev) {
+      if (next.get(key) !== value && !this._isIgnored(project, key)) {
+        return true;
+      }
     }
 
-    for (const [key, value] of prev) {
-      if (next.get(key) !== value) {
+    for (const key of next.keys()) {
+      if (!prev.has(key) && !this._isIgnored(project, key)) {
         return true;
       }
     }
@@ -295,29 +430,52 @@ export class ProjectWatcher {
     return false;
   }
 
+  private _isIgnored(project: RushConfigurationProject, filePath: string): boolean {
+    if (!this._ignoreMatcher) {
+      return false;
+    }
+
+    const projectKey: string = this._getProjectKey(project);
+    if (!filePath.startsWith(`${projectKey}/`)) {
+      // E.g. the shrinkwrap file of the project
+      return false;
+    }
+
+    return this._ignoreMatcher.ignores(filePath.slice(projectKey.length + 1));
+  }
+
+  private _getProjectKey(project: RushConfigurationProject): string {
+    let projectKey: string | undefined = this._projectKeys.get(project);
+    if (projectKey === undefined) {
+      projectKey = Path.convertToSlashes(path.relative(this._fileHashIndex!.rootDir, project.projectFolder));
+      this._projectKeys.set(project, projectKey);
+    }
+    return projectKey;
+  }
+
   private static *_enumeratePathsToWatch(
-    path: string,
+    filePath: string,
     projectRelativeFolder: string,
     useNativeRecursiveWatch: boolean
   ): Iterable<string> {
-    const rootSlashIndex: number = path.indexOf('/', projectRelativeFolder.length + 2);
+    const rootSlashIndex: number = filePath.indexOf('/', projectRelativeFolder.length + 2);
 
     if (rootSlashIndex < 0) {
-      yield path;
+      yield filePath;
       return;
     }
 
-    yield path.slice(0, rootSlashIndex);
+    yield filePath.slice(0, rootSlashIndex);
 
     if (useNativeRecursiveWatch) {
       // Only need the root folder if fs.watch can be called with recursive: true
       return;
     }
 
-    let slashIndex: number = path.lastIndexOf('/');
+    let slashIndex: number = filePath.lastIndexOf('/');
     while (slashIndex > rootSlashIndex) {
-      yield path.slice(0, slashIndex);
-      slashIndex = path.lastIndexOf('/', slashIndex - 1);
+      yield filePath.slice(0, slashIndex);
+      slashIndex = filePath.lastIndexOf('/', slashIndex - 1);
     }
   }
 }
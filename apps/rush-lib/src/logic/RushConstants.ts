@@ -125,6 +125,30 @@ export class RushConstants {
    */
   public static readonly repoStateFilename: string = 'repo-state.json';
 
+  /**
+   * The filename ("failed-operations.json") for a file in the common temp folder where Rush records
+   * the projects whose phases failed in previous runs of phased commands.
+   */
+  public static readonly failedOperationsFilename: string = 'failed-operations.json';
+
+  /**
+   * The filename ("operation-timeline.json") for a file in the common temp folder where Rush writes the
+   * timing of each operation when a phased command is invoked with "--timeline".
+   */
+  public static readonly operationTimelineFilename: string = 'operation-timeline.json';
+
+  /**
+   * The name of the folder ("event-hooks") in the common temp folder where Rush writes the JSON files
+   * that describe each event to the "eventHooks" scripts from rush.json.
+   */
+  public static readonly eventHooksFolderName: string = 'event-hooks';
+
+  /**
+   * The name of the folder ("offline-mirror") in the common temp folder where "rush install --prepare-offline"
+   * stores the package tarballs, unless the "--offline-mirror-folder" parameter specifies a different folder.
+   */
+  public static readonly offlineMirrorFolderName: string = 'offline-mirror';
+
   /**
    * The name of the per-project folder where project-specific Rush files are stored. For example,
    * the package-deps files, which are used by commands to determine if a particular project needs to be rebuilt.
@@ -159,6 +183,11 @@ export class RushConstants {
    */
   public static readonly artifactoryFilename: string = 'artifactory.json';
 
+  /**
+   * The licenses.json configuration file name, which configures the "rush licenses" command.
+   */
+  public static readonly licensesFilename: string = 'licenses.json';
+
   /**
    * Build cache configuration file.
    */
@@ -168,7 +197,7 @@ export class RushConstants {
    * Build cache version number, incremented when the logic to create cache entries changes.
    * Changing this ensures that cache entries generated by an old version will no longer register as a cache hit.
    */
-  public static readonly buildCacheVersion: number = 1;
+  public static readonly buildCacheVersion: number = 2;
 
   /**
    * Per-project configuration filename.
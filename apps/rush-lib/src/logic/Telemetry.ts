@@ -2,23 +2,97 @@
 // See LICENSE in the project root for license information.
 
 import * as path from 'path';
+import colors from 'colors/safe';
 import { FileSystem, FileSystemStats, Import } from '@rushstack/node-core-library';
 
 import { RushConfiguration } from '../api/RushConfiguration';
 import { Rush } from '../api/Rush';
+import type { RushSession } from '../pluginFramework/RushSession';
 
 const lodash: typeof import('lodash') = Import.lazy('lodash', require);
 
+/**
+ * Statistics about the operations of one phase of a phased command, which are reported in
+ * {@link ITelemetryData.phases}.
+ * @beta
+ */
+export interface ITelemetryPhaseData {
+  /**
+   * The number of operations of the phase, one for each selected project.
+   */
+  operationCount: number;
+  /**
+   * The number of operations of the phase that finished with each status, keyed by the status,
+   * for example `"SUCCESS"` or `"FROM CACHE"`.
+   */
+  operationCountByStatus: { [status: string]: number };
+  /**
+   * The fraction (between 0 and 1) of the operations that were restored from the build cache, out of
+   * the operations that were either restored from the build cache or executed. The value is 0 if no
+   * operations were restored or executed.
+   */
+  cacheHitRate: number;
+}
+
+/**
+ * A record that is logged by Rush's telemetry.
+ * @beta
+ */
 export interface ITelemetryData {
+  /**
+   * The name of the command, for example "build" or "install".
+   */
   name: string;
+  /**
+   * The time that the command took to run, in seconds.
+   */
   duration: number;
+  /**
+   * "Succeeded" or "Failed".
+   */
   result: string;
+  /**
+   * The time that the record was logged, in milliseconds since the Unix epoch.
+   */
   timestamp?: number;
+  /**
+   * The value of `process.platform`.
+   */
   platform?: string;
   rushVersion?: string;
+  /**
+   * For phased commands, statistics about the operations of each phase, keyed by the phase name.
+   */
+  phases?: { [phaseName: string]: ITelemetryPhaseData };
+  /**
+   * For "rush install" and "rush update", the time that each step of the installation took to run,
+   * in seconds, keyed by the name of the step.
+   */
+  installTimings?: { [stepName: string]: number };
   extraData?: { [key: string]: string };
 }
 
+/**
+ * A destination for Rush's telemetry records, for example an exporter that sends them to a telemetry
+ * service. Telemetry sinks are registered by Rush plugins using {@link RushSession.registerTelemetrySink}.
+ *
+ * @remarks
+ * Sinks only receive records if telemetry is enabled by the "telemetryEnabled" setting in rush.json.
+ *
+ * @beta
+ */
+export interface ITelemetrySink {
+  /**
+   * Called with each record as soon as it is logged. The record must not be modified.
+   */
+  onRecord(telemetryData: Readonly<ITelemetryData>): void;
+
+  /**
+   * If provided, called before Rush exits so that the sink can send any records that it has buffered.
+   */
+  flushAsync?(): Promise<void>;
+}
+
 const MAX_FILE_COUNT: number = 100;
 
 export class Telemetry {
@@ -26,9 +100,11 @@ export class Telemetry {
   private _store: ITelemetryData[];
   private _dataFolder: string;
   private _rushConfiguration: RushConfiguration;
+  private _rushSession: RushSession | undefined;
 
-  public constructor(rushConfiguration: RushConfiguration) {
+  public constructor(rushConfiguration: RushConfiguration, rushSession?: RushSession) {
     this._rushConfiguration = rushConfiguration;
+    this._rushSession = rushSession;
     this._enabled = this._rushConfiguration.telemetryEnabled;
     this._store = [];
 
@@ -45,6 +121,14 @@ export class Telemetry {
     data.platform = data.platform || process.platform;
     data.rushVersion = data.rushVersion || Rush.version;
     this._store.push(data);
+
+    for (const [sinkName, sink] of this._getSinks()) {
+      try {
+        sink.onRecord(data);
+      } catch (error) {
+        this._reportSinkError(sinkName, error as Error);
+      }
+    }
   }
 
   public flush(writeFile: (file: string, data: string) => void = FileSystem.writeFile): void {
@@ -59,10 +143,43 @@ export class Telemetry {
     this._cleanUp();
   }
 
+  /**
+   * Writes the buffered records to the telemetry folder, and waits for the telemetry sinks
+   * to send the records that they have buffered.
+   */
+  public async flushAsync(
+    writeFile: (file: string, data: string) => void = FileSystem.writeFile
+  ): Promise<void> {
+    this.flush(writeFile);
+    if (!this._enabled) {
+      return;
+    }
+
+    for (const [sinkName, sink] of this._getSinks()) {
+      if (sink.flushAsync) {
+        try {
+          await sink.flushAsync();
+        } catch (error) {
+          this._reportSinkError(sinkName, error as Error);
+        }
+      }
+    }
+  }
+
   public get store(): ITelemetryData[] {
     return this._store;
   }
 
+  private _getSinks(): ReadonlyMap<string, ITelemetrySink> {
+    // The sinks are looked up each time because plugins can register them after this object was created
+    return this._rushSession ? this._rushSession.getTelemetrySinks() : new Map();
+  }
+
+  private _reportSinkError(sinkName: string, error: Error): void {
+    // A failing sink should never break the Rush command
+    console.log(colors.yellow(`Warning: The telemetry sink "${sinkName}" failed: ${error.message}`));
+  }
+
   /**
    * When there are too many log files, delete the old ones.
    */
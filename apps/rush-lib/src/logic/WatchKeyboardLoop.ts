@@ -0,0 +1,128 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import colors from 'colors/safe';
+import type * as readline from 'readline';
+import { Text } from '@rushstack/node-core-library';
+
+import { KeyboardLoop } from './setup/KeyboardLoop';
+
+/**
+ * The commands that a developer can issue by pressing a key while Rush is in watch mode.
+ */
+export type WatchKeyboardCommand = 'build-all' | 'build-failed' | 'toggle-verbose' | 'toggle-pause';
+
+const COMMANDS_BY_KEY: ReadonlyMap<string, WatchKeyboardCommand> = new Map([
+  ['a', 'build-all'],
+  ['f', 'build-failed'],
+  ['v', 'toggle-verbose'],
+  ['p', 'toggle-pause']
+]);
+
+const HELP_LINES: ReadonlyArray<[string, string]> = [
+  ['a', 'rebuild all watched projects, ignoring incremental state'],
+  ['f', 'rerun the operations that failed or were blocked in earlier runs'],
+  ['v', 'toggle verbose output'],
+  ['p', 'pause or resume watching (changes are queued while paused)'],
+  ['h', 'show this help'],
+  ['Ctrl+C', 'exit']
+];
+
+/**
+ * Captures keypresses while Rush is in watch mode, and turns them into commands for the watch loop.
+ *
+ * @remarks
+ * Unlike the other keyboard loops, this one keeps listening in the background until it is stopped,
+ * because the watch loop needs to receive commands while operations are running.
+ */
+export class WatchKeyboardLoop extends KeyboardLoop {
+  private readonly _queuedCommands: WatchKeyboardCommand[] = [];
+  private _onCommand: (() => void) | undefined;
+  private _loopPromise: Promise<void> | undefined;
+  private _loopError: Error | undefined;
+
+  /**
+   * Starts listening for keypresses in the background. The caller must ensure that STDIN is a TTY.
+   * If the keyboard input cannot be captured, the error is thrown by `waitForCommandAsync()`.
+   */
+  public start(): void {
+    if (!this._loopPromise) {
+      this._loopPromise = this.startAsync().catch((error: Error) => {
+        this._loopError = error;
+        this._notifyCommand();
+      });
+    }
+  }
+
+  /**
+   * Stops listening for keypresses and restores the terminal.
+   */
+  public async stopAsync(): Promise<void> {
+    const loopPromise: Promise<void> | undefined = this._loopPromise;
+    if (loopPromise) {
+      this._loopPromise = undefined;
+      this.resolveAsync();
+      await loopPromise;
+    }
+  }
+
+  /**
+   * Returns the next command issued by the developer, waiting for a keypress if none are queued.
+   */
+  public async waitForCommandAsync(): Promise<WatchKeyboardCommand> {
+    while (this._queuedCommands.length === 0) {
+      if (this._loopError) {
+        throw this._loopError;
+      }
+
+      await new Promise<void>((resolve: () => void) => {
+        this._onCommand = resolve;
+      });
+    }
+
+    return this._queuedCommands.shift()!;
+  }
+
+  public printHelp(): void {
+    this.stderr.write('\nWatch mode commands:\n');
+    for (const [key, description] of HELP_LINES) {
+      this.stderr.write(`  ${colors.bold(Text.padEnd(key, 6))}  ${description}\n`);
+    }
+    this.stderr.write('\n');
+  }
+
+  protected onKeypress(character: string, key: readline.Key): void {
+    if (key.ctrl || key.meta) {
+      return;
+    }
+
+    // Readline does not assign a name to "?"
+    if (key.name === 'h' || character === '?') {
+      this.printHelp();
+      return;
+    }
+
+    if (!key.name) {
+      return;
+    }
+
+    const command: WatchKeyboardCommand | undefined = COMMANDS_BY_KEY.get(key.name);
+    if (!command) {
+      return;
+    }
+
+    // Pressing a build key repeatedly while a build is running should only queue one more build
+    if (command.startsWith('build-') && this._queuedCommands.includes(command)) {
+      return;
+    }
+
+    this._queuedCommands.push(command);
+    this._notifyCommand();
+  }
+
+  private _notifyCommand(): void {
+    const onCommand: (() => void) | undefined = this._onCommand;
+    this._onCommand = undefined;
+    onCommand?.();
+  }
+}
@@ -0,0 +1,138 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import type { IPhase } from '../api/CommandLineConfiguration';
+import type { RushConfigurationProject } from '../api/RushConfigurationProject';
+import type { Operation } from './operations/Operation';
+import type { IOperationExecutionResult } from './operations/IOperationExecutionResult';
+import { OperationStatus } from './operations/OperationStatus';
+import { Selection } from './Selection';
+
+export interface IWatchStateOptions {
+  /**
+   * The projects that are watched for changes.
+   */
+  projectsToWatch: ReadonlySet<RushConfigurationProject>;
+
+  /**
+   * The phases that run when a project changes. Only failures in these phases can be rerun in watch mode.
+   */
+  watchPhases: ReadonlySet<IPhase>;
+
+  /**
+   * Whether verbose output is initially enabled, i.e. whether "--verbose" was specified.
+   */
+  isVerbose: boolean;
+}
+
+/**
+ * Tracks the state of Rush's watch mode that can be changed by keyboard commands: which projects are
+ * queued to be processed, which projects failed, and whether watching is paused.
+ */
+export class WatchState {
+  private readonly _projectsToWatch: ReadonlySet<RushConfigurationProject>;
+  private readonly _watchPhases: ReadonlySet<IPhase>;
+
+  /**
+   * Projects that changed, plus their consumers, that have not been processed yet
+   */
+  private readonly _queuedProjects: Set<RushConfigurationProject> = new Set();
+  /**
+   * Projects with a watch phase operation that failed or was blocked in the latest run that included the project
+   */
+  private readonly _failedProjects: Set<RushConfigurationProject> = new Set();
+
+  private _isPaused: boolean = false;
+  private _isVerbose: boolean;
+
+  public constructor(options: IWatchStateOptions) {
+    this._projectsToWatch = options.projectsToWatch;
+    this._watchPhases = options.watchPhases;
+    this._isVerbose = options.isVerbose;
+  }
+
+  public get isPaused(): boolean {
+    return this._isPaused;
+  }
+
+  public get isVerbose(): boolean {
+    return this._isVerbose;
+  }
+
+  public get queuedProjects(): ReadonlySet<RushConfigurationProject> {
+    return this._queuedProjects;
+  }
+
+  public get failedProjects(): ReadonlySet<RushConfigurationProject> {
+    return this._failedProjects;
+  }
+
+  /**
+   * Pauses or resumes watching, and returns true if watching is now paused.
+   */
+  public togglePause(): boolean {
+    this._isPaused = !this._isPaused;
+    return this._isPaused;
+  }
+
+  /**
+   * Turns verbose output on or off, and returns true if verbose output is now on.
+   */
+  public toggleVerbose(): boolean {
+    this._isVerbose = !this._isVerbose;
+    return this._isVerbose;
+  }
+
+  /**
+   * Queues the changed projects and the watched projects that consume them.
+   */
+  public queueChangedProjects(changedProjects: ReadonlySet<RushConfigurationProject>): void {
+    for (const project of Selection.intersection(
+      Selection.expandAllConsumers(changedProjects),
+      this._projectsToWatch
+    )) {
+      this._queuedProjects.add(project);
+    }
+  }
+
+  /**
+   * Returns the queued projects, and empties the queue.
+   */
+  public dequeueProjects(): Set<RushConfigurationProject> {
+    const projects: Set<RushConfigurationProject> = new Set(this._queuedProjects);
+    this._queuedProjects.clear();
+    return projects;
+  }
+
+  /**
+   * Updates the failed projects from the results of a run.
+   *
+   * @param projectSelection - the projects that the run included. Their earlier failures are forgotten
+   *   unless they failed again.
+   */
+  public recordResults(
+    projectSelection: ReadonlySet<RushConfigurationProject>,
+    operationResults: ReadonlyMap<Operation, IOperationExecutionResult>
+  ): void {
+    const projectsWithFailures: Set<RushConfigurationProject> = new Set();
+    for (const [{ associatedProject, associatedPhase }, { status }] of operationResults) {
+      // Failures in other phases, e.g. from the initial run, can't be fixed by rerunning the watch phases
+      if (
+        associatedProject &&
+        associatedPhase &&
+        this._watchPhases.has(associatedPhase) &&
+        (status === OperationStatus.Failure || status === OperationStatus.Blocked)
+      ) {
+        projectsWithFailures.add(associatedProject);
+      }
+    }
+
+    for (const project of projectSelection) {
+      if (projectsWithFailures.has(project)) {
+        this._failedProjects.add(project);
+      } else {
+        this._failedProjects.delete(project);
+      }
+    }
+  }
+}
@@ -32,10 +32,15 @@ import { RushConstants } from '../RushConstants';
 import { ShrinkwrapFileFactory } from '../ShrinkwrapFileFactory';
 import { Utilities } from '../../utilities/Utilities';
 import { InstallHelpers } from '../installManager/InstallHelpers';
+import { IOfflineMirrorPackageSpecifier, OfflineMirror } from '../installManager/OfflineMirror';
+import { OfflineRegistry } from '../installManager/OfflineRegistry';
+import { PnpmShrinkwrapFile } from '../pnpm/PnpmShrinkwrapFile';
 import { PolicyValidator } from '../policy/PolicyValidator';
+import type { RushPolicy } from '../policy/RushPolicy';
 import { WebClient, WebClientResponse } from '../../utilities/WebClient';
 import { SetupPackageRegistry } from '../setup/SetupPackageRegistry';
 import { PnpmfileConfiguration } from '../pnpm/PnpmfileConfiguration';
+import { Stopwatch } from '../../utilities/Stopwatch';
 
 export interface IInstallManagerOptions {
   /**
@@ -59,6 +64,11 @@ export interface IInstallManagerOptions {
    */
   bypassPolicy: boolean;
 
+  /**
+   * Whether the command that is running the install defines the "--bypass-policy" parameter.
+   */
+  bypassPolicyAllowed?: boolean;
+
   /**
    * Whether to skip linking, i.e. require "rush link" to be done manually later.
    */
@@ -107,6 +117,31 @@ export interface IInstallManagerOptions {
    * These restrict the scope of a workspace installation.
    */
   pnpmFilterArguments: string[];
+
+  /**
+   * The repository policies that were registered by Rush plugins.
+   */
+  rushPolicies?: ReadonlyArray<RushPolicy>;
+
+  /**
+   * Whether to download the tarballs of the packages in the shrinkwrap file into the offline mirror folder,
+   * so that a later "rush install --offline" can install without access to the package registry.
+   *
+   * Currently only supported for PNPM.
+   */
+  prepareOffline?: boolean;
+
+  /**
+   * Whether to install the packages from the offline mirror folder instead of the package registry.
+   *
+   * Currently only supported for PNPM.
+   */
+  offline?: boolean;
+
+  /**
+   * The folder that stores the offline mirror. Required if "prepareOffline" or "offline" is specified.
+   */
+  offlineMirrorFolder?: string;
 }
 
 /**
@@ -120,6 +155,7 @@ export abstract class BaseInstallManager {
   private _installRecycler: AsyncRecycler;
   private _npmSetupValidated: boolean = false;
   private _syncNpmrcAlreadyCalled: boolean = false;
+  private readonly _stepTimings: { [stepName: string]: number } = {};
 
   private _options: IInstallManagerOptions;
 
@@ -150,6 +186,14 @@ export abstract class BaseInstallManager {
     return this._installRecycler;
   }
 
+  /**
+   * The time that each step of the installation took to run, in seconds, keyed by the name of the step.
+   * Only the steps that have finished are included.
+   */
+  public get stepTimings(): Readonly<{ [stepName: string]: number }> {
+    return this._stepTimings;
+  }
+
   protected get options(): IInstallManagerOptions {
     return this._options;
   }
@@ -183,12 +227,32 @@ export abstract class BaseInstallManager {
       throw new AlreadyReportedError();
     }
 
-    const { shrinkwrapIsUpToDate, variantIsUpToDate } = await this.prepareAsync();
+    if (
+      (this.options.prepareOffline || this.options.offline) &&
+      this.rushConfiguration.packageManager !== 'pnpm'
+    ) {
+      console.log();
+      console.log(
+        colors.red(
+          'The offline mirror is currently only supported for PNPM. Run the command again without' +
+            ' specifying the "--prepare-offline" or "--offline" parameters.'
+        )
+      );
+      throw new AlreadyReportedError();
+    }
+
+    const { shrinkwrapIsUpToDate, variantIsUpToDate } = await this._measureStepAsync('prepare', () =>
+      this.prepareAsync()
+    );
 
     if (this.options.checkOnly) {
       return;
     }
 
+    if (this.options.prepareOffline) {
+      await this._measureStepAsync('prepareOffline', async () => this._prepareOfflineMirror());
+    }
+
     console.log(
       os.EOL + colors.bold(`Checking installation in "${this.rushConfiguration.commonTempFolder}"`)
     );
@@ -209,20 +273,23 @@ export abstract class BaseInstallManager {
 
     if (cleanInstall || !shrinkwrapIsUpToDate || !variantIsUpToDate || !canSkipInstall()) {
       console.log();
-      await this.validateNpmSetup();
-
-      let publishedRelease: boolean | undefined;
-      try {
-        publishedRelease = await this._checkIfReleaseIsPublished();
-      } catch {
-        // If the user is working in an environment that can't reach the registry,
-        // don't bother them with errors.
-      }
+      // An offline install does not access the package registry
+      if (!this.options.offline) {
+        await this.validateNpmSetup();
+
+        let publishedRelease: boolean | undefined;
+        try {
+          publishedRelease = await this._checkIfReleaseIsPublished();
+        } catch {
+          // If the user is working in an environment that can't reach the registry,
+          // don't bother them with errors.
+        }
 
-      if (publishedRelease === false) {
-        console.log(
-          colors.yellow('Warning: This release of the Rush tool was unpublished; it may be unstable.')
-        );
+        if (publishedRelease === false) {
+          console.log(
+            colors.yellow('Warning: This release of the Rush tool was unpublished; it may be unstable.')
+          );
+        }
       }
 
       // Delete the successful install file to indicate the install transaction has started
@@ -233,7 +300,11 @@ export abstract class BaseInstallManager {
       this._commonTempLinkFlag.clear();
 
       // Perform the actual install
-      await this.installAsync(cleanInstall);
+      if (this.options.offline) {
+        await this._measureStepAsync('install', () => this._installOfflineAsync(cleanInstall));
+      } else {
+        await this._measureStepAsync('install', () => this.installAsync(cleanInstall));
+      }
 
       if (this.options.allowShrinkwrapUpdates && !shrinkwrapIsUpToDate) {
         // Copy (or delete) common\temp\pnpm-lock.yaml --> common\config\rush\pnpm-lock.yaml
@@ -265,11 +336,107 @@ export abstract class BaseInstallManager {
     }
 
     // Perform any post-install work the install manager requires
-    await this.postInstallAsync();
+    await this._measureStepAsync('postInstall', () => this.postInstallAsync());
 
     console.log('');
   }
 
+  private async _measureStepAsync<T>(stepName: string, stepAsync: () => Promise<T>): Promise<T> {
+    const stopwatch: Stopwatch = Stopwatch.start();
+    const result: T = await stepAsync();
+    this._stepTimings[stepName] = stopwatch.stop().duration;
+    return result;
+  }
+
+  private _getOfflineMirror(): OfflineMirror {
+    return new OfflineMirror(this.options.offlineMirrorFolder!);
+  }
+
+  private _loadCommittedPnpmShrinkwrapFile(): PnpmShrinkwrapFile {
+    const shrinkwrapFilePath: string = this.rushConfiguration.getCommittedShrinkwrapFilename(
+      this.options.variant
+    );
+    const shrinkwrapFile: PnpmShrinkwrapFile | undefined =
+      PnpmShrinkwrapFile.loadFromFile(shrinkwrapFilePath);
+    if (!shrinkwrapFile) {
+      console.log();
+      console.log(
+        colors.red(
+          `The offline mirror requires a shrinkwrap file, which was not found: ${shrinkwrapFilePath}`
+        )
+      );
+      throw new AlreadyReportedError();
+    }
+    return shrinkwrapFile;
+  }
+
+  private _prepareOfflineMirror(): void {
+    console.log(os.EOL + colors.bold('Preparing the offline mirror'));
+    this._getOfflineMirror().prepare(
+      this._loadCommittedPnpmShrinkwrapFile(),
+      this.rushConfiguration.commonTempFolder
+    );
+  }
+
+  /**
+   * Runs the installation against a local registry that serves the offline mirror. The registry settings
+   * in common/temp/.npmrc are temporarily replaced, so that the package manager only uses the local registry.
+   */
+  private async _installOfflineAsync(cleanInstall: boolean): Promise<void> {
+    const offlineMirror: OfflineMirror = this._getOfflineMirror();
+    if (!offlineMirror.tryLoadIndex()) {
+      console.log(
+        colors.red(
+          `The offline mirror has not been prepared: "${offlineMirror.folderPath}". Run` +
+            ' "rush install --prepare-offline" while the package registry is available.'
+        )
+      );
+      throw new AlreadyReportedError();
+    }
+
+    const missingSpecifiers: IOfflineMirrorPackageSpecifier[] = offlineMirror.getMissingPackageSpecifiers(
+      this._loadCommittedPnpmShrinkwrapFile()
+    );
+    if (missingSpecifiers.length > 0) {
+      console.log(
+        colors.red(
+          `The offline mirror does not contain ${missingSpecifiers.length} of the packages in the shrinkwrap` +
+            ' file. Run "rush install --prepare-offline" while the package registry is available.'
+        )
+      );
+      for (const { packageName, version } of missingSpecifiers) {
+        console.log(`  ${packageName}@${version}`);
+      }
+      throw new AlreadyReportedError();
+    }
+
+    const npmrcPath: string = path.join(this.rushConfiguration.commonTempFolder, '.npmrc');
+    await Utilities.usingAsync(
+      () => OfflineRegistry.startAsync(offlineMirror.folderPath),
+      async (offlineRegistry: OfflineRegistry) => {
+        console.log(
+          `Installing from the offline mirror "${offlineMirror.folderPath}" using a local registry` +
+            ` at ${offlineRegistry.url}`
+        );
+
+        const npmrcContent: string = FileSystem.exists(npmrcPath) ? FileSystem.readFile(npmrcPath) : '';
+        FileSystem.writeFile(
+          npmrcPath,
+          OfflineRegistry.replaceNpmrcRegistries(npmrcContent, offlineRegistry.url)
+        );
+        try {
+          await this.installAsync(cleanInstall);
+        } finally {
+          // Restore the registry settings, since the local registry is stopped after the installation
+          Utilities.syncNpmrc(
+            this.rushConfiguration.commonRushConfigFolder,
+            this.rushConfiguration.commonTempFolder
+          );
+        }
+      }
+    );
+  }
+
   protected abstract prepareCommonTempAsync(
     shrinkwrapFile: BaseShrinkwrapFile | undefined
   ): Promise<{ shrinkwrapIsUpToDate: boolean; shrinkwrapWarnings: string[] }>;
@@ -309,7 +476,7 @@ export abstract class BaseInstallManager {
 
   protected async prepareAsync(): Promise<{ variantIsUpToDate: boolean; shrinkwrapIsUpToDate: boolean }> {
     // Check the policies
-    PolicyValidator.validatePolicy(this._rushConfiguration, this.options);
+    await PolicyValidator.validatePolicyAsync(this._rushConfiguration, this.options);
 
     this._installGitHooks();
 
@@ -0,0 +1,80 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { promisify } from 'util';
+import * as zlib from 'zlib';
+
+/**
+ * The compression codec that is applied to the archive of a project's output files in a build cache entry.
+ * @beta
+ */
+export type BuildCacheCompression = 'none' | 'gzip' | 'brotli';
+
+type ZlibFunction = (buffer: Buffer, options: zlib.ZlibOptions | zlib.BrotliOptions) => Promise<Buffer>;
+
+const gzipAsync: ZlibFunction = promisify(zlib.gzip);
+const gunzipAsync: ZlibFunction = promisify(zlib.gunzip);
+const brotliCompressAsync: ZlibFunction = promisify(zlib.brotliCompress);
+const brotliDecompressAsync: ZlibFunction = promisify(zlib.brotliDecompress);
+
+/**
+ * Compresses and decompresses the archives that are stored in build cache entries.
+ */
+export class BuildCacheCompressor {
+  /**
+   * The codec used when build-cache.json does not specify one. Cache entry IDs for this codec have no suffix.
+   */
+  public static readonly defaultCompression: BuildCacheCompression = 'gzip';
+
+  private constructor() {}
+
+  public static isSupportedCompression(compression: string): compression is BuildCacheCompression {
+    return compression === 'none' || compression === 'gzip' || compression === 'brotli';
+  }
+
+  public static async compressAsync(compression: BuildCacheCompression, buffer: Buffer): Promise<Buffer> {
+    switch (compression) {
+      case 'none': {
+        return buffer;
+      }
+
+      case 'gzip': {
+        return await gzipAsync(buffer, {});
+      }
+
+      case 'brotli': {
+        return await brotliCompressAsync(buffer, {
+          params: {
+            // The default quality of 11 is too slow for large archives
+            [zlib.constants.BROTLI_PARAM_QUALITY]: 6,
+            [zlib.constants.BROTLI_PARAM_SIZE_HINT]: buffer.length
+          }
+        });
+      }
+
+      default: {
+        throw new Error(`Unsupported build cache compression "${compression}".`);
+      }
+    }
+  }
+
+  public static async decompressAsync(compression: BuildCacheCompression, buffer: Buffer): Promise<Buffer> {
+    switch (compression) {
+      case 'none': {
+        return buffer;
+      }
+
+      case 'gzip': {
+        return await gunzipAsync(buffer, {});
+      }
+
+      case 'brotli': {
+        return await brotliDecompressAsync(buffer, {});
+      }
+
+      default: {
+        throw new Error(`Unsupported build cache compression "${compression}".`);
+      }
+    }
+  }
+}
@@ -0,0 +1,153 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as crypto from 'crypto';
+
+import { BuildCacheCompression, BuildCacheCompressor } from './BuildCacheCompression';
+
+/**
+ * Describes the contents of a build cache entry. The manifest is stored at the start of the entry,
+ * followed by the archive of the project's output files.
+ */
+export interface IBuildCacheEntryManifest {
+  /**
+   * The version of Rush that created the entry.
+   */
+  rushVersion: string;
+  /**
+   * The cache ID that the entry was created for.
+   */
+  cacheId: string;
+  /**
+   * The hash of the project state that the entry was created from.
+   */
+  projectStateHash: string;
+  /**
+   * The name of the phase that produced the output.
+   */
+  phaseName: string;
+  /**
+   * The command that produced the output.
+   */
+  command: string;
+  /**
+   * The project-relative paths of the files in the archive.
+   */
+  outputFiles: string[];
+  /**
+   * The codec that the archive is compressed with.
+   */
+  compression: BuildCacheCompression;
+  /**
+   * The size of the archive, in bytes.
+   */
+  archiveSizeBytes: number;
+  /**
+   * The SHA-256 hash of the archive, as a hex string.
+   */
+  archiveSha256: string;
+}
+
+export interface IBuildCacheEntry {
+  manifest: IBuildCacheEntryManifest;
+  archiveBuffer: Buffer;
+}
+
+const ENTRY_FORMAT_NAME: string = 'rush-build-cache-entry';
+const ENTRY_FORMAT_VERSION: number = 1;
+
+/**
+ * The header is a single line of the form "rush-build-cache-entry/1 <manifest length>", so it must
+ * be found within this number of bytes.
+ */
+const MAX_HEADER_LENGTH: number = 64;
+
+/**
+ * Serializes and validates build cache entries. An entry consists of a header line, a JSON manifest,
+ * and a tar archive of the project's output files that is compressed with the codec named in the manifest.
+ */
+export class BuildCacheEntry {
+  private constructor() {}
+
+  /**
+   * Creates the contents of a cache entry from an archive of the project's output files.
+   */
+  public static serialize(
+    manifest: Omit<IBuildCacheEntryManifest, 'archiveSizeBytes' | 'archiveSha256'>,
+    archiveBuffer: Buffer
+  ): Buffer {
+    const fullManifest: IBuildCacheEntryManifest = {
+      ...manifest,
+      archiveSizeBytes: archiveBuffer.length,
+      archiveSha256: BuildCacheEntry._getSha256(archiveBuffer)
+    };
+    const manifestBuffer: Buffer = Buffer.from(JSON.stringify(fullManifest), 'utf8');
+    const headerBuffer: Buffer = Buffer.from(
+      `${ENTRY_FORMAT_NAME}/${ENTRY_FORMAT_VERSION} ${manifestBuffer.length}\n`,
+      'utf8'
+    );
+
+    return Buffer.concat([headerBuffer, manifestBuffer, archiveBuffer]);
+  }
+
+  /**
+   * Parses the contents of a cache entry, and verifies that the archive matches its checksum.
+   * Throws an error describing the problem if the entry is corrupt.
+   */
+  public static parse(cacheId: string, entryBuffer: Buffer): IBuildCacheEntry {
+    const headerEndIndex: number = entryBuffer.indexOf('\n');
+    if (headerEndIndex < 0 || headerEndIndex > MAX_HEADER_LENGTH) {
+      throw new Error('The cache entry does not start with a valid header.');
+    }
+
+    const header: string = entryBuffer.toString('utf8', 0, headerEndIndex);
+    const headerMatch: RegExpMatchArray | null = header.match(/^([a-z-]+)\/(\d+) (\d+)$/);
+    if (!headerMatch || headerMatch[1] !== ENTRY_FORMAT_NAME) {
+      throw new Error('The cache entry does not start with a valid header.');
+    }
+
+    const formatVersion: number = Number(headerMatch[2]);
+    if (formatVersion !== ENTRY_FORMAT_VERSION) {
+      throw new Error(`The cache entry format version ${formatVersion} is not supported.`);
+    }
+
+    const manifestStartIndex: number = headerEndIndex + 1;
+    const archiveStartIndex: number = manifestStartIndex + Number(headerMatch[3]);
+    if (archiveStartIndex > entryBuffer.length) {
+      throw new Error('The cache entry manifest is truncated.');
+    }
+
+    let manifest: IBuildCacheEntryManifest;
+    try {
+      manifest = JSON.parse(entryBuffer.toString('utf8', manifestStartIndex, archiveStartIndex));
+    } catch (e) {
+      throw new Error(`The cache entry manifest is not valid JSON: ${(e as Error).message}`);
+    }
+
+    if (!BuildCacheCompressor.isSupportedCompression(manifest.compression)) {
+      throw new Error(`The cache entry uses an unsupported compression "${manifest.compression}".`);
+    }
+
+    if (manifest.cacheId !== cacheId) {
+      throw new Error(`The cache entry was created for a different cache ID "${manifest.cacheId}".`);
+    }
+
+    const archiveBuffer: Buffer = entryBuffer.slice(archiveStartIndex);
+    if (archiveBuffer.length !== manifest.archiveSizeBytes) {
+      throw new Error(
+        `The cache entry archive is ${archiveBuffer.length} bytes, ` +
+          `but the manifest specifies ${manifest.archiveSizeBytes} bytes.`
+      );
+    }
+
+    if (BuildCacheEntry._getSha256(archiveBuffer) !== manifest.archiveSha256) {
+      throw new Error('The checksum of the cache entry archive does not match its manifest.');
+    }
+
+    return { manifest, archiveBuffer };
+  }
+
+  private static _getSha256(buffer: Buffer): string {
+    return crypto.createHash('sha256').update(buffer).digest('hex');
+  }
+}
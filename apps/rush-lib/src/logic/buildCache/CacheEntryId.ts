@@ -1,6 +1,8 @@
 // Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
 // See LICENSE in the project root for license information.
 
+import { BuildCacheCompression, BuildCacheCompressor } from './BuildCacheCompression';
+
 const OPTIONS_ARGUMENT_NAME: string = 'options';
 
 /**
@@ -20,6 +22,11 @@ export interface IGenerateCacheEntryIdOptions {
    * A hash of the input files
    */
   projectStateHash: string;
+  /**
+   * The compression codec of the cache entry. Entries that use a codec other than the default
+   * ("gzip") have distinct cache entry ids.
+   */
+  compression?: BuildCacheCompression;
 }
 
 /**
@@ -39,6 +46,18 @@ export class CacheEntryId {
   private constructor() {}
 
   public static parsePattern(pattern?: string): GetCacheEntryIdFunction {
+    const getBaseCacheEntryId: GetCacheEntryIdFunction = CacheEntryId._parseBasePattern(pattern);
+    return (options: IGenerateCacheEntryIdOptions) => {
+      const baseCacheEntryId: string = getBaseCacheEntryId(options);
+      const { compression } = options;
+      // Keep the ids of entries with the default codec unchanged
+      return compression && compression !== BuildCacheCompressor.defaultCompression
+        ? `${baseCacheEntryId}-${compression}`
+        : baseCacheEntryId;
+    };
+  }
+
+  private static _parseBasePattern(pattern: string | undefined): GetCacheEntryIdFunction {
     if (!pattern) {
       return ({ projectStateHash }) => projectStateHash;
     } else {
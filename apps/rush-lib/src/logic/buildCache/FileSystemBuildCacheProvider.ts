@@ -2,7 +2,7 @@
 // See LICENSE in the project root for license information.
 
 import * as path from 'path';
-import { FileSystem, ITerminal } from '@rushstack/node-core-library';
+import { FileSystem, FolderItem, ITerminal, Path } from '@rushstack/node-core-library';
 
 import { RushConfiguration } from '../../api/RushConfiguration';
 import { RushUserConfiguration } from '../../api/RushUserConfiguration';
@@ -20,10 +20,58 @@ export interface IFileSystemBuildCacheProviderOptions {
    * The user Rush configuration
    */
   rushUserConfiguration: RushUserConfiguration;
+  /**
+   * If specified, the least recently used cache entries are evicted when the total size of the
+   * cache exceeds this number of bytes.
+   */
+  maxCacheSizeBytes?: number;
+  /**
+   * If specified, cache entries that have not been used for this number of milliseconds are evicted.
+   */
+  maxCacheEntryAgeMs?: number;
+}
+
+/**
+ * The result of {@link FileSystemBuildCacheProvider.trimAsync}.
+ * @beta
+ */
+export interface IFileSystemBuildCacheTrimResult {
+  /**
+   * The number of entries in the cache before it was trimmed.
+   */
+  entryCount: number;
+  /**
+   * The total size of the cache before it was trimmed, in bytes.
+   */
+  totalSizeBytes: number;
+  /**
+   * The number of entries that were evicted.
+   */
+  evictedEntryCount: number;
+  /**
+   * The total size of the entries that were evicted, in bytes.
+   */
+  evictedSizeBytes: number;
+}
+
+interface ICacheEntryFile {
+  filePath: string;
+  sizeBytes: number;
+  lastAccessTime: number;
 }
 
 const DEFAULT_BUILD_CACHE_FOLDER_NAME: string = 'build-cache';
 
+/**
+ * Cache entries that are still being written use this extension, and are ignored by eviction.
+ */
+const TEMP_CACHE_ENTRY_EXTENSION: string = '.temp';
+
+/**
+ * Corrupt cache entries are moved to this subfolder of the cache folder. They are still subject to eviction.
+ */
+const QUARANTINE_FOLDER_NAME: string = '.quarantine';
+
 /**
  * A build cache provider using the local file system.
  * Required by all cloud cache providers.
@@ -31,11 +79,29 @@ const DEFAULT_BUILD_CACHE_FOLDER_NAME: string = 'build-cache';
  */
 export class FileSystemBuildCacheProvider {
   private readonly _cacheFolderPath: string;
+  private readonly _maxCacheSizeBytes: number | undefined;
+  private readonly _maxCacheEntryAgeMs: number | undefined;
 
   public constructor(options: IFileSystemBuildCacheProviderOptions) {
     this._cacheFolderPath =
       options.rushUserConfiguration.buildCacheFolder ||
       path.join(options.rushConfiguration.commonTempFolder, DEFAULT_BUILD_CACHE_FOLDER_NAME);
+    this._maxCacheSizeBytes = options.maxCacheSizeBytes;
+    this._maxCacheEntryAgeMs = options.maxCacheEntryAgeMs;
+  }
+
+  /**
+   * The absolute path of the folder that contains the cache entries.
+   */
+  public get cacheFolderPath(): string {
+    return this._cacheFolderPath;
+  }
+
+  /**
+   * True if a maximum size or a maximum entry age has been configured for the cache.
+   */
+  public get isEvictionEnabled(): boolean {
+    return this._maxCacheSizeBytes !== undefined || this._maxCacheEntryAgeMs !== undefined;
   }
 
   /**
@@ -69,8 +135,145 @@ export class FileSystemBuildCacheProvider {
     entryBuffer: Buffer
   ): Promise<string> {
     const cacheEntryFilePath: string = this.getCacheEntryPath(cacheId);
-    await FileSystem.writeFileAsync(cacheEntryFilePath, entryBuffer, { ensureFolderExists: true });
+    // Write to a temp file first, so that an interrupted write doesn't leave a truncated entry in the cache
+    const tempCacheEntryFilePath: string = `${cacheEntryFilePath}${TEMP_CACHE_ENTRY_EXTENSION}`;
+    await FileSystem.writeFileAsync(tempCacheEntryFilePath, entryBuffer, { ensureFolderExists: true });
+    await FileSystem.moveAsync({
+      sourcePath: tempCacheEntryFilePath,
+      destinationPath: cacheEntryFilePath,
+      overwrite: true
+    });
     terminal.writeVerboseLine(`Wrote cache entry to "${cacheEntryFilePath}".`);
     return cacheEntryFilePath;
   }
+
+  /**
+   * Moves a corrupt cache entry out of the cache, so that it is not restored again but can still be
+   * inspected. If `entryBuffer` is provided, it is saved instead of the entry in the local cache.
+   *
+   * @returns The path that the entry was saved to.
+   */
+  public async quarantineCacheEntryAsync(
+    terminal: ITerminal,
+    cacheId: string,
+    entryBuffer?: Buffer
+  ): Promise<string> {
+    const quarantinePath: string = path.join(this._cacheFolderPath, QUARANTINE_FOLDER_NAME, cacheId);
+    if (entryBuffer) {
+      await FileSystem.writeFileAsync(quarantinePath, entryBuffer, { ensureFolderExists: true });
+    } else {
+      await FileSystem.moveAsync({
+        sourcePath: this.getCacheEntryPath(cacheId),
+        destinationPath: quarantinePath,
+        overwrite: true,
+        ensureFolderExists: true
+      });
+    }
+
+    terminal.writeVerboseLine(`Quarantined cache entry "${cacheId}" to "${quarantinePath}".`);
+    return quarantinePath;
+  }
+
+  /**
+   * Records that the specified cache entry was used, so that it is evicted after less recently used entries.
+   *
+   * @remarks
+   * The access time is stored as the modification time of the file, because many file systems
+   * are mounted with options that prevent the real access time from being updated.
+   */
+  public async recordCacheEntryAccessAsync(terminal: ITerminal, cacheId: string): Promise<void> {
+    const now: Date = new Date();
+    try {
+      await FileSystem.updateTimesAsync(this.getCacheEntryPath(cacheId), {
+        accessedTime: now,
+        modifiedTime: now
+      });
+    } catch (e) {
+      // This only affects the eviction order, so it should not fail the operation
+      terminal.writeVerboseLine(`Unable to update the access time of cache entry "${cacheId}": ${e}`);
+    }
+  }
+
+  /**
+   * Evicts the entries that are older than the configured maximum age, and then evicts the least
+   * recently used entries until the total size of the cache is within the configured maximum size.
+   */
+  public async trimAsync(terminal: ITerminal): Promise<IFileSystemBuildCacheTrimResult> {
+    const cacheEntryFiles: ICacheEntryFile[] = await this._getCacheEntryFilesAsync();
+
+    let totalSizeBytes: number = 0;
+    for (const { sizeBytes } of cacheEntryFiles) {
+      totalSizeBytes += sizeBytes;
+    }
+
+    const result: IFileSystemBuildCacheTrimResult = {
+      entryCount: cacheEntryFiles.length,
+      totalSizeBytes,
+      evictedEntryCount: 0,
+      evictedSizeBytes: 0
+    };
+
+    // Least recently used entries first
+    cacheEntryFiles.sort((a: ICacheEntryFile, b: ICacheEntryFile) => a.lastAccessTime - b.lastAccessTime);
+
+    const minimumLastAccessTime: number =
+      this._maxCacheEntryAgeMs !== undefined ? Date.now() - this._maxCacheEntryAgeMs : -Infinity;
+    const maxCacheSizeBytes: number = this._maxCacheSizeBytes ?? Infinity;
+
+    for (const { filePath, sizeBytes, lastAccessTime } of cacheEntryFiles) {
+      if (
+        lastAccessTime >= minimumLastAccessTime &&
+        totalSizeBytes - result.evictedSizeBytes <= maxCacheSizeBytes
+      ) {
+        // All remaining entries are more recent, and the cache is small enough
+        break;
+      }
+
+      try {
+        await FileSystem.deleteFileAsync(filePath);
+      } catch (e) {
+        terminal.writeVerboseLine(`Unable to evict cache entry "${filePath}": ${e}`);
+        continue;
+      }
+
+      result.evictedEntryCount++;
+      result.evictedSizeBytes += sizeBytes;
+    }
+
+    if (result.evictedEntryCount > 0) {
+      terminal.writeVerboseLine(
+        `Evicted ${result.evictedEntryCount} of ${result.entryCount} entries from the local build cache.`
+      );
+    }
+
+    return result;
+  }
+
+  private async _getCacheEntryFilesAsync(): Promise<ICacheEntryFile[]> {
+    const cacheEntryFiles: ICacheEntryFile[] = [];
+    if (!(await FileSystem.existsAsync(this._cacheFolderPath))) {
+      return cacheEntryFiles;
+    }
+
+    // Cache IDs may contain slashes, so entries can be nested in subfolders
+    const folderPaths: string[] = [this._cacheFolderPath];
+    for (const folderPath of folderPaths) {
+      const folderItems: FolderItem[] = await FileSystem.readFolderItemsAsync(folderPath);
+      for (const folderItem of folderItems) {
+        const itemPath: string = path.join(folderPath, folderItem.name);
+        if (folderItem.isDirectory()) {
+          folderPaths.push(itemPath);
+        } else if (folderItem.isFile() && !folderItem.name.endsWith(TEMP_CACHE_ENTRY_EXTENSION)) {
+          const { size, mtimeMs } = await FileSystem.getStatisticsAsync(itemPath);
+          cacheEntryFiles.push({
+            filePath: Path.convertToSlashes(itemPath),
+            sizeBytes: size,
+            lastAccessTime: mtimeMs
+          });
+        }
+      }
+    }
+
+    return cacheEntryFiles;
+  }
 }
@@ -6,7 +6,7 @@ import events from 'events';
 import * as crypto from 'crypto';
 import type * as stream from 'stream';
 import * as tar from 'tar';
-import { FileSystem, Path, ITerminal, FolderItem } from '@rushstack/node-core-library';
+import { FileSystem, Path, ITerminal, FolderItem, PackageJsonLookup } from '@rushstack/node-core-library';
 
 import { RushConfigurationProject } from '../../api/RushConfigurationProject';
 import { ProjectChangeAnalyzer } from '../ProjectChangeAnalyzer';
@@ -16,6 +16,8 @@ import { BuildCacheConfiguration } from '../../api/BuildCacheConfiguration';
 import { ICloudBuildCacheProvider } from './ICloudBuildCacheProvider';
 import { FileSystemBuildCacheProvider } from './FileSystemBuildCacheProvider';
 import { TarExecutable } from '../../utilities/TarExecutable';
+import { BuildCacheEntry, IBuildCacheEntry } from './BuildCacheEntry';
+import { BuildCacheCompression, BuildCacheCompressor } from './BuildCacheCompression';
 import { Utilities } from '../../utilities/Utilities';
 
 export interface IProjectBuildCacheOptions {
@@ -47,17 +49,40 @@ export class ProjectBuildCache {
   private readonly _buildCacheEnabled: boolean;
   private readonly _cacheWriteEnabled: boolean;
   private readonly _projectOutputFolderNames: ReadonlyArray<string>;
+  private readonly _command: string;
+  private readonly _phaseName: string;
+  private readonly _projectStateHash: string | undefined;
+  private readonly _compression: BuildCacheCompression;
   private _cacheId: string | undefined;
 
-  private constructor(cacheId: string | undefined, options: IProjectBuildCacheOptions) {
-    const { buildCacheConfiguration, projectConfiguration, projectOutputFolderNames } = options;
+  private constructor(projectStateHash: string | undefined, options: IProjectBuildCacheOptions) {
+    const { buildCacheConfiguration, projectConfiguration, projectOutputFolderNames, command, phaseName } =
+      options;
     this._project = projectConfiguration.project;
     this._localBuildCacheProvider = buildCacheConfiguration.localCacheProvider;
     this._cloudBuildCacheProvider = buildCacheConfiguration.cloudCacheProvider;
     this._buildCacheEnabled = buildCacheConfiguration.buildCacheEnabled;
     this._cacheWriteEnabled = buildCacheConfiguration.cacheWriteEnabled;
     this._projectOutputFolderNames = projectOutputFolderNames || [];
-    this._cacheId = cacheId;
+    this._command = command;
+    this._phaseName = phaseName;
+    this._projectStateHash = projectStateHash;
+    this._compression = buildCacheConfiguration.compression;
+    this._cacheId = projectStateHash
+      ? buildCacheConfiguration.getCacheEntryId({
+          projectName: this._project.packageName,
+          projectStateHash,
+          phaseName,
+          compression: this._compression
+        })
+      : undefined;
+  }
+
+  /**
+   * The ID of this project's cache entry, or undefined if the project state hash could not be calculated.
+   */
+  public get cacheId(): string | undefined {
+    return this._cacheId;
   }
 
   private static _tryGetTarUtility(terminal: ITerminal): Promise<TarExecutable | undefined> {
@@ -87,8 +112,10 @@ export class ProjectBuildCache {
       return undefined;
     }
 
-    const cacheId: string | undefined = await ProjectBuildCache._getCacheId(options);
-    return new ProjectBuildCache(cacheId, options);
+    const projectStateHash: string | undefined = await ProjectBuildCache._tryGetProjectStateHashAsync(
+      options
+    );
+    return new ProjectBuildCache(projectStateHash, options);
   }
 
   private static _validateProject(
@@ -139,11 +166,14 @@ export class ProjectBuildCache {
       return false;
     }
 
-    let localCacheEntryPath: string | undefined =
+    const localCacheEntryPath: string | undefined =
       await this._localBuildCacheProvider.tryGetCacheEntryPathByIdAsync(terminal, cacheId);
     let cacheEntryBuffer: Buffer | undefined;
-    let updateLocalCacheSuccess: boolean | undefined;
-    if (!localCacheEntryPath && this._cloudBuildCacheProvider) {
+    if (localCacheEntryPath) {
+      // Keep recently used entries from being evicted from the local cache
+      await this._localBuildCacheProvider.recordCacheEntryAccessAsync(terminal, cacheId);
+      cacheEntryBuffer = await FileSystem.readFileToBufferAsync(localCacheEntryPath);
+    } else if (this._cloudBuildCacheProvider) {
       terminal.writeVerboseLine(
         'This project was not found in the local build cache. Querying the cloud build cache.'
       );
@@ -152,26 +182,61 @@ export class ProjectBuildCache {
         terminal,
         cacheId
       );
-      if (cacheEntryBuffer) {
-        try {
-          localCacheEntryPath = await this._localBuildCacheProvider.trySetCacheEntryBufferAsync(
-            terminal,
-            cacheId,
-            cacheEntryBuffer
-          );
-          updateLocalCacheSuccess = true;
-        } catch (e) {
-          updateLocalCacheSuccess = false;
-        }
-      }
     }
 
-    if (!localCacheEntryPath && !cacheEntryBuffer) {
+    if (!cacheEntryBuffer) {
       terminal.writeVerboseLine('This project was not found in the build cache.');
       return false;
     }
 
+    let cacheEntry: IBuildCacheEntry;
+    try {
+      cacheEntry = BuildCacheEntry.parse(cacheId, cacheEntryBuffer);
+    } catch (e) {
+      const source: string = localCacheEntryPath ? 'local' : 'cloud';
+      terminal.writeWarningLine(
+        `The ${source} build cache entry is corrupt and will not be restored. ${(e as Error).message}`
+      );
+      try {
+        // An entry from the cloud cache is saved so that it can be inspected, but it is not added to the cache
+        const quarantinePath: string = await this._localBuildCacheProvider.quarantineCacheEntryAsync(
+          terminal,
+          cacheId,
+          localCacheEntryPath ? undefined : cacheEntryBuffer
+        );
+        terminal.writeWarningLine(`The corrupt cache entry was moved to "${quarantinePath}".`);
+      } catch (quarantineError) {
+        terminal.writeWarningLine(`Unable to quarantine the corrupt cache entry: ${quarantineError}`);
+      }
+      return false;
+    }
+
+    const { compression } = cacheEntry.manifest;
+    let archiveBuffer: Buffer;
+    try {
+      archiveBuffer = await BuildCacheCompressor.decompressAsync(compression, cacheEntry.archiveBuffer);
+    } catch (e) {
+      terminal.writeWarningLine(
+        `Unable to decompress the cache entry with the "${compression}" codec: ${(e as Error).message}`
+      );
+      return false;
+    }
+
+    let updateLocalCacheSuccess: boolean | undefined;
+    if (!localCacheEntryPath) {
+      try {
+        await this._localBuildCacheProvider.trySetCacheEntryBufferAsync(terminal, cacheId, cacheEntryBuffer);
+        updateLocalCacheSuccess = true;
+      } catch (e) {
+        updateLocalCacheSuccess = false;
+      }
+    }
+
     terminal.writeLine('Build cache hit.');
+    terminal.writeVerboseLine(
+      `The cache entry was created by Rush ${cacheEntry.manifest.rushVersion} ` +
+        `and contains ${cacheEntry.manifest.outputFiles.length} files.`
+    );
 
     const projectFolderPath: string = this._project.projectFolder;
 
@@ -185,10 +250,10 @@ export class ProjectBuildCache {
 
     const tarUtility: TarExecutable | undefined = await ProjectBuildCache._tryGetTarUtility(terminal);
     let restoreSuccess: boolean = false;
-    if (tarUtility && localCacheEntryPath) {
+    if (tarUtility) {
       const logFilePath: string = this._getTarLogFilePath();
       const tarExitCode: number = await tarUtility.tryUntarAsync({
-        archivePath: localCacheEntryPath,
+        archiveBuffer,
         outputFolderPath: projectFolderPath,
         logFilePath
       });
@@ -204,16 +269,7 @@ export class ProjectBuildCache {
     }
 
     if (!restoreSuccess) {
-      if (!cacheEntryBuffer && localCacheEntryPath) {
-        cacheEntryBuffer = await FileSystem.readFileToBufferAsync(localCacheEntryPath);
-      }
-
-      if (!cacheEntryBuffer) {
-        throw new Error('Expected the cache entry buffer to be set.');
-      }
-
-      // If we don't have tar on the PATH, if we failed to update the local cache entry,
-      // or if the tar binary failed, untar in-memory
+      // If we don't have tar on the PATH, or if the tar binary failed, untar in-memory
       const tarStream: stream.Writable = tar.extract({
         cwd: projectFolderPath,
         // Set to true to omit writing mtime value for extracted entries.
@@ -221,7 +277,7 @@ export class ProjectBuildCache {
       });
       try {
         const tarPromise: Promise<unknown> = events.once(tarStream, 'drain');
-        tarStream.write(cacheEntryBuffer);
+        tarStream.write(archiveBuffer);
         await tarPromise;
         restoreSuccess = true;
       } catch (e) {
@@ -264,29 +320,22 @@ export class ProjectBuildCache {
       `Caching build output folders: ${filesToCache.filteredOutputFolderNames.join(', ')}`
     );
 
-    let localCacheEntryPath: string | undefined;
+    let tarBuffer: Buffer | undefined;
 
     const tarUtility: TarExecutable | undefined = await ProjectBuildCache._tryGetTarUtility(terminal);
     if (tarUtility) {
-      const finalLocalCacheEntryPath: string = this._localBuildCacheProvider.getCacheEntryPath(cacheId);
       // Derive the temp file from the destination path to ensure they are on the same volume
-      const tempLocalCacheEntryPath: string = `${finalLocalCacheEntryPath}.temp`;
+      const tempArchivePath: string = `${this._localBuildCacheProvider.getCacheEntryPath(cacheId)}.tar.temp`;
       const logFilePath: string = this._getTarLogFilePath();
       const tarExitCode: number = await tarUtility.tryCreateArchiveFromProjectPathsAsync({
-        archivePath: tempLocalCacheEntryPath,
+        archivePath: tempArchivePath,
         paths: filesToCache.outputFilePaths,
         project: this._project,
         logFilePath
       });
 
       if (tarExitCode === 0) {
-        // Move after the archive is finished so that if the process is interrupted we aren't left with an invalid file
-        await FileSystem.moveAsync({
-          sourcePath: tempLocalCacheEntryPath,
-          destinationPath: finalLocalCacheEntryPath,
-          overwrite: true
-        });
-        localCacheEntryPath = finalLocalCacheEntryPath;
+        tarBuffer = await FileSystem.readFileToBufferAsync(tempArchivePath);
       } else {
         terminal.writeWarningLine(
           `"tar" exited with code ${tarExitCode} while attempting to create the cache entry. ` +
@@ -294,31 +343,42 @@ export class ProjectBuildCache {
             `See "${logFilePath}" for logs from the tar process.`
         );
       }
+
+      await FileSystem.deleteFileAsync(tempArchivePath);
     }
 
-    let cacheEntryBuffer: Buffer | undefined;
-    let setLocalCacheEntryPromise: Promise<string> | undefined;
-    if (!localCacheEntryPath) {
+    if (!tarBuffer) {
       // If we weren't able to create the cache entry with tar, try to do it with the "tar" NPM package
       const tarStream: stream.Readable = tar.create(
         {
-          gzip: true,
           portable: true,
           strict: true,
           cwd: projectFolderPath
         },
         filesToCache.outputFilePaths
       );
-      cacheEntryBuffer = await Utilities.readStreamToBufferAsync(tarStream);
-      setLocalCacheEntryPromise = this._localBuildCacheProvider.trySetCacheEntryBufferAsync(
-        terminal,
-        cacheId,
-        cacheEntryBuffer
-      );
-    } else {
-      setLocalCacheEntryPromise = Promise.resolve(localCacheEntryPath);
+      tarBuffer = await Utilities.readStreamToBufferAsync(tarStream);
     }
 
+    const archiveBuffer: Buffer = await BuildCacheCompressor.compressAsync(this._compression, tarBuffer);
+
+    const cacheEntryBuffer: Buffer = BuildCacheEntry.serialize(
+      {
+        // Not using Rush.version, because importing the Rush class would create a circular dependency
+        rushVersion: PackageJsonLookup.loadOwnPackageJson(__dirname).version,
+        cacheId,
+        projectStateHash: this._projectStateHash!,
+        phaseName: this._phaseName,
+        command: this._command,
+        outputFiles: filesToCache.outputFilePaths,
+        compression: this._compression
+      },
+      archiveBuffer
+    );
+
+    const setLocalCacheEntryPromise: Promise<string> =
+      this._localBuildCacheProvider.trySetCacheEntryBufferAsync(terminal, cacheId, cacheEntryBuffer);
+
     let setCloudCacheEntryPromise: Promise<boolean> | undefined;
 
     // Note that "writeAllowed" settings (whether in config or environment) always apply to
@@ -326,15 +386,7 @@ export class ProjectBuildCache {
     // write to the local build cache.
 
     if (this._cloudBuildCacheProvider?.isCacheWriteAllowed) {
-      if (!cacheEntryBuffer) {
-        if (localCacheEntryPath) {
-          cacheEntryBuffer = await FileSystem.readFileToBufferAsync(localCacheEntryPath);
-        } else {
-          throw new Error('Expected the local cache entry path to be set.');
-        }
-      }
-
-      setCloudCacheEntryPromise = this._cloudBuildCacheProvider?.trySetCacheEntryBufferAsync(
+      setCloudCacheEntryPromise = this._cloudBuildCacheProvider.trySetCacheEntryBufferAsync(
         terminal,
         cacheId,
         cacheEntryBuffer
@@ -438,7 +490,9 @@ export class ProjectBuildCache {
     return path.join(this._project.projectRushTempFolder, `${this._cacheId}.log`);
   }
 
-  private static async _getCacheId(options: IProjectBuildCacheOptions): Promise<string | undefined> {
+  private static async _tryGetProjectStateHashAsync(
+    options: IProjectBuildCacheOptions
+  ): Promise<string | undefined> {
     // The project state hash is calculated in the following method:
     // - The current project's hash (see ProjectChangeAnalyzer.getProjectStateHash) is
     //   calculated and appended to an array
@@ -497,12 +551,6 @@ export class ProjectBuildCache {
       hash.update(RushConstants.hashDelimiter);
     }
 
-    const projectStateHash: string = hash.digest('hex');
-
-    return options.buildCacheConfiguration.getCacheEntryId({
-      projectName: options.projectConfiguration.project.packageName,
-      projectStateHash,
-      phaseName: options.phaseName
-    });
+    return hash.digest('hex');
   }
 }
@@ -0,0 +1,59 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { BuildCacheEntry, IBuildCacheEntry, IBuildCacheEntryManifest } from '../BuildCacheEntry';
+import type { BuildCacheCompression } from '../BuildCacheCompression';
+
+const CACHE_ID: string = 'acme-wizard/1926f30e8ed24cb47be89aea39e7efd70fcda075';
+
+const MANIFEST: Omit<IBuildCacheEntryManifest, 'archiveSizeBytes' | 'archiveSha256'> = {
+  rushVersion: '5.64.0',
+  cacheId: CACHE_ID,
+  projectStateHash: '1926f30e8ed24cb47be89aea39e7efd70fcda075',
+  phaseName: '_phase:build',
+  command: 'heft build',
+  outputFiles: ['lib/index.js', 'lib/index.d.ts'],
+  compression: 'gzip'
+};
+
+describe(BuildCacheEntry.name, () => {
+  const archiveBuffer: Buffer = Buffer.from('this is not really a tarball');
+
+  it('round-trips an entry', () => {
+    const entryBuffer: Buffer = BuildCacheEntry.serialize(MANIFEST, archiveBuffer);
+    const entry: IBuildCacheEntry = BuildCacheEntry.parse(CACHE_ID, entryBuffer);
+    expect(entry.archiveBuffer.toString()).toEqual(archiveBuffer.toString());
+    expect(entry.manifest).toMatchSnapshot();
+  });
+
+  it('rejects a truncated entry', () => {
+    const entryBuffer: Buffer = BuildCacheEntry.serialize(MANIFEST, archiveBuffer);
+    expect(() =>
+      BuildCacheEntry.parse(CACHE_ID, entryBuffer.slice(0, entryBuffer.length - 5))
+    ).toThrowErrorMatchingSnapshot();
+    expect(() => BuildCacheEntry.parse(CACHE_ID, entryBuffer.slice(0, 40))).toThrowErrorMatchingSnapshot();
+  });
+
+  it('rejects an entry with a modified archive', () => {
+    const entryBuffer: Buffer = BuildCacheEntry.serialize(MANIFEST, archiveBuffer);
+    entryBuffer[entryBuffer.length - 1] ^= 0xff;
+    expect(() => BuildCacheEntry.parse(CACHE_ID, entryBuffer)).toThrowErrorMatchingSnapshot();
+  });
+
+  it('rejects an entry without a header', () => {
+    expect(() => BuildCacheEntry.parse(CACHE_ID, archiveBuffer)).toThrowErrorMatchingSnapshot();
+  });
+
+  it('rejects an entry with an unsupported compression', () => {
+    const entryBuffer: Buffer = BuildCacheEntry.serialize(
+      { ...MANIFEST, compression: 'zstd' as BuildCacheCompression },
+      archiveBuffer
+    );
+    expect(() => BuildCacheEntry.parse(CACHE_ID, entryBuffer)).toThrowErrorMatchingSnapshot();
+  });
+
+  it('rejects an entry for a different cache ID', () => {
+    const entryBuffer: Buffer = BuildCacheEntry.serialize(MANIFEST, archiveBuffer);
+    expect(() => BuildCacheEntry.parse('other-cache-id', entryBuffer)).toThrowErrorMatchingSnapshot();
+  });
+});
@@ -60,6 +60,27 @@ describe(CacheEntryId.name, () => {
     });
   });
 
+  describe('Compression', () => {
+    it('Appends the compression to the cache entry name for codecs other than gzip', () => {
+      const getCacheEntryId: GetCacheEntryIdFunction = CacheEntryId.parsePattern('[projectName]_[hash]');
+      const options: IGenerateCacheEntryIdOptions = {
+        projectName: 'project',
+        projectStateHash: '09d1ecee6d5f888fa6c35ca804b5dac7c3735ce3',
+        phaseName: '_phase:compile'
+      };
+      expect(getCacheEntryId(options)).toEqual('project_09d1ecee6d5f888fa6c35ca804b5dac7c3735ce3');
+      expect(getCacheEntryId({ ...options, compression: 'gzip' })).toEqual(
+        'project_09d1ecee6d5f888fa6c35ca804b5dac7c3735ce3'
+      );
+      expect(getCacheEntryId({ ...options, compression: 'none' })).toEqual(
+        'project_09d1ecee6d5f888fa6c35ca804b5dac7c3735ce3-none'
+      );
+      expect(getCacheEntryId({ ...options, compression: 'brotli' })).toEqual(
+        'project_09d1ecee6d5f888fa6c35ca804b5dac7c3735ce3-brotli'
+      );
+    });
+  });
+
   describe('Invalid pattern names', () => {
     async function validateInvalidPatternErrorMatchesSnapshotAsync(pattern: string): Promise<void> {
       await expect(() => CacheEntryId.parsePattern(pattern)).toThrowErrorMatchingSnapshot();
@@ -0,0 +1,131 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { FileSystem, StringBufferTerminalProvider, Terminal } from '@rushstack/node-core-library';
+
+import { RushConfiguration } from '../../../api/RushConfiguration';
+import { RushUserConfiguration } from '../../../api/RushUserConfiguration';
+import {
+  FileSystemBuildCacheProvider,
+  IFileSystemBuildCacheProviderOptions,
+  IFileSystemBuildCacheTrimResult
+} from '../FileSystemBuildCacheProvider';
+
+const TEMP_DIR_PATH: string = `${__dirname}/temp`;
+const DAY_MS: number = 24 * 60 * 60 * 1000;
+
+describe(FileSystemBuildCacheProvider.name, () => {
+  let terminal: Terminal;
+
+  beforeEach(() => {
+    FileSystem.ensureEmptyFolder(TEMP_DIR_PATH);
+    terminal = new Terminal(new StringBufferTerminalProvider());
+  });
+
+  afterEach(() => {
+    FileSystem.ensureEmptyFolder(TEMP_DIR_PATH);
+  });
+
+  function createProvider(
+    options: Pick<IFileSystemBuildCacheProviderOptions, 'maxCacheSizeBytes' | 'maxCacheEntryAgeMs'>
+  ): FileSystemBuildCacheProvider {
+    return new FileSystemBuildCacheProvider({
+      rushConfiguration: {} as RushConfiguration,
+      rushUserConfiguration: { buildCacheFolder: TEMP_DIR_PATH } as RushUserConfiguration,
+      ...options
+    });
+  }
+
+  async function writeEntryAsync(
+    provider: FileSystemBuildCacheProvider,
+    cacheId: string,
+    sizeBytes: number,
+    ageMs: number
+  ): Promise<void> {
+    const entryPath: string = await provider.trySetCacheEntryBufferAsync(
+      terminal,
+      cacheId,
+      Buffer.alloc(sizeBytes)
+    );
+    const time: Date = new Date(Date.now() - ageMs);
+    await FileSystem.updateTimesAsync(entryPath, { accessedTime: time, modifiedTime: time });
+  }
+
+  async function getRemainingEntriesAsync(provider: FileSystemBuildCacheProvider): Promise<string[]> {
+    const remaining: string[] = [];
+    for (const cacheId of ['a', 'b', 'c', 'nested/d']) {
+      if (await provider.tryGetCacheEntryPathByIdAsync(terminal, cacheId)) {
+        remaining.push(cacheId);
+      }
+    }
+    return remaining;
+  }
+
+  it('reports the cache without evicting entries if no limits are configured', async () => {
+    const provider: FileSystemBuildCacheProvider = createProvider({});
+    expect(provider.isEvictionEnabled).toEqual(false);
+
+    await writeEntryAsync(provider, 'a', 100, 3 * DAY_MS);
+    await writeEntryAsync(provider, 'nested/d', 50, 0);
+
+    const result: IFileSystemBuildCacheTrimResult = await provider.trimAsync(terminal);
+    expect(result).toEqual({
+      entryCount: 2,
+      totalSizeBytes: 150,
+      evictedEntryCount: 0,
+      evictedSizeBytes: 0
+    });
+  });
+
+  it('evicts entries that are older than the maximum age', async () => {
+    const provider: FileSystemBuildCacheProvider = createProvider({ maxCacheEntryAgeMs: 2 * DAY_MS });
+
+    await writeEntryAsync(provider, 'a', 100, 3 * DAY_MS);
+    await writeEntryAsync(provider, 'b', 100, DAY_MS);
+    await writeEntryAsync(provider, 'nested/d', 100, 5 * DAY_MS);
+
+    const result: IFileSystemBuildCacheTrimResult = await provider.trimAsync(terminal);
+    expect(result.evictedEntryCount).toEqual(2);
+    expect(result.evictedSizeBytes).toEqual(200);
+    expect(await getRemainingEntriesAsync(provider)).toEqual(['b']);
+  });
+
+  it('evicts the least recently used entries until the cache is within the maximum size', async () => {
+    const provider: FileSystemBuildCacheProvider = createProvider({ maxCacheSizeBytes: 250 });
+
+    await writeEntryAsync(provider, 'a', 100, 3 * DAY_MS);
+    await writeEntryAsync(provider, 'b', 100, 2 * DAY_MS);
+    await writeEntryAsync(provider, 'c', 100, DAY_MS);
+
+    // Using "a" makes "b" the least recently used entry
+    await provider.recordCacheEntryAccessAsync(terminal, 'a');
+
+    const result: IFileSystemBuildCacheTrimResult = await provider.trimAsync(terminal);
+    expect(result).toEqual({
+      entryCount: 3,
+      totalSizeBytes: 300,
+      evictedEntryCount: 1,
+      evictedSizeBytes: 100
+    });
+    expect(await getRemainingEntriesAsync(provider)).toEqual(['a', 'c']);
+  });
+
+  it('ignores entries that are still being written', async () => {
+    const provider: FileSystemBuildCacheProvider = createProvider({ maxCacheSizeBytes: 0 });
+
+    await writeEntryAsync(provider, 'a', 100, 0);
+    await FileSystem.writeFileAsync(`${TEMP_DIR_PATH}/b.temp`, 'partial');
+
+    const result: IFileSystemBuildCacheTrimResult = await provider.trimAsync(terminal);
+    expect(result.evictedEntryCount).toEqual(1);
+    expect(await FileSystem.existsAsync(`${TEMP_DIR_PATH}/b.temp`)).toEqual(true);
+  });
+
+  it('handles a cache folder that does not exist', async () => {
+    FileSystem.deleteFolder(TEMP_DIR_PATH);
+    const provider: FileSystemBuildCacheProvider = createProvider({ maxCacheSizeBytes: 0 });
+
+    const result: IFileSystemBuildCacheTrimResult = await provider.trimAsync(terminal);
+    expect(result.entryCount).toEqual(0);
+  });
+});
@@ -57,7 +57,7 @@ describe(ProjectBuildCache.name, () => {
     it('returns a ProjectBuildCache with a calculated cacheId value', async () => {
       const subject: ProjectBuildCache = (await prepareSubject({}))!;
       expect(subject['_cacheId']).toMatchInlineSnapshot(
-        `"acme-wizard/1926f30e8ed24cb47be89aea39e7efd70fcda075"`
+        `"acme-wizard/bb7633fef1e8a70f64714aabfeda78b5cd803e3c"`
       );
     });
 
@@ -25,6 +25,8 @@ import {
   Text
 } from '@rushstack/node-core-library';
 import { DeployArchiver } from './DeployArchiver';
+import { DeployOciImageBuilder } from './DeployOciImageBuilder';
+import { DeployReport, IDeployReportJson } from './DeployReport';
 import { RushConfiguration } from '../../api/RushConfiguration';
 import { SymlinkAnalyzer, ILinkInfo } from './SymlinkAnalyzer';
 import { RushConfigurationProject } from '../../api/RushConfigurationProject';
@@ -79,6 +81,20 @@ interface IFolderInfo {
   projectSettings?: IDeployScenarioProjectJson;
 }
 
+/**
+ * Describes how a package folder was discovered while crawling the dependencies.
+ */
+export interface IDependencyInfo {
+  packageName: string;
+  version: string;
+
+  /**
+   * The absolute real path of the package folder that depends on this package, or undefined if this
+   * is one of the Rush projects that the crawl started from.
+   */
+  parentFolderPath: string | undefined;
+}
+
 /**
  * This object tracks DeployManager state during a deployment.
  */
@@ -114,6 +130,11 @@ export interface IDeployState {
    */
   folderInfosByPath: Map<string, IFolderInfo>;
 
+  /**
+   * Describes each of the foldersToCopy paths, which are the keys of this map.
+   */
+  dependencyInfosByPath: Map<string, IDependencyInfo>;
+
   symlinkAnalyzer: SymlinkAnalyzer;
 
   /**
@@ -126,6 +147,11 @@ export interface IDeployState {
    * The desired path to be used when archiving the target folder. Supported file extensions: .zip.
    */
   createArchiveFilePath: string | undefined;
+
+  /**
+   * The desired path of the OCI image that is created from the target folder. Supported file extensions: .tar.
+   */
+  createOciImageFilePath: string | undefined;
 }
 
 /**
@@ -143,7 +169,11 @@ export class DeployManager {
   /**
    * Recursively crawl the node_modules dependencies and collect the result in IDeployState.foldersToCopy.
    */
-  private _collectFoldersRecursive(packageJsonFolderPath: string, deployState: IDeployState): void {
+  private _collectFoldersRecursive(
+    packageJsonFolderPath: string,
+    parentFolderPath: string | undefined,
+    deployState: IDeployState
+  ): void {
     const packageJsonRealFolderPath: string = FileSystem.getRealPath(packageJsonFolderPath);
 
     if (deployState.foldersToCopy.has(packageJsonRealFolderPath)) {
@@ -157,6 +187,12 @@ export class DeployManager {
       path.join(packageJsonRealFolderPath, 'package.json')
     );
 
+    deployState.dependencyInfosByPath.set(packageJsonRealFolderPath, {
+      packageName: originalPackageJson.name,
+      version: originalPackageJson.version,
+      parentFolderPath
+    });
+
     const sourceFolderInfo: IFolderInfo | undefined = deployState.folderInfosByPath.get(
       FileSystem.getRealPath(packageJsonFolderPath)
     );
@@ -203,7 +239,12 @@ export class DeployManager {
 
     for (const dependencyPackageName of dependencyNamesToProcess) {
       try {
-        this._traceResolveDependency(dependencyPackageName, packageJsonRealFolderPath, deployState);
+        this._traceResolveDependency(
+          dependencyPackageName,
+          packageJsonRealFolderPath,
+          packageJsonRealFolderPath,
+          deployState
+        );
       } catch (resolveErr) {
         if (
           (resolveErr as NodeJS.ErrnoException).code === 'MODULE_NOT_FOUND' &&
@@ -238,7 +279,12 @@ export class DeployManager {
           // "dependencies": {
           //   "alias-name": "npm:real-name@^1.2.3"
           // }
-          this._traceResolveDependency(packageJson.name, pnpmDotFolderPath, deployState);
+          this._traceResolveDependency(
+            packageJson.name,
+            pnpmDotFolderPath,
+            packageJsonRealFolderPath,
+            deployState
+          );
         } catch (resolveErr) {
           if ((resolveErr as NodeJS.ErrnoException).code === 'MODULE_NOT_FOUND') {
             // The workaround link isn't guaranteed to exist, so ignore if it's missing
@@ -292,6 +338,7 @@ export class DeployManager {
   private _traceResolveDependency(
     packageName: string,
     startingFolder: string,
+    parentFolderPath: string,
     deployState: IDeployState
   ): void {
     // The "resolve" library models the Node.js require() API, which gives precedence to "core" system modules
@@ -336,7 +383,7 @@ export class DeployManager {
       throw new Error(`Error finding package.json folder for ${resolvedDependency}`);
     }
 
-    this._collectFoldersRecursive(dependencyPackageFolderPath, deployState);
+    this._collectFoldersRecursive(dependencyPackageFolderPath, parentFolderPath, deployState);
   }
 
   /**
@@ -646,7 +693,7 @@ export class DeployManager {
         throw new Error(`The project ${projectName} is not defined in rush.json`);
       }
 
-      this._collectFoldersRecursive(project.projectFolder, deployState);
+      this._collectFoldersRecursive(project.projectFolder, undefined, deployState);
 
       console.log();
     }
@@ -696,7 +743,15 @@ export class DeployManager {
         alreadyExistsBehavior: AlreadyExistsBehavior.Error
       });
     }
+
+    const deployReportJson: IDeployReportJson = DeployReport.createReport(deployState);
+
     await DeployArchiver.createArchiveAsync(deployState);
+    await DeployOciImageBuilder.createOciImageAsync(deployState);
+
+    // Write the report after packaging, so that it is not included in the archive or the image
+    console.log('Writing deploy-report.json');
+    DeployReport.saveReport(deployState, deployReportJson);
   }
 
   /**
@@ -707,7 +762,8 @@ export class DeployManager {
     scenarioName: string | undefined,
     overwriteExisting: boolean,
     targetFolderParameter: string | undefined,
-    createArchiveFilePath: string | undefined
+    createArchiveFilePath: string | undefined,
+    createOciImageFilePath: string | undefined
   ): Promise<void> {
     const scenarioFilePath: string = DeployScenarioConfiguration.getConfigFilePath(
       scenarioName,
@@ -776,6 +832,12 @@ export class DeployManager {
       );
     }
 
+    if (createOciImageFilePath && path.extname(createOciImageFilePath) !== '.tar') {
+      throw new Error(
+        'The "--create-oci-image" parameter only supports image files with the .tar file extension.'
+      );
+    }
+
     const deployState: IDeployState = {
       scenarioFilePath,
       scenarioConfiguration,
@@ -784,12 +846,14 @@ export class DeployManager {
       targetRootFolder,
       foldersToCopy: new Set(),
       folderInfosByPath: new Map(),
+      dependencyInfosByPath: new Map(),
       symlinkAnalyzer: new SymlinkAnalyzer(),
       pnpmfileConfiguration:
         this._rushConfiguration.packageManager === 'pnpm'
           ? new PnpmfileConfiguration(this._rushConfiguration)
           : undefined,
-      createArchiveFilePath
+      createArchiveFilePath,
+      createOciImageFilePath
     };
 
     await this._prepareDeploymentAsync(deployState);
@@ -0,0 +1,444 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import * as tar from 'tar';
+import { pipeline } from 'stream';
+import { promisify } from 'util';
+import { FileSystem, FileSystemStats, JsonFile, Path } from '@rushstack/node-core-library';
+
+import { IDeployState } from './DeployManager';
+import { IDeployScenarioOciImageJson } from './DeployScenarioConfiguration';
+
+const pipelineAsync: typeof pipeline.__promisify__ = promisify(pipeline);
+
+const OCI_MANIFEST_MEDIA_TYPE: string = 'application/vnd.oci.image.manifest.v1+json';
+const OCI_CONFIG_MEDIA_TYPE: string = 'application/vnd.oci.image.config.v1+json';
+const OCI_GZIP_LAYER_MEDIA_TYPE: string = 'application/vnd.oci.image.layer.v1.tar+gzip';
+
+const DEFAULT_WORKING_DIRECTORY: string = '/app';
+const DEFAULT_ARCHITECTURE: string = 'amd64';
+const DEFAULT_IMAGE_TAG: string = 'latest';
+
+// Using a fixed modification time makes the layers reproducible, so that unchanged layers
+// have the same digest and can be reused from the registry's and the container runtime's caches.
+const LAYER_ENTRY_MTIME: Date = new Date(0);
+
+/**
+ * The options that are used with tar.create(). The "mtime" option is supported by the "tar" package,
+ * but is missing from its typings.
+ */
+interface ICreateTarOptions extends tar.CreateOptions, tar.FileOptions {
+  file: string;
+  mtime: Date;
+  sync: true;
+}
+
+/**
+ * Part of the OCI image manifest and index formats.
+ * See https://github.com/opencontainers/image-spec/blob/main/descriptor.md
+ */
+interface IOciDescriptor {
+  mediaType: string;
+  digest: string;
+  size: number;
+  annotations?: Record<string, string>;
+  platform?: {
+    architecture: string;
+    os: string;
+  };
+}
+
+/**
+ * The "index.json" file format of an OCI image layout.
+ * See https://github.com/opencontainers/image-spec/blob/main/image-index.md
+ */
+interface IOciIndexJson {
+  schemaVersion: 2;
+  manifests: IOciDescriptor[];
+}
+
+/**
+ * See https://github.com/opencontainers/image-spec/blob/main/manifest.md
+ */
+interface IOciManifestJson {
+  schemaVersion: 2;
+  mediaType?: string;
+  config: IOciDescriptor;
+  layers: IOciDescriptor[];
+  annotations?: Record<string, string>;
+}
+
+/**
+ * The subset of the image configuration format that is used by "rush deploy". Other properties of
+ * the base image's configuration are preserved as is.
+ * See https://github.com/opencontainers/image-spec/blob/main/config.md
+ */
+interface IOciImageConfigJson {
+  architecture: string;
+  os: string;
+  config?: {
+    Env?: string[];
+    Entrypoint?: string[];
+    Cmd?: string[];
+    WorkingDir?: string;
+  };
+  rootfs: {
+    type: 'layers';
+    diff_ids: string[];
+  };
+  history?: { created_by?: string; comment?: string; empty_layer?: boolean }[];
+}
+
+interface IBaseImage {
+  manifest: IOciManifestJson;
+  config: IOciImageConfigJson;
+  blobsFolder: string;
+}
+
+interface ILayerInfo {
+  descriptor: IOciDescriptor;
+  diffId: string;
+  description: string;
+}
+
+/**
+ * Creates a container image in the OCI image layout format from the deployment folder, without
+ * requiring a Docker daemon.
+ */
+export class DeployOciImageBuilder {
+  public static async createOciImageAsync(deployState: IDeployState): Promise<void> {
+    if (deployState.createOciImageFilePath === undefined) {
+      return;
+    }
+
+    console.log('Creating OCI image...');
+    const imageFilePath: string = path.resolve(
+      deployState.targetRootFolder,
+      deployState.createOciImageFilePath
+    );
+    const ociImageJson: IDeployScenarioOciImageJson = deployState.scenarioConfiguration.json.ociImage || {};
+
+    let baseImage: IBaseImage | undefined;
+    if (ociImageJson.baseImageLayoutPath !== undefined) {
+      baseImage = this._loadBaseImage(
+        path.resolve(deployState.sourceRootFolder, ociImageJson.baseImageLayoutPath)
+      );
+    }
+
+    // The image layout is assembled in a staging folder, which is then packed into the image file
+    const stagingFolder: string = `${imageFilePath}.staging`;
+    FileSystem.ensureEmptyFolder(stagingFolder);
+    try {
+      const blobsFolder: string = path.join(stagingFolder, 'blobs', 'sha256');
+      FileSystem.ensureFolder(blobsFolder);
+
+      const baseLayers: IOciDescriptor[] = [];
+      if (baseImage) {
+        for (const layer of baseImage.manifest.layers) {
+          const digestHex: string = this._getDigestHex(layer.digest);
+          FileSystem.copyFile({
+            sourcePath: path.join(baseImage.blobsFolder, digestHex),
+            destinationPath: path.join(blobsFolder, digestHex)
+          });
+          baseLayers.push(layer);
+        }
+      }
+
+      // Files from the deployment that should not be part of the image
+      const excludedPaths: Set<string> = new Set([imageFilePath, stagingFolder]);
+      if (deployState.createArchiveFilePath !== undefined) {
+        excludedPaths.add(path.resolve(deployState.targetRootFolder, deployState.createArchiveFilePath));
+      }
+
+      // The dependencies change less often than the project files, so they are put in a separate layer
+      // that comes first; that way, the layer can usually be reused when only the project files change.
+      const dependencyPaths: string[] = [];
+      const projectPaths: string[] = [];
+      for (const relativePath of this._getRelativePathsRecursively(
+        deployState.targetRootFolder,
+        '',
+        excludedPaths
+      )) {
+        if (relativePath.split('/').indexOf('node_modules') >= 0) {
+          dependencyPaths.push(relativePath);
+        } else {
+          projectPaths.push(relativePath);
+        }
+      }
+
+      const workingDirectory: string = ociImageJson.workingDirectory || DEFAULT_WORKING_DIRECTORY;
+      const layers: ILayerInfo[] = [];
+      for (const [description, relativePaths] of [
+        ['node_modules', dependencyPaths],
+        ['project files', projectPaths]
+      ] as [string, string[]][]) {
+        if (relativePaths.length > 0) {
+          layers.push(
+            await this._createLayerAsync(
+              deployState.targetRootFolder,
+              relativePaths,
+              workingDirectory,
+              stagingFolder,
+              description
+            )
+          );
+        }
+      }
+
+      const imageConfig: IOciImageConfigJson = this._getImageConfig(
+        ociImageJson,
+        baseImage?.config,
+        layers,
+        workingDirectory
+      );
+      const configDescriptor: IOciDescriptor = this._writeJsonBlob(
+        imageConfig,
+        OCI_CONFIG_MEDIA_TYPE,
+        blobsFolder
+      );
+
+      const manifest: IOciManifestJson = {
+        schemaVersion: 2,
+        mediaType: OCI_MANIFEST_MEDIA_TYPE,
+        config: configDescriptor,
+        layers: [...baseLayers, ...layers.map((layer: ILayerInfo) => layer.descriptor)]
+      };
+      if (ociImageJson.baseImageName) {
+        manifest.annotations = {
+          'org.opencontainers.image.base.name': ociImageJson.baseImageName
+        };
+      }
+      const manifestDescriptor: IOciDescriptor = this._writeJsonBlob(
+        manifest,
+        OCI_MANIFEST_MEDIA_TYPE,
+        blobsFolder
+      );
+
+      const index: IOciIndexJson = {
+        schemaVersion: 2,
+        manifests: [
+          {
+            ...manifestDescriptor,
+            annotations: {
+              'org.opencontainers.image.ref.name': ociImageJson.imageTag || DEFAULT_IMAGE_TAG
+            },
+            platform: {
+              architecture: imageConfig.architecture,
+              os: imageConfig.os
+            }
+          }
+        ]
+      };
+      JsonFile.save(index, path.join(stagingFolder, 'index.json'));
+      JsonFile.save({ imageLayoutVersion: '1.0.0' }, path.join(stagingFolder, 'oci-layout'));
+
+      FileSystem.ensureFolder(path.dirname(imageFilePath));
+      const imageTarOptions: ICreateTarOptions = {
+        file: imageFilePath,
+        cwd: stagingFolder,
+        portable: true,
+        mtime: LAYER_ENTRY_MTIME,
+        sync: true
+      };
+      tar.create(imageTarOptions, ['oci-layout', 'index.json', 'blobs']);
+    } finally {
+      FileSystem.deleteFolder(stagingFolder);
+    }
+
+    console.log('OCI image created successfully: ' + imageFilePath);
+  }
+
+  /**
+   * Loads a single-platform image from a folder in the OCI image layout format.
+   */
+  private static _loadBaseImage(baseImageLayoutFolder: string): IBaseImage {
+    const indexJsonPath: string = path.join(baseImageLayoutFolder, 'index.json');
+    if (!FileSystem.exists(indexJsonPath)) {
+      throw new Error(
+        'The "baseImageLayoutPath" setting does not refer to a folder in the OCI image layout format: ' +
+          baseImageLayoutFolder
+      );
+    }
+
+    const index: IOciIndexJson = JsonFile.load(indexJsonPath);
+    const blobsFolder: string = path.join(baseImageLayoutFolder, 'blobs', 'sha256');
+    const manifestDescriptors: IOciDescriptor[] = index.manifests.filter(
+      (descriptor: IOciDescriptor) => descriptor.mediaType === OCI_MANIFEST_MEDIA_TYPE
+    );
+    if (manifestDescriptors.length !== 1) {
+      throw new Error(
+        `The base image in "${baseImageLayoutFolder}" must contain exactly one image manifest, but it` +
+          ` contains ${manifestDescriptors.length}. Multi-platform images are not supported; copy the` +
+          ` image for a single platform instead.`
+      );
+    }
+
+    const manifest: IOciManifestJson = JsonFile.load(
+      path.join(blobsFolder, this._getDigestHex(manifestDescriptors[0].digest))
+    );
+    const config: IOciImageConfigJson = JsonFile.load(
+      path.join(blobsFolder, this._getDigestHex(manifest.config.digest))
+    );
+
+    return { manifest, config, blobsFolder };
+  }
+
+  private static _getImageConfig(
+    ociImageJson: IDeployScenarioOciImageJson,
+    baseConfig: IOciImageConfigJson | undefined,
+    layers: ILayerInfo[],
+    workingDirectory: string
+  ): IOciImageConfigJson {
+    const imageConfig: IOciImageConfigJson = baseConfig
+      ? JSON.parse(JSON.stringify(baseConfig))
+      : {
+          architecture: ociImageJson.architecture || DEFAULT_ARCHITECTURE,
+          os: 'linux',
+          rootfs: { type: 'layers', diff_ids: [] },
+          history: []
+        };
+
+    const config: Required<IOciImageConfigJson>['config'] = (imageConfig.config = imageConfig.config || {});
+    config.WorkingDir = workingDirectory;
+
+    if (ociImageJson.entrypoint) {
+      config.Entrypoint = ociImageJson.entrypoint;
+      // As with a Dockerfile, the base image's command is not meaningful for a different entry point
+      delete config.Cmd;
+    }
+    if (ociImageJson.cmd) {
+      config.Cmd = ociImageJson.cmd;
+    }
+
+    if (ociImageJson.environmentVariables) {
+      const envByName: Map<string, string> = new Map();
+      for (const variable of config.Env || []) {
+        const separatorIndex: number = variable.indexOf('=');
+        envByName.set(variable.substring(0, separatorIndex), variable.substring(separatorIndex + 1));
+      }
+      for (const [name, value] of Object.entries(ociImageJson.environmentVariables)) {
+        envByName.set(name, value);
+      }
+      config.Env = Array.from(envByName, ([name, value]) => `${name}=${value}`);
+    }
+
+    imageConfig.history = imageConfig.history || [];
+    for (const layer of layers) {
+      imageConfig.rootfs.diff_ids.push(layer.diffId);
+      imageConfig.history.push({ created_by: `rush deploy (${layer.description})` });
+    }
+
+    return imageConfig;
+  }
+
+  /**
+   * Packs the specified files into a gzipped layer blob, which is stored in the staging folder's blobs folder.
+   */
+  private static async _createLayerAsync(
+    sourceFolder: string,
+    relativePaths: string[],
+    workingDirectory: string,
+    stagingFolder: string,
+    description: string
+  ): Promise<ILayerInfo> {
+    const layerTarPath: string = path.join(stagingFolder, 'layer.tar');
+    const layerGzipPath: string = path.join(stagingFolder, 'layer.tar.gz');
+
+    const layerTarOptions: ICreateTarOptions = {
+      file: layerTarPath,
+      cwd: sourceFolder,
+      prefix: workingDirectory.replace(/^\/+/, ''),
+      portable: true,
+      mtime: LAYER_ENTRY_MTIME,
+      noDirRecurse: true,
+      sync: true
+    };
+    tar.create(layerTarOptions, relativePaths);
+
+    // The diff ID is the digest of the uncompressed layer, whereas the layer is referenced by
+    // the digest of its compressed blob
+    const diffIdHash: crypto.Hash = crypto.createHash('sha256');
+    const blobHash: crypto.Hash = crypto.createHash('sha256');
+    let size: number = 0;
+    await pipelineAsync(
+      fs.createReadStream(layerTarPath).on('data', (chunk: Buffer) => diffIdHash.update(chunk)),
+      zlib.createGzip().on('data', (chunk: Buffer) => {
+        blobHash.update(chunk);
+        size += chunk.length;
+      }),
+      fs.createWriteStream(layerGzipPath)
+    );
+    FileSystem.deleteFile(layerTarPath);
+
+    const blobDigestHex: string = blobHash.digest('hex');
+    FileSystem.move({
+      sourcePath: layerGzipPath,
+      destinationPath: path.join(stagingFolder, 'blobs', 'sha256', blobDigestHex),
+      overwrite: true
+    });
+
+    return {
+      descriptor: {
+        mediaType: OCI_GZIP_LAYER_MEDIA_TYPE,
+        digest: `sha256:${blobDigestHex}`,
+        size
+      },
+      diffId: `sha256:${diffIdHash.digest('hex')}`,
+      description
+    };
+  }
+
+  private static _writeJsonBlob(json: object, mediaType: string, blobsFolder: string): IOciDescriptor {
+    const content: Buffer = Buffer.from(JSON.stringify(json));
+    const digestHex: string = crypto.createHash('sha256').update(content).digest('hex');
+    FileSystem.writeFile(path.join(blobsFolder, digestHex), content);
+    return {
+      mediaType,
+      digest: `sha256:${digestHex}`,
+      size: content.length
+    };
+  }
+
+  private static _getDigestHex(digest: string): string {
+    const match: RegExpMatchArray | null = digest.match(/^sha256:([a-f0-9]{64})$/);
+    if (!match) {
+      throw new Error(`Unsupported digest in the base image: "${digest}"`);
+    }
+    return match[1];
+  }
+
+  /**
+   * Returns the paths of the files, folders and symbolic links in the folder, in a stable order.
+   * The paths are relative to the root folder and use forward slashes. Symbolic links are not followed.
+   */
+  private static _getRelativePathsRecursively(
+    rootFolder: string,
+    relativeFolder: string,
+    excludedPaths: Set<string>
+  ): string[] {
+    const results: string[] = [];
+    const folderPath: string = path.join(rootFolder, relativeFolder);
+    const itemNames: string[] = FileSystem.readFolderItemNames(folderPath).sort();
+
+    for (const itemName of itemNames) {
+      const itemPath: string = path.join(folderPath, itemName);
+      if (excludedPaths.has(itemPath)) {
+        continue;
+      }
+
+      const relativePath: string = Path.convertToSlashes(path.join(relativeFolder, itemName));
+      results.push(relativePath);
+
+      const stat: FileSystemStats = FileSystem.getLinkStatistics(itemPath);
+      if (stat.isDirectory()) {
+        results.push(...this._getRelativePathsRecursively(rootFolder, relativePath, excludedPaths));
+      }
+    }
+
+    return results;
+  }
+}
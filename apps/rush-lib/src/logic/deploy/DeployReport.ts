@@ -0,0 +1,196 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import colors from 'colors/safe';
+import * as path from 'path';
+import {
+  AlreadyReportedError,
+  FileSystem,
+  FileSystemStats,
+  JsonFile,
+  NewlineKind,
+  Path
+} from '@rushstack/node-core-library';
+
+import { IDependencyInfo, IDeployState } from './DeployManager';
+
+/**
+ * The number of packages that are printed when the deployment exceeds its size budget.
+ */
+const LARGEST_PACKAGES_TO_PRINT: number = 10;
+
+const DEPLOY_REPORT_FILENAME: string = 'deploy-report.json';
+
+/**
+ * The deploy-report.json file format.
+ */
+export interface IDeployReportJson {
+  scenarioName: string;
+  mainProjectName: string;
+
+  /**
+   * The total size of the files in the deploy folder, in bytes. Symbolic links are not counted.
+   */
+  totalSizeBytes: number;
+
+  /**
+   * The "maxDeploySizeBytes" setting from the scenario config file, if it is specified.
+   */
+  maxDeploySizeBytes?: number;
+
+  /**
+   * The number of symbolic links that were found while crawling the dependencies.
+   */
+  linkCount: number;
+
+  /**
+   * The packages that were copied, ordered from largest to smallest.
+   */
+  packages: IDeployReportPackageJson[];
+}
+
+/**
+ * Part of the deploy-report.json file format. Represents a package that was copied.
+ */
+export interface IDeployReportPackageJson {
+  packageName: string;
+  version: string;
+
+  /**
+   * The path of the package folder, relative to the deploy folder.
+   */
+  path: string;
+
+  /**
+   * The total size of the package's files, in bytes. Nested node_modules folders are not included.
+   */
+  sizeBytes: number;
+
+  /**
+   * The names of the packages that caused this package to be deployed, starting from the Rush project
+   * that was deployed and ending with this package.
+   */
+  dependencyChain: string[];
+}
+
+/**
+ * Reports the contents of the deploy folder and enforces the "maxDeploySizeBytes" setting.
+ */
+export class DeployReport {
+  /**
+   * Measures the deploy folder and throws if the deployment is larger than the "maxDeploySizeBytes"
+   * setting allows.
+   *
+   * @remarks
+   * This must be called before the archive or the OCI image is created, so that they are not counted.
+   * The report is only saved if the size budget is exceeded; otherwise the caller should save it with
+   * {@link DeployReport.saveReport} after packaging, so that it does not end up in the archive or the image.
+   */
+  public static createReport(deployState: IDeployState): IDeployReportJson {
+    const { maxDeploySizeBytes } = deployState.scenarioConfiguration.json;
+
+    const packages: IDeployReportPackageJson[] = [];
+    for (const [folderPath, dependencyInfo] of deployState.dependencyInfosByPath) {
+      const relativePath: string = path.relative(deployState.sourceRootFolder, folderPath);
+      packages.push({
+        packageName: dependencyInfo.packageName,
+        version: dependencyInfo.version,
+        path: Path.convertToSlashes(relativePath),
+        sizeBytes: this._getFolderSize(path.join(deployState.targetRootFolder, relativePath), true),
+        dependencyChain: this._getDependencyChain(dependencyInfo, deployState)
+      });
+    }
+    packages.sort((a: IDeployReportPackageJson, b: IDeployReportPackageJson) => {
+      return b.sizeBytes - a.sizeBytes || a.path.localeCompare(b.path);
+    });
+
+    const deployReportJson: IDeployReportJson = {
+      scenarioName: path.basename(deployState.scenarioFilePath),
+      mainProjectName: deployState.mainProjectName,
+      totalSizeBytes: this._getFolderSize(deployState.targetRootFolder, false),
+      maxDeploySizeBytes,
+      linkCount: deployState.symlinkAnalyzer.reportSymlinks().length,
+      packages
+    };
+
+    console.log(
+      `Deployed ${packages.length} packages, with a total size of ${deployReportJson.totalSizeBytes} bytes`
+    );
+
+    if (maxDeploySizeBytes !== undefined && deployReportJson.totalSizeBytes > maxDeploySizeBytes) {
+      this.saveReport(deployState, deployReportJson);
+
+      console.log(
+        '\n' +
+          colors.red(
+            `The deployment is ${deployReportJson.totalSizeBytes} bytes, which exceeds the` +
+              ` "maxDeploySizeBytes" limit of ${maxDeploySizeBytes} bytes from ${deployReportJson.scenarioName}.`
+          )
+      );
+      console.log('The largest packages are:');
+      for (const packageJson of packages.slice(0, LARGEST_PACKAGES_TO_PRINT)) {
+        console.log(
+          `  ${packageJson.packageName}@${packageJson.version}: ${packageJson.sizeBytes} bytes` +
+            ` (${packageJson.dependencyChain.join(' > ')})`
+        );
+      }
+      console.log(`See ${DEPLOY_REPORT_FILENAME} in the deploy folder for details.`);
+      throw new AlreadyReportedError();
+    }
+
+    return deployReportJson;
+  }
+
+  /**
+   * Writes the deploy-report.json file to the deploy folder.
+   */
+  public static saveReport(deployState: IDeployState, deployReportJson: IDeployReportJson): void {
+    JsonFile.save(deployReportJson, path.join(deployState.targetRootFolder, DEPLOY_REPORT_FILENAME), {
+      newlineConversion: NewlineKind.OsDefault
+    });
+  }
+
+  private static _getDependencyChain(dependencyInfo: IDependencyInfo, deployState: IDeployState): string[] {
+    const dependencyChain: string[] = [dependencyInfo.packageName];
+    const visitedFolderPaths: Set<string> = new Set();
+
+    let parentFolderPath: string | undefined = dependencyInfo.parentFolderPath;
+    while (parentFolderPath !== undefined && !visitedFolderPaths.has(parentFolderPath)) {
+      visitedFolderPaths.add(parentFolderPath);
+      const parentInfo: IDependencyInfo | undefined = deployState.dependencyInfosByPath.get(parentFolderPath);
+      if (!parentInfo) {
+        break;
+      }
+      dependencyChain.unshift(parentInfo.packageName);
+      parentFolderPath = parentInfo.parentFolderPath;
+    }
+
+    return dependencyChain;
+  }
+
+  /**
+   * Sums the sizes of the files in the folder, without following symbolic links.
+   */
+  private static _getFolderSize(folderPath: string, excludeNodeModules: boolean): number {
+    if (!FileSystem.exists(folderPath)) {
+      return 0;
+    }
+
+    let size: number = 0;
+    for (const itemName of FileSystem.readFolderItemNames(folderPath)) {
+      if (excludeNodeModules && itemName === 'node_modules') {
+        // Nested packages are reported separately
+        continue;
+      }
+
+      const itemPath: string = path.join(folderPath, itemName);
+      const stats: FileSystemStats = FileSystem.getLinkStatistics(itemPath);
+      if (stats.isDirectory()) {
+        size += this._getFolderSize(itemPath, excludeNodeModules);
+      } else if (stats.isFile()) {
+        size += stats.size;
+      }
+    }
+    return size;
+  }
+}
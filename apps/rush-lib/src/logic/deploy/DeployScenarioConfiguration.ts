@@ -14,6 +14,18 @@ export interface IDeployScenarioProjectJson {
   dependenciesToExclude?: string[];
 }
 
+// Describes IDeployScenarioJson.ociImage
+export interface IDeployScenarioOciImageJson {
+  baseImageLayoutPath?: string;
+  baseImageName?: string;
+  architecture?: string;
+  entrypoint?: string[];
+  cmd?: string[];
+  environmentVariables?: { [name: string]: string };
+  workingDirectory?: string;
+  imageTag?: string;
+}
+
 // The parsed JSON file structure, as defined by the "deploy-scenario.schema.json" JSON schema
 export interface IDeployScenarioJson {
   deploymentProjectNames: string[];
@@ -23,6 +35,8 @@ export interface IDeployScenarioJson {
   linkCreation?: 'default' | 'script' | 'none';
   folderToCopy?: string;
   projectSettings?: IDeployScenarioProjectJson[];
+  maxDeploySizeBytes?: number;
+  ociImage?: IDeployScenarioOciImageJson;
 }
 
 export class DeployScenarioConfiguration {
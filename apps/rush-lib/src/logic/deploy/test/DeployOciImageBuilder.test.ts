@@ -0,0 +1,426 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import * as tar from 'tar';
+import { FileSystem, JsonFile, JsonObject } from '@rushstack/node-core-library';
+
+import { DeployOciImageBuilder } from '../DeployOciImageBuilder';
+import type { IDeployState } from '../DeployManager';
+import type { IDeployScenarioOciImageJson } from '../DeployScenarioConfiguration';
+
+const TEMP_DIR_PATH: string = `${__dirname}/temp/DeployOciImageBuilder`;
+
+interface ILayerEntry {
+  path: string;
+  type: string;
+  linkpath?: string;
+}
+
+interface IImage {
+  index: JsonObject;
+  manifest: JsonObject;
+  config: JsonObject;
+  layers: ILayerEntry[][];
+  imageFolder: string;
+}
+
+function getDigest(content: Buffer): string {
+  return `sha256:${crypto.createHash('sha256').update(content).digest('hex')}`;
+}
+
+function readBlob(imageFolder: string, digest: string): Buffer {
+  return fs.readFileSync(path.join(imageFolder, 'blobs', 'sha256', digest.replace(/^sha256:/, '')));
+}
+
+function listLayer(imageFolder: string, digest: string): ILayerEntry[] {
+  const entries: ILayerEntry[] = [];
+  tar.t({
+    file: path.join(imageFolder, 'blobs', 'sha256', digest.replace(/^sha256:/, '')),
+    sync: true,
+    onentry: (entry: tar.ReadEntry) => {
+      const { path: entryPath, type, linkpath } = entry as tar.ReadEntry & { linkpath?: string };
+      entries.push(linkpath ? { path: entryPath, type: type!, linkpath } : { path: entryPath, type: type! });
+    }
+  } as unknown as tar.ListOptions);
+  return entries;
+}
+
+/**
+ * Creates a deployment folder with a project and its node_modules, including a symlink like the ones
+ * that "rush deploy" creates.
+ */
+function createDeployment(targetRootFolder: string): void {
+  FileSystem.writeFile(`${targetRootFolder}/apps/app/package.json`, '{"name":"app"}', {
+    ensureFolderExists: true
+  });
+  FileSystem.writeFile(`${targetRootFolder}/apps/app/lib/start.js`, 'require("dep");', {
+    ensureFolderExists: true
+  });
+  FileSystem.writeFile(`${targetRootFolder}/common/temp/node_modules/.pnpm/dep@1.0.0/index.js`, '', {
+    ensureFolderExists: true
+  });
+  FileSystem.ensureFolder(`${targetRootFolder}/apps/app/node_modules`);
+  fs.symlinkSync(
+    '../../../common/temp/node_modules/.pnpm/dep@1.0.0',
+    `${targetRootFolder}/apps/app/node_modules/dep`,
+    'dir'
+  );
+}
+
+function createDeployState(
+  folder: string,
+  ociImageJson: IDeployScenarioOciImageJson | undefined,
+  // Relative to the deployment folder. By default, the image is written outside of it.
+  imageFileName: string = '../images/image.tar'
+): IDeployState {
+  return {
+    sourceRootFolder: `${folder}/source`,
+    targetRootFolder: `${folder}/deploy`,
+    createArchiveFilePath: undefined,
+    createOciImageFilePath: imageFileName,
+    scenarioConfiguration: { json: { deploymentProjectNames: ['app'], ociImage: ociImageJson } }
+  } as unknown as IDeployState;
+}
+
+async function createImageAsync(deployState: IDeployState): Promise<IImage> {
+  await DeployOciImageBuilder.createOciImageAsync(deployState);
+
+  const imageFilePath: string = path.resolve(
+    deployState.targetRootFolder,
+    deployState.createOciImageFilePath!
+  );
+  const imageFolder: string = `${path.dirname(deployState.targetRootFolder)}/extracted/${path.basename(
+    imageFilePath
+  )}`;
+  FileSystem.ensureEmptyFolder(imageFolder);
+  tar.x({ file: imageFilePath, cwd: imageFolder, sync: true } as tar.ExtractOptions);
+
+  const index: JsonObject = JsonFile.load(`${imageFolder}/index.json`);
+  const manifest: JsonObject = JSON.parse(readBlob(imageFolder, index.manifests[0].digest).toString());
+  const config: JsonObject = JSON.parse(readBlob(imageFolder, manifest.config.digest).toString());
+  const layers: ILayerEntry[][] = manifest.layers.map((layer: JsonObject) =>
+    listLayer(imageFolder, layer.digest)
+  );
+
+  return { index, manifest, config, layers, imageFolder };
+}
+
+/**
+ * Writes a single-layer base image in the OCI image layout format.
+ */
+function createBaseImage(baseImageFolder: string): { layerDigest: string; diffId: string } {
+  const blobsFolder: string = `${baseImageFolder}/blobs/sha256`;
+  FileSystem.ensureFolder(blobsFolder);
+
+  const writeBlob = (content: Buffer): string => {
+    const digest: string = getDigest(content);
+    fs.writeFileSync(`${blobsFolder}/${digest.replace(/^sha256:/, '')}`, content);
+    return digest;
+  };
+
+  const layerTar: Buffer = Buffer.from('not a real layer');
+  const layerDigest: string = writeBlob(zlib.gzipSync(layerTar));
+  const diffId: string = getDigest(layerTar);
+
+  const configContent: Buffer = Buffer.from(
+    JSON.stringify({
+      architecture: 'arm64',
+      os: 'linux',
+      config: {
+        Env: ['PATH=/usr/local/bin:/usr/bin', 'NODE_VERSION=16.14.2'],
+        Cmd: ['node'],
+        WorkingDir: '/'
+      },
+      rootfs: { type: 'layers', diff_ids: [diffId] },
+      history: [{ created_by: 'base layer' }]
+    })
+  );
+  const configDigest: string = writeBlob(configContent);
+
+  const manifestContent: Buffer = Buffer.from(
+    JSON.stringify({
+      schemaVersion: 2,
+      mediaType: 'application/vnd.oci.image.manifest.v1+json',
+      config: {
+        mediaType: 'application/vnd.oci.image.config.v1+json',
+        digest: configDigest,
+        size: configContent.length
+      },
+      layers: [
+        {
+          mediaType: 'application/vnd.oci.image.layer.v1.tar+gzip',
+          digest: layerDigest,
+          size: 123
+        }
+      ]
+    })
+  );
+  const manifestDigest: string = writeBlob(manifestContent);
+
+  JsonFile.save(
+    {
+      schemaVersion: 2,
+      manifests: [
+        {
+          mediaType: 'application/vnd.oci.image.manifest.v1+json',
+          digest: manifestDigest,
+          size: manifestContent.length
+        }
+      ]
+    },
+    `${baseImageFolder}/index.json`
+  );
+
+  return { layerDigest, diffId };
+}
+
+describe(DeployOciImageBuilder.name, () => {
+  let testFolder: string;
+
+  beforeEach(() => {
+    testFolder = `${TEMP_DIR_PATH}/${expect.getState().currentTestName.replace(/[^\w]+/g, '-')}`;
+    FileSystem.ensureEmptyFolder(testFolder);
+    createDeployment(`${testFolder}/deploy`);
+    jest.spyOn(console, 'log').mockImplementation(() => {
+      /* no-op */
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    FileSystem.deleteFolder(TEMP_DIR_PATH);
+  });
+
+  it('does nothing if no image was requested', async () => {
+    const deployState: IDeployState = createDeployState(testFolder, undefined);
+    deployState.createOciImageFilePath = undefined;
+
+    await DeployOciImageBuilder.createOciImageAsync(deployState);
+
+    expect(FileSystem.readFolderItemNames(`${testFolder}/deploy`).sort()).toEqual(['apps', 'common']);
+  });
+
+  it('writes an image layout with an index, a manifest and a config', async () => {
+    const { index, manifest, config, imageFolder } = await createImageAsync(
+      createDeployState(testFolder, { imageTag: '1.2.3' })
+    );
+
+    expect(FileSystem.readFolderItemNames(imageFolder).sort()).toEqual(['blobs', 'index.json', 'oci-layout']);
+    expect(JsonFile.load(`${imageFolder}/oci-layout`)).toEqual({ imageLayoutVersion: '1.0.0' });
+
+    expect(index.schemaVersion).toEqual(2);
+    expect(index.manifests).toHaveLength(1);
+    expect(index.manifests[0]).toMatchObject({
+      mediaType: 'application/vnd.oci.image.manifest.v1+json',
+      annotations: { 'org.opencontainers.image.ref.name': '1.2.3' },
+      platform: { architecture: 'amd64', os: 'linux' }
+    });
+
+    // Every blob is stored under its digest, and descriptors have the right sizes
+    const manifestBlob: Buffer = readBlob(imageFolder, index.manifests[0].digest);
+    expect(getDigest(manifestBlob)).toEqual(index.manifests[0].digest);
+    expect(manifestBlob.length).toEqual(index.manifests[0].size);
+    for (const descriptor of [manifest.config, ...manifest.layers]) {
+      const blob: Buffer = readBlob(imageFolder, descriptor.digest);
+      expect(getDigest(blob)).toEqual(descriptor.digest);
+      expect(blob.length).toEqual(descriptor.size);
+    }
+
+    expect(manifest.config.mediaType).toEqual('application/vnd.oci.image.config.v1+json');
+    expect(manifest.layers.map((layer: JsonObject) => layer.mediaType)).toEqual([
+      'application/vnd.oci.image.layer.v1.tar+gzip',
+      'application/vnd.oci.image.layer.v1.tar+gzip'
+    ]);
+    expect(manifest.annotations).toBeUndefined();
+
+    // The diff IDs are the digests of the uncompressed layers
+    expect(config.rootfs.diff_ids).toEqual(
+      manifest.layers.map((layer: JsonObject) =>
+        getDigest(zlib.gunzipSync(readBlob(imageFolder, layer.digest)))
+      )
+    );
+    expect(config.history).toEqual([
+      { created_by: 'rush deploy (node_modules)' },
+      { created_by: 'rush deploy (project files)' }
+    ]);
+  });
+
+  it('puts node_modules and the project files in separate layers under the working directory', async () => {
+    const { layers } = await createImageAsync(
+      createDeployState(testFolder, { workingDirectory: '/srv/app' })
+    );
+
+    expect(layers).toEqual([
+      [
+        { path: 'srv/app/apps/app/node_modules/', type: 'Directory' },
+        {
+          path: 'srv/app/apps/app/node_modules/dep',
+          type: 'SymbolicLink',
+          linkpath: '../../../common/temp/node_modules/.pnpm/dep@1.0.0'
+        },
+        { path: 'srv/app/common/temp/node_modules/', type: 'Directory' },
+        { path: 'srv/app/common/temp/node_modules/.pnpm/', type: 'Directory' },
+        { path: 'srv/app/common/temp/node_modules/.pnpm/dep@1.0.0/', type: 'Directory' },
+        { path: 'srv/app/common/temp/node_modules/.pnpm/dep@1.0.0/index.js', type: 'File' }
+      ],
+      [
+        { path: 'srv/app/apps/', type: 'Directory' },
+        { path: 'srv/app/apps/app/', type: 'Directory' },
+        { path: 'srv/app/apps/app/lib/', type: 'Directory' },
+        { path: 'srv/app/apps/app/lib/start.js', type: 'File' },
+        { path: 'srv/app/apps/app/package.json', type: 'File' },
+        { path: 'srv/app/common/', type: 'Directory' },
+        { path: 'srv/app/common/temp/', type: 'Directory' }
+      ]
+    ]);
+  });
+
+  it('creates layers with stable digests', async () => {
+    const image1: IImage = await createImageAsync(createDeployState(testFolder, {}, '../images/image1.tar'));
+
+    // Touch the files, which must not affect the digests
+    const later: Date = new Date(Date.now() + 60000);
+    fs.utimesSync(`${testFolder}/deploy/apps/app/lib/start.js`, later, later);
+
+    const image2: IImage = await createImageAsync(createDeployState(testFolder, {}, '../images/image2.tar'));
+    expect(image2.manifest.layers).toEqual(image1.manifest.layers);
+    expect(image2.config.rootfs.diff_ids).toEqual(image1.config.rootfs.diff_ids);
+
+    // Changing a project file only changes the project layer
+    FileSystem.writeFile(`${testFolder}/deploy/apps/app/lib/start.js`, 'require("dep"); // changed');
+    const image3: IImage = await createImageAsync(createDeployState(testFolder, {}, '../images/image3.tar'));
+    expect(image3.manifest.layers[0]).toEqual(image1.manifest.layers[0]);
+    expect(image3.manifest.layers[1].digest).not.toEqual(image1.manifest.layers[1].digest);
+  });
+
+  it('does not include the image file or its staging folder in the layers', async () => {
+    const { layers } = await createImageAsync(createDeployState(testFolder, {}, 'image.tar'));
+
+    expect(FileSystem.exists(`${testFolder}/deploy/image.tar`)).toEqual(true);
+    expect(FileSystem.exists(`${testFolder}/deploy/image.tar.staging`)).toEqual(false);
+    const paths: string[] = layers[1].map((entry: ILayerEntry) => entry.path);
+    expect(paths).toContain('app/apps/app/package.json');
+    expect(paths.filter((entryPath: string) => entryPath.includes('image.tar'))).toEqual([]);
+  });
+
+  it('extends a base image', async () => {
+    const { layerDigest, diffId } = createBaseImage(`${testFolder}/source/base-image`);
+
+    const { manifest, config, index, imageFolder } = await createImageAsync(
+      createDeployState(testFolder, {
+        baseImageLayoutPath: 'base-image',
+        baseImageName: 'docker.io/library/node:16',
+        entrypoint: ['node', 'apps/app/lib/start.js'],
+        environmentVariables: { NODE_ENV: 'production', PATH: '/app/bin:/usr/bin' }
+      })
+    );
+
+    // The base layer comes first, and its blob is copied into the image
+    expect(manifest.layers).toHaveLength(3);
+    expect(manifest.layers[0]).toEqual({
+      mediaType: 'application/vnd.oci.image.layer.v1.tar+gzip',
+      digest: layerDigest,
+      size: 123
+    });
+    expect(getDigest(readBlob(imageFolder, layerDigest))).toEqual(layerDigest);
+    expect(manifest.annotations).toEqual({
+      'org.opencontainers.image.base.name': 'docker.io/library/node:16'
+    });
+
+    expect(config.architecture).toEqual('arm64');
+    expect(index.manifests[0].platform).toEqual({ architecture: 'arm64', os: 'linux' });
+    expect(config.rootfs.diff_ids).toHaveLength(3);
+    expect(config.rootfs.diff_ids[0]).toEqual(diffId);
+    expect(config.history).toEqual([
+      { created_by: 'base layer' },
+      { created_by: 'rush deploy (node_modules)' },
+      { created_by: 'rush deploy (project files)' }
+    ]);
+    expect(config.config).toEqual({
+      Env: ['PATH=/app/bin:/usr/bin', 'NODE_VERSION=16.14.2', 'NODE_ENV=production'],
+      Entrypoint: ['node', 'apps/app/lib/start.js'],
+      WorkingDir: '/app'
+    });
+  });
+
+  it('reports an error if the base image is not an image layout', async () => {
+    FileSystem.ensureFolder(`${testFolder}/source/base-image`);
+
+    await expect(
+      DeployOciImageBuilder.createOciImageAsync(
+        createDeployState(testFolder, { baseImageLayoutPath: 'base-image' })
+      )
+    ).rejects.toThrow('does not refer to a folder in the OCI image layout format');
+  });
+
+  describe('_getImageConfig', () => {
+    function getImageConfig(
+      ociImageJson: IDeployScenarioOciImageJson,
+      baseConfig: JsonObject | undefined,
+      workingDirectory: string = '/app'
+    ): JsonObject {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      return (DeployOciImageBuilder as any)._getImageConfig(
+        ociImageJson,
+        baseConfig,
+        [{ diffId: 'sha256:layer', description: 'project files' }],
+        workingDirectory
+      );
+    }
+
+    it('creates a config without a base image', () => {
+      expect(
+        getImageConfig(
+          {
+            architecture: 'arm64',
+            entrypoint: ['node', 'start.js'],
+            cmd: ['--port', '80'],
+            environmentVariables: { NODE_ENV: 'production' }
+          },
+          undefined,
+          '/srv'
+        )
+      ).toEqual({
+        architecture: 'arm64',
+        os: 'linux',
+        config: {
+          Env: ['NODE_ENV=production'],
+          Entrypoint: ['node', 'start.js'],
+          Cmd: ['--port', '80'],
+          WorkingDir: '/srv'
+        },
+        rootfs: { type: 'layers', diff_ids: ['sha256:layer'] },
+        history: [{ created_by: 'rush deploy (project files)' }]
+      });
+    });
+
+    it("keeps the base image's command unless the entry point is changed", () => {
+      const baseConfig: JsonObject = {
+        architecture: 'amd64',
+        os: 'linux',
+        config: { Entrypoint: ['docker-entrypoint.sh'], Cmd: ['node'], Env: ['A=1'] },
+        rootfs: { type: 'layers', diff_ids: ['sha256:base'] }
+      };
+
+      expect(getImageConfig({}, baseConfig).config).toEqual({
+        Entrypoint: ['docker-entrypoint.sh'],
+        Cmd: ['node'],
+        Env: ['A=1'],
+        WorkingDir: '/app'
+      });
+      expect(getImageConfig({ entrypoint: ['node'] }, baseConfig).config).toEqual({
+        Entrypoint: ['node'],
+        Env: ['A=1'],
+        WorkingDir: '/app'
+      });
+
+      // The base config is not modified
+      expect(baseConfig.rootfs.diff_ids).toEqual(['sha256:base']);
+      expect(baseConfig.config.Cmd).toEqual(['node']);
+    });
+  });
+});
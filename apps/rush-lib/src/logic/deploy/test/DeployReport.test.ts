@@ -0,0 +1,171 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as path from 'path';
+import { AlreadyReportedError, FileSystem, JsonFile } from '@rushstack/node-core-library';
+
+import { DeployReport, IDeployReportJson } from '../DeployReport';
+import type { IDependencyInfo, IDeployState } from '../DeployManager';
+
+const TEMP_DIR_PATH: string = `${__dirname}/temp/DeployReport`;
+
+const DEP_FOLDER: string = 'common/temp/node_modules/.pnpm/dep@1.0.0/node_modules/dep';
+const NESTED_FOLDER: string = `${DEP_FOLDER}/node_modules/nested`;
+
+/**
+ * Creates a deployment folder with a project, a dependency that is linked into the project's
+ * node_modules folder, and a dependency that is nested in that dependency's node_modules folder.
+ */
+function createDeployment(targetRootFolder: string): void {
+  FileSystem.writeFile(`${targetRootFolder}/apps/app/lib/start.js`, 'a'.repeat(100), {
+    ensureFolderExists: true
+  });
+  FileSystem.writeFile(`${targetRootFolder}/${DEP_FOLDER}/index.js`, 'b'.repeat(300), {
+    ensureFolderExists: true
+  });
+  FileSystem.writeFile(`${targetRootFolder}/${NESTED_FOLDER}/index.js`, 'c'.repeat(50), {
+    ensureFolderExists: true
+  });
+  FileSystem.createSymbolicLinkFolder({
+    linkTargetPath: `${targetRootFolder}/${DEP_FOLDER}`,
+    newLinkPath: `${targetRootFolder}/apps/app/node_modules/dep`
+  });
+}
+
+function createDeployState(folder: string, maxDeploySizeBytes?: number): IDeployState {
+  const sourceRootFolder: string = `${folder}/source`;
+  const dependencyInfosByPath: Map<string, IDependencyInfo> = new Map([
+    [
+      path.join(sourceRootFolder, 'apps/app'),
+      { packageName: 'app', version: '1.0.0', parentFolderPath: undefined }
+    ],
+    [
+      path.join(sourceRootFolder, DEP_FOLDER),
+      { packageName: 'dep', version: '1.0.0', parentFolderPath: path.join(sourceRootFolder, 'apps/app') }
+    ],
+    [
+      path.join(sourceRootFolder, NESTED_FOLDER),
+      { packageName: 'nested', version: '2.0.0', parentFolderPath: path.join(sourceRootFolder, DEP_FOLDER) }
+    ]
+  ]);
+
+  return {
+    scenarioFilePath: `${sourceRootFolder}/common/config/rush/deploy.json`,
+    mainProjectName: 'app',
+    sourceRootFolder,
+    targetRootFolder: `${folder}/deploy`,
+    dependencyInfosByPath,
+    symlinkAnalyzer: { reportSymlinks: () => [{}] },
+    scenarioConfiguration: { json: { deploymentProjectNames: ['app'], maxDeploySizeBytes } }
+  } as unknown as IDeployState;
+}
+
+describe(DeployReport.name, () => {
+  let testFolder: string;
+
+  beforeEach(() => {
+    testFolder = `${TEMP_DIR_PATH}/${expect.getState().currentTestName.replace(/[^\w]+/g, '-')}`;
+    FileSystem.ensureEmptyFolder(testFolder);
+    createDeployment(`${testFolder}/deploy`);
+    jest.spyOn(console, 'log').mockImplementation(() => {
+      /* no-op */
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    FileSystem.deleteFolder(TEMP_DIR_PATH);
+  });
+
+  it('reports the size of each package, ordered from largest to smallest', () => {
+    const deployReportJson: IDeployReportJson = DeployReport.createReport(createDeployState(testFolder));
+
+    expect(deployReportJson.packages).toEqual([
+      {
+        packageName: 'dep',
+        version: '1.0.0',
+        path: DEP_FOLDER,
+        sizeBytes: 300,
+        dependencyChain: ['app', 'dep']
+      },
+      {
+        packageName: 'app',
+        version: '1.0.0',
+        path: 'apps/app',
+        sizeBytes: 100,
+        dependencyChain: ['app']
+      },
+      {
+        packageName: 'nested',
+        version: '2.0.0',
+        path: NESTED_FOLDER,
+        sizeBytes: 50,
+        dependencyChain: ['app', 'dep', 'nested']
+      }
+    ]);
+  });
+
+  it('reports the total size without following symbolic links', () => {
+    const deployReportJson: IDeployReportJson = DeployReport.createReport(createDeployState(testFolder));
+
+    expect(deployReportJson.scenarioName).toEqual('deploy.json');
+    expect(deployReportJson.mainProjectName).toEqual('app');
+    expect(deployReportJson.totalSizeBytes).toEqual(450);
+    expect(deployReportJson.maxDeploySizeBytes).toBeUndefined();
+    expect(deployReportJson.linkCount).toEqual(1);
+  });
+
+  it('does not write the report to the deploy folder until it is saved', () => {
+    const deployState: IDeployState = createDeployState(testFolder, 450);
+    const deployReportJson: IDeployReportJson = DeployReport.createReport(deployState);
+    const reportPath: string = `${deployState.targetRootFolder}/deploy-report.json`;
+
+    expect(FileSystem.exists(reportPath)).toEqual(false);
+
+    DeployReport.saveReport(deployState, deployReportJson);
+    expect(JsonFile.load(reportPath)).toEqual(deployReportJson);
+  });
+
+  it('saves the report and fails if the deployment exceeds maxDeploySizeBytes', () => {
+    const deployState: IDeployState = createDeployState(testFolder, 449);
+
+    expect(() => DeployReport.createReport(deployState)).toThrow(AlreadyReportedError);
+
+    const deployReportJson: IDeployReportJson = JsonFile.load(
+      `${deployState.targetRootFolder}/deploy-report.json`
+    );
+    expect(deployReportJson.totalSizeBytes).toEqual(450);
+    expect(deployReportJson.maxDeploySizeBytes).toEqual(449);
+    expect(console.log).toHaveBeenCalledWith('  dep@1.0.0: 300 bytes (app > dep)');
+  });
+
+  describe('_getDependencyChain', () => {
+    it('stops at a dependency cycle', () => {
+      const deployState: IDeployState = createDeployState(testFolder);
+      const appFolderPath: string = path.join(deployState.sourceRootFolder, 'apps/app');
+      const depFolderPath: string = path.join(deployState.sourceRootFolder, DEP_FOLDER);
+      deployState.dependencyInfosByPath.get(appFolderPath)!.parentFolderPath = depFolderPath;
+
+      // The package that closes the cycle is shown once more, and then the walk stops
+      expect(
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (DeployReport as any)._getDependencyChain(
+          deployState.dependencyInfosByPath.get(depFolderPath),
+          deployState
+        )
+      ).toEqual(['dep', 'app', 'dep']);
+    });
+
+    it('stops at a parent that was not deployed', () => {
+      const deployState: IDeployState = createDeployState(testFolder);
+      const dependencyInfo: IDependencyInfo = {
+        packageName: 'orphan',
+        version: '1.0.0',
+        parentFolderPath: path.join(deployState.sourceRootFolder, 'missing')
+      };
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      expect((DeployReport as any)._getDependencyChain(dependencyInfo, deployState)).toEqual(['orphan']);
+    });
+  });
+});
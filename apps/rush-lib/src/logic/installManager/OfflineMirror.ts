@@ -0,0 +1,408 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import colors from 'colors/safe';
+import * as path from 'path';
+import * as semver from 'semver';
+import * as ssri from 'ssri';
+import * as tar from 'tar';
+import { AlreadyReportedError, FileSystem, JsonFile, NewlineKind } from '@rushstack/node-core-library';
+
+import type { IPnpmShrinkwrapDependencyYaml, PnpmShrinkwrapFile } from '../pnpm/PnpmShrinkwrapFile';
+import { Utilities } from '../../utilities/Utilities';
+
+/**
+ * The number of packages that are passed to a single "npm pack" invocation.
+ */
+const PACK_BATCH_SIZE: number = 50;
+
+/**
+ * The package.json fields that are copied into the offline-mirror.json file, because the package manager
+ * needs them to install a package without downloading its tarball first.
+ */
+const MANIFEST_FIELD_NAMES: ReadonlyArray<string> = [
+  'name',
+  'version',
+  'dependencies',
+  'optionalDependencies',
+  'peerDependencies',
+  'peerDependenciesMeta',
+  'bundleDependencies',
+  'bundledDependencies',
+  'bin',
+  'directories',
+  'engines',
+  'os',
+  'cpu',
+  'deprecated'
+];
+
+/**
+ * A package version that is referenced by the shrinkwrap file.
+ */
+export interface IOfflineMirrorPackageSpecifier {
+  packageName: string;
+  version: string;
+
+  /**
+   * The integrity hash from the shrinkwrap file, if it has one.
+   */
+  integrity: string | undefined;
+}
+
+/**
+ * Part of the offline-mirror.json file format. Represents a tarball in the mirror folder.
+ */
+export interface IOfflineMirrorPackageJson {
+  /**
+   * The name of the tarball file, relative to the mirror folder.
+   */
+  tarballFilename: string;
+
+  /**
+   * The SHA-512 integrity hash of the tarball.
+   */
+  integrity: string;
+
+  /**
+   * The hex-encoded SHA-1 hash of the tarball, which older clients use instead of the integrity hash.
+   */
+  shasum: string;
+
+  /**
+   * The fields of the package's package.json file that the package manager needs for installation.
+   */
+  manifest: { [fieldName: string]: unknown };
+}
+
+/**
+ * The offline-mirror.json file format, which is stored in the mirror folder.
+ */
+export interface IOfflineMirrorJson {
+  /**
+   * The tarballs in the mirror folder, keyed by package name and then by version.
+   */
+  packages: { [packageName: string]: { [version: string]: IOfflineMirrorPackageJson } };
+}
+
+/**
+ * Part of the NPM registry protocol. Represents a package version in a packument.
+ */
+export interface IPackumentVersionJson {
+  name: string;
+  version: string;
+  dist: {
+    tarball: string;
+    integrity: string;
+    shasum: string;
+  };
+  [fieldName: string]: unknown;
+}
+
+/**
+ * Part of the NPM registry protocol. The "packument" is the document that a registry returns for a package name.
+ */
+export interface IPackumentJson {
+  name: string;
+  'dist-tags': { [tag: string]: string };
+  versions: { [version: string]: IPackumentVersionJson };
+}
+
+/**
+ * A folder that stores the tarballs of every package that is referenced by the shrinkwrap file,
+ * so that "rush install --offline" can install without access to the package registry.
+ */
+export class OfflineMirror {
+  public static readonly indexFilename: string = 'offline-mirror.json';
+
+  /**
+   * The absolute path of the mirror folder.
+   */
+  public readonly folderPath: string;
+
+  private _index: IOfflineMirrorJson | undefined;
+
+  public constructor(folderPath: string) {
+    this.folderPath = folderPath;
+  }
+
+  /**
+   * Returns the registry packages that are referenced by the shrinkwrap file, sorted by name and version.
+   * Dependencies that were installed from a tarball, such as local "file:" dependencies, Git URLs and
+   * the Rush temp projects, are not included because they are not downloaded from the registry.
+   */
+  public static getPackageSpecifiers(shrinkwrapFile: PnpmShrinkwrapFile): IOfflineMirrorPackageSpecifier[] {
+    const specifiersByKey: Map<string, IOfflineMirrorPackageSpecifier> = new Map();
+    for (const [dependencyKey, dependency] of shrinkwrapFile.packages) {
+      const specifier: IOfflineMirrorPackageSpecifier | undefined = OfflineMirror._tryParseDependency(
+        dependencyKey,
+        dependency
+      );
+      if (specifier) {
+        specifiersByKey.set(`${specifier.packageName}@${specifier.version}`, specifier);
+      }
+    }
+
+    return Array.from(specifiersByKey.values()).sort(
+      (a: IOfflineMirrorPackageSpecifier, b: IOfflineMirrorPackageSpecifier) =>
+        a.packageName.localeCompare(b.packageName) || semver.compare(a.version, b.version)
+    );
+  }
+
+  /**
+   * Returns the filename that "npm pack" uses for a package version.
+   *
+   * @example
+   * "@scope/example" version "1.2.3" --> "scope-example-1.2.3.tgz"
+   */
+  public static getTarballFilename(packageName: string, version: string): string {
+    return `${packageName.replace(/^@/, '').replace(/\//g, '-')}-${version}.tgz`;
+  }
+
+  /**
+   * Returns the filename that the package manager requests from the registry for a package version.
+   *
+   * @example
+   * "@scope/example" version "1.2.3" --> "example-1.2.3.tgz"
+   */
+  public static getRegistryTarballFilename(packageName: string, version: string): string {
+    const unscopedName: string = packageName.substring(packageName.lastIndexOf('/') + 1);
+    return `${unscopedName}-${version}.tgz`;
+  }
+
+  /**
+   * Downloads the tarballs for the packages in the shrinkwrap file that are not in the mirror folder yet.
+   * Packages that are already in the mirror are kept, so the same folder can serve several shrinkwraps.
+   *
+   * @param workingFolder - the folder where "npm pack" runs, whose .npmrc file configures the registry
+   */
+  public prepare(shrinkwrapFile: PnpmShrinkwrapFile, workingFolder: string): void {
+    const specifiers: IOfflineMirrorPackageSpecifier[] = OfflineMirror.getPackageSpecifiers(shrinkwrapFile);
+    const missingSpecifiers: IOfflineMirrorPackageSpecifier[] =
+      this.getMissingPackageSpecifiers(shrinkwrapFile);
+    const index: IOfflineMirrorJson = this.tryLoadIndex() || { packages: {} };
+
+    console.log(
+      `The offline mirror has ${specifiers.length - missingSpecifiers.length} of the` +
+        ` ${specifiers.length} packages in the shrinkwrap file: "${this.folderPath}"`
+    );
+    if (missingSpecifiers.length === 0) {
+      return;
+    }
+
+    FileSystem.ensureFolder(this.folderPath);
+    const integrityErrors: string[] = [];
+
+    for (let i: number = 0; i < missingSpecifiers.length; i += PACK_BATCH_SIZE) {
+      const batch: IOfflineMirrorPackageSpecifier[] = missingSpecifiers.slice(i, i + PACK_BATCH_SIZE);
+      console.log(
+        `Downloading packages ${i + 1}-${i + batch.length} of ${missingSpecifiers.length}` +
+          ' to the offline mirror'
+      );
+
+      Utilities.executeCommandAndCaptureOutput(
+        'npm',
+        [
+          'pack',
+          ...batch.map(
+            (specifier: IOfflineMirrorPackageSpecifier) => `${specifier.packageName}@${specifier.version}`
+          )
+        ],
+        workingFolder
+      );
+
+      for (const specifier of batch) {
+        const tarballFilename: string = OfflineMirror.getTarballFilename(
+          specifier.packageName,
+          specifier.version
+        );
+        const tarballPath: string = path.join(this.folderPath, tarballFilename);
+        FileSystem.move({
+          sourcePath: path.join(workingFolder, tarballFilename),
+          destinationPath: tarballPath,
+          overwrite: true
+        });
+
+        const tarballContent: Buffer = FileSystem.readFileToBuffer(tarballPath);
+        if (specifier.integrity && !ssri.checkData(tarballContent, specifier.integrity)) {
+          integrityErrors.push(`${specifier.packageName}@${specifier.version}`);
+          FileSystem.deleteFile(tarballPath);
+          continue;
+        }
+
+        let packageVersions: { [version: string]: IOfflineMirrorPackageJson } | undefined =
+          index.packages[specifier.packageName];
+        if (!packageVersions) {
+          packageVersions = {};
+          index.packages[specifier.packageName] = packageVersions;
+        }
+        packageVersions[specifier.version] = {
+          tarballFilename,
+          integrity: ssri.fromData(tarballContent, { algorithms: ['sha512'] }).toString(),
+          shasum: ssri.fromData(tarballContent, { algorithms: ['sha1'] }).hexDigest(),
+          manifest: this._readManifest(tarballPath)
+        };
+      }
+
+      // Save after every batch, so that an interrupted download does not need to start over
+      this._saveIndex(index);
+    }
+
+    if (integrityErrors.length > 0) {
+      console.log(
+        '\n' +
+          colors.red(
+            'The downloaded tarballs for these packages do not match the integrity hashes' +
+              ' in the shrinkwrap file:'
+          )
+      );
+      for (const integrityError of integrityErrors) {
+        console.log(`  ${integrityError}`);
+      }
+      throw new AlreadyReportedError();
+    }
+
+    console.log(colors.green(`Downloaded ${missingSpecifiers.length} packages to the offline mirror.`));
+  }
+
+  /**
+   * Returns the registry packages from the shrinkwrap file whose tarballs are not in the mirror folder.
+   */
+  public getMissingPackageSpecifiers(shrinkwrapFile: PnpmShrinkwrapFile): IOfflineMirrorPackageSpecifier[] {
+    const index: IOfflineMirrorJson | undefined = this.tryLoadIndex();
+    return OfflineMirror.getPackageSpecifiers(shrinkwrapFile).filter(
+      (specifier: IOfflineMirrorPackageSpecifier) => {
+        const packageJson: IOfflineMirrorPackageJson | undefined =
+          index?.packages[specifier.packageName]?.[specifier.version];
+        return !packageJson || !FileSystem.exists(path.join(this.folderPath, packageJson.tarballFilename));
+      }
+    );
+  }
+
+  /**
+   * Loads the offline-mirror.json file, or returns undefined if the mirror folder has not been prepared.
+   */
+  public tryLoadIndex(): IOfflineMirrorJson | undefined {
+    if (!this._index) {
+      const indexPath: string = path.join(this.folderPath, OfflineMirror.indexFilename);
+      if (!FileSystem.exists(indexPath)) {
+        return undefined;
+      }
+      this._index = JsonFile.load(indexPath) as IOfflineMirrorJson;
+    }
+    return this._index;
+  }
+
+  /**
+   * Returns the registry document for a package, or undefined if the mirror does not contain the package.
+   *
+   * @param registryUrl - the URL of the registry that serves the mirror, ending with a slash
+   */
+  public tryGetPackument(packageName: string, registryUrl: string): IPackumentJson | undefined {
+    const packageVersions: { [version: string]: IOfflineMirrorPackageJson } | undefined =
+      this.tryLoadIndex()?.packages[packageName];
+    if (!packageVersions) {
+      return undefined;
+    }
+
+    const versions: { [version: string]: IPackumentVersionJson } = {};
+    for (const [version, packageJson] of Object.entries(packageVersions)) {
+      versions[version] = {
+        ...packageJson.manifest,
+        name: packageName,
+        version,
+        dist: {
+          tarball:
+            `${registryUrl}${packageName}/-/` +
+            OfflineMirror.getRegistryTarballFilename(packageName, version),
+          integrity: packageJson.integrity,
+          shasum: packageJson.shasum
+        }
+      };
+    }
+
+    const latestVersion: string = Object.keys(versions).sort(semver.rcompare)[0];
+    return {
+      name: packageName,
+      'dist-tags': { latest: latestVersion },
+      versions
+    };
+  }
+
+  /**
+   * Returns the absolute path of a tarball in the mirror, given the filename that the package manager
+   * requested from the registry, or undefined if the mirror does not contain it.
+   */
+  public tryGetTarballPath(packageName: string, registryTarballFilename: string): string | undefined {
+    const packageVersions: { [version: string]: IOfflineMirrorPackageJson } | undefined =
+      this.tryLoadIndex()?.packages[packageName];
+    if (!packageVersions) {
+      return undefined;
+    }
+
+    for (const [version, packageJson] of Object.entries(packageVersions)) {
+      if (OfflineMirror.getRegistryTarballFilename(packageName, version) === registryTarballFilename) {
+        return path.join(this.folderPath, packageJson.tarballFilename);
+      }
+    }
+    return undefined;
+  }
+
+  private static _tryParseDependency(
+    dependencyKey: string,
+    dependency: IPnpmShrinkwrapDependencyYaml
+  ): IOfflineMirrorPackageSpecifier | undefined {
+    if (dependency.resolution?.tarball) {
+      return undefined;
+    }
+
+    // Example: "/isarray/2.0.1"                            --> "isarray", "2.0.1"
+    // Example: "/@scope/name/1.4.0_react@16.14.0"          --> "@scope/name", "1.4.0"
+    // Example: "/sinon-chai/2.8.0/chai@3.5.0+sinon@1.17.7" --> "sinon-chai", "2.8.0"
+    const match: RegExpExecArray | null = /^[^\/]*\/((?:@[^\/]+\/)?[^\/]+)\/([^\/_]+)/.exec(dependencyKey);
+    if (!match || !semver.valid(match[2])) {
+      return undefined;
+    }
+
+    return {
+      packageName: match[1],
+      version: match[2],
+      integrity: dependency.resolution?.integrity
+    };
+  }
+
+  private _readManifest(tarballPath: string): { [fieldName: string]: unknown } {
+    const chunks: Buffer[] = [];
+    let foundManifest: boolean = false;
+    tar.list({
+      file: tarballPath,
+      sync: true,
+      // NPM tarballs usually contain a "package" folder, but some use a different name
+      filter: (entryPath: string) => !foundManifest && /^[^\/]+\/package\.json$/.test(entryPath),
+      onentry: (entry: tar.FileStat) => {
+        foundManifest = true;
+        entry.on('data', (chunk: Buffer) => chunks.push(chunk));
+      }
+    });
+
+    if (!foundManifest) {
+      throw new Error(`The tarball does not contain a package.json file: ${tarballPath}`);
+    }
+
+    const packageJson: { [fieldName: string]: unknown } = JSON.parse(Buffer.concat(chunks).toString());
+    const manifest: { [fieldName: string]: unknown } = {};
+    for (const fieldName of MANIFEST_FIELD_NAMES) {
+      if (packageJson[fieldName] !== undefined) {
+        manifest[fieldName] = packageJson[fieldName];
+      }
+    }
+    return manifest;
+  }
+
+  private _saveIndex(index: IOfflineMirrorJson): void {
+    JsonFile.save(index, path.join(this.folderPath, OfflineMirror.indexFilename), {
+      newlineConversion: NewlineKind.OsDefault
+    });
+    this._index = index;
+  }
+}
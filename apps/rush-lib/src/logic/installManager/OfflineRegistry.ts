@@ -0,0 +1,83 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as child_process from 'child_process';
+import * as os from 'os';
+
+import type { IDisposable } from '../../utilities/Utilities';
+import type { IOfflineRegistryServerMessage } from './OfflineRegistryServer';
+
+// Matches "registry=..." and scoped registries such as "@scope:registry=..."
+const REGISTRY_LINE_REGEXP: RegExp = /^(\s*(?:@[^:=\s]+:)?registry\s*=\s*).*$/;
+
+/**
+ * A local package registry that serves the tarballs from an offline mirror. The registry runs in a child
+ * process, which is stopped when the object is disposed.
+ */
+export class OfflineRegistry implements IDisposable {
+  /**
+   * The URL of the registry, ending with a slash.
+   */
+  public readonly url: string;
+
+  private readonly _childProcess: child_process.ChildProcess;
+
+  private constructor(childProcess: child_process.ChildProcess, url: string) {
+    this._childProcess = childProcess;
+    this.url = url;
+  }
+
+  /**
+   * Starts a registry that serves the specified mirror folder on a free localhost port.
+   */
+  public static async startAsync(mirrorFolderPath: string): Promise<OfflineRegistry> {
+    const childProcess: child_process.ChildProcess = child_process.fork(
+      require.resolve('./OfflineRegistryServer'),
+      [mirrorFolderPath],
+      { stdio: ['ignore', 'inherit', 'inherit', 'ipc'] }
+    );
+
+    try {
+      const port: number = await new Promise<number>(
+        (resolve: (port: number) => void, reject: (error: Error) => void) => {
+          childProcess.once('message', (message: IOfflineRegistryServerMessage) => resolve(message.port));
+          childProcess.once('error', reject);
+          childProcess.once('exit', (exitCode: number | null) => {
+            reject(new Error(`The offline registry process exited unexpectedly with code ${exitCode}`));
+          });
+        }
+      );
+      return new OfflineRegistry(childProcess, `http://127.0.0.1:${port}/`);
+    } catch (error) {
+      childProcess.kill();
+      throw error;
+    }
+  }
+
+  /**
+   * Replaces the default and scoped registries in an .npmrc file with the specified registry,
+   * adding a "registry=" line if the file does not have one. Other settings are preserved.
+   */
+  public static replaceNpmrcRegistries(npmrcContent: string, registryUrl: string): string {
+    let hasDefaultRegistry: boolean = false;
+    const lines: string[] = npmrcContent.split(/\r?\n/).map((line: string) => {
+      const match: RegExpMatchArray | null = line.match(REGISTRY_LINE_REGEXP);
+      if (!match) {
+        return line;
+      }
+      if (!match[1].includes(':')) {
+        hasDefaultRegistry = true;
+      }
+      return `${match[1]}${registryUrl}`;
+    });
+
+    if (!hasDefaultRegistry) {
+      lines.unshift(`registry=${registryUrl}`);
+    }
+    return lines.join(os.EOL);
+  }
+
+  public dispose(): void {
+    this._childProcess.kill();
+  }
+}
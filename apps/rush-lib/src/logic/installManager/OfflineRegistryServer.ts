@@ -0,0 +1,94 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as fs from 'fs';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+
+import { IPackumentJson, OfflineMirror } from './OfflineMirror';
+
+/**
+ * The message that the server process sends to its parent once it is listening.
+ */
+export interface IOfflineRegistryServerMessage {
+  port: number;
+}
+
+/**
+ * Creates an HTTP server that implements the subset of the NPM registry protocol that the package manager
+ * uses to install from a shrinkwrap file:
+ *
+ * - "GET /<package name>" returns the packument, for example "/@scope%2fexample"
+ * - "GET /<package name>/-/<tarball filename>" returns a tarball, for example "/@scope/example/-/example-1.2.3.tgz"
+ */
+export function createOfflineRegistryServer(offlineMirror: OfflineMirror): http.Server {
+  return http.createServer((request: http.IncomingMessage, response: http.ServerResponse) => {
+    const registryUrl: string = `http://${request.headers.host}/`;
+
+    let requestPath: string;
+    try {
+      requestPath = decodeURIComponent((request.url || '/').split('?')[0]).substring(1);
+    } catch {
+      response.writeHead(400);
+      response.end();
+      return;
+    }
+
+    if (request.method !== 'GET' && request.method !== 'HEAD') {
+      response.writeHead(405);
+      response.end();
+      return;
+    }
+
+    const separatorIndex: number = requestPath.indexOf('/-/');
+    if (separatorIndex < 0) {
+      const packument: IPackumentJson | undefined = offlineMirror.tryGetPackument(requestPath, registryUrl);
+      if (!packument) {
+        _reportNotFound(response, requestPath);
+        return;
+      }
+
+      response.writeHead(200, { 'Content-Type': 'application/json' });
+      response.end(request.method === 'HEAD' ? undefined : JSON.stringify(packument));
+      return;
+    }
+
+    const packageName: string = requestPath.substring(0, separatorIndex);
+    const tarballPath: string | undefined = offlineMirror.tryGetTarballPath(
+      packageName,
+      requestPath.substring(separatorIndex + '/-/'.length)
+    );
+    if (!tarballPath) {
+      _reportNotFound(response, requestPath);
+      return;
+    }
+
+    response.writeHead(200, { 'Content-Type': 'application/octet-stream' });
+    if (request.method === 'HEAD') {
+      response.end();
+    } else {
+      fs.createReadStream(tarballPath).pipe(response);
+    }
+  });
+}
+
+function _reportNotFound(response: http.ServerResponse, requestPath: string): void {
+  console.error(`The offline mirror does not contain "${requestPath}"`);
+  response.writeHead(404, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify({ error: 'Not found' }));
+}
+
+// OfflineRegistry runs this module in a child process, because the package manager is invoked synchronously
+// and would otherwise block the server's event loop. The first argument is the path of the mirror folder.
+if (require.main === module) {
+  const server: http.Server = createOfflineRegistryServer(new OfflineMirror(process.argv[2]));
+  server.listen(0, '127.0.0.1', () => {
+    const message: IOfflineRegistryServerMessage = { port: (server.address() as AddressInfo).port };
+    process.send!(message);
+  });
+
+  // Stop when the parent process exits
+  process.on('disconnect', () => {
+    process.exit(0);
+  });
+}
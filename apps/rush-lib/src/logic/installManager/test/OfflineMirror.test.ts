@@ -0,0 +1,265 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as path from 'path';
+import * as ssri from 'ssri';
+import * as tar from 'tar';
+import { AlreadyReportedError, FileSystem, JsonFile, JsonObject } from '@rushstack/node-core-library';
+
+import { PnpmShrinkwrapFile } from '../../pnpm/PnpmShrinkwrapFile';
+import { IOfflineMirrorJson, IPackumentJson, OfflineMirror } from '../OfflineMirror';
+import { OfflineRegistry } from '../OfflineRegistry';
+import { Utilities } from '../../../utilities/Utilities';
+
+const TEMP_DIR_PATH: string = `${__dirname}/temp/OfflineMirror`;
+
+const SHRINKWRAP_YAML: string = `lockfileVersion: 5.3
+importers:
+  .:
+    specifiers: {}
+packages:
+  /isarray/2.0.1:
+    resolution: {integrity: sha1-o32U7ZzaLVmGXJ92/llu4fM4dB4=}
+  /@scope/example/1.4.0_react@16.14.0:
+    resolution: {integrity: sha512-abc==}
+  /@scope/example/1.4.0_react@17.0.2:
+    resolution: {integrity: sha512-abc==}
+  /sinon-chai/2.8.0/chai@3.5.0+sinon@1.17.7:
+    resolution: {integrity: sha512-def==}
+  file:projects/project1.tgz:
+    resolution: {tarball: file:projects/project1.tgz}
+  github.com/abc/def/188ed64efd5218beda276e02f2277bf3a6b745b2:
+    resolution: {tarball: https://codeload.github.com/abc/def/tar.gz/188ed64efd5218beda276e02f2277bf3a6b745b2}
+`;
+
+const MIRROR_JSON: IOfflineMirrorJson = {
+  packages: {
+    '@scope/example': {
+      '1.4.0': {
+        tarballFilename: 'scope-example-1.4.0.tgz',
+        integrity: 'sha512-abc==',
+        shasum: '0123',
+        manifest: { name: '@scope/example', version: '1.4.0', dependencies: { isarray: '^2.0.0' } }
+      },
+      '1.10.0': {
+        tarballFilename: 'scope-example-1.10.0.tgz',
+        integrity: 'sha512-xyz==',
+        shasum: '4567',
+        manifest: { name: '@scope/example', version: '1.10.0' }
+      }
+    }
+  }
+};
+
+/**
+ * Creates a tarball like the ones that "npm pack" downloads, and returns its integrity hash.
+ */
+function createTarball(tarballPath: string, packageJson: JsonObject): string {
+  const sourceFolder: string = `${TEMP_DIR_PATH}/source/${path.basename(tarballPath)}`;
+  JsonFile.save(packageJson, `${sourceFolder}/package/package.json`, { ensureFolderExists: true });
+  FileSystem.writeFile(`${sourceFolder}/package/index.js`, 'module.exports = {};');
+  FileSystem.ensureFolder(path.dirname(tarballPath));
+  tar.c({ gzip: true, file: tarballPath, cwd: sourceFolder, sync: true }, ['package']);
+  return ssri.fromData(FileSystem.readFileToBuffer(tarballPath), { algorithms: ['sha512'] }).toString();
+}
+
+describe(OfflineMirror.name, () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('gets the registry packages from the shrinkwrap file', () => {
+    const shrinkwrapFile: PnpmShrinkwrapFile = PnpmShrinkwrapFile.loadFromString(SHRINKWRAP_YAML);
+    expect(OfflineMirror.getPackageSpecifiers(shrinkwrapFile)).toEqual([
+      { packageName: '@scope/example', version: '1.4.0', integrity: 'sha512-abc==' },
+      { packageName: 'isarray', version: '2.0.1', integrity: 'sha1-o32U7ZzaLVmGXJ92/llu4fM4dB4=' },
+      { packageName: 'sinon-chai', version: '2.8.0', integrity: 'sha512-def==' }
+    ]);
+  });
+
+  it('gets the tarball filenames', () => {
+    expect(OfflineMirror.getTarballFilename('@scope/example', '1.4.0')).toEqual('scope-example-1.4.0.tgz');
+    expect(OfflineMirror.getTarballFilename('isarray', '2.0.1')).toEqual('isarray-2.0.1.tgz');
+    expect(OfflineMirror.getRegistryTarballFilename('@scope/example', '1.4.0')).toEqual('example-1.4.0.tgz');
+    expect(OfflineMirror.getRegistryTarballFilename('isarray', '2.0.1')).toEqual('isarray-2.0.1.tgz');
+  });
+
+  it('creates packuments for the packages in the mirror', () => {
+    const offlineMirror: OfflineMirror = new OfflineMirror('/mirror');
+    jest.spyOn(offlineMirror, 'tryLoadIndex').mockReturnValue(MIRROR_JSON);
+
+    const packument: IPackumentJson | undefined = offlineMirror.tryGetPackument(
+      '@scope/example',
+      'http://127.0.0.1:1234/'
+    );
+    expect(packument!['dist-tags']).toEqual({ latest: '1.10.0' });
+    expect(packument!.versions['1.4.0']).toEqual({
+      name: '@scope/example',
+      version: '1.4.0',
+      dependencies: { isarray: '^2.0.0' },
+      dist: {
+        tarball: 'http://127.0.0.1:1234/@scope/example/-/example-1.4.0.tgz',
+        integrity: 'sha512-abc==',
+        shasum: '0123'
+      }
+    });
+
+    expect(offlineMirror.tryGetPackument('isarray', 'http://127.0.0.1:1234/')).toBeUndefined();
+  });
+
+  it('finds the tarballs that the package manager requests', () => {
+    const offlineMirror: OfflineMirror = new OfflineMirror('/mirror');
+    jest.spyOn(offlineMirror, 'tryLoadIndex').mockReturnValue(MIRROR_JSON);
+
+    expect(offlineMirror.tryGetTarballPath('@scope/example', 'example-1.10.0.tgz')).toEqual(
+      path.join('/mirror', 'scope-example-1.10.0.tgz')
+    );
+    expect(offlineMirror.tryGetTarballPath('@scope/example', 'example-2.0.0.tgz')).toBeUndefined();
+  });
+
+  describe('prepare', () => {
+    const registryFolder: string = `${TEMP_DIR_PATH}/registry`;
+    const mirrorFolder: string = `${TEMP_DIR_PATH}/mirror`;
+    const workingFolder: string = `${TEMP_DIR_PATH}/working`;
+    let integritiesByName: Map<string, string>;
+    let packSpy: jest.SpyInstance;
+
+    function loadShrinkwrapFile(): PnpmShrinkwrapFile {
+      return PnpmShrinkwrapFile.loadFromString(
+        [
+          'lockfileVersion: 5.3',
+          'importers:',
+          '  .:',
+          '    specifiers: {}',
+          'packages:',
+          '  /example/1.0.0:',
+          `    resolution: {integrity: ${integritiesByName.get('example')}}`,
+          '  /@scope/other/2.0.0:',
+          `    resolution: {integrity: ${integritiesByName.get('@scope/other')}}`,
+          ''
+        ].join('\n')
+      );
+    }
+
+    beforeEach(() => {
+      FileSystem.ensureEmptyFolder(TEMP_DIR_PATH);
+      FileSystem.ensureFolder(workingFolder);
+      integritiesByName = new Map([
+        [
+          'example',
+          createTarball(`${registryFolder}/example-1.0.0.tgz`, {
+            name: 'example',
+            version: '1.0.0',
+            dependencies: { '@scope/other': '^2.0.0' },
+            scripts: { test: 'jest' }
+          })
+        ],
+        [
+          '@scope/other',
+          createTarball(`${registryFolder}/scope-other-2.0.0.tgz`, { name: '@scope/other', version: '2.0.0' })
+        ]
+      ]);
+
+      // Simulate "npm pack", which downloads the tarballs to the working folder
+      packSpy = jest
+        .spyOn(Utilities, 'executeCommandAndCaptureOutput')
+        .mockImplementation((command: string, args: string[], folder: string) => {
+          for (const packageSpecifier of args.slice(1)) {
+            const separatorIndex: number = packageSpecifier.lastIndexOf('@');
+            const tarballFilename: string = OfflineMirror.getTarballFilename(
+              packageSpecifier.substring(0, separatorIndex),
+              packageSpecifier.substring(separatorIndex + 1)
+            );
+            FileSystem.copyFile({
+              sourcePath: `${registryFolder}/${tarballFilename}`,
+              destinationPath: `${folder}/${tarballFilename}`
+            });
+          }
+          return '';
+        });
+      jest.spyOn(console, 'log').mockImplementation(() => {
+        /* no-op */
+      });
+    });
+
+    afterEach(() => {
+      FileSystem.deleteFolder(TEMP_DIR_PATH);
+    });
+
+    it('downloads the packages from the shrinkwrap file', () => {
+      new OfflineMirror(mirrorFolder).prepare(loadShrinkwrapFile(), workingFolder);
+
+      expect(packSpy).toHaveBeenCalledTimes(1);
+      expect(packSpy.mock.calls[0].slice(0, 2)).toEqual([
+        'npm',
+        ['pack', '@scope/other@2.0.0', 'example@1.0.0']
+      ]);
+      expect(FileSystem.readFolderItemNames(workingFolder)).toEqual([]);
+
+      const index: IOfflineMirrorJson = JsonFile.load(`${mirrorFolder}/${OfflineMirror.indexFilename}`);
+      expect(index.packages.example['1.0.0']).toEqual({
+        tarballFilename: 'example-1.0.0.tgz',
+        integrity: integritiesByName.get('example'),
+        shasum: expect.stringMatching(/^[0-9a-f]{40}$/),
+        // Only the fields that the package manager needs are kept
+        manifest: { name: 'example', version: '1.0.0', dependencies: { '@scope/other': '^2.0.0' } }
+      });
+      expect(index.packages['@scope/other']['2.0.0'].tarballFilename).toEqual('scope-other-2.0.0.tgz');
+      expect(FileSystem.exists(`${mirrorFolder}/scope-other-2.0.0.tgz`)).toEqual(true);
+    });
+
+    it('keeps the packages that are already in the mirror', () => {
+      new OfflineMirror(mirrorFolder).prepare(loadShrinkwrapFile(), workingFolder);
+      FileSystem.deleteFile(`${mirrorFolder}/example-1.0.0.tgz`);
+
+      const offlineMirror: OfflineMirror = new OfflineMirror(mirrorFolder);
+      expect(offlineMirror.getMissingPackageSpecifiers(loadShrinkwrapFile())).toEqual([
+        { packageName: 'example', version: '1.0.0', integrity: integritiesByName.get('example') }
+      ]);
+
+      offlineMirror.prepare(loadShrinkwrapFile(), workingFolder);
+      expect(packSpy).toHaveBeenCalledTimes(2);
+      expect(packSpy.mock.calls[1][1]).toEqual(['pack', 'example@1.0.0']);
+      expect(offlineMirror.getMissingPackageSpecifiers(loadShrinkwrapFile())).toEqual([]);
+    });
+
+    it('fails if a tarball does not match the integrity hash from the shrinkwrap file', () => {
+      integritiesByName.set('example', integritiesByName.get('@scope/other')!);
+
+      expect(() => new OfflineMirror(mirrorFolder).prepare(loadShrinkwrapFile(), workingFolder)).toThrow(
+        AlreadyReportedError
+      );
+      expect(console.log).toHaveBeenCalledWith('  example@1.0.0');
+      expect(FileSystem.exists(`${mirrorFolder}/example-1.0.0.tgz`)).toEqual(false);
+
+      const index: IOfflineMirrorJson = JsonFile.load(`${mirrorFolder}/${OfflineMirror.indexFilename}`);
+      expect(Object.keys(index.packages)).toEqual(['@scope/other']);
+    });
+  });
+});
+
+describe(OfflineRegistry.name, () => {
+  it('replaces the registries in the .npmrc file', () => {
+    const npmrcContent: string = [
+      'registry=https://registry.npmjs.org/',
+      '@scope:registry = https://example.pkgs.visualstudio.com/npm/registry/',
+      '//example.pkgs.visualstudio.com/npm/registry/:always-auth=true',
+      'strict-ssl=false'
+    ].join('\n');
+
+    expect(
+      OfflineRegistry.replaceNpmrcRegistries(npmrcContent, 'http://127.0.0.1:1234/').split(/\r?\n/)
+    ).toEqual([
+      'registry=http://127.0.0.1:1234/',
+      '@scope:registry = http://127.0.0.1:1234/',
+      '//example.pkgs.visualstudio.com/npm/registry/:always-auth=true',
+      'strict-ssl=false'
+    ]);
+  });
+
+  it('adds a registry if the .npmrc file does not have one', () => {
+    expect(
+      OfflineRegistry.replaceNpmrcRegistries('strict-ssl=false', 'http://127.0.0.1:1234/').split(/\r?\n/)
+    ).toEqual(['registry=http://127.0.0.1:1234/', 'strict-ssl=false']);
+  });
+});
@@ -0,0 +1,116 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { FileSystem, JsonFile } from '@rushstack/node-core-library';
+
+import { IOfflineMirrorJson, IPackumentJson, OfflineMirror } from '../OfflineMirror';
+import { createOfflineRegistryServer } from '../OfflineRegistryServer';
+
+const TEMP_DIR_PATH: string = `${__dirname}/temp/OfflineRegistryServer`;
+
+const TARBALL_CONTENT: string = 'example tarball';
+
+const MIRROR_JSON: IOfflineMirrorJson = {
+  packages: {
+    '@scope/example': {
+      '1.4.0': {
+        tarballFilename: 'scope-example-1.4.0.tgz',
+        integrity: 'sha512-abc==',
+        shasum: '0123',
+        manifest: { name: '@scope/example', version: '1.4.0' }
+      }
+    }
+  }
+};
+
+interface IResponse {
+  statusCode: number;
+  body: string;
+}
+
+describe(createOfflineRegistryServer.name, () => {
+  let server: http.Server;
+  let port: number;
+  let errorSpy: jest.SpyInstance;
+
+  function requestAsync(method: string, requestPath: string): Promise<IResponse> {
+    return new Promise((resolve: (response: IResponse) => void, reject: (error: Error) => void) => {
+      const request: http.ClientRequest = http.request(
+        { host: '127.0.0.1', port, path: requestPath, method },
+        (response: http.IncomingMessage) => {
+          const chunks: Buffer[] = [];
+          response.on('data', (chunk: Buffer) => chunks.push(chunk));
+          response.on('end', () => {
+            resolve({ statusCode: response.statusCode!, body: Buffer.concat(chunks).toString() });
+          });
+        }
+      );
+      request.on('error', reject);
+      request.end();
+    });
+  }
+
+  beforeEach(async () => {
+    FileSystem.ensureEmptyFolder(TEMP_DIR_PATH);
+    JsonFile.save(MIRROR_JSON, `${TEMP_DIR_PATH}/${OfflineMirror.indexFilename}`);
+    FileSystem.writeFile(`${TEMP_DIR_PATH}/scope-example-1.4.0.tgz`, TARBALL_CONTENT);
+
+    server = createOfflineRegistryServer(new OfflineMirror(TEMP_DIR_PATH));
+    await new Promise<void>((resolve: () => void) => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+
+    errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {
+      /* no-op */
+    });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await new Promise<void>((resolve: () => void) => server.close(() => resolve()));
+    FileSystem.deleteFolder(TEMP_DIR_PATH);
+  });
+
+  it('serves the packument of a package', async () => {
+    const response: IResponse = await requestAsync('GET', '/@scope%2fexample');
+
+    expect(response.statusCode).toEqual(200);
+    const packument: IPackumentJson = JSON.parse(response.body);
+    expect(packument.name).toEqual('@scope/example');
+    expect(packument.versions['1.4.0'].dist.tarball).toEqual(
+      `http://127.0.0.1:${port}/@scope/example/-/example-1.4.0.tgz`
+    );
+  });
+
+  it('serves the tarball of a package version', async () => {
+    expect(await requestAsync('GET', '/@scope/example/-/example-1.4.0.tgz')).toEqual({
+      statusCode: 200,
+      body: TARBALL_CONTENT
+    });
+  });
+
+  it('does not send a body for HEAD requests', async () => {
+    expect(await requestAsync('HEAD', '/@scope%2fexample')).toEqual({ statusCode: 200, body: '' });
+    expect(await requestAsync('HEAD', '/@scope/example/-/example-1.4.0.tgz')).toEqual({
+      statusCode: 200,
+      body: ''
+    });
+  });
+
+  it('reports packages and versions that are not in the mirror', async () => {
+    expect((await requestAsync('GET', '/unknown')).statusCode).toEqual(404);
+    expect((await requestAsync('GET', '/unknown/-/unknown-1.0.0.tgz')).statusCode).toEqual(404);
+    expect((await requestAsync('GET', '/@scope/example/-/example-2.0.0.tgz')).statusCode).toEqual(404);
+
+    expect(errorSpy).toHaveBeenCalledWith('The offline mirror does not contain "unknown"');
+    expect(errorSpy).toHaveBeenCalledWith(
+      'The offline mirror does not contain "@scope/example/-/example-2.0.0.tgz"'
+    );
+  });
+
+  it('rejects invalid requests', async () => {
+    expect((await requestAsync('PUT', '/@scope%2fexample')).statusCode).toEqual(405);
+    expect((await requestAsync('GET', '/%E0%A4%A')).statusCode).toEqual(400);
+  });
+});
@@ -0,0 +1,307 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as path from 'path';
+import { FileSystem, IPackageJson, JsonFile, Path } from '@rushstack/node-core-library';
+
+import { RushConfiguration } from '../../api/RushConfiguration';
+import { RushConfigurationProject } from '../../api/RushConfigurationProject';
+import { LicensesConfiguration } from './LicensesConfiguration';
+
+/**
+ * Information about an installed package and its license.
+ */
+export interface IPackageLicenseInfo {
+  packageName: string;
+  version: string;
+
+  /**
+   * The license from package.json, or the license that was recognized from the license file if
+   * package.json does not specify one.
+   */
+  license: string | undefined;
+
+  /**
+   * The paths of the LICENSE, LICENCE and COPYING files in the package folder, relative to the repo root.
+   */
+  licenseFiles: string[];
+
+  /**
+   * The real path of the package folder, relative to the repo root.
+   */
+  path: string;
+
+  /**
+   * The names of the Rush projects that depend on the package.
+   */
+  projectNames: string[];
+
+  /**
+   * If the license is not allowed by the licenses.json config file, a description of the problem.
+   */
+  violation: string | undefined;
+}
+
+export interface ILicenseAuditorOptions {
+  /**
+   * If true, the devDependencies of the projects are also audited.
+   */
+  includeDevDependencies: boolean;
+}
+
+/**
+ * The "license" field of old package.json files, which could be an object or an array.
+ */
+interface ILegacyLicenseJson {
+  type?: string;
+}
+
+interface IPackageJsonWithLegacyLicenses extends Omit<IPackageJson, 'license'> {
+  license?: string | ILegacyLicenseJson;
+  licenses?: ILegacyLicenseJson[];
+}
+
+const CSV_COLUMNS: (keyof IPackageLicenseInfo)[] = [
+  'packageName',
+  'version',
+  'license',
+  'licenseFiles',
+  'path',
+  'projectNames',
+  'violation'
+];
+
+const LICENSE_FILE_REGEXP: RegExp = /^(LICEN[SC]E|COPYING)([.-].*)?$/i;
+
+/**
+ * Patterns that recognize common license texts, for packages whose package.json file does not
+ * specify a license.
+ */
+const LICENSE_TEXT_PATTERNS: [RegExp, string][] = [
+  [/Apache License[\s\S]*Version 2\.0/, 'Apache-2.0'],
+  [/MIT License|Permission is hereby granted, free of charge/, 'MIT'],
+  [/ISC License|Permission to use, copy, modify, and\/or distribute this software/, 'ISC'],
+  [/Redistribution and use in source and binary forms[\s\S]*Neither the name/, 'BSD-3-Clause'],
+  [/Redistribution and use in source and binary forms/, 'BSD-2-Clause']
+];
+
+/**
+ * Walks the installed dependencies of Rush projects, and collects the licenses of the packages.
+ * It follows the symbolic links that package managers create, so it works with the layout of
+ * PNPM installations.
+ */
+export class LicenseAuditor {
+  private readonly _rushConfiguration: RushConfiguration;
+  private readonly _licensesConfiguration: LicensesConfiguration;
+  private readonly _projectsByFolder: Map<string, RushConfigurationProject> = new Map();
+  private readonly _licenseInfosByFolder: Map<string, IPackageLicenseInfo> = new Map();
+
+  public constructor(rushConfiguration: RushConfiguration, licensesConfiguration: LicensesConfiguration) {
+    this._rushConfiguration = rushConfiguration;
+    this._licensesConfiguration = licensesConfiguration;
+
+    for (const project of rushConfiguration.projects) {
+      this._projectsByFolder.set(FileSystem.getRealPath(project.projectFolder), project);
+    }
+  }
+
+  /**
+   * Returns the license information of the packages that the projects depend on, sorted by package name
+   * and version. Rush projects are not included, but their dependencies are.
+   */
+  public auditProjects(
+    projects: Iterable<RushConfigurationProject>,
+    options: ILicenseAuditorOptions
+  ): IPackageLicenseInfo[] {
+    const projectNamesByFolder: Map<string, Set<string>> = new Map();
+
+    for (const project of projects) {
+      const visitedFolders: Set<string> = new Set();
+      const { dependencies, optionalDependencies, devDependencies } = project.packageJson;
+      const dependencyNames: Set<string> = new Set([
+        ...Object.keys(dependencies || {}),
+        ...Object.keys(optionalDependencies || {}),
+        ...(options.includeDevDependencies ? Object.keys(devDependencies || {}) : [])
+      ]);
+
+      this._collectDependencies(
+        FileSystem.getRealPath(project.projectFolder),
+        project.packageName,
+        dependencyNames,
+        new Set(Object.keys(optionalDependencies || {})),
+        visitedFolders
+      );
+
+      for (const folderPath of visitedFolders) {
+        if (!this._projectsByFolder.has(folderPath)) {
+          let projectNames: Set<string> | undefined = projectNamesByFolder.get(folderPath);
+          if (!projectNames) {
+            projectNames = new Set();
+            projectNamesByFolder.set(folderPath, projectNames);
+          }
+          projectNames.add(project.packageName);
+        }
+      }
+    }
+
+    const licenseInfos: IPackageLicenseInfo[] = [];
+    for (const [folderPath, projectNames] of projectNamesByFolder) {
+      const licenseInfo: IPackageLicenseInfo = this._getLicenseInfo(folderPath);
+      licenseInfos.push({ ...licenseInfo, projectNames: Array.from(projectNames).sort() });
+    }
+
+    licenseInfos.sort(
+      (a: IPackageLicenseInfo, b: IPackageLicenseInfo) =>
+        a.packageName.localeCompare(b.packageName) ||
+        a.version.localeCompare(b.version) ||
+        a.path.localeCompare(b.path)
+    );
+    return licenseInfos;
+  }
+
+  /**
+   * Formats the license information as CSV, with one row per package. Lists are separated by semicolons.
+   */
+  public static formatCsv(licenseInfos: IPackageLicenseInfo[]): string {
+    const escapeCsvField: (value: string) => string = (value: string) =>
+      /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+    const lines: string[] = [CSV_COLUMNS.join(',')];
+    for (const licenseInfo of licenseInfos) {
+      lines.push(
+        CSV_COLUMNS.map((column: keyof IPackageLicenseInfo) => {
+          const value: string | string[] | undefined = licenseInfo[column];
+          return escapeCsvField(Array.isArray(value) ? value.join(';') : value || '');
+        }).join(',')
+      );
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  private _collectDependencies(
+    folderPath: string,
+    packageName: string,
+    dependencyNames: Iterable<string>,
+    optionalDependencyNames: Set<string>,
+    visitedFolders: Set<string>
+  ): void {
+    for (const dependencyName of dependencyNames) {
+      const dependencyFolderPath: string | undefined = this._tryResolvePackageFolder(
+        dependencyName,
+        folderPath
+      );
+      if (!dependencyFolderPath) {
+        if (optionalDependencyNames.has(dependencyName)) {
+          // Ignore missing optional dependency
+          continue;
+        }
+        throw new Error(
+          `Unable to find the "${dependencyName}" dependency of "${packageName}" in ${folderPath}.` +
+            ` Make sure that "rush install" was run.`
+        );
+      }
+
+      if (visitedFolders.has(dependencyFolderPath)) {
+        continue;
+      }
+      visitedFolders.add(dependencyFolderPath);
+
+      const packageJson: IPackageJson = JsonFile.load(path.join(dependencyFolderPath, 'package.json'));
+      const { dependencies, optionalDependencies } = packageJson;
+      const dependencyOptionalDependencyNames: Set<string> = new Set(Object.keys(optionalDependencies || {}));
+      this._collectDependencies(
+        dependencyFolderPath,
+        packageJson.name,
+        new Set([...Object.keys(dependencies || {}), ...dependencyOptionalDependencyNames]),
+        dependencyOptionalDependencyNames,
+        visitedFolders
+      );
+    }
+  }
+
+  /**
+   * Finds the real path of an installed package, using the Node.js module resolution algorithm.
+   */
+  private _tryResolvePackageFolder(packageName: string, startingFolder: string): string | undefined {
+    let currentFolder: string = startingFolder;
+    for (;;) {
+      const candidateFolder: string = path.join(currentFolder, 'node_modules', packageName);
+      if (FileSystem.exists(path.join(candidateFolder, 'package.json'))) {
+        return FileSystem.getRealPath(candidateFolder);
+      }
+
+      const parentFolder: string = path.dirname(currentFolder);
+      if (parentFolder === currentFolder) {
+        return undefined;
+      }
+      currentFolder = parentFolder;
+    }
+  }
+
+  private _getLicenseInfo(folderPath: string): IPackageLicenseInfo {
+    let licenseInfo: IPackageLicenseInfo | undefined = this._licenseInfosByFolder.get(folderPath);
+    if (!licenseInfo) {
+      const packageJson: IPackageJsonWithLegacyLicenses = JsonFile.load(
+        path.join(folderPath, 'package.json')
+      );
+
+      const licenseFileNames: string[] = FileSystem.readFolderItemNames(folderPath)
+        .filter((itemName: string) => LICENSE_FILE_REGEXP.test(itemName))
+        .sort();
+
+      let license: string | undefined = LicenseAuditor._getPackageJsonLicense(packageJson);
+      if (!license && licenseFileNames.length > 0) {
+        license = LicenseAuditor._recognizeLicenseText(
+          FileSystem.readFile(path.join(folderPath, licenseFileNames[0]))
+        );
+      }
+
+      licenseInfo = {
+        packageName: packageJson.name,
+        version: packageJson.version,
+        license,
+        licenseFiles: licenseFileNames.map((licenseFileName: string) =>
+          this._getRelativePath(path.join(folderPath, licenseFileName))
+        ),
+        path: this._getRelativePath(folderPath),
+        projectNames: [],
+        violation: this._licensesConfiguration.tryGetViolation(packageJson.name, license)
+      };
+      this._licenseInfosByFolder.set(folderPath, licenseInfo);
+    }
+    return licenseInfo;
+  }
+
+  private _getRelativePath(absolutePath: string): string {
+    return Path.convertToSlashes(path.relative(this._rushConfiguration.rushJsonFolder, absolutePath));
+  }
+
+  private static _getPackageJsonLicense(packageJson: IPackageJsonWithLegacyLicenses): string | undefined {
+    const { license, licenses } = packageJson;
+    if (typeof license === 'string') {
+      return license;
+    } else if (license?.type) {
+      return license.type;
+    } else if (Array.isArray(licenses)) {
+      const licenseTypes: string[] = [];
+      for (const { type } of licenses) {
+        if (type) {
+          licenseTypes.push(type);
+        }
+      }
+      if (licenseTypes.length > 0) {
+        return licenseTypes.length === 1 ? licenseTypes[0] : `(${licenseTypes.join(' OR ')})`;
+      }
+    }
+    return undefined;
+  }
+
+  private static _recognizeLicenseText(licenseText: string): string | undefined {
+    for (const [pattern, license] of LICENSE_TEXT_PATTERNS) {
+      if (pattern.test(licenseText)) {
+        return license;
+      }
+    }
+    return undefined;
+  }
+}
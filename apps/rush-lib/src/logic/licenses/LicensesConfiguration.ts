@@ -0,0 +1,216 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as path from 'path';
+import { JsonFile, JsonSchema, FileSystem } from '@rushstack/node-core-library';
+
+/**
+ * This interface represents the raw licenses.json file.
+ */
+export interface ILicensesJson {
+  allowedLicenses?: string[];
+  deniedLicenses?: string[];
+  allowedPackages?: string[];
+}
+
+/**
+ * Use this class to load the "common/config/rush/licenses.json" config file.
+ * It configures the license checks of the "rush licenses" command.
+ */
+export class LicensesConfiguration {
+  private static _jsonSchema: JsonSchema = JsonSchema.fromFile(
+    path.resolve(__dirname, '..', '..', 'schemas', 'licenses.schema.json')
+  );
+
+  private readonly _allowedLicenses: Set<string> | undefined;
+  private readonly _deniedLicenses: Set<string>;
+  private readonly _allowedPackages: Set<string>;
+
+  public constructor(licensesJson: ILicensesJson) {
+    this._allowedLicenses = licensesJson.allowedLicenses
+      ? new Set(licensesJson.allowedLicenses.map(normalizeLicenseName))
+      : undefined;
+    this._deniedLicenses = new Set((licensesJson.deniedLicenses || []).map(normalizeLicenseName));
+    this._allowedPackages = new Set(licensesJson.allowedPackages);
+  }
+
+  /**
+   * Loads the config file, or returns a configuration without any checks if the file does not exist.
+   */
+  public static loadFromFile(jsonFilePath: string): LicensesConfiguration {
+    let licensesJson: ILicensesJson = {};
+    if (FileSystem.exists(jsonFilePath)) {
+      licensesJson = JsonFile.loadAndValidate(jsonFilePath, LicensesConfiguration._jsonSchema);
+    }
+    return new LicensesConfiguration(licensesJson);
+  }
+
+  /**
+   * Checks the license of a package, and returns a description of the problem if the license is not allowed.
+   *
+   * @remarks
+   * The license can be an SPDX expression such as "MIT AND (Apache-2.0 OR ISC)". A license with an
+   * exception such as "GPL-2.0 WITH Classpath-exception-2.0" is checked as the license itself, unless the
+   * license is listed together with the exception. A license that is not a valid SPDX expression is reported
+   * as a violation, because it cannot be checked.
+   */
+  public tryGetViolation(packageName: string, license: string | undefined): string | undefined {
+    if (this._allowedPackages.has(packageName)) {
+      return undefined;
+    }
+
+    if (!this._allowedLicenses && this._deniedLicenses.size === 0) {
+      return undefined;
+    }
+
+    if (!license) {
+      return this._allowedLicenses ? 'The package does not specify a license' : undefined;
+    }
+
+    const expression: ISpdxExpression | undefined = tryParseSpdxExpression(license);
+    if (!expression) {
+      return `The "${license}" license is not a valid SPDX expression`;
+    }
+
+    if (this._isAllowed(expression)) {
+      return undefined;
+    }
+
+    if (this._containsDeniedLicense(expression)) {
+      return `The "${license}" license is denied by the "deniedLicenses" setting`;
+    }
+    return `The "${license}" license is not listed in the "allowedLicenses" setting`;
+  }
+
+  private _isAllowed(expression: ISpdxExpression): boolean {
+    switch (expression.kind) {
+      case 'and': {
+        return this._isAllowed(expression.left) && this._isAllowed(expression.right);
+      }
+
+      case 'or': {
+        return this._isAllowed(expression.left) || this._isAllowed(expression.right);
+      }
+
+      default: {
+        // A license with an exception that is listed takes precedence over the license without the exception
+        for (const name of getLicenseNames(expression)) {
+          if (this._deniedLicenses.has(name)) {
+            return false;
+          } else if (this._allowedLicenses?.has(name)) {
+            return true;
+          }
+        }
+        return !this._allowedLicenses;
+      }
+    }
+  }
+
+  private _containsDeniedLicense(expression: ISpdxExpression): boolean {
+    if (expression.kind === 'license') {
+      return getLicenseNames(expression).some((name: string) => this._deniedLicenses.has(name));
+    }
+
+    return this._containsDeniedLicense(expression.left) || this._containsDeniedLicense(expression.right);
+  }
+}
+
+interface ISpdxLicense {
+  kind: 'license';
+  /**
+   * The license identifier, in lowercase.
+   */
+  license: string;
+  /**
+   * The identifier of the exception from a "WITH" clause, in lowercase.
+   */
+  exception: string | undefined;
+}
+
+interface ISpdxCompoundExpression {
+  kind: 'and' | 'or';
+  left: ISpdxExpression;
+  right: ISpdxExpression;
+}
+
+type ISpdxExpression = ISpdxLicense | ISpdxCompoundExpression;
+
+/**
+ * SPDX license identifiers are case-insensitive, so the names are compared in lowercase.
+ */
+function normalizeLicenseName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Returns the names that a license can be listed as in licenses.json: the license identifier, and if it has an
+ * exception, also the license with the exception.
+ */
+function getLicenseNames({ license, exception }: ISpdxLicense): string[] {
+  return exception ? [`${license} with ${exception}`, license] : [license];
+}
+
+/**
+ * Parses an SPDX license expression. "AND" takes precedence over "OR", and parentheses can be nested.
+ * The operators are matched case-insensitively, as are the identifiers.
+ * See https://spdx.github.io/spdx-spec/v2.3/SPDX-license-expressions/
+ *
+ * @returns the parsed expression, or undefined if the expression is not valid
+ */
+function tryParseSpdxExpression(text: string): ISpdxExpression | undefined {
+  const tokens: string[] = text
+    .replace(/[()]/g, ' $& ')
+    .split(/\s+/)
+    .filter((token: string) => token.length > 0)
+    .map((token: string) => token.toLowerCase());
+  let index: number = 0;
+
+  function parseOr(): ISpdxExpression | undefined {
+    let left: ISpdxExpression | undefined = parseAnd();
+    while (left && tokens[index] === 'or') {
+      index++;
+      const right: ISpdxExpression | undefined = parseAnd();
+      left = right && { kind: 'or', left, right };
+    }
+    return left;
+  }
+
+  function parseAnd(): ISpdxExpression | undefined {
+    let left: ISpdxExpression | undefined = parsePrimary();
+    while (left && tokens[index] === 'and') {
+      index++;
+      const right: ISpdxExpression | undefined = parsePrimary();
+      left = right && { kind: 'and', left, right };
+    }
+    return left;
+  }
+
+  function parsePrimary(): ISpdxExpression | undefined {
+    const token: string | undefined = tokens[index++];
+    if (token === '(') {
+      const expression: ISpdxExpression | undefined = parseOr();
+      return tokens[index++] === ')' ? expression : undefined;
+    }
+
+    if (!isIdentifier(token)) {
+      return undefined;
+    }
+
+    let exception: string | undefined;
+    if (tokens[index] === 'with') {
+      exception = tokens[index + 1];
+      if (!isIdentifier(exception)) {
+        return undefined;
+      }
+      index += 2;
+    }
+    return { kind: 'license', license: token, exception };
+  }
+
+  function isIdentifier(token: string | undefined): token is string {
+    return !!token && /^[a-z0-9.\-+:]+$/.test(token) && token !== 'and' && token !== 'or' && token !== 'with';
+  }
+
+  const expression: ISpdxExpression | undefined = parseOr();
+  return index === tokens.length ? expression : undefined;
+}
@@ -0,0 +1,271 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as path from 'path';
+import { FileSystem, IPackageJson, JsonFile } from '@rushstack/node-core-library';
+
+import type { RushConfiguration } from '../../../api/RushConfiguration';
+import type { RushConfigurationProject } from '../../../api/RushConfigurationProject';
+import { IPackageLicenseInfo, LicenseAuditor } from '../LicenseAuditor';
+import { LicensesConfiguration } from '../LicensesConfiguration';
+
+const TEMP_DIR_PATH: string = `${__dirname}/temp/LicenseAuditor`;
+
+const MIT_LICENSE_TEXT: string =
+  'MIT License\n\nPermission is hereby granted, free of charge, to any person obtaining a copy\n';
+
+interface IFixturePackageJson {
+  name: string;
+  version?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Writes a package to the PNPM store folder of the fixture repo, and returns its folder.
+ */
+function createStorePackage(
+  repoFolder: string,
+  packageJson: IFixturePackageJson,
+  files: string[] = []
+): string {
+  const { name, version = '1.0.0' } = packageJson;
+  const packageFolder: string = `${repoFolder}/common/temp/node_modules/.pnpm/${name}@${version}/node_modules/${name}`;
+  JsonFile.save({ version, ...packageJson }, `${packageFolder}/package.json`, { ensureFolderExists: true });
+  for (const file of files) {
+    FileSystem.writeFile(`${packageFolder}/${file}`, MIT_LICENSE_TEXT);
+  }
+  return packageFolder;
+}
+
+/**
+ * Creates a symbolic link to a package in the node_modules folder of another package, like PNPM does.
+ */
+function linkPackage(folder: string, packageFolder: string): void {
+  const packageName: string = JsonFile.load(`${packageFolder}/package.json`).name;
+  FileSystem.ensureFolder(`${folder}/node_modules`);
+  FileSystem.createSymbolicLinkFolder({
+    linkTargetPath: packageFolder,
+    newLinkPath: `${folder}/node_modules/${packageName}`
+  });
+}
+
+function createProject(
+  repoFolder: string,
+  projectFolder: string,
+  packageJson: IPackageJson
+): RushConfigurationProject {
+  JsonFile.save(packageJson, `${repoFolder}/${projectFolder}/package.json`, { ensureFolderExists: true });
+  return {
+    packageName: packageJson.name,
+    projectFolder: `${repoFolder}/${projectFolder}`,
+    packageJson
+  } as unknown as RushConfigurationProject;
+}
+
+/**
+ * Creates a repo with two projects and a node_modules layout like the one that PNPM creates.
+ */
+function createRepo(repoFolder: string): RushConfiguration {
+  const app: RushConfigurationProject = createProject(repoFolder, 'apps/app', {
+    name: 'app',
+    version: '1.0.0',
+    dependencies: {
+      lib: 'workspace:*',
+      'mit-package': '^1.0.0',
+      'legacy-object': '^1.0.0',
+      'legacy-array': '^1.0.0',
+      'license-file-only': '^1.0.0'
+    },
+    optionalDependencies: { 'missing-optional': '^1.0.0' },
+    devDependencies: { 'dev-tool': '^1.0.0' }
+  });
+  const lib: RushConfigurationProject = createProject(repoFolder, 'libraries/lib', {
+    name: 'lib',
+    version: '1.0.0',
+    dependencies: { 'gpl-package': '^1.0.0', 'mit-package': '^1.0.0' }
+  });
+
+  const mitPackage: string = createStorePackage(
+    repoFolder,
+    { name: 'mit-package', license: 'MIT', dependencies: { transitive: '^2.0.0' } },
+    ['LICENSE', 'README.md']
+  );
+  const transitive: string = createStorePackage(repoFolder, {
+    name: 'transitive',
+    version: '2.0.0',
+    license: 'ISC'
+  });
+  linkPackage(path.resolve(mitPackage, '../..'), transitive);
+
+  const appFolder: string = app.projectFolder;
+  linkPackage(appFolder, lib.projectFolder);
+  linkPackage(appFolder, mitPackage);
+  linkPackage(
+    appFolder,
+    createStorePackage(repoFolder, {
+      name: 'legacy-object',
+      license: { type: 'BSD-2-Clause', url: 'https://example.com/license' }
+    })
+  );
+  linkPackage(
+    appFolder,
+    createStorePackage(repoFolder, {
+      name: 'legacy-array',
+      licenses: [{ type: 'MIT' }, { type: 'Apache-2.0' }]
+    })
+  );
+  linkPackage(appFolder, createStorePackage(repoFolder, { name: 'license-file-only' }, ['LICENSE.md']));
+  linkPackage(appFolder, createStorePackage(repoFolder, { name: 'dev-tool', license: 'WTFPL' }));
+
+  linkPackage(lib.projectFolder, mitPackage);
+  linkPackage(lib.projectFolder, createStorePackage(repoFolder, { name: 'gpl-package', license: 'GPL-3.0' }));
+
+  return { rushJsonFolder: repoFolder, projects: [app, lib] } as unknown as RushConfiguration;
+}
+
+function getLicenses(licenseInfos: IPackageLicenseInfo[]): Record<string, string | undefined> {
+  const licenses: Record<string, string | undefined> = {};
+  for (const { packageName, license } of licenseInfos) {
+    licenses[packageName] = license;
+  }
+  return licenses;
+}
+
+describe(LicenseAuditor.name, () => {
+  let rushConfiguration: RushConfiguration;
+
+  beforeEach(() => {
+    FileSystem.ensureEmptyFolder(TEMP_DIR_PATH);
+    rushConfiguration = createRepo(FileSystem.getRealPath(TEMP_DIR_PATH));
+  });
+
+  afterEach(() => {
+    FileSystem.deleteFolder(TEMP_DIR_PATH);
+  });
+
+  function audit(
+    projects: Iterable<RushConfigurationProject> = rushConfiguration.projects,
+    includeDevDependencies: boolean = false,
+    licensesConfiguration: LicensesConfiguration = new LicensesConfiguration({})
+  ): IPackageLicenseInfo[] {
+    const licenseAuditor: LicenseAuditor = new LicenseAuditor(rushConfiguration, licensesConfiguration);
+    return licenseAuditor.auditProjects(projects, { includeDevDependencies });
+  }
+
+  it('walks the installed dependencies of the projects', () => {
+    const licenseInfos: IPackageLicenseInfo[] = audit();
+
+    // Rush projects are not listed, but their dependencies are
+    expect(
+      licenseInfos.map(
+        ({ packageName, version, projectNames }) => `${packageName}@${version} (${projectNames})`
+      )
+    ).toEqual([
+      'gpl-package@1.0.0 (app,lib)',
+      'legacy-array@1.0.0 (app)',
+      'legacy-object@1.0.0 (app)',
+      'license-file-only@1.0.0 (app)',
+      'mit-package@1.0.0 (app,lib)',
+      'transitive@2.0.0 (app,lib)'
+    ]);
+    expect(licenseInfos[licenseInfos.length - 1].path).toEqual(
+      'common/temp/node_modules/.pnpm/transitive@2.0.0/node_modules/transitive'
+    );
+  });
+
+  it('only audits the devDependencies of the projects if requested', () => {
+    const app: RushConfigurationProject = rushConfiguration.projects[0];
+
+    expect(audit([app]).map(({ packageName }) => packageName)).not.toContain('dev-tool');
+    expect(audit([app], true).map(({ packageName }) => packageName)).toContain('dev-tool');
+  });
+
+  it('fails if a dependency is not installed', () => {
+    FileSystem.deleteFolder(`${rushConfiguration.projects[1].projectFolder}/node_modules/gpl-package`);
+
+    expect(() => audit()).toThrowError(
+      'Unable to find the "gpl-package" dependency of "lib" in ' +
+        `${rushConfiguration.projects[1].projectFolder}. Make sure that "rush install" was run.`
+    );
+  });
+
+  it('reads the license from the legacy "license" object and "licenses" array', () => {
+    const licenses: Record<string, string | undefined> = getLicenses(audit());
+
+    expect(licenses['legacy-object']).toEqual('BSD-2-Clause');
+    expect(licenses['legacy-array']).toEqual('(MIT OR Apache-2.0)');
+  });
+
+  it('recognizes the license text if package.json does not specify a license', () => {
+    const licenseInfos: IPackageLicenseInfo[] = audit();
+    const licenseFileOnly: IPackageLicenseInfo = licenseInfos.find(
+      ({ packageName }) => packageName === 'license-file-only'
+    )!;
+    const mitPackage: IPackageLicenseInfo = licenseInfos.find(
+      ({ packageName }) => packageName === 'mit-package'
+    )!;
+
+    expect(licenseFileOnly.license).toEqual('MIT');
+    expect(licenseFileOnly.licenseFiles).toEqual([`${licenseFileOnly.path}/LICENSE.md`]);
+    expect(mitPackage.licenseFiles).toEqual([`${mitPackage.path}/LICENSE`]);
+  });
+
+  it('reports the licenses that are not allowed by licenses.json', () => {
+    const violations: Record<string, string | undefined> = {};
+    for (const { packageName, violation } of audit(
+      rushConfiguration.projects,
+      true,
+      new LicensesConfiguration({
+        allowedLicenses: ['MIT', 'ISC', 'BSD-2-Clause', 'Apache-2.0', 'GPL-3.0'],
+        deniedLicenses: ['GPL-3.0'],
+        allowedPackages: ['legacy-object']
+      })
+    )) {
+      violations[packageName] = violation;
+    }
+
+    expect(violations).toEqual({
+      'dev-tool': 'The "WTFPL" license is not listed in the "allowedLicenses" setting',
+      'gpl-package': 'The "GPL-3.0" license is denied by the "deniedLicenses" setting',
+      'legacy-array': undefined,
+      'legacy-object': undefined,
+      'license-file-only': undefined,
+      'mit-package': undefined,
+      transitive: undefined
+    });
+  });
+
+  describe(LicenseAuditor.formatCsv.name, () => {
+    it('writes one row per package', () => {
+      expect(
+        LicenseAuditor.formatCsv([
+          {
+            packageName: 'a',
+            version: '1.0.0',
+            license: '(MIT OR Apache-2.0)',
+            licenseFiles: ['a/LICENSE', 'a/COPYING'],
+            path: 'a',
+            projectNames: ['app', 'lib'],
+            violation: undefined
+          },
+          {
+            packageName: 'b',
+            version: '2.0.0',
+            license: undefined,
+            licenseFiles: [],
+            path: 'b',
+            projectNames: ['app'],
+            violation: 'The "x, "y"" license is denied'
+          }
+        ])
+      ).toEqual(
+        [
+          'packageName,version,license,licenseFiles,path,projectNames,violation',
+          'a,1.0.0,(MIT OR Apache-2.0),a/LICENSE;a/COPYING,a,app;lib,',
+          'b,2.0.0,,,b,app,"The ""x, ""y"""" license is denied"',
+          ''
+        ].join('\n')
+      );
+    });
+  });
+});
@@ -0,0 +1,100 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { LicensesConfiguration } from '../LicensesConfiguration';
+
+describe(LicensesConfiguration.name, () => {
+  it('allows everything when no licenses are configured', () => {
+    const licensesConfiguration: LicensesConfiguration = new LicensesConfiguration({});
+    expect(licensesConfiguration.tryGetViolation('a', 'GPL-3.0')).toBeUndefined();
+    expect(licensesConfiguration.tryGetViolation('a', undefined)).toBeUndefined();
+  });
+
+  it('checks the allowed and denied licenses', () => {
+    const licensesConfiguration: LicensesConfiguration = new LicensesConfiguration({
+      allowedLicenses: ['MIT', 'Apache-2.0', 'BSD-3-Clause'],
+      deniedLicenses: ['GPL-3.0'],
+      allowedPackages: ['reviewed-package']
+    });
+
+    expect(licensesConfiguration.tryGetViolation('a', 'mit')).toBeUndefined();
+    expect(licensesConfiguration.tryGetViolation('a', '(GPL-3.0 OR MIT)')).toBeUndefined();
+    expect(licensesConfiguration.tryGetViolation('a', '(Apache-2.0 AND BSD-3-Clause)')).toBeUndefined();
+    expect(licensesConfiguration.tryGetViolation('reviewed-package', 'GPL-3.0')).toBeUndefined();
+
+    expect(licensesConfiguration.tryGetViolation('a', 'GPL-3.0')).toEqual(
+      'The "GPL-3.0" license is denied by the "deniedLicenses" setting'
+    );
+    expect(licensesConfiguration.tryGetViolation('a', '(MIT AND GPL-3.0)')).toEqual(
+      'The "(MIT AND GPL-3.0)" license is denied by the "deniedLicenses" setting'
+    );
+    expect(licensesConfiguration.tryGetViolation('a', 'WTFPL')).toEqual(
+      'The "WTFPL" license is not listed in the "allowedLicenses" setting'
+    );
+    expect(licensesConfiguration.tryGetViolation('a', undefined)).toEqual(
+      'The package does not specify a license'
+    );
+  });
+
+  it('keeps the grouping of SPDX expressions', () => {
+    const licensesConfiguration: LicensesConfiguration = new LicensesConfiguration({
+      allowedLicenses: ['MIT', 'ISC', 'GPL-3.0'],
+      deniedLicenses: ['GPL-3.0']
+    });
+
+    expect(licensesConfiguration.tryGetViolation('a', 'GPL-3.0 AND (MIT OR ISC)')).toEqual(
+      'The "GPL-3.0 AND (MIT OR ISC)" license is denied by the "deniedLicenses" setting'
+    );
+    expect(licensesConfiguration.tryGetViolation('a', '(GPL-3.0 AND MIT) OR ISC')).toBeUndefined();
+    expect(licensesConfiguration.tryGetViolation('a', 'MIT AND ((GPL-3.0 OR ISC) AND MIT)')).toBeUndefined();
+    // AND takes precedence over OR
+    expect(licensesConfiguration.tryGetViolation('a', 'ISC OR MIT AND GPL-3.0')).toBeUndefined();
+    expect(licensesConfiguration.tryGetViolation('a', 'MIT AND GPL-3.0 OR GPL-3.0')).toEqual(
+      'The "MIT AND GPL-3.0 OR GPL-3.0" license is denied by the "deniedLicenses" setting'
+    );
+  });
+
+  it('checks licenses with a WITH exception as the license, unless they are listed with the exception', () => {
+    const licensesConfiguration: LicensesConfiguration = new LicensesConfiguration({
+      allowedLicenses: ['MIT', 'GPL-2.0  with  Classpath-exception-2.0'],
+      deniedLicenses: ['GPL-2.0', 'Apache-2.0 WITH LLVM-exception']
+    });
+
+    expect(
+      licensesConfiguration.tryGetViolation('a', 'GPL-2.0 WITH Classpath-exception-2.0')
+    ).toBeUndefined();
+    expect(licensesConfiguration.tryGetViolation('a', 'MIT WITH Autoconf-exception-2.0')).toBeUndefined();
+    expect(licensesConfiguration.tryGetViolation('a', 'GPL-2.0 WITH Autoconf-exception-2.0')).toEqual(
+      'The "GPL-2.0 WITH Autoconf-exception-2.0" license is denied by the "deniedLicenses" setting'
+    );
+    expect(
+      licensesConfiguration.tryGetViolation('a', 'Apache-2.0 WITH LLVM-exception OR MIT')
+    ).toBeUndefined();
+    expect(licensesConfiguration.tryGetViolation('a', 'Apache-2.0 WITH LLVM-exception')).toEqual(
+      'The "Apache-2.0 WITH LLVM-exception" license is denied by the "deniedLicenses" setting'
+    );
+  });
+
+  it('reports licenses that are not valid SPDX expressions', () => {
+    const licensesConfiguration: LicensesConfiguration = new LicensesConfiguration({
+      deniedLicenses: ['GPL-3.0']
+    });
+
+    for (const license of [
+      'SEE LICENSE IN LICENSE.txt',
+      '(MIT OR ISC',
+      'MIT OR ISC)',
+      'MIT AND',
+      'MIT WITH',
+      'OR MIT',
+      'MIT ISC',
+      '()'
+    ]) {
+      expect(licensesConfiguration.tryGetViolation('a', license)).toEqual(
+        `The "${license}" license is not a valid SPDX expression`
+      );
+    }
+    expect(licensesConfiguration.tryGetViolation('a', 'LicenseRef-Proprietary')).toBeUndefined();
+    expect(licensesConfiguration.tryGetViolation('a', 'GPL-2.0+ or mit')).toBeUndefined();
+  });
+});
@@ -0,0 +1,44 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { ITerminal, ITerminalProvider, Terminal } from '@rushstack/node-core-library';
+
+import type { FileSystemBuildCacheProvider } from '../buildCache/FileSystemBuildCacheProvider';
+import type { IExecutionResult } from './IOperationExecutionResult';
+import type {
+  ICreateOperationsContext,
+  IPhasedCommandPlugin,
+  PhasedCommandHooks
+} from '../../pluginFramework/PhasedCommandHooks';
+
+const PLUGIN_NAME: 'BuildCacheEvictionPlugin' = 'BuildCacheEvictionPlugin';
+
+/**
+ * Core phased command plugin that trims the local build cache to the limits configured in
+ * build-cache.json after a command has written new cache entries.
+ */
+export class BuildCacheEvictionPlugin implements IPhasedCommandPlugin {
+  private readonly _terminal: ITerminal;
+
+  public constructor(terminalProvider: ITerminalProvider) {
+    this._terminal = new Terminal(terminalProvider);
+  }
+
+  public apply(hooks: PhasedCommandHooks): void {
+    hooks.afterExecuteOperations.tapPromise(
+      PLUGIN_NAME,
+      async (result: IExecutionResult, context: ICreateOperationsContext): Promise<void> => {
+        const { buildCacheConfiguration } = context;
+        if (!buildCacheConfiguration?.cacheWriteEnabled) {
+          // No new entries were written, so the cache cannot have grown
+          return;
+        }
+
+        const localCacheProvider: FileSystemBuildCacheProvider = buildCacheConfiguration.localCacheProvider;
+        if (localCacheProvider.isEvictionEnabled) {
+          await localCacheProvider.trimAsync(this._terminal);
+        }
+      }
+    );
+  }
+}
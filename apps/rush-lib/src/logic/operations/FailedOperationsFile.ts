@@ -0,0 +1,131 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as path from 'path';
+import { FileSystem, JsonFile } from '@rushstack/node-core-library';
+
+import type { RushConfiguration } from '../../api/RushConfiguration';
+import { RushConstants } from '../RushConstants';
+
+/**
+ * This interface represents the raw failed-operations.json file
+ * Example:
+ *  {
+ *    "failedProjectsByPhase": {
+ *      "_phase:build": ["my-app", "my-library"]
+ *    }
+ *  }
+ */
+interface IFailedOperationsJson {
+  failedProjectsByPhase: { [phaseName: string]: string[] };
+}
+
+/**
+ * Tracks the projects whose phases failed when they were last executed. The file is updated after
+ * each run of a phased command, and is used to evaluate the `phase-failed:` project selector.
+ */
+export class FailedOperationsFile {
+  private readonly _filePath: string;
+  private readonly _failedProjectsByPhase: Map<string, Set<string>>;
+  private _modified: boolean = false;
+
+  private constructor(filePath: string, failedOperationsJson: IFailedOperationsJson | undefined) {
+    this._filePath = filePath;
+    this._failedProjectsByPhase = new Map();
+
+    if (failedOperationsJson) {
+      for (const [phaseName, packageNames] of Object.entries(failedOperationsJson.failedProjectsByPhase)) {
+        this._failedProjectsByPhase.set(phaseName, new Set(packageNames));
+      }
+    }
+  }
+
+  /**
+   * Loads the failed-operations.json file from the common temp folder, or returns an empty
+   * instance if the file does not exist.
+   */
+  public static load(rushConfiguration: RushConfiguration): FailedOperationsFile {
+    const filePath: string = path.join(
+      rushConfiguration.commonTempFolder,
+      RushConstants.failedOperationsFilename
+    );
+
+    let failedOperationsJson: IFailedOperationsJson | undefined;
+    try {
+      failedOperationsJson = JsonFile.load(filePath);
+    } catch (error) {
+      if (!FileSystem.isNotExistError(error as Error)) {
+        throw error;
+      }
+    }
+
+    return new FailedOperationsFile(filePath, failedOperationsJson);
+  }
+
+  /**
+   * The absolute path of the failed-operations.json file.
+   */
+  public get filePath(): string {
+    return this._filePath;
+  }
+
+  /**
+   * The names of the phases that have at least one failed project.
+   */
+  public get failedPhaseNames(): Iterable<string> {
+    return this._failedProjectsByPhase.keys();
+  }
+
+  /**
+   * Returns the names of the projects whose operation for the specified phase failed when it was last executed.
+   */
+  public getFailedProjectNames(phaseName: string): ReadonlySet<string> {
+    return this._failedProjectsByPhase.get(phaseName) || new Set();
+  }
+
+  /**
+   * Records whether the operation for the specified phase and project failed.
+   */
+  public setOperationFailed(phaseName: string, packageName: string, failed: boolean): void {
+    let failedProjects: Set<string> | undefined = this._failedProjectsByPhase.get(phaseName);
+
+    if (failed) {
+      if (!failedProjects) {
+        failedProjects = new Set();
+        this._failedProjectsByPhase.set(phaseName, failedProjects);
+      }
+
+      if (!failedProjects.has(packageName)) {
+        failedProjects.add(packageName);
+        this._modified = true;
+      }
+    } else if (failedProjects?.delete(packageName)) {
+      if (failedProjects.size === 0) {
+        this._failedProjectsByPhase.delete(phaseName);
+      }
+
+      this._modified = true;
+    }
+  }
+
+  /**
+   * Writes the file to disk if it has been modified.
+   *
+   * @returns true if the file was written
+   */
+  public save(): boolean {
+    if (!this._modified) {
+      return false;
+    }
+
+    const failedProjectsByPhase: { [phaseName: string]: string[] } = {};
+    for (const [phaseName, packageNames] of this._failedProjectsByPhase) {
+      failedProjectsByPhase[phaseName] = [...packageNames].sort();
+    }
+
+    const failedOperationsJson: IFailedOperationsJson = { failedProjectsByPhase };
+    JsonFile.save(failedOperationsJson, this._filePath, { ensureFolderExists: true });
+    this._modified = false;
+    return true;
+  }
+}
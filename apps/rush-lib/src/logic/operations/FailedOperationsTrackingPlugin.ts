@@ -0,0 +1,67 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { FailedOperationsFile } from './FailedOperationsFile';
+import { OperationStatus } from './OperationStatus';
+import type { IExecutionResult } from './IOperationExecutionResult';
+import type {
+  ICreateOperationsContext,
+  IPhasedCommandPlugin,
+  PhasedCommandHooks
+} from '../../pluginFramework/PhasedCommandHooks';
+
+const PLUGIN_NAME: 'FailedOperationsTrackingPlugin' = 'FailedOperationsTrackingPlugin';
+
+/**
+ * Core phased command plugin that records which projects failed each phase, so that they can be
+ * selected later with the `phase-failed:` selector.
+ */
+export class FailedOperationsTrackingPlugin implements IPhasedCommandPlugin {
+  public apply(hooks: PhasedCommandHooks): void {
+    hooks.afterExecuteOperations.tap(PLUGIN_NAME, recordFailedOperations);
+  }
+}
+
+function recordFailedOperations(result: IExecutionResult, context: ICreateOperationsContext): void {
+  const { phaseSelection, projectSelection, rushConfiguration } = context;
+
+  const failedOperationsFile: FailedOperationsFile = FailedOperationsFile.load(rushConfiguration);
+
+  for (const { operation, status } of result.operationResults.values()) {
+    const { associatedPhase, associatedProject } = operation;
+    if (
+      !associatedPhase ||
+      !associatedProject ||
+      !phaseSelection.has(associatedPhase) ||
+      !projectSelection.has(associatedProject)
+    ) {
+      // Only operations that were selected for this run are relevant
+      continue;
+    }
+
+    const failed: boolean | undefined = isFailed(status);
+    if (failed !== undefined) {
+      failedOperationsFile.setOperationFailed(associatedPhase.name, associatedProject.packageName, failed);
+    }
+  }
+
+  failedOperationsFile.save();
+}
+
+/**
+ * Returns undefined if the operation did not run to completion, in which case the previous result is preserved.
+ */
+function isFailed(status: OperationStatus): boolean | undefined {
+  switch (status) {
+    case OperationStatus.Failure:
+      return true;
+    case OperationStatus.Success:
+    case OperationStatus.SuccessWithWarning:
+    case OperationStatus.Flaky:
+    case OperationStatus.Skipped:
+    case OperationStatus.FromCache:
+      return false;
+    default:
+      return undefined;
+  }
+}
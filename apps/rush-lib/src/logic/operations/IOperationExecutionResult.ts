@@ -0,0 +1,54 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import type { StdioSummarizer } from '@rushstack/terminal';
+
+import type { Operation } from './Operation';
+import type { OperationStatus } from './OperationStatus';
+import type { IStopwatchResult } from '../../utilities/Stopwatch';
+
+/**
+ * The `IOperationExecutionResult` interface represents the current state of an `Operation`
+ * while it is being executed, and its result once execution has finished.
+ *
+ * @alpha
+ */
+export interface IOperationExecutionResult {
+  /**
+   * The operation being executed.
+   */
+  readonly operation: Operation;
+  /**
+   * The current execution status of the operation.
+   */
+  readonly status: OperationStatus;
+  /**
+   * The error which occurred while executing the operation, if any.
+   */
+  readonly error: Error | undefined;
+  /**
+   * Tracks the time at which the operation started and finished executing.
+   */
+  readonly stopwatch: IStopwatchResult;
+  /**
+   * A summary of the output written by the operation.
+   */
+  readonly stdioSummarizer: StdioSummarizer;
+}
+
+/**
+ * The result of executing a set of operations.
+ *
+ * @alpha
+ */
+export interface IExecutionResult {
+  /**
+   * The results of each operation that was part of the execution.
+   */
+  readonly operationResults: ReadonlyMap<Operation, IOperationExecutionResult>;
+  /**
+   * The overall status of the execution: `Failure` if any operation failed, `SuccessWithWarning` if any
+   * operation produced warnings that are not allowed, otherwise `Success`.
+   */
+  readonly status: OperationStatus;
+}
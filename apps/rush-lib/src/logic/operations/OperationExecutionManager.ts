@@ -16,6 +16,8 @@ import { AsyncOperationQueue, IOperationSortFunction } from './AsyncOperationQue
 import { Operation } from './Operation';
 import { OperationStatus } from './OperationStatus';
 import { IOperationExecutionRecordContext, OperationExecutionRecord } from './OperationExecutionRecord';
+import type { IExecutionResult, IOperationExecutionResult } from './IOperationExecutionResult';
+import { OperationTimeline } from './OperationTimeline';
 
 export interface IOperationExecutionManagerOptions {
   quietMode: boolean;
@@ -24,6 +26,12 @@ export interface IOperationExecutionManagerOptions {
   showTimeline: boolean;
   changedProjectsOnly: boolean;
   destination?: TerminalWritable;
+
+  beforeExecuteOperations?: (records: ReadonlyMap<Operation, IOperationExecutionResult>) => Promise<void>;
+  beforeExecuteOperation?: (record: IOperationExecutionResult) => Promise<void>;
+  afterExecuteOperation?: (record: IOperationExecutionResult) => Promise<void>;
+  afterExecuteOperations?: (result: IExecutionResult) => Promise<void>;
+  onOperationStatusChanged?: (record: IOperationExecutionResult) => void;
 }
 
 /**
@@ -44,6 +52,7 @@ const TIMELINE_CHART_SYMBOLS: Record<OperationStatus, string> = {
   [OperationStatus.Executing]: '?',
   [OperationStatus.Success]: '#',
   [OperationStatus.SuccessWithWarning]: '!',
+  [OperationStatus.Flaky]: '~',
   [OperationStatus.Failure]: '!',
   [OperationStatus.Blocked]: '.',
   [OperationStatus.Skipped]: '%',
@@ -58,6 +67,7 @@ const TIMELINE_CHART_COLORIZER: Record<OperationStatus, (string: string) => stri
   [OperationStatus.Executing]: colors.yellow,
   [OperationStatus.Success]: colors.green,
   [OperationStatus.SuccessWithWarning]: colors.yellow,
+  [OperationStatus.Flaky]: colors.yellow,
   [OperationStatus.Failure]: colors.red,
   [OperationStatus.Blocked]: colors.red,
   [OperationStatus.Skipped]: colors.green,
@@ -72,7 +82,7 @@ const TIMELINE_CHART_COLORIZER: Record<OperationStatus, (string: string) => stri
  */
 export class OperationExecutionManager {
   private readonly _changedProjectsOnly: boolean;
-  private readonly _executionRecords: Set<OperationExecutionRecord>;
+  private readonly _executionRecords: Map<Operation, OperationExecutionRecord>;
   private readonly _quietMode: boolean;
   private readonly _parallelism: number;
   private readonly _showTimeline: boolean;
@@ -84,6 +94,13 @@ export class OperationExecutionManager {
 
   private readonly _terminal: CollatedTerminal;
 
+  private readonly _beforeExecuteOperations?: (
+    records: ReadonlyMap<Operation, IOperationExecutionResult>
+  ) => Promise<void>;
+  private readonly _beforeExecuteOperation?: (record: IOperationExecutionResult) => Promise<void>;
+  private readonly _afterExecuteOperation?: (record: IOperationExecutionResult) => Promise<void>;
+  private readonly _afterExecuteOperations?: (result: IExecutionResult) => Promise<void>;
+
   // Variables for current status
   private _hasAnyFailures: boolean;
   private _hasAnyNonAllowedWarnings: boolean;
@@ -97,6 +114,10 @@ export class OperationExecutionManager {
     this._hasAnyFailures = false;
     this._hasAnyNonAllowedWarnings = false;
     this._changedProjectsOnly = changedProjectsOnly;
+    this._beforeExecuteOperations = options.beforeExecuteOperations;
+    this._beforeExecuteOperation = options.beforeExecuteOperation;
+    this._afterExecuteOperation = options.afterExecuteOperation;
+    this._afterExecuteOperations = options.afterExecuteOperations;
 
     // TERMINAL PIPELINE:
     //
@@ -117,6 +138,7 @@ export class OperationExecutionManager {
     // Convert the developer graph to the mutable execution graph
     const executionRecordContext: IOperationExecutionRecordContext = {
       streamCollator: this._streamCollator,
+      onOperationStatusChanged: options.onOperationStatusChanged,
       debugMode,
       quietMode
     };
@@ -149,7 +171,7 @@ export class OperationExecutionManager {
         dependencyRecord.consumers.add(consumer);
       }
     }
-    this._executionRecords = new Set(executionRecords.values());
+    this._executionRecords = executionRecords;
 
     const numberOfCores: number = os.cpus().length;
 
@@ -215,6 +237,14 @@ export class OperationExecutionManager {
     }
   };
 
+  /**
+   * The state of each operation, which describes its result once {@link OperationExecutionManager.executeAsync}
+   * has finished.
+   */
+  public get operationResults(): ReadonlyMap<Operation, IOperationExecutionResult> {
+    return this._executionRecords;
+  }
+
   /**
    * Executes all operations which have been registered, returning a promise which is resolved when all the
    * operations are completed successfully, or rejects when any operation fails.
@@ -227,7 +257,7 @@ export class OperationExecutionManager {
       const plural: string = totalOperations === 1 ? '' : 's';
       this._terminal.writeStdoutLine(`Selected ${totalOperations} operation${plural}:`);
       const nonSilentOperations: string[] = [];
-      for (const record of this._executionRecords) {
+      for (const record of this._executionRecords.values()) {
         if (!record.runner.silent) {
           nonSilentOperations.push(record.name);
         }
@@ -248,7 +278,10 @@ export class OperationExecutionManager {
     ): number => {
       return a.criticalPathLength! - b.criticalPathLength!;
     };
-    const executionQueue: AsyncOperationQueue = new AsyncOperationQueue(this._executionRecords, prioritySort);
+    const executionQueue: AsyncOperationQueue = new AsyncOperationQueue(
+      this._executionRecords.values(),
+      prioritySort
+    );
 
     // This function is a callback because it may write to the collatedWriter before
     // operation.executeAsync returns (and cleans up the writer)
@@ -258,10 +291,14 @@ export class OperationExecutionManager {
       this._onOperationComplete(record);
     };
 
+    await this._beforeExecuteOperations?.(this._executionRecords);
+
     await Async.forEachAsync(
       executionQueue,
       async (operation: OperationExecutionRecord) => {
+        await this._beforeExecuteOperation?.(operation);
         await operation.executeAsync(onOperationComplete);
+        await this._afterExecuteOperation?.(operation);
       },
       {
         concurrency: maxParallelism
@@ -274,6 +311,17 @@ export class OperationExecutionManager {
       this._printTimeline();
     }
 
+    const status: OperationStatus = this._hasAnyFailures
+      ? OperationStatus.Failure
+      : this._hasAnyNonAllowedWarnings
+      ? OperationStatus.SuccessWithWarning
+      : OperationStatus.Success;
+
+    await this._afterExecuteOperations?.({
+      operationResults: this._executionRecords,
+      status
+    });
+
     if (this._hasAnyFailures) {
       this._terminal.writeStderrLine(colors.red('Operations failed.') + '\n');
       throw new AlreadyReportedError();
@@ -367,6 +415,20 @@ export class OperationExecutionManager {
         blockSkip ||= !this._changedProjectsOnly;
         this._hasAnyNonAllowedWarnings = this._hasAnyNonAllowedWarnings || !runner.warningsAreAllowed;
         break;
+      /**
+       * This operation failed, but succeeded when it was retried.
+       */
+      case OperationStatus.Flaky:
+        if (!silent) {
+          record.collatedWriter.terminal.writeStderrLine(
+            colors.yellow(
+              `"${name}" completed successfully after retrying in ${record.stopwatch.toString()}.`
+            )
+          );
+        }
+        // Legacy incremental build, if asked, prevent skip in dependents if the operation executed.
+        blockSkip ||= !this._changedProjectsOnly;
+        break;
     }
 
     // Apply status changes to direct dependents
@@ -389,7 +451,7 @@ export class OperationExecutionManager {
    */
   private _printOperationStatus(): void {
     const operationsByStatus: Map<OperationStatus, OperationExecutionRecord[]> = new Map();
-    for (const operation of this._executionRecords) {
+    for (const operation of this._executionRecords.values()) {
       const { status } = operation;
       switch (status) {
         // These are the sections that we will report below
@@ -397,6 +459,7 @@ export class OperationExecutionManager {
         case OperationStatus.FromCache:
         case OperationStatus.Success:
         case OperationStatus.SuccessWithWarning:
+        case OperationStatus.Flaky:
         case OperationStatus.Blocked:
         case OperationStatus.Failure:
           break;
@@ -445,6 +508,8 @@ export class OperationExecutionManager {
       'These operations completed successfully:'
     );
 
+    this._writeDetailedSummary(OperationStatus.Flaky, operationsByStatus, colors.yellow);
+
     this._writeDetailedSummary(
       OperationStatus.SuccessWithWarning,
       operationsByStatus,
@@ -608,7 +673,7 @@ export class OperationExecutionManager {
     let longestDurationLength: number = 0;
     let allEnd: number = 0;
 
-    for (const operation of this._executionRecords) {
+    for (const operation of this._executionRecords.values()) {
       if (operation.stopwatch.startTime && operation.stopwatch.endTime) {
         operations.push(operation);
 
@@ -701,7 +766,7 @@ export class OperationExecutionManager {
 
     const usedCpus: number = busyCpus.filter((cpu) => cpu !== -1).length;
 
-    const legend: string[] = ['LEGEND:', '  [#] Success  [!] Failed/warnings  [%] Skipped/cached'];
+    const legend: string[] = ['LEGEND:', '  [#] Success  [~] Flaky  [!] Failed/warnings  [%] Skipped/cached'];
 
     const summary: string[] = [
       'Total Work: ' + workDuration.toFixed(1) + 's',
@@ -729,6 +794,22 @@ export class OperationExecutionManager {
       }
     }
 
+    //
+    // Include the chain of dependent operations that determined the wall clock time
+    //
+
+    const { criticalPath } = new OperationTimeline(this._executionRecords);
+    if (criticalPath.operations.length > 0) {
+      this._terminal.writeStdoutLine(`CRITICAL PATH: ${criticalPath.duration.toFixed(1)}s`);
+      for (const operation of criticalPath.operations) {
+        this._terminal.writeStdoutLine(
+          '  ' +
+            colors.cyan(operation.operation.name!.padEnd(longestNameLength)) +
+            (operation.stopwatch.duration.toFixed(1) + 's').padStart(longestDurationLength + 1)
+        );
+      }
+    }
+
     this._terminal.writeStdoutLine('');
   }
 }
@@ -10,9 +10,11 @@ import { OperationError } from './OperationError';
 import { IOperationRunner, IOperationRunnerContext } from './IOperationRunner';
 import { Operation } from './Operation';
 import { Stopwatch } from '../../utilities/Stopwatch';
+import type { IOperationExecutionResult } from './IOperationExecutionResult';
 
 export interface IOperationExecutionRecordContext {
   streamCollator: StreamCollator;
+  onOperationStatusChanged?: (record: OperationExecutionRecord) => void;
 
   debugMode: boolean;
   quietMode: boolean;
@@ -21,14 +23,11 @@ export interface IOperationExecutionRecordContext {
 /**
  * Internal class representing everything about executing an operation
  */
-export class OperationExecutionRecord implements IOperationRunnerContext {
+export class OperationExecutionRecord implements IOperationRunnerContext, IOperationExecutionResult {
   /**
-   * The current execution status of an operation. Operations start in the 'ready' state,
-   * but can be 'blocked' if an upstream operation failed. It is 'executing' when
-   * the operation is executing. Once execution is complete, it is either 'success' or
-   * 'failure'.
+   * The operation that this record executes.
    */
-  public status: OperationStatus = OperationStatus.Ready;
+  public readonly operation: Operation;
 
   /**
    * The error which occurred while executing this operation, this is stored in case we need
@@ -85,6 +84,7 @@ export class OperationExecutionRecord implements IOperationRunnerContext {
   private readonly _context: IOperationExecutionRecordContext;
 
   private _collatedWriter: CollatedWriter | undefined = undefined;
+  private _status: OperationStatus = OperationStatus.Ready;
 
   public constructor(operation: Operation, context: IOperationExecutionRecordContext) {
     const { runner } = operation;
@@ -95,11 +95,30 @@ export class OperationExecutionRecord implements IOperationRunnerContext {
       );
     }
 
+    this.operation = operation;
     this.runner = runner;
     this.weight = operation.weight;
     this._context = context;
   }
 
+  /**
+   * The current execution status of an operation. Operations start in the 'ready' state,
+   * but can be 'blocked' if an upstream operation failed. It is 'executing' when
+   * the operation is executing. Once execution is complete, it is either 'success' or
+   * 'failure'.
+   */
+  public get status(): OperationStatus {
+    return this._status;
+  }
+
+  public set status(newStatus: OperationStatus) {
+    if (newStatus === this._status) {
+      return;
+    }
+    this._status = newStatus;
+    this._context.onOperationStatusChanged?.(this);
+  }
+
   public get name(): string {
     return this.runner.name;
   }
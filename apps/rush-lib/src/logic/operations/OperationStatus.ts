@@ -22,6 +22,10 @@ export enum OperationStatus {
    * The Operation completed successfully, but wrote to standard output
    */
   SuccessWithWarning = 'SUCCESS WITH WARNINGS',
+  /**
+   * The Operation failed, but completed successfully when it was retried
+   */
+  Flaky = 'FLAKY',
   /**
    * The Operation was skipped via the legacy incremental build logic
    */
@@ -0,0 +1,295 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { JsonFile } from '@rushstack/node-core-library';
+
+import type { Operation } from './Operation';
+import type { IOperationExecutionResult } from './IOperationExecutionResult';
+import { OperationStatus } from './OperationStatus';
+import { Utilities } from '../../utilities/Utilities';
+
+/**
+ * The timing of a single operation in the timeline JSON file.
+ */
+export interface IOperationTimelineEntryJson {
+  name: string;
+  projectName: string | undefined;
+  phaseName: string | undefined;
+  status: OperationStatus;
+  /**
+   * True if the outputs of the operation were restored from the build cache.
+   */
+  isCacheHit: boolean;
+  /**
+   * The time that the operation started, in milliseconds after the first operation started.
+   * Undefined if the operation did not run, for example because a dependency failed.
+   */
+  startMs: number | undefined;
+  endMs: number | undefined;
+  durationMs: number;
+  isOnCriticalPath: boolean;
+  /**
+   * The names of the operations that this operation directly depends on.
+   */
+  dependencies: string[];
+}
+
+export interface IOperationTimelineJson {
+  /**
+   * The time that the first operation started, as an ISO 8601 string.
+   */
+  startTime: string | undefined;
+  wallClockMs: number;
+  /**
+   * The sum of the durations of all operations.
+   */
+  totalWorkMs: number;
+  criticalPath: {
+    durationMs: number;
+    operations: string[];
+  };
+  operations: IOperationTimelineEntryJson[];
+}
+
+/**
+ * An event in the Chrome trace event format, which can be viewed with chrome://tracing or https://ui.perfetto.dev
+ */
+interface IChromeTraceEvent {
+  name: string;
+  cat: string;
+  ph: 'X';
+  /**
+   * The start time, in microseconds
+   */
+  ts: number;
+  /**
+   * The duration, in microseconds
+   */
+  dur: number;
+  pid: number;
+  tid: number;
+  args: Record<string, string | boolean>;
+}
+
+export interface ICriticalPath {
+  /**
+   * The operations on the critical path, starting with the operation that has no dependencies.
+   */
+  operations: IOperationExecutionResult[];
+  /**
+   * The sum of the durations of the operations on the critical path, in seconds.
+   */
+  duration: number;
+}
+
+/**
+ * Analyzes the timing of the operations of a phased command. The critical path is the chain of dependent
+ * operations with the longest total duration, which determines the minimum wall clock time regardless
+ * of parallelism.
+ */
+export class OperationTimeline {
+  /**
+   * The operations that ran, sorted by start time. Silent operations are not included.
+   */
+  public readonly executedOperations: IOperationExecutionResult[];
+  public readonly criticalPath: ICriticalPath;
+
+  private readonly _operationResults: ReadonlyMap<Operation, IOperationExecutionResult>;
+  private readonly _startTime: number | undefined;
+  private readonly _endTime: number | undefined;
+  private readonly _startDate: Date | undefined;
+
+  public constructor(operationResults: ReadonlyMap<Operation, IOperationExecutionResult>) {
+    this._operationResults = operationResults;
+    this.executedOperations = [];
+
+    let startTime: number | undefined;
+    let endTime: number | undefined;
+    for (const result of operationResults.values()) {
+      if (this._isReported(result) && result.stopwatch.startTime !== undefined && result.stopwatch.endTime) {
+        this.executedOperations.push(result);
+        startTime = Math.min(startTime ?? Infinity, result.stopwatch.startTime);
+        endTime = Math.max(endTime ?? 0, result.stopwatch.endTime);
+      }
+    }
+
+    this.executedOperations.sort(
+      (a: IOperationExecutionResult, b: IOperationExecutionResult) =>
+        a.stopwatch.startTime! - b.stopwatch.startTime!
+    );
+    this._startTime = startTime;
+    this._endTime = endTime;
+    // Stopwatch times are not based on the epoch, so convert using the current time
+    this._startDate =
+      startTime !== undefined ? new Date(Date.now() - (Utilities.getTimeInMs() - startTime)) : undefined;
+    this.criticalPath = this._getCriticalPath();
+  }
+
+  /**
+   * The time from the start of the first operation to the end of the last operation, in seconds.
+   */
+  public get wallClockDuration(): number {
+    return this._startTime !== undefined ? (this._endTime! - this._startTime) / 1000 : 0;
+  }
+
+  public toJson(): IOperationTimelineJson {
+    const criticalPathOperations: Set<IOperationExecutionResult> = new Set(this.criticalPath.operations);
+    const operations: IOperationTimelineEntryJson[] = [];
+    let totalWorkMs: number = 0;
+
+    // Operations that did not run are listed after the operations that ran
+    const reportedOperations: Set<IOperationExecutionResult> = new Set(this.executedOperations);
+    for (const result of this._operationResults.values()) {
+      if (this._isReported(result)) {
+        reportedOperations.add(result);
+      }
+    }
+
+    for (const result of reportedOperations) {
+      const { operation, status, stopwatch } = result;
+      const durationMs: number = Math.round(stopwatch.duration * 1000);
+      totalWorkMs += durationMs;
+
+      const dependencies: string[] = [];
+      for (const dependency of operation.dependencies) {
+        const dependencyResult: IOperationExecutionResult | undefined =
+          this._operationResults.get(dependency);
+        if (dependencyResult && this._isReported(dependencyResult)) {
+          dependencies.push(dependency.name!);
+        }
+      }
+
+      operations.push({
+        name: operation.name!,
+        projectName: operation.associatedProject?.packageName,
+        phaseName: operation.associatedPhase?.name,
+        status,
+        isCacheHit: status === OperationStatus.FromCache,
+        startMs: this._getRelativeTimeMs(stopwatch.startTime),
+        endMs: this._getRelativeTimeMs(stopwatch.endTime),
+        durationMs,
+        isOnCriticalPath: criticalPathOperations.has(result),
+        dependencies: dependencies.sort()
+      });
+    }
+
+    return {
+      startTime: this._startDate?.toISOString(),
+      wallClockMs: Math.round(this.wallClockDuration * 1000),
+      totalWorkMs,
+      criticalPath: {
+        durationMs: Math.round(this.criticalPath.duration * 1000),
+        operations: this.criticalPath.operations.map(
+          (result: IOperationExecutionResult) => result.operation.name!
+        )
+      },
+      operations
+    };
+  }
+
+  /**
+   * Converts the timeline to the Chrome trace event format. Operations that ran at the same time are
+   * assigned to different threads, so that each thread represents one unit of parallelism.
+   */
+  public toChromeTrace(): { traceEvents: IChromeTraceEvent[] } {
+    const traceEvents: IChromeTraceEvent[] = [];
+    const threadEndTimes: number[] = [];
+
+    for (const result of this.executedOperations) {
+      const { operation, status, stopwatch } = result;
+      const startTime: number = stopwatch.startTime!;
+      let tid: number = threadEndTimes.findIndex((threadEndTime: number) => threadEndTime <= startTime);
+      if (tid < 0) {
+        tid = threadEndTimes.length;
+      }
+
+      threadEndTimes[tid] = stopwatch.endTime!;
+
+      traceEvents.push({
+        name: operation.name!,
+        cat: operation.associatedPhase?.name || 'operation',
+        ph: 'X',
+        ts: Math.round((startTime - this._startTime!) * 1000),
+        dur: Math.round(stopwatch.duration * 1000000),
+        pid: 1,
+        tid,
+        args: {
+          status,
+          isCacheHit: status === OperationStatus.FromCache
+        }
+      });
+    }
+
+    return { traceEvents };
+  }
+
+  public async saveJsonAsync(filePath: string): Promise<void> {
+    await JsonFile.saveAsync(this.toJson(), filePath, { ensureFolderExists: true });
+  }
+
+  public async saveChromeTraceAsync(filePath: string): Promise<void> {
+    await JsonFile.saveAsync(this.toChromeTrace(), filePath, { ensureFolderExists: true });
+  }
+
+  private _getCriticalPath(): ICriticalPath {
+    // The longest duration of a chain of dependencies that ends with each operation, including the operation
+    const pathDurations: Map<Operation, number> = new Map();
+    const longestDependencies: Map<Operation, Operation | undefined> = new Map();
+
+    const getPathDuration = (operation: Operation): number => {
+      let pathDuration: number | undefined = pathDurations.get(operation);
+      if (pathDuration === undefined) {
+        let longestDependency: Operation | undefined;
+        let longestDependencyDuration: number = 0;
+        for (const dependency of operation.dependencies) {
+          const dependencyDuration: number = getPathDuration(dependency);
+          if (dependencyDuration > longestDependencyDuration) {
+            longestDependency = dependency;
+            longestDependencyDuration = dependencyDuration;
+          }
+        }
+
+        const result: IOperationExecutionResult | undefined = this._operationResults.get(operation);
+        pathDuration = longestDependencyDuration + (result ? result.stopwatch.duration : 0);
+        pathDurations.set(operation, pathDuration);
+        longestDependencies.set(operation, longestDependency);
+      }
+
+      return pathDuration;
+    };
+
+    let lastOperation: Operation | undefined;
+    let duration: number = 0;
+    for (const { operation } of this.executedOperations) {
+      const pathDuration: number = getPathDuration(operation);
+      if (pathDuration > duration) {
+        lastOperation = operation;
+        duration = pathDuration;
+      }
+    }
+
+    const operations: IOperationExecutionResult[] = [];
+    for (
+      let operation: Operation | undefined = lastOperation;
+      operation;
+      operation = longestDependencies.get(operation)
+    ) {
+      const result: IOperationExecutionResult | undefined = this._operationResults.get(operation);
+      if (result && this._isReported(result)) {
+        operations.unshift(result);
+      }
+    }
+
+    return { operations, duration };
+  }
+
+  private _getRelativeTimeMs(time: number | undefined): number | undefined {
+    return time !== undefined && this._startTime !== undefined
+      ? Math.round(time - this._startTime)
+      : undefined;
+  }
+
+  private _isReported(result: IOperationExecutionResult): boolean {
+    return !result.operation.runner?.silent;
+  }
+}
@@ -0,0 +1,59 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as path from 'path';
+import { ITerminal, ITerminalProvider, Terminal } from '@rushstack/node-core-library';
+
+import { OperationTimeline } from './OperationTimeline';
+import { RushConstants } from '../RushConstants';
+import type { IExecutionResult } from './IOperationExecutionResult';
+import type {
+  ICreateOperationsContext,
+  IPhasedCommandPlugin,
+  PhasedCommandHooks
+} from '../../pluginFramework/PhasedCommandHooks';
+
+const PLUGIN_NAME: 'OperationTimelinePlugin' = 'OperationTimelinePlugin';
+
+export interface IOperationTimelinePluginOptions {
+  terminalProvider: ITerminalProvider;
+  /**
+   * If specified, the timeline is also written to this path in the Chrome trace event format.
+   */
+  chromeTraceFilePath: string | undefined;
+}
+
+/**
+ * Core phased command plugin that writes the timing of each operation to a JSON file in the common temp folder,
+ * for commands that are invoked with "--timeline".
+ */
+export class OperationTimelinePlugin implements IPhasedCommandPlugin {
+  private readonly _terminal: ITerminal;
+  private readonly _chromeTraceFilePath: string | undefined;
+
+  public constructor(options: IOperationTimelinePluginOptions) {
+    this._terminal = new Terminal(options.terminalProvider);
+    this._chromeTraceFilePath = options.chromeTraceFilePath;
+  }
+
+  public apply(hooks: PhasedCommandHooks): void {
+    hooks.afterExecuteOperations.tapPromise(
+      PLUGIN_NAME,
+      async (result: IExecutionResult, context: ICreateOperationsContext): Promise<void> => {
+        const timeline: OperationTimeline = new OperationTimeline(result.operationResults);
+
+        const timelineFilePath: string = path.join(
+          context.rushConfiguration.commonTempFolder,
+          RushConstants.operationTimelineFilename
+        );
+        await timeline.saveJsonAsync(timelineFilePath);
+        this._terminal.writeLine(`Wrote the operation timeline to ${timelineFilePath}`);
+
+        if (this._chromeTraceFilePath) {
+          await timeline.saveChromeTraceAsync(this._chromeTraceFilePath);
+          this._terminal.writeLine(`Wrote the Chrome trace to ${this._chromeTraceFilePath}`);
+        }
+      }
+    );
+  }
+}
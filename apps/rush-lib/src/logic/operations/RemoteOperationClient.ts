@@ -0,0 +1,109 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as http from 'http';
+import { URL } from 'url';
+
+import {
+  IRemoteOperationLogMessage,
+  IRemoteOperationRequest,
+  IRemoteOperationResultMessage,
+  RemoteOperationMessage,
+  RemoteOperationMessageParser,
+  REMOTE_OPERATION_PATH
+} from './RemoteOperationProtocol';
+
+export interface IRemoteOperationExecutionResult extends IRemoteOperationResultMessage {
+  /**
+   * The URL of the worker that handled the request.
+   */
+  workerUrl: string;
+}
+
+/**
+ * Sends operations to remote workers started with "rush remote-worker". Requests are distributed
+ * across the workers in turn; each worker queues requests that exceed its own parallelism.
+ */
+export class RemoteOperationClient {
+  private readonly _workerUrls: ReadonlyArray<string>;
+  private _nextWorkerIndex: number = 0;
+
+  public constructor(workerUrls: ReadonlyArray<string>) {
+    if (workerUrls.length === 0) {
+      throw new Error('At least one remote worker URL must be specified.');
+    }
+
+    this._workerUrls = workerUrls;
+  }
+
+  /**
+   * Executes an operation on the next worker. Log messages are passed to `onLog` as they are received.
+   * Throws if the worker cannot be reached or the connection is lost.
+   */
+  public async executeAsync(
+    request: IRemoteOperationRequest,
+    onLog: (message: IRemoteOperationLogMessage) => void
+  ): Promise<IRemoteOperationExecutionResult> {
+    const workerUrl: string = this._workerUrls[this._nextWorkerIndex];
+    this._nextWorkerIndex = (this._nextWorkerIndex + 1) % this._workerUrls.length;
+
+    const body: string = JSON.stringify(request);
+    return await new Promise(
+      (resolve: (result: IRemoteOperationExecutionResult) => void, reject: (error: Error) => void): void => {
+        const clientRequest: http.ClientRequest = http.request(
+          new URL(REMOTE_OPERATION_PATH, workerUrl),
+          {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'Content-Length': Buffer.byteLength(body)
+            }
+          },
+          (response: http.IncomingMessage) => {
+            if (response.statusCode !== 200) {
+              response.resume();
+              reject(
+                new Error(`The remote worker ${workerUrl} responded with status ${response.statusCode}.`)
+              );
+              return;
+            }
+
+            const parser: RemoteOperationMessageParser = new RemoteOperationMessageParser();
+            let result: IRemoteOperationResultMessage | undefined;
+            response.setEncoding('utf8');
+            response.on('data', (chunk: string) => {
+              let messages: RemoteOperationMessage[];
+              try {
+                messages = parser.parseChunk(chunk);
+              } catch (e) {
+                response.destroy(e as Error);
+                return;
+              }
+
+              for (const message of messages) {
+                if (message.kind === 'log') {
+                  onLog(message);
+                } else {
+                  result = message;
+                }
+              }
+            });
+            response.on('error', reject);
+            response.on('end', () => {
+              if (result) {
+                resolve({ ...result, workerUrl });
+              } else {
+                reject(new Error(`The connection to the remote worker ${workerUrl} ended without a result.`));
+              }
+            });
+          }
+        );
+
+        clientRequest.on('error', (error: Error) => {
+          reject(new Error(`Unable to reach the remote worker ${workerUrl}: ${error.message}`));
+        });
+        clientRequest.end(body);
+      }
+    );
+  }
+}
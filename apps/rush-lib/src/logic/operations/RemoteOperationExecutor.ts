@@ -0,0 +1,334 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { Terminal } from '@rushstack/node-core-library';
+import { CallbackWritable, ITerminalChunk, StdioSummarizer, TerminalChunkKind } from '@rushstack/terminal';
+import { CollatedWriter, StreamCollator } from '@rushstack/stream-collator';
+
+import type { RushConfiguration } from '../../api/RushConfiguration';
+import type { RushConfigurationProject } from '../../api/RushConfigurationProject';
+import type { BuildCacheConfiguration } from '../../api/BuildCacheConfiguration';
+import type { IParameterJson, IPhase } from '../../api/CommandLineConfiguration';
+import type { IChoiceParameterAlternativeJson } from '../../api/CommandLineJson';
+import type { ProjectBuildCache } from '../buildCache/ProjectBuildCache';
+import { ProjectChangeAnalyzer } from '../ProjectChangeAnalyzer';
+import { CollatedTerminalProvider } from '../../utilities/CollatedTerminalProvider';
+import { ShellOperationRunner } from './ShellOperationRunner';
+import { getCustomParameterArgs, getScriptToRun } from './ShellOperationRunnerPlugin';
+import { OperationStatus } from './OperationStatus';
+import type { IRemoteOperationExecutor } from './RemoteOperationWorker';
+import type {
+  IRemoteOperationLogMessage,
+  IRemoteOperationParameter,
+  IRemoteOperationReference,
+  IRemoteOperationRequest,
+  IRemoteOperationResultMessage,
+  RemoteOperationResultStatus
+} from './RemoteOperationProtocol';
+
+// Custom parameter values are appended to the command without quoting. Only values that the shell passes
+// to the command unchanged are accepted, so that a value cannot change what the worker runs.
+const SAFE_POSIX_ARGUMENT_REGEXP: RegExp = /^[\w\-.,:/=@+%^]+$/;
+const SAFE_WINDOWS_ARGUMENT_REGEXP: RegExp = /^[\w\-.:/\\@+~]+$/;
+
+const REMOTE_STATUS_BY_OPERATION_STATUS: ReadonlyMap<OperationStatus, RemoteOperationResultStatus> = new Map<
+  OperationStatus,
+  RemoteOperationResultStatus
+>([
+  [OperationStatus.Success, 'success'],
+  [OperationStatus.Flaky, 'flaky'],
+  [OperationStatus.SuccessWithWarning, 'warning']
+]);
+
+export interface IRemoteOperationExecutorOptions {
+  rushConfiguration: RushConfiguration;
+  buildCacheConfiguration: BuildCacheConfiguration;
+  phases: ReadonlyMap<string, IPhase>;
+  /**
+   * The custom parameters defined in command-line.json. Only parameters that are associated with the phase
+   * of an operation can be passed to its command.
+   */
+  parameters: ReadonlyArray<IParameterJson>;
+}
+
+/**
+ * Executes remote operations in this machine's checkout of the repo. The outputs of the operation's
+ * dependencies are restored from the build cache, and the outputs of the operation are written to it.
+ */
+export class RemoteOperationExecutor implements IRemoteOperationExecutor {
+  private readonly _rushConfiguration: RushConfiguration;
+  private readonly _buildCacheConfiguration: BuildCacheConfiguration;
+  private readonly _phases: ReadonlyMap<string, IPhase>;
+  private readonly _allPhases: IPhase[];
+  private readonly _parametersByPhaseName: Map<string, Map<string, IParameterJson>> = new Map();
+
+  /**
+   * The cache IDs of the outputs that are currently in the output folders of each operation, keyed by
+   * {@link RemoteOperationExecutor._getOperationKey}. Used to avoid restoring the same outputs repeatedly.
+   */
+  private readonly _currentCacheIdByOperationKey: Map<string, string> = new Map();
+  private readonly _restorePromisesByCacheId: Map<string, Promise<boolean>> = new Map();
+
+  public constructor(options: IRemoteOperationExecutorOptions) {
+    this._rushConfiguration = options.rushConfiguration;
+    this._buildCacheConfiguration = options.buildCacheConfiguration;
+    this._phases = options.phases;
+    this._allPhases = Array.from(options.phases.values());
+
+    for (const parameter of options.parameters) {
+      for (const phaseName of parameter.associatedPhases || []) {
+        let parametersByLongName: Map<string, IParameterJson> | undefined =
+          this._parametersByPhaseName.get(phaseName);
+        if (!parametersByLongName) {
+          parametersByLongName = new Map();
+          this._parametersByPhaseName.set(phaseName, parametersByLongName);
+        }
+
+        parametersByLongName.set(parameter.longName, parameter);
+      }
+    }
+  }
+
+  public async executeAsync(
+    request: IRemoteOperationRequest,
+    writeLog: (message: IRemoteOperationLogMessage) => void
+  ): Promise<IRemoteOperationResultMessage> {
+    const streamCollator: StreamCollator = new StreamCollator({
+      destination: new CallbackWritable({
+        onWriteChunk: (chunk: ITerminalChunk) => {
+          writeLog({
+            kind: 'log',
+            stream: chunk.kind === TerminalChunkKind.Stderr ? 'stderr' : 'stdout',
+            text: chunk.text
+          });
+        }
+      })
+    });
+    const collatedWriter: CollatedWriter = streamCollator.registerTask(this._getOperationKey(request));
+    const stdioSummarizer: StdioSummarizer = new StdioSummarizer();
+    const terminal: Terminal = new Terminal(new CollatedTerminalProvider(collatedWriter.terminal));
+
+    try {
+      // A new analyzer is used for each request, in case the checkout has changed
+      const projectChangeAnalyzer: ProjectChangeAnalyzer = new ProjectChangeAnalyzer(this._rushConfiguration);
+      const runner: ShellOperationRunner = this._createRunner(request, projectChangeAnalyzer);
+      const projectBuildCache: ProjectBuildCache | undefined = await runner.tryGetProjectBuildCacheAsync(
+        terminal
+      );
+      if (!projectBuildCache || projectBuildCache.cacheId !== request.cacheId) {
+        return {
+          kind: 'result',
+          status: 'rejected',
+          message:
+            `The worker calculated a different build cache ID "${projectBuildCache?.cacheId}". ` +
+            'Ensure that the worker has the same checkout as the client'
+        };
+      }
+
+      for (const dependency of request.dependencies) {
+        if (!(await this._tryRestoreDependencyAsync(dependency, projectChangeAnalyzer, terminal))) {
+          return {
+            kind: 'result',
+            status: 'rejected',
+            message: `Unable to restore the dependency ${this._getOperationKey(
+              dependency
+            )} from the build cache`
+          };
+        }
+      }
+
+      const operationKey: string = this._getOperationKey(request);
+      this._currentCacheIdByOperationKey.delete(operationKey);
+      let status: OperationStatus;
+      try {
+        status = await runner.executeAsync({
+          collatedWriter,
+          stdioSummarizer,
+          debugMode: false,
+          quietMode: false
+        });
+      } catch (error) {
+        return { kind: 'result', status: 'failure', message: (error as Error).message };
+      }
+
+      switch (status) {
+        case OperationStatus.Success:
+        case OperationStatus.Flaky:
+        case OperationStatus.SuccessWithWarning: {
+          // For example, outputs with warnings are only written if the phase allows warnings and the
+          // "buildCacheWithAllowWarningsInSuccessfulBuild" experiment is enabled
+          if (!runner.isCacheEntryWritten) {
+            return {
+              kind: 'result',
+              status: 'rejected',
+              message: `The outputs were not written to the build cache (status ${status})`
+            };
+          }
+
+          this._currentCacheIdByOperationKey.set(operationKey, request.cacheId);
+          return { kind: 'result', status: REMOTE_STATUS_BY_OPERATION_STATUS.get(status)! };
+        }
+
+        case OperationStatus.FromCache: {
+          this._currentCacheIdByOperationKey.set(operationKey, request.cacheId);
+          return { kind: 'result', status: 'success' };
+        }
+
+        default: {
+          return {
+            kind: 'result',
+            status: 'failure',
+            message: `The operation finished with status ${status}`
+          };
+        }
+      }
+    } finally {
+      collatedWriter.close();
+      stdioSummarizer.close();
+    }
+  }
+
+  private _createRunner(
+    reference: IRemoteOperationReference,
+    projectChangeAnalyzer: ProjectChangeAnalyzer
+  ): ShellOperationRunner {
+    const { projectName, phaseName, customParameters, commandToRun } = reference;
+    const project: RushConfigurationProject | undefined =
+      this._rushConfiguration.getProjectByName(projectName);
+    if (!project) {
+      throw new Error(`The project "${projectName}" does not exist in the worker's checkout`);
+    }
+
+    const phase: IPhase | undefined = this._phases.get(phaseName);
+    if (!phase) {
+      throw new Error(`The phase "${phaseName}" does not exist in the worker's checkout`);
+    }
+
+    // Only run commands from the worker's own package.json files, with custom parameters that are
+    // defined for the phase in the worker's own command-line.json
+    const args: string[] = getCustomParameterArgs(
+      this._validateCustomParameters(reference, customParameters)
+    );
+    const script: string | undefined = getScriptToRun(project, phaseName, args);
+    if (!script || script !== commandToRun) {
+      throw new Error(
+        `The command for ${this._getOperationKey(reference)} does not match the worker's package.json`
+      );
+    }
+
+    return new ShellOperationRunner({
+      buildCacheConfiguration: this._buildCacheConfiguration,
+      commandToRun,
+      displayName: this._getOperationKey(reference),
+      isIncrementalBuildAllowed: true,
+      phase,
+      projectChangeAnalyzer,
+      rushConfiguration: this._rushConfiguration,
+      rushProject: project,
+      selectedPhases: this._allPhases
+    });
+  }
+
+  private _validateCustomParameters(
+    reference: IRemoteOperationReference,
+    customParameters: ReadonlyArray<IRemoteOperationParameter> | undefined
+  ): ReadonlyArray<IRemoteOperationParameter> {
+    if (!Array.isArray(customParameters)) {
+      throw new Error(
+        `The request for ${this._getOperationKey(reference)} does not specify custom parameters`
+      );
+    }
+
+    const parametersByLongName: Map<string, IParameterJson> | undefined = this._parametersByPhaseName.get(
+      reference.phaseName
+    );
+    for (const { longName, value } of customParameters) {
+      const parameter: IParameterJson | undefined = parametersByLongName?.get(longName);
+      if (!parameter) {
+        throw new Error(
+          `The parameter "${longName}" is not defined for the phase "${reference.phaseName}" ` +
+            "in the worker's command-line.json"
+        );
+      }
+
+      if (parameter.parameterKind === 'flag' ? value !== undefined : typeof value !== 'string') {
+        throw new Error(`The parameter "${longName}" has an invalid value`);
+      }
+
+      const safeArgumentRegExp: RegExp =
+        process.platform === 'win32' ? SAFE_WINDOWS_ARGUMENT_REGEXP : SAFE_POSIX_ARGUMENT_REGEXP;
+      if (value !== undefined && !safeArgumentRegExp.test(value)) {
+        throw new Error(
+          `The value ${JSON.stringify(value)} for "${longName}" contains characters that are ` +
+            'not allowed on a remote worker'
+        );
+      }
+
+      switch (parameter.parameterKind) {
+        case 'choice':
+        case 'choiceList': {
+          if (!parameter.alternatives.some(({ name }: IChoiceParameterAlternativeJson) => name === value)) {
+            throw new Error(`The value "${value}" is not one of the alternatives for "${longName}"`);
+          }
+
+          break;
+        }
+
+        case 'integer':
+        case 'integerList': {
+          if (!/^-?\d+$/.test(value!)) {
+            throw new Error(`The value "${value}" for "${longName}" is not an integer`);
+          }
+
+          break;
+        }
+      }
+    }
+
+    return customParameters;
+  }
+
+  private async _tryRestoreDependencyAsync(
+    dependency: IRemoteOperationReference,
+    projectChangeAnalyzer: ProjectChangeAnalyzer,
+    terminal: Terminal
+  ): Promise<boolean> {
+    const runner: ShellOperationRunner = this._createRunner(dependency, projectChangeAnalyzer);
+    const projectBuildCache: ProjectBuildCache | undefined = await runner.tryGetProjectBuildCacheAsync(
+      terminal
+    );
+    const cacheId: string | undefined = projectBuildCache?.cacheId;
+    if (!projectBuildCache || !cacheId) {
+      return false;
+    }
+
+    const operationKey: string = this._getOperationKey(dependency);
+    if (this._currentCacheIdByOperationKey.get(operationKey) === cacheId) {
+      return true;
+    }
+
+    // Requests that are executed at the same time often share dependencies
+    let restorePromise: Promise<boolean> | undefined = this._restorePromisesByCacheId.get(cacheId);
+    if (!restorePromise) {
+      restorePromise = (async () => {
+        try {
+          const restored: boolean = await projectBuildCache.tryRestoreFromCacheAsync(terminal);
+          if (restored) {
+            this._currentCacheIdByOperationKey.set(operationKey, cacheId);
+          }
+
+          return restored;
+        } finally {
+          this._restorePromisesByCacheId.delete(cacheId);
+        }
+      })();
+      this._restorePromisesByCacheId.set(cacheId, restorePromise);
+    }
+
+    return await restorePromise;
+  }
+
+  private _getOperationKey(reference: IRemoteOperationReference): string {
+    return `${reference.projectName} (${reference.phaseName})`;
+  }
+}
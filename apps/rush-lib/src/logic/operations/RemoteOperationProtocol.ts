@@ -0,0 +1,113 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+/**
+ * The protocol between `RemoteOperationClient` and `RemoteOperationWorker`.
+ *
+ * The client sends an HTTP POST request to {@link REMOTE_OPERATION_PATH} with an
+ * {@link IRemoteOperationRequest} JSON body. The worker responds with a stream of
+ * {@link RemoteOperationMessage} objects, serialized as one JSON object per line. The last message
+ * is always a result message. Outputs are not sent in the response; the worker writes them to the
+ * build cache, and the client restores them from there.
+ */
+
+export const REMOTE_OPERATION_PROTOCOL_VERSION: number = 3;
+
+export const REMOTE_OPERATION_PATH: string = '/rush-remote-operations/execute';
+
+/**
+ * The value of a custom parameter from command-line.json that is passed to the command of an operation.
+ */
+export interface IRemoteOperationParameter {
+  longName: string;
+  /**
+   * The value of the parameter, or undefined for a flag parameter.
+   */
+  value?: string;
+}
+
+/**
+ * Identifies an operation by the project and phase names, which are the same on every machine.
+ */
+export interface IRemoteOperationReference {
+  projectName: string;
+  phaseName: string;
+  /**
+   * The custom parameters that are passed to the command, in the order that they are appended to it.
+   * The worker validates them against its own command-line.json.
+   */
+  customParameters: IRemoteOperationParameter[];
+  /**
+   * The command for the operation, including any custom parameters. It is part of the build cache ID.
+   * The worker only runs the command if it is exactly the command that the worker builds from its own
+   * package.json and the custom parameters.
+   */
+  commandToRun: string;
+}
+
+export interface IRemoteOperationRequest extends IRemoteOperationReference {
+  protocolVersion: number;
+  /**
+   * The build cache ID that the client calculated for the operation. It is derived from the project state
+   * hash, so the worker only runs the command if it calculates the same ID from its own checkout.
+   */
+  cacheId: string;
+  /**
+   * The operations that this operation depends on, directly or indirectly, excluding operations
+   * without a command. The worker restores their outputs from the build cache before running the command.
+   */
+  dependencies: IRemoteOperationReference[];
+}
+
+export interface IRemoteOperationLogMessage {
+  kind: 'log';
+  stream: 'stdout' | 'stderr';
+  text: string;
+}
+
+/**
+ * The worker applies the retry policy of the phase, so the client does not retry the remote command.
+ *
+ * - `success`: the command succeeded and its outputs were written to the build cache
+ * - `flaky`: the command succeeded after being retried and its outputs were written to the build cache
+ * - `warning`: the command succeeded with warnings and its outputs were written to the build cache
+ * - `failure`: the command failed
+ * - `rejected`: the worker was unable to run the command, for example because its checkout is
+ *   different, or it did not write the outputs to the build cache, so the client should run it locally
+ */
+export type RemoteOperationResultStatus = 'success' | 'flaky' | 'warning' | 'failure' | 'rejected';
+
+export interface IRemoteOperationResultMessage {
+  kind: 'result';
+  status: RemoteOperationResultStatus;
+  message?: string;
+}
+
+export type RemoteOperationMessage = IRemoteOperationLogMessage | IRemoteOperationResultMessage;
+
+export function serializeRemoteOperationMessage(message: RemoteOperationMessage): string {
+  return `${JSON.stringify(message)}\n`;
+}
+
+/**
+ * Splits a stream of serialized messages into messages. Chunks may end in the middle of a message.
+ */
+export class RemoteOperationMessageParser {
+  private _buffer: string = '';
+
+  public parseChunk(chunk: string): RemoteOperationMessage[] {
+    const messages: RemoteOperationMessage[] = [];
+    this._buffer += chunk;
+
+    let newlineIndex: number;
+    while ((newlineIndex = this._buffer.indexOf('\n')) >= 0) {
+      const line: string = this._buffer.slice(0, newlineIndex);
+      this._buffer = this._buffer.slice(newlineIndex + 1);
+      if (line.length > 0) {
+        messages.push(JSON.parse(line));
+      }
+    }
+
+    return messages;
+  }
+}
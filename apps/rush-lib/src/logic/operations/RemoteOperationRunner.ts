@@ -0,0 +1,151 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { ITerminal } from '@rushstack/node-core-library';
+import { TerminalChunkKind } from '@rushstack/terminal';
+
+import {
+  IExecuteCommandContext,
+  IExecuteCommandResult,
+  IOperationRunnerOptions,
+  ShellOperationRunner
+} from './ShellOperationRunner';
+import { OperationStatus } from './OperationStatus';
+import { OperationError } from './OperationError';
+import type { ProjectBuildCache } from '../buildCache/ProjectBuildCache';
+import type { IRemoteOperationExecutionResult, RemoteOperationClient } from './RemoteOperationClient';
+import {
+  IRemoteOperationLogMessage,
+  IRemoteOperationParameter,
+  IRemoteOperationReference,
+  REMOTE_OPERATION_PROTOCOL_VERSION
+} from './RemoteOperationProtocol';
+
+const OPERATION_STATUS_BY_REMOTE_STATUS: Record<'success' | 'flaky' | 'warning', OperationStatus> = {
+  success: OperationStatus.Success,
+  flaky: OperationStatus.Flaky,
+  warning: OperationStatus.SuccessWithWarning
+};
+
+export interface IRemoteOperationRunnerOptions extends IOperationRunnerOptions {
+  remoteOperationClient: RemoteOperationClient;
+  /**
+   * The custom parameters that were appended to the command.
+   */
+  customParameters: ReadonlyArray<IRemoteOperationParameter>;
+  /**
+   * The operations that this operation depends on, directly or indirectly.
+   */
+  dependencies: IRemoteOperationReference[];
+}
+
+/**
+ * A `ShellOperationRunner` that runs the shell command on a remote worker, and then restores the
+ * outputs from the build cache. If the operation cannot be run remotely, the command is run locally.
+ *
+ * The remote command is not retried here, because the worker applies the phase's retry policy itself.
+ */
+export class RemoteOperationRunner extends ShellOperationRunner {
+  private readonly _remoteOperationClient: RemoteOperationClient;
+  private readonly _customParameters: ReadonlyArray<IRemoteOperationParameter>;
+  private readonly _dependencies: IRemoteOperationReference[];
+
+  public constructor(options: IRemoteOperationRunnerOptions) {
+    super(options);
+
+    this._remoteOperationClient = options.remoteOperationClient;
+    this._customParameters = options.customParameters;
+    this._dependencies = options.dependencies;
+  }
+
+  protected async _executeCommandAsync(context: IExecuteCommandContext): Promise<IExecuteCommandResult> {
+    const { terminal, collatedTerminal, trackedFiles } = context;
+
+    if (!this.isCacheWriteAllowed) {
+      // The outputs of a dependency are not in the build cache, so the worker cannot restore them
+      terminal.writeVerboseLine(
+        'A dependency was not written to the build cache. Running the command locally.'
+      );
+      return await super._executeCommandAsync(context);
+    }
+
+    const projectBuildCache: ProjectBuildCache | undefined = await this._tryGetProjectBuildCacheAsync(
+      terminal,
+      trackedFiles
+    );
+    const cacheId: string | undefined = projectBuildCache?.cacheId;
+    if (!projectBuildCache || !cacheId) {
+      terminal.writeVerboseLine(
+        'This operation does not support the build cache. Running the command locally.'
+      );
+      return await super._executeCommandAsync(context);
+    }
+
+    terminal.writeLine('Invoking remotely: ' + this._commandToRun);
+
+    let result: IRemoteOperationExecutionResult;
+    try {
+      result = await this._remoteOperationClient.executeAsync(
+        {
+          protocolVersion: REMOTE_OPERATION_PROTOCOL_VERSION,
+          projectName: this._rushProject.packageName,
+          phaseName: this._phase.name,
+          customParameters: [...this._customParameters],
+          commandToRun: this._commandToRun,
+          cacheId,
+          dependencies: this._dependencies
+        },
+        (message: IRemoteOperationLogMessage) => {
+          collatedTerminal.writeChunk({
+            text: message.text,
+            kind: message.stream === 'stderr' ? TerminalChunkKind.Stderr : TerminalChunkKind.Stdout
+          });
+        }
+      );
+    } catch (error) {
+      terminal.writeWarningLine(`${(error as Error).message} Running the command locally.`);
+      return await super._executeCommandAsync(context);
+    }
+
+    switch (result.status) {
+      case 'rejected': {
+        terminal.writeWarningLine(
+          `The remote worker ${result.workerUrl} did not run the command: ${result.message}. ` +
+            'Running the command locally.'
+        );
+        return await super._executeCommandAsync(context);
+      }
+
+      case 'failure': {
+        throw new OperationError(
+          'error',
+          result.message || `The command failed on the remote worker ${result.workerUrl}`
+        );
+      }
+
+      default: {
+        if (!(await this._tryRestoreRemoteOutputAsync(terminal, projectBuildCache))) {
+          terminal.writeWarningLine(
+            `The output from the remote worker ${result.workerUrl} could not be restored from the build cache. ` +
+              'Running the command locally.'
+          );
+          return await super._executeCommandAsync(context);
+        }
+
+        return { status: OPERATION_STATUS_BY_REMOTE_STATUS[result.status], isCacheEntryWritten: true };
+      }
+    }
+  }
+
+  private async _tryRestoreRemoteOutputAsync(
+    terminal: ITerminal,
+    projectBuildCache: ProjectBuildCache
+  ): Promise<boolean> {
+    try {
+      return await projectBuildCache.tryRestoreFromCacheAsync(terminal);
+    } catch (error) {
+      terminal.writeVerboseLine(`Error restoring from the build cache: ${error}`);
+      return false;
+    }
+  }
+}
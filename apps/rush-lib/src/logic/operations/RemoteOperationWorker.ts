@@ -0,0 +1,169 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { ITerminal } from '@rushstack/node-core-library';
+
+import {
+  IRemoteOperationLogMessage,
+  IRemoteOperationRequest,
+  IRemoteOperationResultMessage,
+  RemoteOperationMessage,
+  REMOTE_OPERATION_PATH,
+  REMOTE_OPERATION_PROTOCOL_VERSION,
+  serializeRemoteOperationMessage
+} from './RemoteOperationProtocol';
+
+/**
+ * Runs the operations that are requested by clients. If the executor throws, the request is rejected
+ * so that the client runs the operation locally.
+ */
+export interface IRemoteOperationExecutor {
+  executeAsync(
+    request: IRemoteOperationRequest,
+    writeLog: (message: IRemoteOperationLogMessage) => void
+  ): Promise<IRemoteOperationResultMessage>;
+}
+
+export interface IRemoteOperationWorkerOptions {
+  executor: IRemoteOperationExecutor;
+  /**
+   * The maximum number of operations to execute at the same time. Additional requests wait in a queue.
+   */
+  parallelism: number;
+  terminal: ITerminal;
+}
+
+/**
+ * An HTTP server that executes operations for `RemoteOperationClient`.
+ *
+ * The server does not authenticate clients, and it runs the commands from the package.json files of its
+ * own checkout. It must only be reachable from a trusted network.
+ */
+export class RemoteOperationWorker {
+  private readonly _executor: IRemoteOperationExecutor;
+  private readonly _parallelism: number;
+  private readonly _terminal: ITerminal;
+  private readonly _server: http.Server;
+  private readonly _waitingRequests: (() => void)[] = [];
+  private _activeRequestCount: number = 0;
+
+  public constructor(options: IRemoteOperationWorkerOptions) {
+    this._executor = options.executor;
+    this._parallelism = Math.max(1, options.parallelism);
+    this._terminal = options.terminal;
+    this._server = http.createServer((request: http.IncomingMessage, response: http.ServerResponse) => {
+      this._handleRequestAsync(request, response).catch((error: Error) => {
+        this._terminal.writeErrorLine(`Error handling a request: ${error.message}`);
+        response.destroy();
+      });
+    });
+  }
+
+  /**
+   * Starts listening, and returns the URL that clients should use. If `port` is 0, an unused port is chosen.
+   */
+  public async listenAsync(port: number, host: string): Promise<string> {
+    await new Promise<void>((resolve: () => void, reject: (error: Error) => void) => {
+      this._server.once('error', reject);
+      this._server.listen(port, host, () => {
+        this._server.off('error', reject);
+        resolve();
+      });
+    });
+
+    const address: AddressInfo = this._server.address() as AddressInfo;
+    return `http://${host}:${address.port}`;
+  }
+
+  /**
+   * Stops accepting requests, and waits for the active requests to finish.
+   */
+  public async closeAsync(): Promise<void> {
+    await new Promise<void>((resolve: () => void, reject: (error: Error) => void) => {
+      this._server.close((error: Error | undefined) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  private async _handleRequestAsync(
+    request: http.IncomingMessage,
+    response: http.ServerResponse
+  ): Promise<void> {
+    if (request.method !== 'POST' || request.url !== REMOTE_OPERATION_PATH) {
+      response.writeHead(404).end();
+      return;
+    }
+
+    let operationRequest: IRemoteOperationRequest;
+    try {
+      operationRequest = JSON.parse(await this._readBodyAsync(request));
+    } catch (e) {
+      response.writeHead(400).end();
+      return;
+    }
+
+    response.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+    const writeMessage: (message: RemoteOperationMessage) => void = (message: RemoteOperationMessage) => {
+      response.write(serializeRemoteOperationMessage(message));
+    };
+
+    if (operationRequest.protocolVersion !== REMOTE_OPERATION_PROTOCOL_VERSION) {
+      writeMessage({
+        kind: 'result',
+        status: 'rejected',
+        message: `The worker does not support protocol version ${operationRequest.protocolVersion}`
+      });
+      response.end();
+      return;
+    }
+
+    const operationName: string = `${operationRequest.projectName} (${operationRequest.phaseName})`;
+    await this._waitForSlotAsync();
+    let result: IRemoteOperationResultMessage;
+    try {
+      this._terminal.writeLine(`Executing ${operationName}`);
+      result = await this._executor.executeAsync(operationRequest, writeMessage);
+    } catch (error) {
+      result = { kind: 'result', status: 'rejected', message: (error as Error).message };
+    } finally {
+      this._releaseSlot();
+    }
+
+    this._terminal.writeLine(
+      `Finished ${operationName}: ${result.status}` + (result.message ? ` (${result.message})` : '')
+    );
+    writeMessage(result);
+    response.end();
+  }
+
+  private async _readBodyAsync(request: http.IncomingMessage): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of request) {
+      chunks.push(chunk as Buffer);
+    }
+
+    return Buffer.concat(chunks).toString('utf8');
+  }
+
+  private async _waitForSlotAsync(): Promise<void> {
+    if (this._activeRequestCount < this._parallelism) {
+      this._activeRequestCount++;
+      return;
+    }
+
+    // The slot is handed over directly by _releaseSlot(), so the count does not change
+    await new Promise<void>((resolve: () => void) => {
+      this._waitingRequests.push(resolve);
+    });
+  }
+
+  private _releaseSlot(): void {
+    const nextRequest: (() => void) | undefined = this._waitingRequests.shift();
+    if (nextRequest) {
+      nextRequest();
+    } else {
+      this._activeRequestCount--;
+    }
+  }
+}
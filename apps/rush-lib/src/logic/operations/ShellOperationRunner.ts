@@ -20,7 +20,9 @@ import {
   StderrLineTransform,
   SplitterTransform,
   DiscardStdoutTransform,
-  PrintUtilities
+  PrintUtilities,
+  CallbackWritable,
+  ITerminalChunk
 } from '@rushstack/terminal';
 import { CollatedTerminal } from '@rushstack/stream-collator';
 
@@ -36,7 +38,7 @@ import { ProjectBuildCache } from '../buildCache/ProjectBuildCache';
 import type { BuildCacheConfiguration } from '../../api/BuildCacheConfiguration';
 import { IOperationSettings, RushProjectConfiguration } from '../../api/RushProjectConfiguration';
 import { CollatedTerminalProvider } from '../../utilities/CollatedTerminalProvider';
-import type { IPhase } from '../../api/CommandLineConfiguration';
+import type { IPhase, IPhaseRetryPolicy } from '../../api/CommandLineConfiguration';
 import { RushConstants } from '../RushConstants';
 import { EnvironmentConfiguration } from '../../api/EnvironmentConfiguration';
 
@@ -60,6 +62,48 @@ export interface IOperationRunnerOptions {
   selectedPhases: Iterable<IPhase>;
 }
 
+export interface IExecuteCommandContext {
+  terminal: ITerminal;
+  collatedTerminal: CollatedTerminal;
+  /**
+   * The project's tracked files, or undefined if they could not be calculated.
+   */
+  trackedFiles: string[] | undefined;
+}
+
+export interface IExecuteCommandResult {
+  status: OperationStatus;
+  /**
+   * True if the build cache entry for the operation was already written while executing the command.
+   */
+  isCacheEntryWritten: boolean;
+}
+
+/**
+ * The error that is reported when the shell command of an operation returns a nonzero exit code.
+ */
+export class CommandExitCodeError extends OperationError {
+  public readonly exitCode: number;
+
+  public constructor(exitCode: number) {
+    super('error', `Returned error code: ${exitCode}`);
+    this.exitCode = exitCode;
+  }
+}
+
+function _isRetryableFailure(retryPolicy: IPhaseRetryPolicy, error: Error, output: string): boolean {
+  const { retryableExitCodes, retryableOutputPatterns } = retryPolicy;
+  if (!retryableExitCodes && !retryableOutputPatterns) {
+    return true;
+  }
+
+  if (error instanceof CommandExitCodeError && retryableExitCodes?.has(error.exitCode)) {
+    return true;
+  }
+
+  return !!retryableOutputPatterns?.some((pattern: RegExp) => pattern.test(output));
+}
+
 function _areShallowEqual(object1: JsonObject, object2: JsonObject): boolean {
   for (const n in object1) {
     if (!(n in object2) || object1[n] !== object2[n]) {
@@ -89,14 +133,14 @@ export class ShellOperationRunner implements IOperationRunner {
   public readonly silent: boolean = false;
   public readonly warningsAreAllowed: boolean;
 
-  private readonly _rushProject: RushConfigurationProject;
-  private readonly _phase: IPhase;
-  private readonly _rushConfiguration: RushConfiguration;
+  protected readonly _rushProject: RushConfigurationProject;
+  protected readonly _phase: IPhase;
+  protected readonly _rushConfiguration: RushConfiguration;
   private readonly _buildCacheConfiguration: BuildCacheConfiguration | undefined;
   private readonly _commandName: string;
-  private readonly _commandToRun: string;
+  protected readonly _commandToRun: string;
   private readonly _isCacheReadAllowed: boolean;
-  private readonly _projectChangeAnalyzer: ProjectChangeAnalyzer;
+  protected readonly _projectChangeAnalyzer: ProjectChangeAnalyzer;
   private readonly _packageDepsFilename: string;
   private readonly _logFilenameIdentifier: string;
   private readonly _selectedPhases: Iterable<IPhase>;
@@ -106,6 +150,7 @@ export class ShellOperationRunner implements IOperationRunner {
    * undefined === we didn't create one because the feature is not enabled
    */
   private _projectBuildCache: ProjectBuildCache | undefined | UNINITIALIZED = UNINITIALIZED;
+  private _isCacheEntryWritten: boolean = false;
 
   public constructor(options: IOperationRunnerOptions) {
     const { phase } = options;
@@ -127,7 +172,15 @@ export class ShellOperationRunner implements IOperationRunner {
     this._selectedPhases = options.selectedPhases;
   }
 
+  /**
+   * True if the most recent execution wrote the outputs of the operation to the build cache.
+   */
+  public get isCacheEntryWritten(): boolean {
+    return this._isCacheEntryWritten;
+  }
+
   public async executeAsync(context: IOperationRunnerContext): Promise<OperationStatus> {
+    this._isCacheEntryWritten = false;
     try {
       return await this._executeAsync(context);
     } catch (error) {
@@ -185,8 +238,6 @@ export class ShellOperationRunner implements IOperationRunner {
       });
       const terminal: Terminal = new Terminal(terminalProvider);
 
-      let hasWarningOrError: boolean = false;
-      const projectFolder: string = this._rushProject.projectFolder;
       let lastProjectDeps: IProjectDeps | undefined = undefined;
 
       const currentDepsPath: string = path.join(
@@ -309,56 +360,16 @@ export class ShellOperationRunner implements IOperationRunner {
       }
 
       // Run the operation
-      terminal.writeLine('Invoking: ' + this._commandToRun);
-
-      const subProcess: child_process.ChildProcess = Utilities.executeLifecycleCommandAsync(
-        this._commandToRun,
-        {
-          rushConfiguration: this._rushConfiguration,
-          workingDirectory: projectFolder,
-          initCwd: this._rushConfiguration.commonTempFolder,
-          handleOutput: true,
-          environmentPathOptions: {
-            includeProjectBin: true
-          }
-        }
-      );
-
-      // Hook into events, in order to get live streaming of the log
-      if (subProcess.stdout !== null) {
-        subProcess.stdout.on('data', (data: Buffer) => {
-          const text: string = data.toString();
-          collatedTerminal.writeChunk({ text, kind: TerminalChunkKind.Stdout });
-        });
-      }
-      if (subProcess.stderr !== null) {
-        subProcess.stderr.on('data', (data: Buffer) => {
-          const text: string = data.toString();
-          collatedTerminal.writeChunk({ text, kind: TerminalChunkKind.Stderr });
-          hasWarningOrError = true;
-        });
-      }
-
-      let status: OperationStatus = await new Promise(
-        (resolve: (status: OperationStatus) => void, reject: (error: OperationError) => void) => {
-          subProcess.on('close', (code: number) => {
-            try {
-              if (code !== 0) {
-                reject(new OperationError('error', `Returned error code: ${code}`));
-              } else if (hasWarningOrError) {
-                resolve(OperationStatus.SuccessWithWarning);
-              } else {
-                resolve(OperationStatus.Success);
-              }
-            } catch (error) {
-              reject(error as OperationError);
-            }
-          });
-        }
-      );
+      const executeCommandResult: IExecuteCommandResult = await this._executeCommandAsync({
+        terminal,
+        collatedTerminal,
+        trackedFiles
+      });
+      let status: OperationStatus = executeCommandResult.status;
 
       const taskIsSuccessful: boolean =
         status === OperationStatus.Success ||
+        status === OperationStatus.Flaky ||
         (status === OperationStatus.SuccessWithWarning &&
           this.warningsAreAllowed &&
           !!this._rushConfiguration.experimentsConfiguration.configuration
@@ -372,11 +383,12 @@ export class ShellOperationRunner implements IOperationRunner {
 
         // If the command is successful, we can calculate project hash, and no dependencies were skipped,
         // write a new cache entry.
-        const setCacheEntryPromise: Promise<boolean> | undefined = this.isCacheWriteAllowed
-          ? (await this._tryGetProjectBuildCacheAsync(terminal, trackedFiles))?.trySetCacheEntryAsync(
-              terminal
-            )
-          : undefined;
+        const setCacheEntryPromise: Promise<boolean> | undefined =
+          this.isCacheWriteAllowed && !executeCommandResult.isCacheEntryWritten
+            ? (await this._tryGetProjectBuildCacheAsync(terminal, trackedFiles))?.trySetCacheEntryAsync(
+                terminal
+              )
+            : undefined;
 
         const [, cacheWriteSuccess] = await Promise.all([writeProjectStatePromise, setCacheEntryPromise]);
 
@@ -384,6 +396,8 @@ export class ShellOperationRunner implements IOperationRunner {
           status = OperationStatus.Failure;
         } else if (cacheWriteSuccess === false) {
           status = OperationStatus.SuccessWithWarning;
+        } else {
+          this._isCacheEntryWritten = executeCommandResult.isCacheEntryWritten || !!cacheWriteSuccess;
         }
       }
 
@@ -401,7 +415,141 @@ export class ShellOperationRunner implements IOperationRunner {
     }
   }
 
-  private async _tryGetProjectBuildCacheAsync(
+  /**
+   * Runs the shell command, retrying failures according to the phase's retry policy. If the command only
+   * succeeds after being retried, the status is changed to `OperationStatus.Flaky`.
+   *
+   * Subclasses can override this to run the command somewhere else. If the override writes the build cache
+   * entry itself, it returns `isCacheEntryWritten: true` so that the entry is not written again.
+   *
+   * @remarks
+   * A retried attempt that succeeds with warnings keeps the `OperationStatus.SuccessWithWarning` status,
+   * because `Flaky` is treated as a success, and would hide the warnings from phases that do not allow them.
+   * The failed attempts are still reported as warnings in the operation's log.
+   */
+  protected async _executeCommandAsync(context: IExecuteCommandContext): Promise<IExecuteCommandResult> {
+    const retryPolicy: IPhaseRetryPolicy | undefined = this._phase.retryPolicy;
+    if (!retryPolicy) {
+      return await this._executeCommandOnceAsync(context);
+    }
+
+    const { terminal, collatedTerminal } = context;
+    const maxAttempts: number = retryPolicy.maxRetries + 1;
+    for (let attempt: number = 1; ; attempt++) {
+      // Keep the output of the attempt, so that it can be matched against the retryable output patterns
+      let output: string = '';
+      const attemptCollatedTerminal: CollatedTerminal = retryPolicy.retryableOutputPatterns
+        ? new CollatedTerminal(
+            new CallbackWritable({
+              onWriteChunk: (chunk: ITerminalChunk): void => {
+                output += chunk.text;
+                collatedTerminal.writeChunk(chunk);
+              }
+            })
+          )
+        : collatedTerminal;
+
+      try {
+        const executeCommandResult: IExecuteCommandResult = await this._executeCommandOnceAsync({
+          ...context,
+          collatedTerminal: attemptCollatedTerminal
+        });
+
+        // SuccessWithWarning is not converted, so that the warnings still fail the operation if they are not allowed
+        if (attempt > 1 && executeCommandResult.status === OperationStatus.Success) {
+          return { ...executeCommandResult, status: OperationStatus.Flaky };
+        }
+
+        return executeCommandResult;
+      } catch (error) {
+        if (attempt >= maxAttempts || !_isRetryableFailure(retryPolicy, error as Error, output)) {
+          throw error;
+        }
+
+        // This is written to the project's log, so that the failed attempt is not mistaken for the final result
+        terminal.writeWarningLine(
+          `Attempt ${attempt} of ${maxAttempts} failed: ${(error as Error).message}. Retrying.`
+        );
+      }
+    }
+  }
+
+  /**
+   * Runs the shell command for the operation once. Rejects with an `OperationError` if the command fails.
+   */
+  protected async _executeCommandOnceAsync(context: IExecuteCommandContext): Promise<IExecuteCommandResult> {
+    const { terminal, collatedTerminal } = context;
+    let hasWarningOrError: boolean = false;
+
+    terminal.writeLine('Invoking: ' + this._commandToRun);
+
+    const subProcess: child_process.ChildProcess = Utilities.executeLifecycleCommandAsync(
+      this._commandToRun,
+      {
+        rushConfiguration: this._rushConfiguration,
+        workingDirectory: this._rushProject.projectFolder,
+        initCwd: this._rushConfiguration.commonTempFolder,
+        handleOutput: true,
+        environmentPathOptions: {
+          includeProjectBin: true
+        }
+      }
+    );
+
+    // Hook into events, in order to get live streaming of the log
+    if (subProcess.stdout !== null) {
+      subProcess.stdout.on('data', (data: Buffer) => {
+        const text: string = data.toString();
+        collatedTerminal.writeChunk({ text, kind: TerminalChunkKind.Stdout });
+      });
+    }
+    if (subProcess.stderr !== null) {
+      subProcess.stderr.on('data', (data: Buffer) => {
+        const text: string = data.toString();
+        collatedTerminal.writeChunk({ text, kind: TerminalChunkKind.Stderr });
+        hasWarningOrError = true;
+      });
+    }
+
+    const status: OperationStatus = await new Promise(
+      (resolve: (status: OperationStatus) => void, reject: (error: OperationError) => void) => {
+        subProcess.on('close', (code: number) => {
+          try {
+            if (code !== 0) {
+              reject(new CommandExitCodeError(code));
+            } else if (hasWarningOrError) {
+              resolve(OperationStatus.SuccessWithWarning);
+            } else {
+              resolve(OperationStatus.Success);
+            }
+          } catch (error) {
+            reject(error as OperationError);
+          }
+        });
+      }
+    );
+
+    return { status, isCacheEntryWritten: false };
+  }
+
+  /**
+   * Gets the build cache for this operation's project, calculating the project's tracked files if necessary.
+   * Returns undefined if the build cache is disabled or not supported for the project.
+   */
+  public async tryGetProjectBuildCacheAsync(terminal: ITerminal): Promise<ProjectBuildCache | undefined> {
+    if (this._projectBuildCache === UNINITIALIZED) {
+      const fileHashes: Map<string, string> | undefined =
+        await this._projectChangeAnalyzer._tryGetProjectDependenciesAsync(this._rushProject, terminal);
+      return await this._tryGetProjectBuildCacheAsync(
+        terminal,
+        fileHashes ? Array.from(fileHashes.keys()) : undefined
+      );
+    }
+
+    return this._projectBuildCache;
+  }
+
+  protected async _tryGetProjectBuildCacheAsync(
     terminal: ITerminal,
     trackedProjectFiles: string[] | undefined
   ): Promise<ProjectBuildCache | undefined> {
@@ -1,6 +1,8 @@
 // Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
 // See LICENSE in the project root for license information.
 
+import { CommandLineParameterKind } from '@rushstack/ts-command-line';
+
 import type { IPhase } from '../../api/CommandLineConfiguration';
 import type { RushConfigurationProject } from '../../api/RushConfigurationProject';
 import { RushConstants } from '../RushConstants';
@@ -13,6 +15,9 @@ import type {
   PhasedCommandHooks
 } from '../../pluginFramework/PhasedCommandHooks';
 import { Operation } from './Operation';
+import type { RemoteOperationClient } from './RemoteOperationClient';
+import { RemoteOperationRunner } from './RemoteOperationRunner';
+import type { IRemoteOperationParameter, IRemoteOperationReference } from './RemoteOperationProtocol';
 
 const PLUGIN_NAME: 'ShellOperationRunnerPlugin' = 'ShellOperationRunnerPlugin';
 
@@ -20,14 +25,28 @@ const PLUGIN_NAME: 'ShellOperationRunnerPlugin' = 'ShellOperationRunnerPlugin';
  * Core phased command plugin that provides the functionality for executing an operation via shell command.
  */
 export class ShellOperationRunnerPlugin implements IPhasedCommandPlugin {
+  private readonly _remoteOperationClient: RemoteOperationClient | undefined;
+
+  /**
+   * @param remoteOperationClient - If specified, operations that support the build cache are run on remote workers
+   */
+  public constructor(remoteOperationClient?: RemoteOperationClient) {
+    this._remoteOperationClient = remoteOperationClient;
+  }
+
   public apply(hooks: PhasedCommandHooks): void {
-    hooks.createOperations.tap(PLUGIN_NAME, createShellOperations);
+    hooks.createOperations.tap(
+      PLUGIN_NAME,
+      (operations: Set<Operation>, context: ICreateOperationsContext): Set<Operation> =>
+        createShellOperations(operations, context, this._remoteOperationClient)
+    );
   }
 }
 
 function createShellOperations(
   operations: Set<Operation>,
-  context: ICreateOperationsContext
+  context: ICreateOperationsContext,
+  remoteOperationClient: RemoteOperationClient | undefined
 ): Set<Operation> {
   const {
     buildCacheConfiguration,
@@ -37,20 +56,29 @@ function createShellOperations(
     rushConfiguration
   } = context;
 
-  const customParametersByPhase: Map<IPhase, string[]> = new Map();
+  const customParametersByPhase: Map<IPhase, IRemoteOperationParameter[]> = new Map();
 
-  function getCustomParameterValuesForPhase(phase: IPhase): ReadonlyArray<string> {
-    let customParameterValues: string[] | undefined = customParametersByPhase.get(phase);
-    if (!customParameterValues) {
-      customParameterValues = [];
+  function getCustomParametersForPhase(phase: IPhase): ReadonlyArray<IRemoteOperationParameter> {
+    let customParameters: IRemoteOperationParameter[] | undefined = customParametersByPhase.get(phase);
+    if (!customParameters) {
+      customParameters = [];
       for (const tsCommandLineParameter of phase.associatedParameters) {
-        tsCommandLineParameter.appendToArgList(customParameterValues);
+        const argList: string[] = [];
+        tsCommandLineParameter.appendToArgList(argList);
+
+        // Flags only append their name. Other parameters append their name and a value, once for each value.
+        const isFlag: boolean = tsCommandLineParameter.kind === CommandLineParameterKind.Flag;
+        for (let i: number = 0; i < argList.length; i += isFlag ? 1 : 2) {
+          customParameters.push(
+            isFlag ? { longName: argList[i] } : { longName: argList[i], value: argList[i + 1] }
+          );
+        }
       }
 
-      customParametersByPhase.set(phase, customParameterValues);
+      customParametersByPhase.set(phase, customParameters);
     }
 
-    return customParameterValues;
+    return customParameters;
   }
 
   for (const operation of operations) {
@@ -59,9 +87,13 @@ function createShellOperations(
     if (phase && project && !operation.runner) {
       // This is a shell command. In the future, may consider having a property on the initial operation
       // to specify a runner type requested in rush-project.json
-      const customParameterValues: ReadonlyArray<string> = getCustomParameterValuesForPhase(phase);
+      const customParameters: ReadonlyArray<IRemoteOperationParameter> = getCustomParametersForPhase(phase);
 
-      const commandToRun: string | undefined = getScriptToRun(project, phase.name, customParameterValues);
+      const commandToRun: string | undefined = getScriptToRun(
+        project,
+        phase.name,
+        getCustomParameterArgs(customParameters)
+      );
 
       if (commandToRun === undefined && !phase.ignoreMissingScript) {
         throw new Error(
@@ -71,7 +103,22 @@ function createShellOperations(
 
       const displayName: string = getDisplayName(phase, project);
 
-      if (commandToRun) {
+      if (commandToRun && remoteOperationClient && buildCacheConfiguration?.buildCacheEnabled) {
+        operation.runner = new RemoteOperationRunner({
+          buildCacheConfiguration,
+          commandToRun,
+          displayName,
+          isIncrementalBuildAllowed,
+          phase,
+          projectChangeAnalyzer,
+          rushConfiguration,
+          rushProject: project,
+          selectedPhases,
+          remoteOperationClient,
+          customParameters,
+          dependencies: getRemoteOperationDependencies(operation, getCustomParametersForPhase)
+        });
+      } else if (commandToRun) {
         operation.runner = new ShellOperationRunner({
           buildCacheConfiguration,
           commandToRun: commandToRun || '',
@@ -97,7 +144,58 @@ function createShellOperations(
   return operations;
 }
 
-function getScriptToRun(
+function getRemoteOperationDependencies(
+  operation: Operation,
+  getCustomParametersForPhase: (phase: IPhase) => ReadonlyArray<IRemoteOperationParameter>
+): IRemoteOperationReference[] {
+  const dependencies: Set<Operation> = new Set(operation.dependencies);
+  // Set iteration includes items that are added during the iteration
+  for (const dependency of dependencies) {
+    for (const transitiveDependency of dependency.dependencies) {
+      dependencies.add(transitiveDependency);
+    }
+  }
+
+  const references: IRemoteOperationReference[] = [];
+  for (const { associatedPhase: phase, associatedProject: project } of dependencies) {
+    if (phase && project) {
+      const customParameters: ReadonlyArray<IRemoteOperationParameter> = getCustomParametersForPhase(phase);
+      const commandToRun: string | undefined = getScriptToRun(
+        project,
+        phase.name,
+        getCustomParameterArgs(customParameters)
+      );
+      // Operations without a command have no outputs to restore
+      if (commandToRun) {
+        references.push({
+          projectName: project.packageName,
+          phaseName: phase.name,
+          customParameters: [...customParameters],
+          commandToRun
+        });
+      }
+    }
+  }
+
+  return references;
+}
+
+/**
+ * Converts custom parameters to the arguments that are appended to the script of an operation.
+ */
+export function getCustomParameterArgs(customParameters: ReadonlyArray<IRemoteOperationParameter>): string[] {
+  const args: string[] = [];
+  for (const { longName, value } of customParameters) {
+    args.push(longName);
+    if (value !== undefined) {
+      args.push(value);
+    }
+  }
+
+  return args;
+}
+
+export function getScriptToRun(
   rushProject: RushConfigurationProject,
   commandToRun: string,
   customParameterValues: ReadonlyArray<string>
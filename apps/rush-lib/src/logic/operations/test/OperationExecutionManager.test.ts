@@ -14,6 +14,7 @@ import { OperationStatus } from '../OperationStatus';
 import { Operation } from '../Operation';
 import { Utilities } from '../../../utilities/Utilities';
 import type { IOperationRunner } from '../IOperationRunner';
+import type { IExecutionResult, IOperationExecutionResult } from '../IOperationExecutionResult';
 import { MockOperationRunner } from './MockOperationRunner';
 
 const mockGetTimeInMs: jest.Mock = jest.fn();
@@ -227,4 +228,92 @@ describe(OperationExecutionManager.name, () => {
       });
     });
   });
+
+  describe('Flaky logging', () => {
+    beforeEach(() => {
+      executionManagerOptions = {
+        quietMode: false,
+        debugMode: false,
+        parallelism: '1',
+        showTimeline: false,
+        changedProjectsOnly: false,
+        destination: mockWritable
+      };
+    });
+
+    it('Reports operations that succeeded after retrying', async () => {
+      executionManager = createExecutionManager(
+        executionManagerOptions,
+        new MockOperationRunner('flaky', async (terminal: CollatedTerminal) => {
+          terminal.writeStderrLine('Attempt 1 of 2 failed. Retrying.' + EOL);
+          terminal.writeStdoutLine('Build step 1' + EOL);
+          return OperationStatus.Flaky;
+        })
+      );
+
+      await executionManager.executeAsync();
+      const allMessages: string = mockWritable.getAllOutput();
+      expect(allMessages).toContain('"flaky" completed successfully after retrying');
+      expect(allMessages).toContain('Attempt 1 of 2 failed. Retrying.');
+      expect(mockWritable.getFormattedChunks()).toMatchSnapshot();
+    });
+  });
+
+  describe('Lifecycle callbacks', () => {
+    it('reports the status of each operation, including blocked operations', async () => {
+      const events: string[] = [];
+      let executionResult: IExecutionResult | undefined;
+
+      const failingOperation: Operation = new Operation({
+        runner: new MockOperationRunner('failing', async () => OperationStatus.Failure)
+      });
+      const blockedOperation: Operation = new Operation({
+        runner: new MockOperationRunner('blocked', async () => OperationStatus.Success)
+      });
+      blockedOperation.dependencies.add(failingOperation);
+
+      executionManager = new OperationExecutionManager(new Set([failingOperation, blockedOperation]), {
+        quietMode: true,
+        debugMode: false,
+        parallelism: '1',
+        showTimeline: false,
+        changedProjectsOnly: false,
+        destination: mockWritable,
+        beforeExecuteOperations: async (records: ReadonlyMap<Operation, IOperationExecutionResult>) => {
+          events.push(`beforeExecuteOperations ${records.size}`);
+        },
+        beforeExecuteOperation: async (record: IOperationExecutionResult) => {
+          events.push(`beforeExecuteOperation ${record.operation.name}`);
+        },
+        onOperationStatusChanged: (record: IOperationExecutionResult) => {
+          events.push(`onOperationStatusChanged ${record.operation.name} ${record.status}`);
+        },
+        afterExecuteOperation: async (record: IOperationExecutionResult) => {
+          events.push(`afterExecuteOperation ${record.operation.name} ${record.status}`);
+        },
+        afterExecuteOperations: async (result: IExecutionResult) => {
+          executionResult = result;
+        }
+      });
+
+      await expect(executionManager.executeAsync()).rejects.toThrow();
+
+      expect(events).toEqual([
+        'beforeExecuteOperations 2',
+        'beforeExecuteOperation failing',
+        `onOperationStatusChanged failing ${OperationStatus.Executing}`,
+        `onOperationStatusChanged failing ${OperationStatus.Failure}`,
+        `onOperationStatusChanged blocked ${OperationStatus.Blocked}`,
+        `afterExecuteOperation failing ${OperationStatus.Failure}`
+      ]);
+
+      expect(executionResult?.status).toEqual(OperationStatus.Failure);
+      expect(executionResult?.operationResults.get(failingOperation)?.status).toEqual(
+        OperationStatus.Failure
+      );
+      expect(executionResult?.operationResults.get(blockedOperation)?.status).toEqual(
+        OperationStatus.Blocked
+      );
+    });
+  });
 });
@@ -0,0 +1,79 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { StdioSummarizer } from '@rushstack/terminal';
+
+import { Operation } from '../Operation';
+import { OperationStatus } from '../OperationStatus';
+import { NullOperationRunner } from '../NullOperationRunner';
+import { OperationTimeline } from '../OperationTimeline';
+import { MockOperationRunner } from './MockOperationRunner';
+import type { IOperationExecutionResult } from '../IOperationExecutionResult';
+
+function createResult(
+  operation: Operation,
+  status: OperationStatus,
+  startTime?: number,
+  endTime?: number
+): IOperationExecutionResult {
+  return {
+    operation,
+    status,
+    error: undefined,
+    stdioSummarizer: new StdioSummarizer(),
+    stopwatch: {
+      startTime,
+      endTime,
+      duration: startTime !== undefined && endTime !== undefined ? (endTime - startTime) / 1000 : 0
+    }
+  };
+}
+
+describe(OperationTimeline.name, () => {
+  //   a (2s) <-- c (1s) <-- d (5s)
+  //   b (4s) <-- c
+  //   e (3s), blocked f, and a silent operation
+  const a: Operation = new Operation({ runner: new MockOperationRunner('a') });
+  const b: Operation = new Operation({ runner: new MockOperationRunner('b') });
+  const c: Operation = new Operation({ runner: new MockOperationRunner('c') });
+  const d: Operation = new Operation({ runner: new MockOperationRunner('d') });
+  const e: Operation = new Operation({ runner: new MockOperationRunner('e') });
+  const f: Operation = new Operation({ runner: new MockOperationRunner('f') });
+  const silent: Operation = new Operation({
+    runner: new NullOperationRunner({ name: 'silent', result: OperationStatus.Skipped, silent: true })
+  });
+  c.dependencies.add(a);
+  c.dependencies.add(b);
+  c.dependencies.add(silent);
+  d.dependencies.add(c);
+  f.dependencies.add(e);
+
+  const results: Map<Operation, IOperationExecutionResult> = new Map([
+    [a, createResult(a, OperationStatus.Success, 1000, 3000)],
+    [b, createResult(b, OperationStatus.FromCache, 1000, 5000)],
+    [c, createResult(c, OperationStatus.Success, 5000, 6000)],
+    [d, createResult(d, OperationStatus.SuccessWithWarning, 6000, 11000)],
+    [e, createResult(e, OperationStatus.Failure, 3000, 6000)],
+    [f, createResult(f, OperationStatus.Blocked)],
+    [silent, createResult(silent, OperationStatus.Skipped, 1000, 1000)]
+  ]);
+
+  it('finds the critical path', () => {
+    const timeline: OperationTimeline = new OperationTimeline(results);
+    expect(
+      timeline.criticalPath.operations.map((result: IOperationExecutionResult) => result.operation.name)
+    ).toEqual(['b', 'c', 'd']);
+    expect(timeline.criticalPath.duration).toEqual(10);
+    expect(timeline.wallClockDuration).toEqual(10);
+  });
+
+  it('creates the timeline JSON', () => {
+    const { startTime, ...timelineJson } = new OperationTimeline(results).toJson();
+    expect(typeof startTime).toEqual('string');
+    expect(timelineJson).toMatchSnapshot();
+  });
+
+  it('creates a Chrome trace', () => {
+    expect(new OperationTimeline(results).toChromeTrace()).toMatchSnapshot();
+  });
+});
@@ -0,0 +1,257 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import type { RushConfiguration } from '../../../api/RushConfiguration';
+import type { RushConfigurationProject } from '../../../api/RushConfigurationProject';
+import type { BuildCacheConfiguration } from '../../../api/BuildCacheConfiguration';
+import type { IParameterJson, IPhase } from '../../../api/CommandLineConfiguration';
+import type { ProjectBuildCache } from '../../buildCache/ProjectBuildCache';
+import { RemoteOperationExecutor } from '../RemoteOperationExecutor';
+import { ShellOperationRunner } from '../ShellOperationRunner';
+import { OperationStatus } from '../OperationStatus';
+import {
+  IRemoteOperationParameter,
+  IRemoteOperationRequest,
+  IRemoteOperationResultMessage,
+  REMOTE_OPERATION_PROTOCOL_VERSION
+} from '../RemoteOperationProtocol';
+
+const PHASE_NAME: string = '_phase:build';
+
+const PARAMETERS: IParameterJson[] = [
+  {
+    parameterKind: 'string',
+    longName: '--locale',
+    argumentName: 'LOCALE',
+    description: 'The locale',
+    associatedPhases: [PHASE_NAME]
+  },
+  {
+    parameterKind: 'flag',
+    longName: '--production',
+    description: 'Production build',
+    associatedPhases: [PHASE_NAME]
+  },
+  {
+    parameterKind: 'choice',
+    longName: '--flavor',
+    description: 'The flavor',
+    alternatives: [
+      { name: 'vanilla', description: 'Vanilla' },
+      { name: 'chocolate', description: 'Chocolate' }
+    ],
+    associatedPhases: [PHASE_NAME]
+  },
+  {
+    parameterKind: 'flag',
+    longName: '--other-phase',
+    description: 'Only for another phase',
+    associatedPhases: ['_phase:test']
+  }
+];
+
+function createRequest(
+  commandToRun: string,
+  customParameters: IRemoteOperationParameter[] = []
+): IRemoteOperationRequest {
+  return {
+    protocolVersion: REMOTE_OPERATION_PROTOCOL_VERSION,
+    projectName: 'example',
+    phaseName: PHASE_NAME,
+    customParameters,
+    commandToRun,
+    cacheId: 'example/0123456789abcdef',
+    dependencies: []
+  };
+}
+
+describe(RemoteOperationExecutor.name, () => {
+  let executor: RemoteOperationExecutor;
+
+  beforeEach(() => {
+    const project: RushConfigurationProject = {
+      packageName: 'example',
+      packageJson: { name: 'example', version: '1.0.0', scripts: { [PHASE_NAME]: 'heft build' } }
+    } as unknown as RushConfigurationProject;
+    const rushConfiguration: RushConfiguration = {
+      getProjectByName: (name: string) => (name === 'example' ? project : undefined)
+    } as unknown as RushConfiguration;
+    const phase: IPhase = {
+      name: PHASE_NAME,
+      logFilenameIdentifier: '_phase_build'
+    } as unknown as IPhase;
+
+    executor = new RemoteOperationExecutor({
+      rushConfiguration,
+      buildCacheConfiguration: {} as BuildCacheConfiguration,
+      phases: new Map([[PHASE_NAME, phase]]),
+      parameters: PARAMETERS
+    });
+
+    // Stop before anything is run if the command is accepted
+    jest.spyOn(ShellOperationRunner.prototype, 'tryGetProjectBuildCacheAsync').mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  async function executeAsync(request: IRemoteOperationRequest): Promise<IRemoteOperationResultMessage> {
+    return await executor.executeAsync(request, () => {
+      /* no-op */
+    });
+  }
+
+  it('accepts the command from the package.json with valid custom parameters', async () => {
+    const result: IRemoteOperationResultMessage = await executeAsync(
+      createRequest('heft build --locale en-us --production --flavor vanilla', [
+        { longName: '--locale', value: 'en-us' },
+        { longName: '--production' },
+        { longName: '--flavor', value: 'vanilla' }
+      ])
+    );
+
+    // The command was accepted, and the request was rejected later because of the mocked build cache
+    expect(result.status).toEqual('rejected');
+    expect(result.message).toMatch(/different build cache ID/);
+  });
+
+  it('rejects a command that appends shell commands to the script', async () => {
+    await expect(executeAsync(createRequest('heft build ; rm -rf ~'))).rejects.toThrow(
+      "The command for example (_phase:build) does not match the worker's package.json"
+    );
+  });
+
+  it('rejects a command that does not match the custom parameters', async () => {
+    await expect(
+      executeAsync(createRequest('heft build --locale en; rm -rf ~', [{ longName: '--locale', value: 'en' }]))
+    ).rejects.toThrow("does not match the worker's package.json");
+  });
+
+  describe('custom parameter values that the shell would interpret', () => {
+    const originalPlatform: NodeJS.Platform = process.platform;
+
+    function setPlatform(platform: NodeJS.Platform): void {
+      Object.defineProperty(process, 'platform', { value: platform });
+    }
+
+    afterEach(() => {
+      setPlatform(originalPlatform);
+    });
+
+    async function expectValueToBeRejectedAsync(value: string): Promise<void> {
+      await expect(
+        executeAsync(createRequest(`heft build --locale ${value}`, [{ longName: '--locale', value }]))
+      ).rejects.toThrow(`The value ${JSON.stringify(value)} for "--locale" contains characters`);
+    }
+
+    async function expectValueToBeAcceptedAsync(value: string): Promise<void> {
+      const result: IRemoteOperationResultMessage = await executeAsync(
+        createRequest(`heft build --locale ${value}`, [{ longName: '--locale', value }])
+      );
+      expect(result.message).toMatch(/different build cache ID/);
+    }
+
+    it('rejects them on POSIX', async () => {
+      setPlatform('linux');
+
+      await expectValueToBeRejectedAsync('en; rm -rf ~');
+      await expectValueToBeRejectedAsync('$(whoami)');
+      await expectValueToBeRejectedAsync('`whoami`');
+      await expectValueToBeRejectedAsync('en us');
+      await expectValueToBeRejectedAsync("'en'");
+      await expectValueToBeRejectedAsync('~/locales');
+      await expectValueToBeRejectedAsync('C:\\locales');
+      await expectValueToBeRejectedAsync('');
+
+      await expectValueToBeAcceptedAsync('en-us');
+      await expectValueToBeAcceptedAsync('./locales/en_US.json');
+      await expectValueToBeAcceptedAsync('100%');
+    });
+
+    it('rejects them on Windows', async () => {
+      setPlatform('win32');
+
+      await expectValueToBeRejectedAsync('en & del /q *');
+      await expectValueToBeRejectedAsync('%USERPROFILE%');
+      await expectValueToBeRejectedAsync('!PATH!');
+      await expectValueToBeRejectedAsync('en^');
+      await expectValueToBeRejectedAsync('"en"');
+      await expectValueToBeRejectedAsync('en\nus');
+      await expectValueToBeRejectedAsync('100%');
+
+      await expectValueToBeAcceptedAsync('en-us');
+      await expectValueToBeAcceptedAsync('C:\\locales\\en_US.json');
+      await expectValueToBeAcceptedAsync('~/locales');
+    });
+  });
+
+  describe('results', () => {
+    beforeEach(() => {
+      jest
+        .spyOn(ShellOperationRunner.prototype, 'tryGetProjectBuildCacheAsync')
+        .mockResolvedValue({ cacheId: 'example/0123456789abcdef' } as ProjectBuildCache);
+    });
+
+    async function executeWithStatusAsync(
+      status: OperationStatus,
+      isCacheEntryWritten: boolean
+    ): Promise<IRemoteOperationResultMessage> {
+      jest.spyOn(ShellOperationRunner.prototype, 'executeAsync').mockResolvedValue(status);
+      jest
+        .spyOn(ShellOperationRunner.prototype, 'isCacheEntryWritten', 'get')
+        .mockReturnValue(isCacheEntryWritten);
+      return await executeAsync(createRequest('heft build '));
+    }
+
+    it('reports the status of an operation whose outputs were written to the build cache', async () => {
+      expect(await executeWithStatusAsync(OperationStatus.Success, true)).toEqual({
+        kind: 'result',
+        status: 'success'
+      });
+      expect(await executeWithStatusAsync(OperationStatus.Flaky, true)).toEqual({
+        kind: 'result',
+        status: 'flaky'
+      });
+      expect(await executeWithStatusAsync(OperationStatus.SuccessWithWarning, true)).toEqual({
+        kind: 'result',
+        status: 'warning'
+      });
+      expect(await executeWithStatusAsync(OperationStatus.FromCache, false)).toEqual({
+        kind: 'result',
+        status: 'success'
+      });
+    });
+
+    it('rejects an operation whose outputs were not written to the build cache', async () => {
+      expect(await executeWithStatusAsync(OperationStatus.SuccessWithWarning, false)).toEqual({
+        kind: 'result',
+        status: 'rejected',
+        message: 'The outputs were not written to the build cache (status SUCCESS WITH WARNINGS)'
+      });
+    });
+
+    it('reports a failed operation', async () => {
+      expect(await executeWithStatusAsync(OperationStatus.Failure, false)).toEqual({
+        kind: 'result',
+        status: 'failure',
+        message: 'The operation finished with status FAILURE'
+      });
+    });
+  });
+
+  it('rejects parameters that are not defined for the phase', async () => {
+    await expect(
+      executeAsync(createRequest('heft build --other-phase', [{ longName: '--other-phase' }]))
+    ).rejects.toThrow('The parameter "--other-phase" is not defined for the phase "_phase:build"');
+  });
+
+  it('rejects invalid parameter values', async () => {
+    await expect(
+      executeAsync(createRequest('heft build --flavor mint', [{ longName: '--flavor', value: 'mint' }]))
+    ).rejects.toThrow('The value "mint" is not one of the alternatives for "--flavor"');
+    await expect(
+      executeAsync(createRequest('heft build --production x', [{ longName: '--production', value: 'x' }]))
+    ).rejects.toThrow('The parameter "--production" has an invalid value');
+  });
+});
@@ -0,0 +1,130 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { StringBufferTerminalProvider, Terminal } from '@rushstack/node-core-library';
+import { CallbackWritable } from '@rushstack/terminal';
+import { CollatedTerminal } from '@rushstack/stream-collator';
+
+import type { RushConfiguration } from '../../../api/RushConfiguration';
+import type { RushConfigurationProject } from '../../../api/RushConfigurationProject';
+import type { IPhase } from '../../../api/CommandLineConfiguration';
+import type { ProjectBuildCache } from '../../buildCache/ProjectBuildCache';
+import type { ProjectChangeAnalyzer } from '../../ProjectChangeAnalyzer';
+import type { IRemoteOperationExecutionResult, RemoteOperationClient } from '../RemoteOperationClient';
+import type { RemoteOperationResultStatus } from '../RemoteOperationProtocol';
+import { RemoteOperationRunner } from '../RemoteOperationRunner';
+import { IExecuteCommandResult, ShellOperationRunner } from '../ShellOperationRunner';
+import { OperationStatus } from '../OperationStatus';
+
+describe(RemoteOperationRunner.name, () => {
+  let executeRemotelyMock: jest.Mock;
+  let executeLocallyMock: jest.SpyInstance;
+  let runner: RemoteOperationRunner;
+
+  beforeEach(() => {
+    executeRemotelyMock = jest.fn();
+    executeLocallyMock = jest
+      .spyOn(
+        ShellOperationRunner.prototype as unknown as { _executeCommandOnceAsync: () => Promise<unknown> },
+        '_executeCommandOnceAsync'
+      )
+      .mockResolvedValue({ status: OperationStatus.Success, isCacheEntryWritten: false });
+
+    runner = new RemoteOperationRunner({
+      rushProject: { packageName: 'example' } as RushConfigurationProject,
+      rushConfiguration: {} as RushConfiguration,
+      buildCacheConfiguration: undefined,
+      commandToRun: 'heft build',
+      isIncrementalBuildAllowed: false,
+      projectChangeAnalyzer: {} as ProjectChangeAnalyzer,
+      displayName: 'example',
+      phase: {
+        name: '_phase:build',
+        logFilenameIdentifier: '_phase_build',
+        retryPolicy: { maxRetries: 2, retryableExitCodes: undefined, retryableOutputPatterns: undefined }
+      } as IPhase,
+      selectedPhases: [],
+      remoteOperationClient: { executeAsync: executeRemotelyMock } as unknown as RemoteOperationClient,
+      customParameters: [],
+      dependencies: []
+    });
+
+    jest
+      .spyOn(
+        runner as unknown as { _tryGetProjectBuildCacheAsync: () => Promise<unknown> },
+        '_tryGetProjectBuildCacheAsync'
+      )
+      .mockResolvedValue({
+        cacheId: 'example/0123456789abcdef',
+        tryRestoreFromCacheAsync: async () => true
+      } as unknown as ProjectBuildCache);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  async function executeCommandAsync(): Promise<IExecuteCommandResult> {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return await (runner as any)._executeCommandAsync({
+      terminal: new Terminal(new StringBufferTerminalProvider()),
+      collatedTerminal: new CollatedTerminal(
+        new CallbackWritable({
+          onWriteChunk: () => {
+            /* no-op */
+          }
+        })
+      ),
+      trackedFiles: undefined
+    });
+  }
+
+  function mockRemoteResult(status: RemoteOperationResultStatus, message?: string): void {
+    const result: IRemoteOperationExecutionResult = {
+      kind: 'result',
+      status,
+      message,
+      workerUrl: 'http://worker'
+    };
+    executeRemotelyMock.mockResolvedValue(result);
+  }
+
+  it('maps the status that the worker reports', async () => {
+    mockRemoteResult('success');
+    expect(await executeCommandAsync()).toEqual({
+      status: OperationStatus.Success,
+      isCacheEntryWritten: true
+    });
+    mockRemoteResult('flaky');
+    expect(await executeCommandAsync()).toEqual({ status: OperationStatus.Flaky, isCacheEntryWritten: true });
+    mockRemoteResult('warning');
+    expect(await executeCommandAsync()).toEqual({
+      status: OperationStatus.SuccessWithWarning,
+      isCacheEntryWritten: true
+    });
+
+    expect(executeLocallyMock).not.toHaveBeenCalled();
+  });
+
+  it('does not retry a command that failed on the worker', async () => {
+    mockRemoteResult('failure', 'Returned error code: 1');
+
+    await expect(executeCommandAsync()).rejects.toThrow('Returned error code: 1');
+    expect(executeRemotelyMock).toHaveBeenCalledTimes(1);
+    expect(executeLocallyMock).not.toHaveBeenCalled();
+  });
+
+  it('runs the command locally, with retries, if the worker rejects it', async () => {
+    mockRemoteResult('rejected', 'different checkout');
+    executeLocallyMock
+      .mockRejectedValueOnce(new Error('Returned error code: 1'))
+      .mockResolvedValueOnce({ status: OperationStatus.Success, isCacheEntryWritten: false });
+
+    expect(await executeCommandAsync()).toEqual({
+      status: OperationStatus.Flaky,
+      isCacheEntryWritten: false
+    });
+    expect(executeRemotelyMock).toHaveBeenCalledTimes(1);
+    expect(executeLocallyMock).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,169 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { StringBufferTerminalProvider, Terminal } from '@rushstack/node-core-library';
+
+import { IRemoteOperationExecutor, RemoteOperationWorker } from '../RemoteOperationWorker';
+import { IRemoteOperationExecutionResult, RemoteOperationClient } from '../RemoteOperationClient';
+import {
+  IRemoteOperationLogMessage,
+  IRemoteOperationRequest,
+  IRemoteOperationResultMessage,
+  RemoteOperationMessageParser,
+  REMOTE_OPERATION_PROTOCOL_VERSION
+} from '../RemoteOperationProtocol';
+
+function createRequest(projectName: string): IRemoteOperationRequest {
+  return {
+    protocolVersion: REMOTE_OPERATION_PROTOCOL_VERSION,
+    projectName,
+    phaseName: '_phase:build',
+    customParameters: [],
+    commandToRun: 'heft build ',
+    cacheId: `${projectName}/0123456789abcdef`,
+    dependencies: []
+  };
+}
+
+describe(RemoteOperationMessageParser.name, () => {
+  it('parses messages that are split across chunks', () => {
+    const parser: RemoteOperationMessageParser = new RemoteOperationMessageParser();
+    expect(parser.parseChunk('{"kind":"log","stream":"stdout","text":"a\\n"}\n{"kind":"res')).toEqual([
+      { kind: 'log', stream: 'stdout', text: 'a\n' }
+    ]);
+    expect(parser.parseChunk('ult","status":"success"}\n')).toEqual([{ kind: 'result', status: 'success' }]);
+  });
+});
+
+describe(RemoteOperationWorker.name, () => {
+  let worker: RemoteOperationWorker | undefined;
+
+  afterEach(async () => {
+    const workerToClose: RemoteOperationWorker | undefined = worker;
+    worker = undefined;
+    await workerToClose?.closeAsync();
+  });
+
+  function createWorker(executor: IRemoteOperationExecutor, parallelism: number): RemoteOperationWorker {
+    return new RemoteOperationWorker({
+      executor,
+      parallelism,
+      terminal: new Terminal(new StringBufferTerminalProvider())
+    });
+  }
+
+  async function startWorkerAsync(executor: IRemoteOperationExecutor, parallelism: number): Promise<string> {
+    worker = createWorker(executor, parallelism);
+    return await worker.listenAsync(0, '127.0.0.1');
+  }
+
+  it('streams logs and returns the result', async () => {
+    const url: string = await startWorkerAsync(
+      {
+        executeAsync: async (
+          request: IRemoteOperationRequest,
+          writeLog: (message: IRemoteOperationLogMessage) => void
+        ): Promise<IRemoteOperationResultMessage> => {
+          writeLog({ kind: 'log', stream: 'stdout', text: `Building ${request.projectName}\n` });
+          writeLog({ kind: 'log', stream: 'stderr', text: 'Warning\n' });
+          return { kind: 'result', status: 'warning' };
+        }
+      },
+      1
+    );
+
+    const client: RemoteOperationClient = new RemoteOperationClient([url]);
+    const logs: IRemoteOperationLogMessage[] = [];
+    const result: IRemoteOperationExecutionResult = await client.executeAsync(
+      createRequest('a'),
+      (message: IRemoteOperationLogMessage) => logs.push(message)
+    );
+
+    expect(result).toEqual({ kind: 'result', status: 'warning', workerUrl: url });
+    expect(logs).toEqual([
+      { kind: 'log', stream: 'stdout', text: 'Building a\n' },
+      { kind: 'log', stream: 'stderr', text: 'Warning\n' }
+    ]);
+  });
+
+  it('rejects requests if the executor throws', async () => {
+    const url: string = await startWorkerAsync(
+      {
+        executeAsync: async (): Promise<IRemoteOperationResultMessage> => {
+          throw new Error('The project "a" does not exist');
+        }
+      },
+      1
+    );
+
+    const client: RemoteOperationClient = new RemoteOperationClient([url]);
+    const result: IRemoteOperationExecutionResult = await client.executeAsync(createRequest('a'), () => {
+      // Nothing is logged
+    });
+    expect(result.status).toEqual('rejected');
+    expect(result.message).toEqual('The project "a" does not exist');
+  });
+
+  it('rejects requests with a different protocol version', async () => {
+    const executeAsync: jest.Mock = jest.fn();
+    const url: string = await startWorkerAsync({ executeAsync }, 1);
+
+    const client: RemoteOperationClient = new RemoteOperationClient([url]);
+    const result: IRemoteOperationExecutionResult = await client.executeAsync(
+      { ...createRequest('a'), protocolVersion: REMOTE_OPERATION_PROTOCOL_VERSION + 1 },
+      () => {
+        // Nothing is logged
+      }
+    );
+    expect(result.status).toEqual('rejected');
+    expect(executeAsync).not.toHaveBeenCalled();
+  });
+
+  it('limits the number of operations that execute at the same time', async () => {
+    let activeCount: number = 0;
+    let maxActiveCount: number = 0;
+    const url: string = await startWorkerAsync(
+      {
+        executeAsync: async (): Promise<IRemoteOperationResultMessage> => {
+          activeCount++;
+          maxActiveCount = Math.max(maxActiveCount, activeCount);
+          await new Promise<void>((resolve: () => void) => setTimeout(resolve, 20));
+          activeCount--;
+          return { kind: 'result', status: 'success' };
+        }
+      },
+      2
+    );
+
+    const client: RemoteOperationClient = new RemoteOperationClient([url]);
+    const results: IRemoteOperationExecutionResult[] = await Promise.all(
+      ['a', 'b', 'c', 'd', 'e'].map((projectName: string) =>
+        client.executeAsync(createRequest(projectName), () => {
+          // Nothing is logged
+        })
+      )
+    );
+
+    expect(results.map((result: IRemoteOperationExecutionResult) => result.status)).toEqual([
+      'success',
+      'success',
+      'success',
+      'success',
+      'success'
+    ]);
+    expect(maxActiveCount).toEqual(2);
+  });
+
+  it('reports workers that cannot be reached', async () => {
+    const stoppedWorker: RemoteOperationWorker = createWorker({ executeAsync: jest.fn() }, 1);
+    const url: string = await stoppedWorker.listenAsync(0, '127.0.0.1');
+    await stoppedWorker.closeAsync();
+
+    const client: RemoteOperationClient = new RemoteOperationClient([url]);
+    await expect(
+      client.executeAsync(createRequest('a'), () => {
+        // Nothing is logged
+      })
+    ).rejects.toThrow(`Unable to reach the remote worker ${url}`);
+  });
+});
@@ -1,7 +1,22 @@
 // Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
 // See LICENSE in the project root for license information.
 
-import { convertSlashesForWindows } from '../ShellOperationRunner';
+import { StringBufferTerminalProvider, Terminal } from '@rushstack/node-core-library';
+import { CallbackWritable, TerminalChunkKind } from '@rushstack/terminal';
+import { CollatedTerminal } from '@rushstack/stream-collator';
+
+import type { RushConfiguration } from '../../../api/RushConfiguration';
+import type { RushConfigurationProject } from '../../../api/RushConfigurationProject';
+import type { IPhase, IPhaseRetryPolicy } from '../../../api/CommandLineConfiguration';
+import type { ProjectChangeAnalyzer } from '../../ProjectChangeAnalyzer';
+import {
+  CommandExitCodeError,
+  convertSlashesForWindows,
+  IExecuteCommandContext,
+  IExecuteCommandResult,
+  ShellOperationRunner
+} from '../ShellOperationRunner';
+import { OperationStatus } from '../OperationStatus';
 
 describe(convertSlashesForWindows.name, () => {
   it('converted inputs', () => {
@@ -21,3 +36,145 @@ describe(convertSlashesForWindows.name, () => {
     expect(convertSlashesForWindows('"/blah/bleep"')).toEqual('"/blah/bleep"');
   });
 });
+
+describe(ShellOperationRunner.name, () => {
+  describe('retries', () => {
+    interface IAttempt {
+      output?: string;
+      exitCode?: number;
+      status?: OperationStatus;
+    }
+
+    let terminalProvider: StringBufferTerminalProvider;
+    let terminal: Terminal;
+
+    class TestShellOperationRunner extends ShellOperationRunner {
+      public readonly attempts: IAttempt[];
+      public attemptCount: number = 0;
+
+      public constructor(retryPolicy: IPhaseRetryPolicy | undefined, attempts: IAttempt[]) {
+        super({
+          rushProject: { packageName: 'example' } as RushConfigurationProject,
+          rushConfiguration: {} as RushConfiguration,
+          buildCacheConfiguration: undefined,
+          commandToRun: 'heft build',
+          isIncrementalBuildAllowed: false,
+          projectChangeAnalyzer: {} as ProjectChangeAnalyzer,
+          displayName: 'example',
+          phase: {
+            name: '_phase:build',
+            logFilenameIdentifier: '_phase_build',
+            retryPolicy
+          } as IPhase,
+          selectedPhases: []
+        });
+        this.attempts = attempts;
+      }
+
+      public async runAsync(): Promise<IExecuteCommandResult> {
+        const collatedTerminal: CollatedTerminal = new CollatedTerminal(
+          new CallbackWritable({
+            onWriteChunk: () => {
+              /* no-op */
+            }
+          })
+        );
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        return await (this as any)._executeCommandAsync({
+          terminal,
+          collatedTerminal,
+          trackedFiles: undefined
+        });
+      }
+
+      protected async _executeCommandOnceAsync(
+        context: IExecuteCommandContext
+      ): Promise<IExecuteCommandResult> {
+        const { output, exitCode, status } = this.attempts[this.attemptCount++];
+        if (output) {
+          context.collatedTerminal.writeChunk({ text: output, kind: TerminalChunkKind.Stderr });
+        }
+
+        if (exitCode !== undefined) {
+          throw new CommandExitCodeError(exitCode);
+        }
+
+        return { status: status || OperationStatus.Success, isCacheEntryWritten: false };
+      }
+    }
+
+    beforeEach(() => {
+      terminalProvider = new StringBufferTerminalProvider();
+      terminal = new Terminal(terminalProvider);
+    });
+
+    function createRetryPolicy(options: Partial<IPhaseRetryPolicy>): IPhaseRetryPolicy {
+      return {
+        maxRetries: 2,
+        retryableExitCodes: undefined,
+        retryableOutputPatterns: undefined,
+        ...options
+      };
+    }
+
+    it('does not retry if the phase has no retry policy', async () => {
+      const runner: TestShellOperationRunner = new TestShellOperationRunner(undefined, [{ exitCode: 1 }, {}]);
+
+      await expect(runner.runAsync()).rejects.toThrow('Returned error code: 1');
+      expect(runner.attemptCount).toEqual(1);
+    });
+
+    it('reports a command that succeeds after a retryable exit code as flaky', async () => {
+      const runner: TestShellOperationRunner = new TestShellOperationRunner(
+        createRetryPolicy({ retryableExitCodes: new Set([3]) }),
+        [{ exitCode: 3 }, {}]
+      );
+
+      expect((await runner.runAsync()).status).toEqual(OperationStatus.Flaky);
+      expect(runner.attemptCount).toEqual(2);
+      expect(terminalProvider.getWarningOutput()).toContain('Attempt 1 of 3 failed');
+    });
+
+    it('retries a failure whose output matches a retryable output pattern', async () => {
+      const runner: TestShellOperationRunner = new TestShellOperationRunner(
+        createRetryPolicy({ retryableOutputPatterns: [/ECONNRESET/] }),
+        [{ exitCode: 1, output: 'Error: read ECONNRESET\n' }, {}]
+      );
+
+      expect((await runner.runAsync()).status).toEqual(OperationStatus.Flaky);
+      expect(runner.attemptCount).toEqual(2);
+    });
+
+    it('does not retry a failure that does not match the retry policy', async () => {
+      const runner: TestShellOperationRunner = new TestShellOperationRunner(
+        createRetryPolicy({ retryableExitCodes: new Set([3]), retryableOutputPatterns: [/ECONNRESET/] }),
+        [{ exitCode: 1, output: 'Error: Cannot find module\n' }, {}]
+      );
+
+      await expect(runner.runAsync()).rejects.toThrow('Returned error code: 1');
+      expect(runner.attemptCount).toEqual(1);
+    });
+
+    it('gives up after the maximum number of attempts', async () => {
+      const runner: TestShellOperationRunner = new TestShellOperationRunner(createRetryPolicy({}), [
+        { exitCode: 1 },
+        { exitCode: 2 },
+        { exitCode: 3 },
+        {}
+      ]);
+
+      await expect(runner.runAsync()).rejects.toThrow('Returned error code: 3');
+      expect(runner.attemptCount).toEqual(3);
+    });
+
+    it('keeps the warnings of a retried attempt that succeeds with warnings', async () => {
+      const runner: TestShellOperationRunner = new TestShellOperationRunner(createRetryPolicy({}), [
+        { exitCode: 1 },
+        { status: OperationStatus.SuccessWithWarning }
+      ]);
+
+      expect((await runner.runAsync()).status).toEqual(OperationStatus.SuccessWithWarning);
+      expect(terminalProvider.getWarningOutput()).toContain('Attempt 1 of 3 failed');
+    });
+  });
+});
@@ -0,0 +1,415 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import type {
+  IPnpmShrinkwrapDependencyYaml,
+  IPnpmShrinkwrapImporterYaml,
+  PnpmShrinkwrapFile
+} from './PnpmShrinkwrapFile';
+
+/**
+ * Part of the "rush lockfile-diff --format json" output. Represents a package that changed.
+ */
+export interface ILockfileDiffPackageJson {
+  packageName: string;
+
+  /**
+   * The version in the old lockfile. Undefined if the package was added.
+   */
+  oldVersion?: string;
+
+  /**
+   * The version in the new lockfile. Undefined if the package was removed.
+   */
+  newVersion?: string;
+
+  /**
+   * For transitive dependencies, the direct dependencies of the project that depend on the package,
+   * which are the reason why the package changed.
+   */
+  causedBy?: string[];
+}
+
+/**
+ * Part of the "rush lockfile-diff --format json" output. Represents the changes for a project.
+ */
+export interface ILockfileDiffProjectJson {
+  /**
+   * The name of the Rush project, or the importer key if the importer does not belong to a project.
+   */
+  projectName: string;
+
+  addedDependencies: ILockfileDiffPackageJson[];
+  removedDependencies: ILockfileDiffPackageJson[];
+
+  /**
+   * Direct dependencies whose version was upgraded or downgraded.
+   */
+  updatedDependencies: ILockfileDiffPackageJson[];
+
+  addedTransitiveDependencies: ILockfileDiffPackageJson[];
+  removedTransitiveDependencies: ILockfileDiffPackageJson[];
+
+  /**
+   * Dependencies whose version did not change, but whose tarball has a different integrity hash.
+   */
+  changedIntegrities: ILockfileDiffPackageJson[];
+}
+
+/**
+ * The "rush lockfile-diff --format json" output.
+ */
+export interface ILockfileDiffJson {
+  /**
+   * The Git revision of the old lockfile.
+   */
+  oldRevision: string;
+
+  /**
+   * The projects whose dependencies changed, sorted by name.
+   */
+  projects: ILockfileDiffProjectJson[];
+}
+
+/**
+ * A package from the lockfile. The version does not include the peer dependency suffix.
+ */
+interface IResolvedPackage {
+  packageName: string;
+  version: string;
+  integrity: string | undefined;
+}
+
+interface IImporterDependencies {
+  direct: Map<string, IResolvedPackage>;
+
+  /**
+   * Includes the direct dependencies, keyed by "name@version".
+   */
+  transitive: Map<string, { resolvedPackage: IResolvedPackage; causedBy: Set<string> }>;
+}
+
+const EMPTY_IMPORTER_DEPENDENCIES: IImporterDependencies = { direct: new Map(), transitive: new Map() };
+
+/**
+ * Summarizes the changes between two versions of a PNPM lockfile for each project.
+ */
+export class PnpmLockfileDiff {
+  /**
+   * Compares two lockfiles.
+   *
+   * @param oldShrinkwrapFile - the old lockfile, or undefined if it did not exist
+   * @param newShrinkwrapFile - the new lockfile, or undefined if it was deleted
+   * @param projectNamesByImporterKey - maps the importer keys (or the temp project names, if the lockfile
+   * does not use workspaces) to Rush project names
+   */
+  public static compare(
+    oldRevision: string,
+    oldShrinkwrapFile: PnpmShrinkwrapFile | undefined,
+    newShrinkwrapFile: PnpmShrinkwrapFile | undefined,
+    projectNamesByImporterKey: ReadonlyMap<string, string>
+  ): ILockfileDiffJson {
+    const oldImporters: Map<string, IImporterDependencies> =
+      PnpmLockfileDiff._getImporters(oldShrinkwrapFile);
+    const newImporters: Map<string, IImporterDependencies> =
+      PnpmLockfileDiff._getImporters(newShrinkwrapFile);
+
+    const projects: ILockfileDiffProjectJson[] = [];
+    for (const importerKey of new Set([...oldImporters.keys(), ...newImporters.keys()])) {
+      const projectDiff: ILockfileDiffProjectJson = PnpmLockfileDiff._compareImporter(
+        projectNamesByImporterKey.get(importerKey) || importerKey,
+        oldImporters.get(importerKey) || EMPTY_IMPORTER_DEPENDENCIES,
+        newImporters.get(importerKey) || EMPTY_IMPORTER_DEPENDENCIES
+      );
+
+      const hasChanges: boolean =
+        projectDiff.addedDependencies.length > 0 ||
+        projectDiff.removedDependencies.length > 0 ||
+        projectDiff.updatedDependencies.length > 0 ||
+        projectDiff.addedTransitiveDependencies.length > 0 ||
+        projectDiff.removedTransitiveDependencies.length > 0 ||
+        projectDiff.changedIntegrities.length > 0;
+      if (hasChanges) {
+        projects.push(projectDiff);
+      }
+    }
+
+    projects.sort((a: ILockfileDiffProjectJson, b: ILockfileDiffProjectJson) =>
+      a.projectName.localeCompare(b.projectName)
+    );
+    return { oldRevision, projects };
+  }
+
+  /**
+   * Formats the output of {@link PnpmLockfileDiff.compare} as Markdown, for example for a pull request comment.
+   */
+  public static toMarkdown(diff: ILockfileDiffJson): string {
+    const lines: string[] = [`# Lockfile changes since ${diff.oldRevision}`, ''];
+    if (diff.projects.length === 0) {
+      lines.push('The dependencies of the projects did not change.', '');
+    }
+
+    for (const project of diff.projects) {
+      lines.push(`## ${project.projectName}`, '');
+      PnpmLockfileDiff._appendMarkdownSection(lines, 'Added dependencies', project.addedDependencies);
+      PnpmLockfileDiff._appendMarkdownSection(lines, 'Removed dependencies', project.removedDependencies);
+      PnpmLockfileDiff._appendMarkdownSection(lines, 'Updated dependencies', project.updatedDependencies);
+      PnpmLockfileDiff._appendMarkdownSection(
+        lines,
+        'Added transitive dependencies',
+        project.addedTransitiveDependencies
+      );
+      PnpmLockfileDiff._appendMarkdownSection(
+        lines,
+        'Removed transitive dependencies',
+        project.removedTransitiveDependencies
+      );
+      PnpmLockfileDiff._appendMarkdownSection(lines, 'Changed integrity hashes', project.changedIntegrities);
+    }
+
+    return lines.join('\n');
+  }
+
+  private static _appendMarkdownSection(
+    lines: string[],
+    heading: string,
+    packages: ILockfileDiffPackageJson[]
+  ): void {
+    if (packages.length === 0) {
+      return;
+    }
+
+    lines.push(`### ${heading}`, '');
+    for (const { packageName, oldVersion, newVersion, causedBy } of packages) {
+      let line: string = `- \`${packageName}\``;
+      if (oldVersion !== undefined && newVersion !== undefined && oldVersion !== newVersion) {
+        line += ` ${oldVersion} -> ${newVersion}`;
+      } else {
+        line += ` ${newVersion ?? oldVersion}`;
+      }
+      if (causedBy && causedBy.length > 0) {
+        line += ` (via ${causedBy.map((name: string) => `\`${name}\``).join(', ')})`;
+      }
+      lines.push(line);
+    }
+    lines.push('');
+  }
+
+  private static _compareImporter(
+    projectName: string,
+    oldDependencies: IImporterDependencies,
+    newDependencies: IImporterDependencies
+  ): ILockfileDiffProjectJson {
+    const projectDiff: ILockfileDiffProjectJson = {
+      projectName,
+      addedDependencies: [],
+      removedDependencies: [],
+      updatedDependencies: [],
+      addedTransitiveDependencies: [],
+      removedTransitiveDependencies: [],
+      changedIntegrities: []
+    };
+
+    for (const [dependencyName, newPackage] of newDependencies.direct) {
+      const oldPackage: IResolvedPackage | undefined = oldDependencies.direct.get(dependencyName);
+      if (!oldPackage) {
+        projectDiff.addedDependencies.push({ packageName: dependencyName, newVersion: newPackage.version });
+      } else if (oldPackage.version !== newPackage.version) {
+        projectDiff.updatedDependencies.push({
+          packageName: dependencyName,
+          oldVersion: oldPackage.version,
+          newVersion: newPackage.version
+        });
+      }
+    }
+    for (const [dependencyName, oldPackage] of oldDependencies.direct) {
+      if (!newDependencies.direct.has(dependencyName)) {
+        projectDiff.removedDependencies.push({ packageName: dependencyName, oldVersion: oldPackage.version });
+      }
+    }
+
+    const directPackageIds: Set<string> = new Set();
+    for (const { direct } of [oldDependencies, newDependencies]) {
+      for (const resolvedPackage of direct.values()) {
+        directPackageIds.add(PnpmLockfileDiff._getPackageId(resolvedPackage));
+      }
+    }
+
+    for (const [packageId, { resolvedPackage, causedBy }] of newDependencies.transitive) {
+      const oldEntry: { resolvedPackage: IResolvedPackage } | undefined =
+        oldDependencies.transitive.get(packageId);
+      if (!oldEntry) {
+        if (!directPackageIds.has(packageId)) {
+          projectDiff.addedTransitiveDependencies.push({
+            packageName: resolvedPackage.packageName,
+            newVersion: resolvedPackage.version,
+            causedBy: Array.from(causedBy).sort()
+          });
+        }
+      } else if (oldEntry.resolvedPackage.integrity !== resolvedPackage.integrity) {
+        projectDiff.changedIntegrities.push({
+          packageName: resolvedPackage.packageName,
+          oldVersion: resolvedPackage.version,
+          newVersion: resolvedPackage.version,
+          causedBy: Array.from(causedBy).sort()
+        });
+      }
+    }
+    for (const [packageId, { resolvedPackage, causedBy }] of oldDependencies.transitive) {
+      if (!newDependencies.transitive.has(packageId) && !directPackageIds.has(packageId)) {
+        projectDiff.removedTransitiveDependencies.push({
+          packageName: resolvedPackage.packageName,
+          oldVersion: resolvedPackage.version,
+          causedBy: Array.from(causedBy).sort()
+        });
+      }
+    }
+
+    for (const packages of Object.values(projectDiff)) {
+      if (Array.isArray(packages)) {
+        packages.sort(
+          (a: ILockfileDiffPackageJson, b: ILockfileDiffPackageJson) =>
+            a.packageName.localeCompare(b.packageName) ||
+            (a.newVersion ?? a.oldVersion ?? '').localeCompare(b.newVersion ?? b.oldVersion ?? '')
+        );
+      }
+    }
+
+    return projectDiff;
+  }
+
+  /**
+   * Collects the direct and transitive dependencies of each importer. If the lockfile does not use workspaces,
+   * each Rush temp project is treated as an importer.
+   */
+  private static _getImporters(
+    shrinkwrapFile: PnpmShrinkwrapFile | undefined
+  ): Map<string, IImporterDependencies> {
+    const importers: Map<string, IImporterDependencies> = new Map();
+    if (!shrinkwrapFile) {
+      return importers;
+    }
+
+    if (shrinkwrapFile.isWorkspaceCompatible) {
+      for (const importerKey of shrinkwrapFile.getImporterKeys()) {
+        const importer: IPnpmShrinkwrapImporterYaml = shrinkwrapFile.getImporter(importerKey)!;
+        importers.set(
+          importerKey,
+          PnpmLockfileDiff._getImporterDependencies(shrinkwrapFile, [
+            importer.dependencies,
+            importer.devDependencies,
+            importer.optionalDependencies
+          ])
+        );
+      }
+    } else {
+      for (const [tempProjectName, dependencyKey] of shrinkwrapFile.dependencies) {
+        const tempProject: IPnpmShrinkwrapDependencyYaml | undefined =
+          shrinkwrapFile.packages.get(dependencyKey);
+        if (tempProject) {
+          importers.set(
+            tempProjectName,
+            PnpmLockfileDiff._getImporterDependencies(shrinkwrapFile, [
+              tempProject.dependencies,
+              tempProject.optionalDependencies
+            ])
+          );
+        }
+      }
+    }
+
+    return importers;
+  }
+
+  private static _getImporterDependencies(
+    shrinkwrapFile: PnpmShrinkwrapFile,
+    dependencyMaps: ({ [dependencyName: string]: string } | undefined)[]
+  ): IImporterDependencies {
+    const result: IImporterDependencies = { direct: new Map(), transitive: new Map() };
+
+    for (const dependencyMap of dependencyMaps) {
+      for (const [dependencyName, value] of Object.entries(dependencyMap || {})) {
+        const dependencyKey: string | undefined = PnpmLockfileDiff._getDependencyKey(dependencyName, value);
+        if (!dependencyKey) {
+          // Links to other workspace projects are not external dependencies
+          continue;
+        }
+
+        const resolvedPackage: IResolvedPackage = PnpmLockfileDiff._resolvePackage(
+          shrinkwrapFile,
+          dependencyName,
+          dependencyKey
+        );
+        result.direct.set(dependencyName, resolvedPackage);
+
+        // Walk the dependencies of this direct dependency, recording that it caused each package
+        const visitedKeys: Set<string> = new Set([dependencyKey]);
+        const queue: [string, IResolvedPackage][] = [[dependencyKey, resolvedPackage]];
+        for (const [currentKey, currentPackage] of queue) {
+          const packageId: string = PnpmLockfileDiff._getPackageId(currentPackage);
+          let entry: { resolvedPackage: IResolvedPackage; causedBy: Set<string> } | undefined =
+            result.transitive.get(packageId);
+          if (!entry) {
+            entry = { resolvedPackage: currentPackage, causedBy: new Set() };
+            result.transitive.set(packageId, entry);
+          }
+          entry.causedBy.add(dependencyName);
+
+          const shrinkwrapEntry: IPnpmShrinkwrapDependencyYaml | undefined =
+            shrinkwrapFile.packages.get(currentKey);
+          for (const childMap of [shrinkwrapEntry?.dependencies, shrinkwrapEntry?.optionalDependencies]) {
+            for (const [childName, childValue] of Object.entries(childMap || {})) {
+              const childKey: string | undefined = PnpmLockfileDiff._getDependencyKey(childName, childValue);
+              if (childKey && !visitedKeys.has(childKey)) {
+                visitedKeys.add(childKey);
+                queue.push([childKey, PnpmLockfileDiff._resolvePackage(shrinkwrapFile, childName, childKey)]);
+              }
+            }
+          }
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Converts a version from the lockfile into the key of the "packages" section.
+   *
+   * @example
+   * "1.2.3_react@17.0.2"        --> "/example/1.2.3_react@17.0.2"
+   * "/other-package/1.2.3"      --> "/other-package/1.2.3" (an alias)
+   * "github.com/abc/def/188ed6" --> "github.com/abc/def/188ed6"
+   * "link:../library"           --> undefined
+   */
+  private static _getDependencyKey(dependencyName: string, value: string): string | undefined {
+    if (value.startsWith('link:')) {
+      return undefined;
+    }
+    if (value.startsWith('/') || value.includes('/') || /^\w+:/.test(value)) {
+      return value;
+    }
+    return `/${dependencyName}/${value}`;
+  }
+
+  private static _resolvePackage(
+    shrinkwrapFile: PnpmShrinkwrapFile,
+    dependencyName: string,
+    dependencyKey: string
+  ): IResolvedPackage {
+    const integrity: string | undefined = shrinkwrapFile.packages.get(dependencyKey)?.resolution?.integrity;
+
+    // Example: "/@scope/example/1.4.0_react@16.14.0" --> "@scope/example", "1.4.0"
+    const match: RegExpExecArray | null = /^\/((?:@[^\/]+\/)?[^\/]+)\/([^\/_]+)/.exec(dependencyKey);
+    if (match) {
+      return { packageName: match[1], version: match[2], integrity };
+    }
+
+    // Tarball and Git dependencies are identified by their key
+    return { packageName: dependencyName, version: dependencyKey, integrity };
+  }
+
+  private static _getPackageId(resolvedPackage: IResolvedPackage): string {
+    return `${resolvedPackage.packageName}@${resolvedPackage.version}`;
+  }
+}
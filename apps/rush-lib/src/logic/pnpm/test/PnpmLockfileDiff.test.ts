@@ -0,0 +1,162 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { ILockfileDiffJson, PnpmLockfileDiff } from '../PnpmLockfileDiff';
+import { PnpmShrinkwrapFile } from '../PnpmShrinkwrapFile';
+
+const OLD_SHRINKWRAP_YAML: string = `lockfileVersion: 5.3
+importers:
+  .:
+    specifiers: {}
+  ../../apps/app1:
+    specifiers:
+      library1: workspace:*
+      react: ~16.14.0
+      left-pad: ^1.0.0
+    dependencies:
+      library1: link:../../libraries/library1
+      react: 16.14.0
+      left-pad: 1.0.0
+  ../../libraries/library1:
+    specifiers:
+      lodash: ^4.17.0
+    devDependencies:
+      lodash: 4.17.20
+packages:
+  /react/16.14.0:
+    resolution: {integrity: sha512-react16==}
+    dependencies:
+      loose-envify: 1.4.0
+      object-assign: 4.1.1
+  /loose-envify/1.4.0:
+    resolution: {integrity: sha512-looseenvify==}
+    dependencies:
+      js-tokens: 4.0.0
+  /js-tokens/4.0.0:
+    resolution: {integrity: sha512-jstokens==}
+  /object-assign/4.1.1:
+    resolution: {integrity: sha512-objectassign==}
+  /left-pad/1.0.0:
+    resolution: {integrity: sha512-leftpad==}
+  /lodash/4.17.20:
+    resolution: {integrity: sha512-lodash==}
+`;
+
+const NEW_SHRINKWRAP_YAML: string = `lockfileVersion: 5.3
+importers:
+  .:
+    specifiers: {}
+  ../../apps/app1:
+    specifiers:
+      library1: workspace:*
+      react: ~17.0.2
+      '@scope/widgets': ^2.0.0
+    dependencies:
+      library1: link:../../libraries/library1
+      react: 17.0.2
+      '@scope/widgets': 2.0.0_react@17.0.2
+  ../../libraries/library1:
+    specifiers:
+      lodash: ^4.17.0
+    devDependencies:
+      lodash: 4.17.20
+packages:
+  /react/17.0.2:
+    resolution: {integrity: sha512-react17==}
+    dependencies:
+      loose-envify: 1.4.0
+      object-assign: 4.1.1
+  /loose-envify/1.4.0:
+    resolution: {integrity: sha512-looseenvify==}
+    dependencies:
+      js-tokens: 4.0.0
+  /js-tokens/4.0.0:
+    resolution: {integrity: sha512-jstokens==}
+  /object-assign/4.1.1:
+    resolution: {integrity: sha512-objectassign==}
+  /@scope/widgets/2.0.0_react@17.0.2:
+    resolution: {integrity: sha512-widgets==}
+    dependencies:
+      classnames: 2.3.1
+      object-assign: 4.1.1
+    peerDependencies:
+      react: '*'
+  /classnames/2.3.1:
+    resolution: {integrity: sha512-classnames==}
+  /lodash/4.17.20:
+    resolution: {integrity: sha512-lodash-republished==}
+`;
+
+const PROJECT_NAMES_BY_IMPORTER_KEY: Map<string, string> = new Map([
+  ['../../apps/app1', 'app1'],
+  ['../../libraries/library1', 'library1']
+]);
+
+describe(PnpmLockfileDiff.name, () => {
+  it('summarizes the changes for each project', () => {
+    const diff: ILockfileDiffJson = PnpmLockfileDiff.compare(
+      'abc123',
+      PnpmShrinkwrapFile.loadFromString(OLD_SHRINKWRAP_YAML),
+      PnpmShrinkwrapFile.loadFromString(NEW_SHRINKWRAP_YAML),
+      PROJECT_NAMES_BY_IMPORTER_KEY
+    );
+
+    expect(diff).toEqual({
+      oldRevision: 'abc123',
+      projects: [
+        {
+          projectName: 'app1',
+          addedDependencies: [{ packageName: '@scope/widgets', newVersion: '2.0.0' }],
+          removedDependencies: [{ packageName: 'left-pad', oldVersion: '1.0.0' }],
+          updatedDependencies: [{ packageName: 'react', oldVersion: '16.14.0', newVersion: '17.0.2' }],
+          addedTransitiveDependencies: [
+            { packageName: 'classnames', newVersion: '2.3.1', causedBy: ['@scope/widgets'] }
+          ],
+          removedTransitiveDependencies: [],
+          changedIntegrities: []
+        },
+        {
+          projectName: 'library1',
+          addedDependencies: [],
+          removedDependencies: [],
+          updatedDependencies: [],
+          addedTransitiveDependencies: [],
+          removedTransitiveDependencies: [],
+          changedIntegrities: [
+            { packageName: 'lodash', oldVersion: '4.17.20', newVersion: '4.17.20', causedBy: ['lodash'] }
+          ]
+        }
+      ]
+    });
+    expect(PnpmLockfileDiff.toMarkdown(diff)).toMatchSnapshot();
+  });
+
+  it('treats every dependency as added if there was no old lockfile', () => {
+    const diff: ILockfileDiffJson = PnpmLockfileDiff.compare(
+      'abc123',
+      undefined,
+      PnpmShrinkwrapFile.loadFromString(OLD_SHRINKWRAP_YAML),
+      PROJECT_NAMES_BY_IMPORTER_KEY
+    );
+
+    expect(diff.projects.map((project) => project.projectName)).toEqual(['app1', 'library1']);
+    expect(diff.projects[0].addedTransitiveDependencies).toEqual([
+      { packageName: 'js-tokens', newVersion: '4.0.0', causedBy: ['react'] },
+      { packageName: 'loose-envify', newVersion: '1.4.0', causedBy: ['react'] },
+      { packageName: 'object-assign', newVersion: '4.1.1', causedBy: ['react'] }
+    ]);
+  });
+
+  it('reports that nothing changed', () => {
+    const shrinkwrapFile: PnpmShrinkwrapFile = PnpmShrinkwrapFile.loadFromString(OLD_SHRINKWRAP_YAML);
+    const diff: ILockfileDiffJson = PnpmLockfileDiff.compare(
+      'abc123',
+      shrinkwrapFile,
+      shrinkwrapFile,
+      PROJECT_NAMES_BY_IMPORTER_KEY
+    );
+
+    expect(diff.projects).toEqual([]);
+    expect(PnpmLockfileDiff.toMarkdown(diff)).toMatchSnapshot();
+  });
+});
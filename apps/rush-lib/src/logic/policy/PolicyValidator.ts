@@ -1,18 +1,35 @@
 // Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
 // See LICENSE in the project root for license information.
 
+import colors from 'colors/safe';
+import * as os from 'os';
+import { AlreadyReportedError, ConsoleTerminalProvider, Terminal } from '@rushstack/node-core-library';
+
 import { RushConfiguration } from '../../api/RushConfiguration';
 import { GitEmailPolicy } from './GitEmailPolicy';
 import { ShrinkwrapFilePolicy } from './ShrinkwrapFilePolicy';
+import { IRushPolicyIssue, RushPolicy } from './RushPolicy';
 
 export interface IPolicyValidatorOptions {
   bypassPolicy?: boolean;
+  /**
+   * Whether the calling command defines the "--bypass-policy" parameter. If so, the message that is
+   * printed when a policy fails suggests it.
+   */
+  bypassPolicyAllowed?: boolean;
   allowShrinkwrapUpdates?: boolean;
   shrinkwrapVariant?: string;
+  /**
+   * The policies that were registered by Rush plugins.
+   */
+  rushPolicies?: ReadonlyArray<RushPolicy>;
 }
 
 export class PolicyValidator {
-  public static validatePolicy(rushConfiguration: RushConfiguration, options: IPolicyValidatorOptions): void {
+  public static async validatePolicyAsync(
+    rushConfiguration: RushConfiguration,
+    options: IPolicyValidatorOptions
+  ): Promise<void> {
     if (options.bypassPolicy) {
       return;
     }
@@ -23,5 +40,51 @@ export class PolicyValidator {
       // It also may have merge conflict markers, which PNPM can gracefully handle, but the validator cannot
       ShrinkwrapFilePolicy.validate(rushConfiguration, options);
     }
+
+    if (options.rushPolicies && options.rushPolicies.length > 0) {
+      await PolicyValidator._validateRushPoliciesAsync(rushConfiguration, options.rushPolicies, options);
+    }
+  }
+
+  private static async _validateRushPoliciesAsync(
+    rushConfiguration: RushConfiguration,
+    rushPolicies: ReadonlyArray<RushPolicy>,
+    options: IPolicyValidatorOptions
+  ): Promise<void> {
+    const terminal: Terminal = new Terminal(new ConsoleTerminalProvider());
+
+    let issueCount: number = 0;
+    let suppressedIssueCount: number = 0;
+    for (const rushPolicy of rushPolicies) {
+      console.log(`Checking the "${rushPolicy.policyName}" policy.` + os.EOL);
+
+      const issues: IRushPolicyIssue[] = await rushPolicy.validateAsync({ rushConfiguration, terminal });
+      for (const { code, message, project } of issues) {
+        if (project?.suppressedPolicyIssueCodes.has(code)) {
+          suppressedIssueCount++;
+          continue;
+        }
+
+        issueCount++;
+        const location: string = project ? `${project.packageName}: ` : '';
+        console.log(colors.red(`[${code}] ${location}${message}`));
+      }
+    }
+
+    if (suppressedIssueCount > 0) {
+      console.log(
+        `${suppressedIssueCount} policy issue(s) were suppressed by the "suppressedPolicyIssueCodes" ` +
+          'setting of the projects in rush.json.'
+      );
+    }
+
+    if (issueCount > 0) {
+      let message: string = `Found ${issueCount} policy issue(s). Aborting, so you can go fix them.`;
+      if (options.bypassPolicyAllowed) {
+        message += '  (Or use --bypass-policy to skip.)';
+      }
+      console.log(os.EOL + colors.red(message));
+      throw new AlreadyReportedError();
+    }
   }
 }
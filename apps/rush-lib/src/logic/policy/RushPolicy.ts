@@ -1,8 +1,57 @@
 // Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
 // See LICENSE in the project root for license information.
 
-import { RushConfiguration } from '../../api/RushConfiguration';
+import type { ITerminal } from '@rushstack/node-core-library';
 
+import type { RushConfiguration } from '../../api/RushConfiguration';
+import type { RushConfigurationProject } from '../../api/RushConfigurationProject';
+
+/**
+ * A problem that was found by a {@link RushPolicy}.
+ * @beta
+ */
+export interface IRushPolicyIssue {
+  /**
+   * A short, stable string that identifies the kind of problem, for example "banned-license".
+   * It is printed with the message, and can be listed in the "suppressedPolicyIssueCodes" setting
+   * of a project in rush.json to ignore the problem for that project.
+   */
+  code: string;
+
+  /**
+   * A description of the problem, and if possible, how to fix it.
+   */
+  message: string;
+
+  /**
+   * The project that has the problem, if the problem is specific to a project.
+   */
+  project?: RushConfigurationProject;
+}
+
+/**
+ * The information that is passed to {@link RushPolicy.validateAsync}.
+ * @beta
+ */
+export interface IRushPolicyContext {
+  rushConfiguration: RushConfiguration;
+  terminal: ITerminal;
+}
+
+/**
+ * The base class for repository policies, which are contributed by Rush plugins using
+ * {@link RushSession.registerPolicy}. The policies are checked by "rush install", "rush update"
+ * and "rush check-policies".
+ * @beta
+ */
 export abstract class RushPolicy {
-  public abstract validate(rushConfiguration: RushConfiguration): void;
+  /**
+   * A name that identifies the policy in Rush's output. It must be unique.
+   */
+  public abstract readonly policyName: string;
+
+  /**
+   * Checks the repository, and returns the problems that were found.
+   */
+  public abstract validateAsync(context: IRushPolicyContext): Promise<IRushPolicyIssue[]>;
 }
@@ -0,0 +1,108 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { AlreadyReportedError } from '@rushstack/node-core-library';
+
+import { RushConfiguration } from '../../../api/RushConfiguration';
+import { RushConfigurationProject } from '../../../api/RushConfigurationProject';
+import { GitEmailPolicy } from '../GitEmailPolicy';
+import { PolicyValidator } from '../PolicyValidator';
+import { IRushPolicyContext, IRushPolicyIssue, RushPolicy } from '../RushPolicy';
+import { ShrinkwrapFilePolicy } from '../ShrinkwrapFilePolicy';
+
+class TestPolicy extends RushPolicy {
+  public readonly policyName: string = 'test-policy';
+  private readonly _getIssues: (context: IRushPolicyContext) => IRushPolicyIssue[];
+
+  public constructor(getIssues: (context: IRushPolicyContext) => IRushPolicyIssue[]) {
+    super();
+    this._getIssues = getIssues;
+  }
+
+  public async validateAsync(context: IRushPolicyContext): Promise<IRushPolicyIssue[]> {
+    return this._getIssues(context);
+  }
+}
+
+describe(PolicyValidator.name, () => {
+  let rushConfiguration: RushConfiguration;
+  let project1: RushConfigurationProject;
+  let logSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    rushConfiguration = RushConfiguration.loadFromConfigurationFile(
+      `${__dirname}/../../../api/test/repo/rush-npm.json`
+    );
+    project1 = rushConfiguration.getProjectByName('project1')!;
+    jest.spyOn(GitEmailPolicy, 'validate').mockImplementation(() => {
+      // Skip the built-in policy
+    });
+    jest.spyOn(ShrinkwrapFilePolicy, 'validate').mockImplementation(() => {
+      // Skip the built-in policy
+    });
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => {
+      // Suppress the output
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reports the issues from the registered policies', async () => {
+    const rushPolicy: TestPolicy = new TestPolicy(({ rushConfiguration: config }) => [
+      { code: 'missing-config', message: 'The project has no config file', project: project1 },
+      { code: 'repo-issue', message: `The repo at ${config.rushJsonFolder} has an issue` }
+    ]);
+
+    await expect(
+      PolicyValidator.validatePolicyAsync(rushConfiguration, { rushPolicies: [rushPolicy] })
+    ).rejects.toThrow(AlreadyReportedError);
+
+    const output: string = logSpy.mock.calls.map((args: unknown[]) => args.join(' ')).join('\n');
+    expect(output).toContain('[missing-config] project1: The project has no config file');
+    expect(output).toContain('[repo-issue] The repo at');
+    expect(output).toContain('Found 2 policy issue(s)');
+    expect(output).not.toContain('--bypass-policy');
+  });
+
+  it('suggests --bypass-policy only if the command defines it', async () => {
+    const rushPolicy: TestPolicy = new TestPolicy(() => [
+      { code: 'repo-issue', message: 'The repo has an issue' }
+    ]);
+
+    await expect(
+      PolicyValidator.validatePolicyAsync(rushConfiguration, {
+        bypassPolicyAllowed: true,
+        rushPolicies: [rushPolicy]
+      })
+    ).rejects.toThrow(AlreadyReportedError);
+
+    const output: string = logSpy.mock.calls.map((args: unknown[]) => args.join(' ')).join('\n');
+    expect(output).toContain('(Or use --bypass-policy to skip.)');
+  });
+
+  it('ignores issues that are suppressed for the project', async () => {
+    jest
+      .spyOn(project1, 'suppressedPolicyIssueCodes', 'get')
+      .mockReturnValue(new Set<string>(['missing-config']));
+    const rushPolicy: TestPolicy = new TestPolicy(() => [
+      { code: 'missing-config', message: 'The project has no config file', project: project1 }
+    ]);
+
+    await expect(
+      PolicyValidator.validatePolicyAsync(rushConfiguration, { rushPolicies: [rushPolicy] })
+    ).resolves.toBeUndefined();
+  });
+
+  it('does not run the policies if they are bypassed', async () => {
+    const getIssues: jest.Mock = jest.fn().mockReturnValue([]);
+
+    await PolicyValidator.validatePolicyAsync(rushConfiguration, {
+      bypassPolicy: true,
+      rushPolicies: [new TestPolicy(getIssues)]
+    });
+
+    expect(getIssues).not.toHaveBeenCalled();
+  });
+});
@@ -1,12 +1,42 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
 import type { ITerminal } from '@rushstack/node-core-library';
 
+/**
+ * Options passed to {@link ISelectorParser.evaluateSelectorAsync}.
+ *
+ * @beta
+ */
 export interface IEvaluateSelectorOptions {
+  /**
+   * The part of the selector that follows the scope prefix. For example, for `tag:frontend` this is `frontend`.
+   */
   unscopedSelector: string;
+  /**
+   * The terminal to which errors and warnings should be reported.
+   */
   terminal: ITerminal;
+  /**
+   * The long name of the command-line parameter that the selector was passed to, for use in error messages.
+   */
   parameterName: string;
 }
 
+/**
+ * Evaluates the selectors for a particular scope, such as `name:` or `tag:`, that are passed to
+ * project selection parameters such as `--to`, `--from` and `--only`.
+ *
+ * @beta
+ */
 export interface ISelectorParser<T> {
+  /**
+   * Returns the items that match the selector. If the selector is invalid, the implementation should
+   * report an error to the terminal and throw an `AlreadyReportedError`.
+   */
   evaluateSelectorAsync(options: IEvaluateSelectorOptions): Promise<Iterable<T>>;
+  /**
+   * Returns the unscoped selectors that should be offered by tab completion.
+   */
   getCompletions(): Iterable<string>;
 }
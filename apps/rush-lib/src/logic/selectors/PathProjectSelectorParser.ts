@@ -0,0 +1,87 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as path from 'path';
+import ignore, { Ignore } from 'ignore';
+import { AlreadyReportedError, Path } from '@rushstack/node-core-library';
+
+import type { RushConfiguration } from '../../api/RushConfiguration';
+import type { RushConfigurationProject } from '../../api/RushConfigurationProject';
+import type { IEvaluateSelectorOptions, ISelectorParser } from './ISelectorParser';
+
+/**
+ * Selects the projects whose folders are matched by a glob, or that are located under a matched folder.
+ * Relative globs are resolved from the current working directory.
+ *
+ * @example
+ * `path:libraries/*` selects every project under the "libraries" folder.
+ */
+export class PathProjectSelectorParser implements ISelectorParser<RushConfigurationProject> {
+  private readonly _rushConfiguration: RushConfiguration;
+  private readonly _workingDirectory: string;
+
+  public constructor(rushConfiguration: RushConfiguration, workingDirectory: string = process.cwd()) {
+    this._rushConfiguration = rushConfiguration;
+    this._workingDirectory = workingDirectory;
+  }
+
+  public async evaluateSelectorAsync({
+    unscopedSelector,
+    terminal,
+    parameterName
+  }: IEvaluateSelectorOptions): Promise<Iterable<RushConfigurationProject>> {
+    const { rushJsonFolder } = this._rushConfiguration;
+
+    const absoluteGlob: string = path.resolve(this._workingDirectory, unscopedSelector);
+    if (!Path.isUnderOrEqual(absoluteGlob, rushJsonFolder)) {
+      terminal.writeErrorLine(
+        `The path "${unscopedSelector}" passed to "${parameterName}" is not under the repository root folder.`
+      );
+      throw new AlreadyReportedError();
+    }
+
+    const relativeGlob: string = Path.convertToSlashes(path.relative(rushJsonFolder, absoluteGlob));
+    const selection: Set<RushConfigurationProject> = new Set();
+
+    if (!relativeGlob) {
+      // The glob refers to the repository root, which contains every project
+      for (const project of this._rushConfiguration.projects) {
+        selection.add(project);
+      }
+      return selection;
+    }
+
+    // A leading slash anchors the pattern to the repository root. A matched folder also
+    // matches everything underneath it, which is how projects under a folder are selected.
+    const matcher: Ignore = ignore().add(`/${relativeGlob}`);
+    for (const project of this._rushConfiguration.projects) {
+      if (matcher.ignores(project.projectRelativeFolder)) {
+        selection.add(project);
+      }
+    }
+
+    if (selection.size === 0) {
+      terminal.writeErrorLine(
+        `The path "${unscopedSelector}" passed to "${parameterName}" does not match any projects in rush.json.`
+      );
+      throw new AlreadyReportedError();
+    }
+
+    return selection;
+  }
+
+  public getCompletions(): Iterable<string> {
+    // Suggest the folders that contain projects, relative to the current working directory
+    const folders: Set<string> = new Set();
+    for (const project of this._rushConfiguration.projects) {
+      const relativeFolder: string = Path.convertToSlashes(
+        path.relative(this._workingDirectory, path.dirname(project.projectFolder))
+      );
+      if (relativeFolder) {
+        folders.add(relativeFolder);
+      }
+    }
+
+    return [...folders].sort();
+  }
+}
@@ -0,0 +1,51 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import type { RushConfiguration } from '../../api/RushConfiguration';
+import type { RushConfigurationProject } from '../../api/RushConfigurationProject';
+import { FailedOperationsFile } from '../operations/FailedOperationsFile';
+import type { IEvaluateSelectorOptions, ISelectorParser } from './ISelectorParser';
+
+/**
+ * Selects the projects whose operation for the specified phase failed the last time it was executed.
+ *
+ * @example
+ * `phase-failed:_phase:build` selects every project that failed to build.
+ */
+export class PhaseFailedProjectSelectorParser implements ISelectorParser<RushConfigurationProject> {
+  private readonly _rushConfiguration: RushConfiguration;
+
+  public constructor(rushConfiguration: RushConfiguration) {
+    this._rushConfiguration = rushConfiguration;
+  }
+
+  public async evaluateSelectorAsync({
+    unscopedSelector,
+    terminal,
+    parameterName
+  }: IEvaluateSelectorOptions): Promise<Iterable<RushConfigurationProject>> {
+    const failedOperationsFile: FailedOperationsFile = FailedOperationsFile.load(this._rushConfiguration);
+
+    const selection: Set<RushConfigurationProject> = new Set();
+    for (const packageName of failedOperationsFile.getFailedProjectNames(unscopedSelector)) {
+      // Projects may have been removed from rush.json since the file was written
+      const project: RushConfigurationProject | undefined =
+        this._rushConfiguration.getProjectByName(packageName);
+      if (project) {
+        selection.add(project);
+      }
+    }
+
+    if (selection.size === 0) {
+      terminal.writeWarningLine(
+        `The phase "${unscopedSelector}" passed to "${parameterName}" did not fail for any projects in previous runs.`
+      );
+    }
+
+    return selection;
+  }
+
+  public getCompletions(): Iterable<string> {
+    return [...FailedOperationsFile.load(this._rushConfiguration).failedPhaseNames].sort();
+  }
+}
@@ -0,0 +1,129 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as path from 'path';
+import {
+  AlreadyReportedError,
+  FileSystem,
+  StringBufferTerminalProvider,
+  Terminal
+} from '@rushstack/node-core-library';
+
+import { RushConfiguration } from '../../../api/RushConfiguration';
+import type { RushConfigurationProject } from '../../../api/RushConfigurationProject';
+import { FailedOperationsFile } from '../../operations/FailedOperationsFile';
+import type { ISelectorParser } from '../ISelectorParser';
+import { PathProjectSelectorParser } from '../PathProjectSelectorParser';
+import { PhaseFailedProjectSelectorParser } from '../PhaseFailedProjectSelectorParser';
+import { TagProjectSelectorParser } from '../TagProjectSelectorParser';
+
+const repoFolder: string = path.resolve(__dirname, 'repo');
+
+async function evaluateAsync(
+  parser: ISelectorParser<RushConfigurationProject>,
+  unscopedSelector: string,
+  terminal: Terminal
+): Promise<string[]> {
+  const projects: Iterable<RushConfigurationProject> = await parser.evaluateSelectorAsync({
+    unscopedSelector,
+    terminal,
+    parameterName: '--only'
+  });
+  return Array.from(projects, (project: RushConfigurationProject) => project.packageName).sort();
+}
+
+describe('Project selector parsers', () => {
+  let rushConfiguration: RushConfiguration;
+  let terminalProvider: StringBufferTerminalProvider;
+  let terminal: Terminal;
+
+  beforeEach(() => {
+    rushConfiguration = RushConfiguration.loadFromConfigurationFile(path.join(repoFolder, 'rush.json'));
+    terminalProvider = new StringBufferTerminalProvider();
+    terminal = new Terminal(terminalProvider);
+  });
+
+  describe(TagProjectSelectorParser.name, () => {
+    it('selects projects with the tag', async () => {
+      const parser: TagProjectSelectorParser = new TagProjectSelectorParser(rushConfiguration);
+      expect(await evaluateAsync(parser, 'frontend', terminal)).toEqual(['app1', 'lib1']);
+      expect(await evaluateAsync(parser, 'shared', terminal)).toEqual(['lib1']);
+    });
+
+    it('reports an error for an unknown tag', async () => {
+      const parser: TagProjectSelectorParser = new TagProjectSelectorParser(rushConfiguration);
+      await expect(evaluateAsync(parser, 'backend', terminal)).rejects.toThrow(AlreadyReportedError);
+      expect(terminalProvider.getErrorOutput()).toMatchSnapshot();
+    });
+
+    it('completes all tags', () => {
+      const parser: TagProjectSelectorParser = new TagProjectSelectorParser(rushConfiguration);
+      expect([...parser.getCompletions()]).toEqual(['frontend', 'shared']);
+    });
+  });
+
+  describe(PathProjectSelectorParser.name, () => {
+    it('selects projects under a folder', async () => {
+      const parser: PathProjectSelectorParser = new PathProjectSelectorParser(rushConfiguration, repoFolder);
+      expect(await evaluateAsync(parser, 'libraries', terminal)).toEqual(['lib1', 'lib2']);
+      expect(await evaluateAsync(parser, '.', terminal)).toEqual(['app1', 'lib1', 'lib2']);
+    });
+
+    it('selects projects matched by a glob', async () => {
+      const parser: PathProjectSelectorParser = new PathProjectSelectorParser(rushConfiguration, repoFolder);
+      expect(await evaluateAsync(parser, '*/lib*', terminal)).toEqual(['lib1', 'lib2']);
+      expect(await evaluateAsync(parser, 'apps/*', terminal)).toEqual(['app1']);
+    });
+
+    it('resolves relative paths from the working directory', async () => {
+      const parser: PathProjectSelectorParser = new PathProjectSelectorParser(
+        rushConfiguration,
+        path.join(repoFolder, 'libraries')
+      );
+      expect(await evaluateAsync(parser, 'lib2', terminal)).toEqual(['lib2']);
+      expect(await evaluateAsync(parser, '../apps', terminal)).toEqual(['app1']);
+    });
+
+    it('reports an error for paths outside of the repository', async () => {
+      const parser: PathProjectSelectorParser = new PathProjectSelectorParser(rushConfiguration, repoFolder);
+      await expect(evaluateAsync(parser, '..', terminal)).rejects.toThrow(AlreadyReportedError);
+      await expect(evaluateAsync(parser, 'tools', terminal)).rejects.toThrow(AlreadyReportedError);
+      expect(terminalProvider.getErrorOutput()).toMatchSnapshot();
+    });
+
+    it('completes the folders that contain projects', () => {
+      const parser: PathProjectSelectorParser = new PathProjectSelectorParser(rushConfiguration, repoFolder);
+      expect([...parser.getCompletions()]).toEqual(['apps', 'libraries']);
+    });
+  });
+
+  describe(PhaseFailedProjectSelectorParser.name, () => {
+    afterEach(() => {
+      FileSystem.deleteFile(FailedOperationsFile.load(rushConfiguration).filePath);
+    });
+
+    it('selects projects that failed the phase', async () => {
+      const failedOperationsFile: FailedOperationsFile = FailedOperationsFile.load(rushConfiguration);
+      failedOperationsFile.setOperationFailed('_phase:build', 'lib1', true);
+      failedOperationsFile.setOperationFailed('_phase:build', 'lib2', true);
+      failedOperationsFile.setOperationFailed('_phase:test', 'app1', true);
+      failedOperationsFile.setOperationFailed('_phase:build', 'lib2', false);
+      expect(failedOperationsFile.save()).toEqual(true);
+
+      const parser: PhaseFailedProjectSelectorParser = new PhaseFailedProjectSelectorParser(
+        rushConfiguration
+      );
+      expect(await evaluateAsync(parser, '_phase:build', terminal)).toEqual(['lib1']);
+      expect(await evaluateAsync(parser, '_phase:test', terminal)).toEqual(['app1']);
+      expect([...parser.getCompletions()]).toEqual(['_phase:build', '_phase:test']);
+    });
+
+    it('warns if no projects failed the phase', async () => {
+      const parser: PhaseFailedProjectSelectorParser = new PhaseFailedProjectSelectorParser(
+        rushConfiguration
+      );
+      expect(await evaluateAsync(parser, '_phase:build', terminal)).toEqual([]);
+      expect(terminalProvider.getWarningOutput()).toMatchSnapshot();
+    });
+  });
+});
@@ -1,11 +1,13 @@
 // Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
 // See LICENSE in the project root for license information.
 
+import { FileSystem, JsonFile } from '@rushstack/node-core-library';
+
 import { IChangelog } from '../../api/Changelog';
 import { ChangeType } from '../../api/ChangeManagement';
 import { RushConfiguration } from '../../api/RushConfiguration';
 import { RushConfigurationProject } from '../../api/RushConfigurationProject';
-import { ChangelogGenerator } from '../ChangelogGenerator';
+import { ChangelogGenerator, IReleaseNotesJson } from '../ChangelogGenerator';
 import { IChangeRequests } from '../PublishUtilities';
 
 describe(ChangelogGenerator.updateIndividualChangelog.name, () => {
@@ -349,3 +351,82 @@ describe(ChangelogGenerator.updateChangelogs.name, () => {
   });
   /* eslint-enable dot-notation */
 });
+
+describe(ChangelogGenerator.writeReleaseNotes.name, () => {
+  const rushJsonFile: string = `${__dirname}/packages/rush.json`;
+  let rushConfiguration: RushConfiguration;
+
+  beforeEach(() => {
+    rushConfiguration = RushConfiguration.loadFromConfigurationFile(rushJsonFile);
+    jest.spyOn(console, 'log').mockImplementation(() => {
+      // Suppress the output
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('groups the newest changelog entries by package and change type', () => {
+    const releaseNotes: IReleaseNotesJson = ChangelogGenerator.createReleaseNotes([
+      {
+        name: 'b',
+        entries: [
+          {
+            version: '1.0.1',
+            tag: 'b_v1.0.1',
+            date: 'Wed, 30 Nov 2016 18:37:45 GMT',
+            comments: {}
+          }
+        ]
+      },
+      {
+        name: 'a',
+        entries: [
+          {
+            version: '2.0.0',
+            tag: 'a_v2.0.0',
+            date: 'Wed, 30 Nov 2016 18:37:45 GMT',
+            comments: {
+              major: [
+                {
+                  comment: 'Remove an API',
+                  author: 'Jane Doe <jane@example.com>',
+                  commit: '0123456789abcdef0123456789abcdef01234567'
+                }
+              ],
+              patch: [{ comment: 'Fix a bug' }]
+            }
+          },
+          {
+            version: '1.0.0',
+            tag: 'a_v1.0.0',
+            date: 'Tue, 29 Nov 2016 18:37:45 GMT',
+            comments: { minor: [{ comment: 'An older change' }] }
+          }
+        ]
+      }
+    ]);
+    releaseNotes.date = 'Thu, 01 Dec 2016 00:00:00 GMT';
+
+    expect(releaseNotes.packages.map(({ packageName, version }) => `${packageName}@${version}`)).toEqual([
+      'a@2.0.0',
+      'b@1.0.1'
+    ]);
+
+    jest
+      .spyOn(rushConfiguration, 'repositoryUrls', 'get')
+      .mockReturnValue(['https://github.com/example/repo.git']);
+    const saveJsonSpy: jest.SpyInstance = jest.spyOn(JsonFile, 'save').mockReturnValue(true);
+    const writeFileSpy: jest.SpyInstance = jest.spyOn(FileSystem, 'writeFile').mockImplementation(() => {
+      // Don't write the file
+    });
+
+    ChangelogGenerator.writeReleaseNotes(releaseNotes, '/release', rushConfiguration);
+
+    expect(saveJsonSpy).toHaveBeenCalledTimes(1);
+    expect(saveJsonSpy.mock.calls[0][0]).toBe(releaseNotes);
+    expect(writeFileSpy).toHaveBeenCalledTimes(1);
+    expect(writeFileSpy.mock.calls[0][1]).toMatchSnapshot();
+  });
+});
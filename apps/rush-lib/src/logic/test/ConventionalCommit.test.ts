@@ -0,0 +1,53 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { ChangeType } from '../../api/ChangeManagement';
+import { ConventionalCommit, IConventionalCommit } from '../ConventionalCommit';
+
+describe(ConventionalCommit.name, () => {
+  describe(ConventionalCommit.tryParse.name, () => {
+    it('parses a header with a type and description', () => {
+      expect(ConventionalCommit.tryParse('feat: add a parameter')).toEqual({
+        type: 'feat',
+        scope: undefined,
+        description: 'add a parameter',
+        isBreakingChange: false
+      });
+    });
+
+    it('parses a header with a scope and a breaking change marker', () => {
+      expect(ConventionalCommit.tryParse('Fix(parser)!: handle empty input\n\nMore details')).toEqual({
+        type: 'fix',
+        scope: 'parser',
+        description: 'handle empty input',
+        isBreakingChange: true
+      });
+    });
+
+    it('detects a BREAKING CHANGE footer', () => {
+      const commit: IConventionalCommit | undefined = ConventionalCommit.tryParse(
+        'refactor: rename the API\n\nBody text\n\nBREAKING CHANGE: the old name was removed'
+      );
+      expect(commit?.isBreakingChange).toEqual(true);
+    });
+
+    it('returns undefined for other messages', () => {
+      expect(ConventionalCommit.tryParse('Update the readme')).toBeUndefined();
+      expect(ConventionalCommit.tryParse('feat:')).toBeUndefined();
+      expect(ConventionalCommit.tryParse('')).toBeUndefined();
+    });
+  });
+
+  describe(ConventionalCommit.getChangeType.name, () => {
+    it('maps commits to change types', () => {
+      const getChangeType: (message: string) => ChangeType = (message: string) =>
+        ConventionalCommit.getChangeType(ConventionalCommit.tryParse(message)!);
+
+      expect(getChangeType('feat!: remove a parameter')).toEqual(ChangeType.major);
+      expect(getChangeType('feat: add a parameter')).toEqual(ChangeType.minor);
+      expect(getChangeType('fix: handle empty input')).toEqual(ChangeType.patch);
+      expect(getChangeType('perf: cache the results')).toEqual(ChangeType.patch);
+      expect(getChangeType('docs: update the readme')).toEqual(ChangeType.none);
+    });
+  });
+});
@@ -0,0 +1,53 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { CommandLineConfiguration, IPhase } from '../../api/CommandLineConfiguration';
+import { RushConfiguration } from '../../api/RushConfiguration';
+import { RushConfigurationProject } from '../../api/RushConfigurationProject';
+import { DependencyGraph } from '../DependencyGraph';
+
+describe(DependencyGraph.name, () => {
+  let rushConfiguration: RushConfiguration;
+  let selection: Set<RushConfigurationProject>;
+
+  beforeEach(() => {
+    rushConfiguration = RushConfiguration.loadFromConfigurationFile(`${__dirname}/packages/rush.json`);
+    // "d" depends on "c", which depends on "b", which depends on "a"
+    selection = new Set(['b', 'c', 'd'].map((name: string) => rushConfiguration.getProjectByName(name)!));
+  });
+
+  it('exports the dependencies between the selected projects', () => {
+    const graph: DependencyGraph = DependencyGraph.fromProjects(selection);
+    expect(graph.toJson()).toEqual({
+      nodes: [
+        { id: 'b', project: 'b', phase: undefined, dependencies: [] },
+        { id: 'c', project: 'c', phase: undefined, dependencies: ['b'] },
+        { id: 'd', project: 'd', phase: undefined, dependencies: ['c'] }
+      ]
+    });
+    expect(graph.toDot()).toMatchSnapshot();
+    expect(graph.toMermaid()).toMatchSnapshot();
+  });
+
+  it('exports the dependencies between the phases of the selected projects', () => {
+    const commandLineConfiguration: CommandLineConfiguration = new CommandLineConfiguration({
+      phases: [
+        {
+          name: '_phase:lint',
+          dependencies: { self: ['_phase:build'] }
+        },
+        {
+          name: '_phase:build',
+          dependencies: { upstream: ['_phase:build'] }
+        }
+      ]
+    });
+    const lintPhase: IPhase = commandLineConfiguration.phases.get('_phase:lint')!;
+
+    const graph: DependencyGraph = DependencyGraph.fromPhases(
+      new Set([rushConfiguration.getProjectByName('c')!, rushConfiguration.getProjectByName('b')!]),
+      new Set([lintPhase])
+    );
+    expect(graph.toJson()).toMatchSnapshot();
+  });
+});
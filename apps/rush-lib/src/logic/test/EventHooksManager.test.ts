@@ -0,0 +1,70 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { JsonFile } from '@rushstack/node-core-library';
+
+import { RushConfiguration } from '../../api/RushConfiguration';
+import { Event } from '../../api/EventHooks';
+import { ILifecycleCommandOptions, Utilities } from '../../utilities/Utilities';
+import { EventHooksManager, IEventHookInfoJson } from '../EventHooksManager';
+
+describe(EventHooksManager.name, () => {
+  let rushConfiguration: RushConfiguration;
+  let executeLifecycleCommandSpy: jest.SpyInstance;
+  let saveJsonSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    rushConfiguration = RushConfiguration.loadFromConfigurationFile(
+      `${__dirname}/../../api/test/repo/rush-npm.json`
+    );
+    executeLifecycleCommandSpy = jest.spyOn(Utilities, 'executeLifecycleCommand').mockReturnValue(0);
+    saveJsonSpy = jest.spyOn(JsonFile, 'save').mockReturnValue(true);
+    jest.spyOn(console, 'log').mockImplementation(() => {
+      // Suppress the output
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('passes information about the event to the hook scripts', () => {
+    new EventHooksManager(rushConfiguration).handle(Event.postRushBuild, false, false, {
+      commandName: 'build',
+      selectedProjects: [rushConfiguration.getProjectByName('project1')!],
+      success: false,
+      durationInSeconds: 1.5
+    });
+
+    expect(executeLifecycleCommandSpy).toHaveBeenCalledTimes(1);
+    const [script, options] = executeLifecycleCommandSpy.mock.calls[0] as [string, ILifecycleCommandOptions];
+    expect(script).toEqual('do something');
+    expect(options.initialEnvironment!.RUSH_EVENT_NAME).toEqual('postRushBuild');
+
+    expect(saveJsonSpy).toHaveBeenCalledTimes(1);
+    const [eventInfo, eventInfoPath] = saveJsonSpy.mock.calls[0] as [IEventHookInfoJson, string];
+    expect(eventInfoPath).toEqual(options.initialEnvironment!.RUSH_EVENT_INFO_PATH);
+    expect(eventInfo).toEqual({
+      event: 'postRushBuild',
+      commandName: 'build',
+      selectedProjects: [{ packageName: 'project1', projectRelativeFolder: 'project1' }],
+      status: 'failure',
+      exitCode: 1,
+      durationInSeconds: 1.5
+    });
+  });
+
+  it('does not run the hook scripts if hooks are ignored', () => {
+    new EventHooksManager(rushConfiguration).handle(Event.postRushBuild, false, true, {
+      commandName: 'build'
+    });
+    expect(executeLifecycleCommandSpy).not.toHaveBeenCalled();
+  });
+
+  it('does not run anything for events without hook scripts', () => {
+    new EventHooksManager(rushConfiguration).handle(Event.postRushPublish, false, false, {
+      commandName: 'publish'
+    });
+    expect(executeLifecycleCommandSpy).not.toHaveBeenCalled();
+  });
+});
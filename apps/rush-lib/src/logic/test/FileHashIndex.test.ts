@@ -0,0 +1,144 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { FileSystem, FileSystemStats } from '@rushstack/node-core-library';
+
+import { FileHashIndex } from '../FileHashIndex';
+import { Git } from '../Git';
+
+const ROOT_DIR: string = '/repo';
+
+function createNotExistError(filePath: string): NodeJS.ErrnoException {
+  return Object.assign(new Error(`ENOENT: no such file or directory, lstat '${filePath}'`), {
+    code: 'ENOENT',
+    errno: -2,
+    path: filePath,
+    syscall: 'lstat'
+  });
+}
+
+describe(FileHashIndex.name, () => {
+  let git: Git;
+  let getFilesNotIgnored: jest.Mock<string[], [ReadonlyArray<string>, string]>;
+  let existingFiles: Map<string, string>;
+  let existingFolders: Set<string>;
+  let getRepoStateSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    existingFiles = new Map([
+      ['apps/a/README.md', 'readme1'],
+      ['apps/a/src/index.ts', 'index1'],
+      ['apps/a/src/old/x.ts', 'x1'],
+      ['apps/a/src/old/y.ts', 'y1']
+    ]);
+    existingFolders = new Set();
+
+    getFilesNotIgnored = jest.fn();
+    git = {
+      getGitPathOrThrow: () => 'git',
+      getFilesNotIgnored
+    } as unknown as Git;
+
+    /* eslint-disable @typescript-eslint/no-explicit-any */
+    getRepoStateSpy = jest
+      .spyOn(FileHashIndex.prototype as any, '_getRepoState')
+      .mockImplementation(() => new Map(existingFiles));
+    jest.spyOn(FileHashIndex.prototype as any, '_hashFiles').mockImplementation((filePaths: unknown) => {
+      return new Map(
+        (filePaths as string[]).map((filePath: string) => [filePath, existingFiles.get(filePath)])
+      );
+    });
+    /* eslint-enable @typescript-eslint/no-explicit-any */
+
+    jest.spyOn(FileSystem, 'exists').mockImplementation((filePath: string) => {
+      return existingFiles.has(filePath.slice(ROOT_DIR.length + 1));
+    });
+    jest.spyOn(FileSystem, 'getStatistics').mockImplementation((filePath: string) => {
+      const relativePath: string = filePath.slice(ROOT_DIR.length + 1);
+      const isFile: boolean = existingFiles.has(relativePath) || relativePath === 'apps/a/lib/index.js';
+      if (!isFile && !existingFolders.has(relativePath)) {
+        throw createNotExistError(filePath);
+      }
+      return { isFile: () => isFile, isDirectory: () => !isFile } as FileSystemStats;
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('updates only the paths that changed', () => {
+    const index: FileHashIndex = new FileHashIndex(git, ROOT_DIR);
+    expect(getRepoStateSpy).toHaveBeenCalledTimes(1);
+
+    // Modify a file, delete a folder, and add a folder with a new file
+    existingFiles.set('apps/a/src/index.ts', 'index2');
+    existingFiles.delete('apps/a/src/old/x.ts');
+    existingFiles.delete('apps/a/src/old/y.ts');
+    existingFiles.set('apps/a/src/new/z.ts', 'z1');
+    existingFolders.add('apps/a/src/new');
+    getFilesNotIgnored.mockReturnValue([
+      'apps/a/src/index.ts',
+      // Still listed because it is tracked by Git
+      'apps/a/src/old/x.ts',
+      'apps/a/src/new/z.ts'
+    ]);
+
+    const changedFiles: Set<string> = index.update(
+      new Set([
+        'apps/a/src/index.ts',
+        'apps/a/src/old',
+        'apps/a/src/new',
+        // A build output that is ignored by .gitignore
+        'apps/a/lib/index.js'
+      ])
+    );
+
+    expect(Array.from(changedFiles).sort()).toEqual([
+      'apps/a/src/index.ts',
+      'apps/a/src/new/z.ts',
+      'apps/a/src/old/x.ts',
+      'apps/a/src/old/y.ts'
+    ]);
+    expect(index.getSnapshot()).toEqual(
+      new Map([
+        ['apps/a/README.md', 'readme1'],
+        ['apps/a/src/index.ts', 'index2'],
+        ['apps/a/src/new/z.ts', 'z1']
+      ])
+    );
+    expect(getRepoStateSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports no changes if a file was saved without modifications', () => {
+    const index: FileHashIndex = new FileHashIndex(git, ROOT_DIR);
+    getFilesNotIgnored.mockReturnValue(['apps/a/README.md']);
+
+    expect(index.update(new Set(['apps/a/README.md'])).size).toEqual(0);
+  });
+
+  it('recomputes the whole index if too many paths changed', () => {
+    const index: FileHashIndex = new FileHashIndex(git, ROOT_DIR);
+    existingFiles.set('apps/a/README.md', 'readme2');
+
+    const changedPaths: Set<string> = new Set();
+    for (let i: number = 0; i < 1001; i++) {
+      changedPaths.add(`apps/a/src/file${i}.ts`);
+    }
+
+    expect(index.update(changedPaths)).toEqual(new Set(['apps/a/README.md']));
+    expect(getFilesNotIgnored).not.toHaveBeenCalled();
+    expect(getRepoStateSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('recomputes the whole index if Git fails', () => {
+    const index: FileHashIndex = new FileHashIndex(git, ROOT_DIR);
+    existingFiles.delete('apps/a/README.md');
+    getFilesNotIgnored.mockImplementation(() => {
+      throw new Error('git ls-files failed');
+    });
+
+    expect(index.update(new Set(['apps/a/src/index.ts']))).toEqual(new Set(['apps/a/README.md']));
+    expect(getRepoStateSpy).toHaveBeenCalledTimes(2);
+  });
+});
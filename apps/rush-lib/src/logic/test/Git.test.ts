@@ -1,7 +1,9 @@
 // Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
 // See LICENSE in the project root for license information.
 
-import { Git } from '../Git';
+import type { RushConfiguration } from '../../api/RushConfiguration';
+import { Utilities } from '../../utilities/Utilities';
+import { Git, IGitCommit } from '../Git';
 
 describe(Git.name, () => {
   describe(Git.normalizeGitUrlForComparison.name, () => {
@@ -32,4 +34,51 @@ describe(Git.name, () => {
       expect(Git.normalizeGitUrlForComparison('c:/windows/path.git')).toEqual('c:/windows/path');
     });
   });
+
+  describe(Git.prototype.getCommitsSince.name, () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('splits the output of "git log" into commits', () => {
+      // Each commit is "\0<hash>\x1f<message>\x1f" followed by the names of the changed files
+      const executeCommandMock: jest.SpyInstance = jest
+        .spyOn(Utilities, 'executeCommandAndCaptureOutput')
+        .mockReturnValue(
+          '\x001111111111111111\x1ffeat(a): add a feature\n\nThe feature is described here.\n\x1f\n\n' +
+            'a/src/index.ts\nb/src/index.ts\n' +
+            '\x002222222222222222\x1fchore: an empty commit\n\x1f\n' +
+            '\x003333333333333333\x1ffix: fix a bug\n\x1f\n\nb/src/index.ts\n'
+        );
+      const git: Git = new Git({ rushJsonFolder: '/repo' } as RushConfiguration);
+      jest.spyOn(git, 'getGitPathOrThrow').mockReturnValue('git');
+
+      expect(git.getCommitsSince('0000000000000000')).toEqual([
+        {
+          hash: '1111111111111111',
+          message: 'feat(a): add a feature\n\nThe feature is described here.',
+          changedFiles: ['a/src/index.ts', 'b/src/index.ts']
+        },
+        {
+          hash: '2222222222222222',
+          message: 'chore: an empty commit',
+          changedFiles: []
+        },
+        {
+          hash: '3333333333333333',
+          message: 'fix: fix a bug',
+          changedFiles: ['b/src/index.ts']
+        }
+      ] as IGitCommit[]);
+      expect(executeCommandMock.mock.calls[0][1]).toContain('0000000000000000..HEAD');
+    });
+
+    it('returns no commits if there are none', () => {
+      jest.spyOn(Utilities, 'executeCommandAndCaptureOutput').mockReturnValue('');
+      const git: Git = new Git({ rushJsonFolder: '/repo' } as RushConfiguration);
+      jest.spyOn(git, 'getGitPathOrThrow').mockReturnValue('git');
+
+      expect(git.getCommitsSince('0000000000000000')).toEqual([]);
+    });
+  });
 });
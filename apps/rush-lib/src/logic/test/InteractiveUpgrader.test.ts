@@ -0,0 +1,126 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { RushConfigurationProject } from '../../api/RushConfigurationProject';
+import { PackageJsonEditor } from '../../api/PackageJsonEditor';
+import { CommonVersionsConfiguration } from '../../api/CommonVersionsConfiguration';
+import {
+  IAvailableVersions,
+  IDependencyConsumer,
+  InteractiveUpgrader,
+  IOutdatedDependency
+} from '../InteractiveUpgrader';
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+function createProject(
+  packageName: string,
+  dependencies: Record<string, string>,
+  devDependencies: Record<string, string> = {}
+): RushConfigurationProject {
+  return {
+    packageName,
+    packageJsonEditor: PackageJsonEditor.fromObject(
+      { name: packageName, version: '1.0.0', dependencies, devDependencies } as any,
+      `${packageName}/package.json`
+    ),
+    cyclicDependencyProjects: new Set<string>()
+  } as any as RushConfigurationProject;
+}
+
+const AVAILABLE_VERSIONS: Map<string, IAvailableVersions> = new Map([
+  ['library-1', { versions: ['1.0.0', '1.0.1', '1.1.0', '2.0.0'], latestVersion: '2.0.0' }],
+  ['library-2', { versions: ['1.0.0', '2.0.0', '2.1.0'], latestVersion: '2.1.0' }],
+  ['library-3', { versions: ['3.0.0', '3.1.0'], latestVersion: '3.1.0' }]
+]);
+
+describe(InteractiveUpgrader.name, () => {
+  let commonVersions: CommonVersionsConfiguration;
+  let projects: RushConfigurationProject[];
+
+  beforeEach(() => {
+    commonVersions = CommonVersionsConfiguration.loadFromFile(
+      `${__dirname}/interactiveUpgrader/common-versions.json`
+    );
+    projects = [
+      createProject('a', { 'library-1': '~1.0.0', 'library-2': '^1.0.0', b: '1.0.0' }),
+      createProject('b', { 'library-2': '~2.0.0', 'library-4': 'workspace:*' }, { 'library-1': '^1.0.0' }),
+      createProject('c', { 'library-3': '^3.0.0' })
+    ];
+  });
+
+  it('groups the direct dependencies by package', () => {
+    const consumersByPackageName: Map<string, IDependencyConsumer[]> =
+      InteractiveUpgrader.collectDirectDependencies(projects, new Set(['a', 'b', 'c']), commonVersions);
+
+    const summary: Record<string, string[]> = {};
+    for (const [packageName, consumers] of consumersByPackageName) {
+      summary[packageName] = consumers.map(
+        (consumer: IDependencyConsumer) => `${consumer.project.packageName}@${consumer.versionSpecifier}`
+      );
+    }
+
+    // Local projects, non-SemVer specifiers and allowed alternative versions are skipped
+    expect(summary).toEqual({
+      'library-1': ['a@~1.0.0', 'b@^1.0.0'],
+      'library-2': ['b@~2.0.0'],
+      'library-3': ['c@^3.0.0']
+    });
+  });
+
+  it('finds the outdated dependencies', () => {
+    const outdatedDependencies: IOutdatedDependency[] = InteractiveUpgrader.findOutdatedDependencies(
+      InteractiveUpgrader.collectDirectDependencies(projects, new Set(['a', 'b', 'c']), commonVersions),
+      AVAILABLE_VERSIONS,
+      commonVersions
+    );
+
+    expect(
+      outdatedDependencies.map((outdatedDependency: IOutdatedDependency) => ({
+        ...outdatedDependency,
+        consumers: outdatedDependency.consumers.map(
+          (consumer: IDependencyConsumer) => consumer.project.packageName
+        )
+      }))
+    ).toEqual([
+      {
+        packageName: 'library-1',
+        consumers: ['a', 'b'],
+        currentVersionSpecifiers: ['^1.0.0', '~1.0.0'],
+        currentVersion: '1.0.1',
+        latestVersion: '2.0.0',
+        wantedVersion: '1.1.0',
+        preferredVersionSpecifier: '~1.0.0',
+        preferredVersion: '1.0.1',
+        rangePrefix: '~'
+      },
+      {
+        packageName: 'library-2',
+        consumers: ['b'],
+        currentVersionSpecifiers: ['~2.0.0'],
+        currentVersion: '2.0.0',
+        latestVersion: '2.1.0',
+        wantedVersion: undefined,
+        preferredVersionSpecifier: undefined,
+        preferredVersion: undefined,
+        rangePrefix: '~'
+      }
+    ]);
+  });
+
+  it('reports a dependency whose specifier does not match any version', () => {
+    const outdatedDependencies: IOutdatedDependency[] = InteractiveUpgrader.findOutdatedDependencies(
+      InteractiveUpgrader.collectDirectDependencies(
+        [createProject('a', { 'library-3': '^4.0.0-beta.1' })],
+        new Set(['a']),
+        commonVersions
+      ),
+      AVAILABLE_VERSIONS,
+      commonVersions
+    );
+
+    expect(outdatedDependencies).toHaveLength(1);
+    expect(outdatedDependencies[0].currentVersion).toBeUndefined();
+    expect(outdatedDependencies[0].latestVersion).toEqual('3.1.0');
+    expect(outdatedDependencies[0].rangePrefix).toEqual('^');
+  });
+});
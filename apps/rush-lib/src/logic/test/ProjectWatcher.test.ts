@@ -0,0 +1,227 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+jest.mock('@rushstack/package-deps-hash', () => {
+  return {
+    ...jest.requireActual('@rushstack/package-deps-hash'),
+    getRepoRoot: () => '/repo'
+  };
+});
+jest.mock('fs', () => {
+  return {
+    ...jest.requireActual('fs'),
+    watch: jest.fn()
+  };
+});
+jest.mock('../FileHashIndex');
+
+import * as fs from 'fs';
+import {
+  FileSystem,
+  FileSystemStats,
+  StringBufferTerminalProvider,
+  Terminal
+} from '@rushstack/node-core-library';
+
+import type { RushConfiguration } from '../../api/RushConfiguration';
+import type { RushConfigurationProject } from '../../api/RushConfigurationProject';
+import { FileHashIndex } from '../FileHashIndex';
+import { Git } from '../Git';
+import { LookupByPath } from '../LookupByPath';
+import { ProjectChangeAnalyzer } from '../ProjectChangeAnalyzer';
+import { IProjectChangeResult, ProjectWatcher } from '../ProjectWatcher';
+
+const ROOT_DIR: string = '/repo';
+
+type WatchListener = (event: string, fileName: string) => void;
+
+describe(ProjectWatcher.name, () => {
+  let project: RushConfigurationProject;
+  let rushConfiguration: RushConfiguration;
+  let hashes: Map<string, string>;
+  let updatedPaths: string[];
+  let ignoredFolders: Set<string>;
+  let isIgnoredMock: jest.Mock;
+  let listenersByPath: Map<string, WatchListener>;
+
+  beforeEach(() => {
+    project = { packageName: 'a', projectFolder: `${ROOT_DIR}/apps/a` } as RushConfigurationProject;
+    rushConfiguration = {
+      rushJsonFolder: ROOT_DIR,
+      getProjectLookupForRoot: () => new LookupByPath([['apps/a', project]])
+    } as unknown as RushConfiguration;
+
+    hashes = new Map([
+      ['apps/a/package.json', 'package1'],
+      ['apps/a/README.md', 'readme1'],
+      ['apps/a/src/index.ts', 'index1'],
+      ['apps/a/temp/cache.json', 'cache1']
+    ]);
+    updatedPaths = [];
+    ignoredFolders = new Set();
+    isIgnoredMock = jest.fn((relativePath: string) => ignoredFolders.has(relativePath));
+    (FileHashIndex as jest.MockedClass<typeof FileHashIndex>).mockImplementation(() => {
+      return {
+        rootDir: ROOT_DIR,
+        getSnapshot: () => new Map(hashes),
+        update: (changedPaths: ReadonlySet<string>) => {
+          updatedPaths.push(...changedPaths);
+          return new Set(changedPaths);
+        },
+        isIgnored: isIgnoredMock
+      } as unknown as FileHashIndex;
+    });
+
+    jest.spyOn(Git.prototype, 'getGitPathOrThrow').mockReturnValue('git');
+    jest
+      .spyOn(ProjectChangeAnalyzer, '_fromRepoState')
+      .mockImplementation((config: RushConfiguration, rootDir: string, snapshot: Map<string, string>) => {
+        return {
+          _tryGetProjectDependenciesAsync: async () => snapshot
+        } as unknown as ProjectChangeAnalyzer;
+      });
+
+    listenersByPath = new Map();
+    (fs.watch as jest.Mock).mockImplementation(
+      (watchedPath: string, options: unknown, listener: WatchListener) => {
+        listenersByPath.set(watchedPath.slice(ROOT_DIR.length + 1), listener);
+        return { on: jest.fn(), close: jest.fn() } as unknown as fs.FSWatcher;
+      }
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function createWatcher(): ProjectWatcher {
+    return new ProjectWatcher({
+      debounceMilliseconds: 0,
+      rushConfiguration,
+      projectsToWatch: new Set([project]),
+      terminal: new Terminal(new StringBufferTerminalProvider()),
+      ignoredGlobs: ['*.md', 'temp/']
+    });
+  }
+
+  function changeFile(watchedPath: string, fileName: string, filePath: string): void {
+    hashes.set(filePath, `${hashes.get(filePath)}-changed`);
+    listenersByPath.get(watchedPath)!('change', fileName);
+  }
+
+  function createFolders(...folderPaths: string[]): void {
+    jest.spyOn(FileSystem, 'getStatistics').mockImplementation((filePath: string) => {
+      if (!folderPaths.includes(filePath.slice(ROOT_DIR.length + 1))) {
+        throw Object.assign(new Error(`ENOENT: ${filePath}`), { code: 'ENOENT' });
+      }
+      return { isDirectory: () => true } as FileSystemStats;
+    });
+  }
+
+  async function isSettledAsync(promise: Promise<unknown>): Promise<boolean> {
+    let settled: boolean = false;
+    promise.then(
+      () => (settled = true),
+      () => (settled = true)
+    );
+    await new Promise<void>((resolve: () => void) => setTimeout(resolve, 50));
+    return settled;
+  }
+
+  it('reports all projects the first time', async () => {
+    const watcher: ProjectWatcher = createWatcher();
+
+    const result: IProjectChangeResult = await watcher.waitForChange();
+    expect(Array.from(result.changedProjects)).toEqual([project]);
+    expect(Array.from(listenersByPath.keys()).sort()).toEqual([
+      'apps/a/README.md',
+      'apps/a/package.json',
+      'apps/a/src',
+      'apps/a/temp'
+    ]);
+
+    watcher.dispose();
+  });
+
+  it('does not rebuild when only ignored files change', async () => {
+    const watcher: ProjectWatcher = createWatcher();
+    await watcher.waitForChange();
+
+    const changePromise: Promise<IProjectChangeResult> = watcher.waitForChange();
+    changeFile('apps/a/README.md', 'README.md', 'apps/a/README.md');
+    changeFile('apps/a/temp', 'cache.json', 'apps/a/temp/cache.json');
+
+    expect(await isSettledAsync(changePromise)).toEqual(false);
+    expect(updatedPaths.sort()).toEqual(['apps/a/README.md', 'apps/a/temp/cache.json']);
+
+    changeFile('apps/a/src', 'index.ts', 'apps/a/src/index.ts');
+
+    const result: IProjectChangeResult = await changePromise;
+    expect(Array.from(result.changedProjects)).toEqual([project]);
+
+    watcher.dispose();
+  });
+
+  it('rebuilds when a file that is not ignored changes', async () => {
+    const watcher: ProjectWatcher = createWatcher();
+    await watcher.waitForChange();
+
+    const changePromise: Promise<IProjectChangeResult> = watcher.waitForChange();
+    changeFile('apps/a/package.json', 'package.json', 'apps/a/package.json');
+
+    const result: IProjectChangeResult = await changePromise;
+    expect(Array.from(result.changedProjects)).toEqual([project]);
+    expect(updatedPaths).toEqual(['apps/a/package.json']);
+
+    watcher.dispose();
+  });
+
+  it('does not watch new folders that are ignored by git', async () => {
+    ignoredFolders.add('apps/a/src/generated');
+    createFolders('apps/a/src/generated', 'apps/a/src/utilities');
+
+    const watcher: ProjectWatcher = createWatcher();
+    await watcher.waitForChange();
+
+    const changePromise: Promise<IProjectChangeResult> = watcher.waitForChange();
+    listenersByPath.get('apps/a/src')!('rename', 'generated');
+    listenersByPath.get('apps/a/src')!('rename', 'utilities');
+
+    expect(await isSettledAsync(changePromise)).toEqual(false);
+    expect(listenersByPath.has('apps/a/src/generated')).toEqual(false);
+    expect(listenersByPath.has('apps/a/src/utilities')).toEqual(true);
+    expect(updatedPaths).toEqual(['apps/a/src/utilities']);
+
+    watcher.dispose();
+  });
+
+  it('drops changes in ignored folders before they are applied to the file hash index', async () => {
+    ignoredFolders.add('apps/a/src/generated');
+    createFolders('apps/a/src/generated');
+
+    const watcher: ProjectWatcher = createWatcher();
+    // Changes in subfolders are reported to the watcher of the root folder
+    (watcher as unknown as { _useNativeRecursiveWatch: boolean })._useNativeRecursiveWatch = true;
+    await watcher.waitForChange();
+
+    const changePromise: Promise<IProjectChangeResult> = watcher.waitForChange();
+    // A build writes more files than FileHashIndex can update incrementally
+    const listener: WatchListener = listenersByPath.get('apps/a/src')!;
+    listener('rename', 'generated');
+    for (let i: number = 0; i < 1500; i++) {
+      listener('rename', `generated/${i}/file.js`);
+    }
+
+    expect(await isSettledAsync(changePromise)).toEqual(false);
+    expect(updatedPaths).toEqual([]);
+
+    changeFile('apps/a/src', 'index.ts', 'apps/a/src/index.ts');
+
+    const result: IProjectChangeResult = await changePromise;
+    expect(Array.from(result.changedProjects)).toEqual([project]);
+    expect(updatedPaths).toEqual(['apps/a/src/index.ts']);
+    expect(isIgnoredMock).toHaveBeenCalledTimes(1);
+
+    watcher.dispose();
+  });
+});
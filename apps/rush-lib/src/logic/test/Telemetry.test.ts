@@ -1,9 +1,19 @@
 // Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
 // See LICENSE in the project root for license information.
 
+import { ConsoleTerminalProvider } from '@rushstack/node-core-library';
+
 import { RushConfiguration } from '../../api/RushConfiguration';
 import { Rush } from '../../api/Rush';
-import { Telemetry, ITelemetryData } from '../Telemetry';
+import { RushSession } from '../../pluginFramework/RushSession';
+import { Telemetry, ITelemetryData, ITelemetrySink } from '../Telemetry';
+
+function createRushSession(): RushSession {
+  return new RushSession({
+    terminalProvider: new ConsoleTerminalProvider(),
+    getIsDebugMode: () => false
+  });
+}
 
 describe(Telemetry.name, () => {
   it('adds data to store if telemetry is enabled', () => {
@@ -91,4 +101,81 @@ describe(Telemetry.name, () => {
     expect(result.rushVersion).toEqual(Rush.version);
     expect(result.timestamp).toBeDefined();
   });
+
+  it('sends each record to the registered telemetry sinks', async () => {
+    const filename: string = `${__dirname}/telemetry/telemetryEnabled.json`;
+    const rushConfig: RushConfiguration = RushConfiguration.loadFromConfigurationFile(filename);
+    const rushSession: RushSession = createRushSession();
+    const telemetry: Telemetry = new Telemetry(rushConfig, rushSession);
+
+    // Sinks may be registered after the Telemetry object was created
+    const records: ITelemetryData[] = [];
+    const flushAsync: jest.Mock = jest.fn(async () => {
+      // Nothing buffered
+    });
+    rushSession.registerTelemetrySink('test', {
+      onRecord: (data: ITelemetryData) => records.push(data),
+      flushAsync
+    });
+
+    const logData: ITelemetryData = {
+      name: 'testData1',
+      duration: 100,
+      result: 'Succeeded',
+      phases: {
+        '_phase:build': {
+          operationCount: 2,
+          operationCountByStatus: { SUCCESS: 1, 'FROM CACHE': 1 },
+          cacheHitRate: 0.5
+        }
+      }
+    };
+    telemetry.log(logData);
+    expect(records).toEqual([telemetry.store[0]]);
+    expect(records[0].phases).toEqual(logData.phases);
+
+    await telemetry.flushAsync(() => {
+      // Don't write the file
+    });
+    expect(flushAsync).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not send records to the telemetry sinks if telemetry is not enabled', () => {
+    const filename: string = `${__dirname}/telemetry/telemetryNotEnabled.json`;
+    const rushConfig: RushConfiguration = RushConfiguration.loadFromConfigurationFile(filename);
+    const rushSession: RushSession = createRushSession();
+    const onRecord: jest.Mock = jest.fn();
+    rushSession.registerTelemetrySink('test', { onRecord });
+
+    new Telemetry(rushConfig, rushSession).log({ name: 'testData', duration: 100, result: 'Succeeded' });
+    expect(onRecord).not.toHaveBeenCalled();
+  });
+
+  it('reports a failing telemetry sink without failing', () => {
+    const filename: string = `${__dirname}/telemetry/telemetryEnabled.json`;
+    const rushConfig: RushConfiguration = RushConfiguration.loadFromConfigurationFile(filename);
+    const rushSession: RushSession = createRushSession();
+    const failingSink: ITelemetrySink = {
+      onRecord: () => {
+        throw new Error('Collector unavailable');
+      }
+    };
+    rushSession.registerTelemetrySink('failing', failingSink);
+    const consoleLogSpy: jest.SpyInstance = jest.spyOn(console, 'log').mockImplementation(() => {
+      // Suppress the output
+    });
+
+    try {
+      const telemetry: Telemetry = new Telemetry(rushConfig, rushSession);
+      telemetry.log({ name: 'testData', duration: 100, result: 'Succeeded' });
+      expect(telemetry.store).toHaveLength(1);
+      expect(consoleLogSpy.mock.calls[0][0]).toContain('The telemetry sink "failing" failed');
+    } finally {
+      consoleLogSpy.mockRestore();
+    }
+
+    expect(() => rushSession.registerTelemetrySink('failing', failingSink)).toThrowError(
+      'A telemetry sink named "failing" has already been registered'
+    );
+  });
 });
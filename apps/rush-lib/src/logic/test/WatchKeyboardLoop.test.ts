@@ -0,0 +1,97 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import type * as readline from 'readline';
+import { AlreadyReportedError } from '@rushstack/node-core-library';
+
+import { WatchKeyboardLoop } from '../WatchKeyboardLoop';
+
+function pressKey(loop: WatchKeyboardLoop, name: string, key: Partial<readline.Key> = {}): void {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (loop as any).onKeypress(name, { name, ...key });
+}
+
+describe(WatchKeyboardLoop.name, () => {
+  let loop: WatchKeyboardLoop;
+  let output: string;
+
+  beforeEach(() => {
+    loop = new WatchKeyboardLoop();
+    output = '';
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (loop as any).stderr = {
+      write: (chunk: string) => {
+        output += chunk;
+        return true;
+      }
+    };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('returns commands in the order that keys were pressed', async () => {
+    pressKey(loop, 'v');
+    pressKey(loop, 'a');
+    pressKey(loop, 'x');
+    pressKey(loop, 'p');
+
+    expect(await loop.waitForCommandAsync()).toEqual('toggle-verbose');
+    expect(await loop.waitForCommandAsync()).toEqual('build-all');
+    expect(await loop.waitForCommandAsync()).toEqual('toggle-pause');
+  });
+
+  it('waits for a key to be pressed', async () => {
+    const commandPromise: Promise<string> = loop.waitForCommandAsync();
+    pressKey(loop, 'f');
+
+    expect(await commandPromise).toEqual('build-failed');
+  });
+
+  it('queues a build command only once', async () => {
+    pressKey(loop, 'f');
+    pressKey(loop, 'f');
+    pressKey(loop, 'v');
+    pressKey(loop, 'v');
+
+    expect(await loop.waitForCommandAsync()).toEqual('build-failed');
+    expect(await loop.waitForCommandAsync()).toEqual('toggle-verbose');
+    expect(await loop.waitForCommandAsync()).toEqual('toggle-verbose');
+  });
+
+  it('ignores keys pressed with a modifier', async () => {
+    pressKey(loop, 'a', { ctrl: true });
+    pressKey(loop, 'p');
+
+    expect(await loop.waitForCommandAsync()).toEqual('toggle-pause');
+  });
+
+  it('prints help without queuing a command', () => {
+    pressKey(loop, 'h');
+
+    expect(output).toContain('Watch mode commands:');
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    expect((loop as any)._queuedCommands).toHaveLength(0);
+  });
+
+  it('prints help when "?" is pressed', () => {
+    // Readline does not assign a name to "?"
+    pressKey(loop, '?', { name: undefined, sequence: '?' });
+
+    expect(output).toContain('Watch mode commands:');
+  });
+
+  it('reports an error if the keyboard input cannot be captured', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {
+      /* no-op */
+    });
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (loop as any).stdin = { isTTY: true };
+
+    loop.start();
+
+    await expect(loop.waitForCommandAsync()).rejects.toThrow(AlreadyReportedError);
+    await loop.stopAsync();
+  });
+});
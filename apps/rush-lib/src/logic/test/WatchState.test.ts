@@ -0,0 +1,114 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import type { IPhase } from '../../api/CommandLineConfiguration';
+import type { RushConfigurationProject } from '../../api/RushConfigurationProject';
+import type { IOperationExecutionResult } from '../operations/IOperationExecutionResult';
+import { Operation } from '../operations/Operation';
+import { OperationStatus } from '../operations/OperationStatus';
+import { WatchState } from '../WatchState';
+
+function createProject(packageName: string): RushConfigurationProject {
+  return {
+    packageName,
+    dependencyProjects: new Set(),
+    consumingProjects: new Set()
+  } as unknown as RushConfigurationProject;
+}
+
+function createResults(
+  results: [RushConfigurationProject, IPhase, OperationStatus][]
+): Map<Operation, IOperationExecutionResult> {
+  return new Map(
+    results.map(([project, phase, status]) => [
+      new Operation({ project, phase }),
+      { status } as IOperationExecutionResult
+    ])
+  );
+}
+
+describe(WatchState.name, () => {
+  const buildPhase: IPhase = { name: '_phase:build' } as IPhase;
+  const testPhase: IPhase = { name: '_phase:test' } as IPhase;
+
+  let a: RushConfigurationProject;
+  let b: RushConfigurationProject;
+  let c: RushConfigurationProject;
+  let watchState: WatchState;
+
+  beforeEach(() => {
+    // "b" depends on "a". "c" is not watched, even though it depends on "a".
+    a = createProject('a');
+    b = createProject('b');
+    c = createProject('c');
+    (a.consumingProjects as Set<RushConfigurationProject>).add(b).add(c);
+
+    watchState = new WatchState({
+      projectsToWatch: new Set([a, b]),
+      watchPhases: new Set([buildPhase]),
+      isVerbose: false
+    });
+  });
+
+  it('queues the watched consumers of the changed projects', () => {
+    watchState.queueChangedProjects(new Set([a]));
+    expect(watchState.queuedProjects).toEqual(new Set([a, b]));
+
+    expect(watchState.dequeueProjects()).toEqual(new Set([a, b]));
+    expect(watchState.queuedProjects.size).toEqual(0);
+  });
+
+  it('keeps the queued projects while paused', () => {
+    expect(watchState.togglePause()).toEqual(true);
+    expect(watchState.isPaused).toEqual(true);
+
+    watchState.queueChangedProjects(new Set([b]));
+    watchState.queueChangedProjects(new Set([a]));
+    expect(watchState.queuedProjects).toEqual(new Set([a, b]));
+
+    expect(watchState.togglePause()).toEqual(false);
+    expect(watchState.dequeueProjects()).toEqual(new Set([a, b]));
+  });
+
+  it('turns verbose output on the first time it is toggled, unless it was already on', () => {
+    expect(watchState.toggleVerbose()).toEqual(true);
+    expect(watchState.isVerbose).toEqual(true);
+    expect(watchState.toggleVerbose()).toEqual(false);
+
+    const verboseWatchState: WatchState = new WatchState({
+      projectsToWatch: new Set([a, b]),
+      watchPhases: new Set([buildPhase]),
+      isVerbose: true
+    });
+    expect(verboseWatchState.toggleVerbose()).toEqual(false);
+  });
+
+  it('records the projects that failed or were blocked', () => {
+    watchState.recordResults(
+      new Set([a, b]),
+      createResults([
+        [a, buildPhase, OperationStatus.Failure],
+        [b, buildPhase, OperationStatus.Blocked]
+      ])
+    );
+    expect(watchState.failedProjects).toEqual(new Set([a, b]));
+
+    // Projects that were not included in a run keep their failures
+    watchState.recordResults(new Set([a]), createResults([[a, buildPhase, OperationStatus.Success]]));
+    expect(watchState.failedProjects).toEqual(new Set([b]));
+  });
+
+  it('ignores failures in phases that do not run in watch mode', () => {
+    watchState.recordResults(
+      new Set([a, b]),
+      createResults([
+        [a, buildPhase, OperationStatus.Success],
+        [a, testPhase, OperationStatus.Failure],
+        [b, buildPhase, OperationStatus.Success],
+        [b, testPhase, OperationStatus.Blocked]
+      ])
+    );
+
+    expect(watchState.failedProjects.size).toEqual(0);
+  });
+});
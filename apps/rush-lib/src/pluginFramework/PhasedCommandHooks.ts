@@ -1,7 +1,7 @@
 // Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
 // See LICENSE in the project root for license information.
 
-import { AsyncSeriesWaterfallHook, SyncHook } from 'tapable';
+import { AsyncSeriesHook, AsyncSeriesWaterfallHook, SyncHook } from 'tapable';
 
 import type { CommandLineParameter } from '@rushstack/ts-command-line';
 import type { BuildCacheConfiguration } from '../api/BuildCacheConfiguration';
@@ -10,6 +10,10 @@ import type { RushConfiguration } from '../api/RushConfiguration';
 import type { RushConfigurationProject } from '../api/RushConfigurationProject';
 
 import type { Operation } from '../logic/operations/Operation';
+import type {
+  IExecutionResult,
+  IOperationExecutionResult
+} from '../logic/operations/IOperationExecutionResult';
 import type { ProjectChangeAnalyzer } from '../logic/ProjectChangeAnalyzer';
 
 /**
@@ -81,6 +85,46 @@ export class PhasedCommandHooks {
   public readonly createOperations: AsyncSeriesWaterfallHook<[Set<Operation>, ICreateOperationsContext]> =
     new AsyncSeriesWaterfallHook(['operations', 'context'], 'createOperations');
 
+  /**
+   * Hook invoked before operation execution begins, after the operations have been created.
+   * Receives the initial state of every operation that is about to be executed.
+   */
+  public readonly beforeExecuteOperations: AsyncSeriesHook<
+    [ReadonlyMap<Operation, IOperationExecutionResult>, ICreateOperationsContext]
+  > = new AsyncSeriesHook(['records', 'context'], 'beforeExecuteOperations');
+
+  /**
+   * Hook invoked whenever the status of an operation changes, for example when it starts executing,
+   * when it finishes, or when it becomes blocked by the failure of one of its dependencies.
+   */
+  public readonly onOperationStatusChanged: SyncHook<[IOperationExecutionResult]> = new SyncHook(
+    ['record'],
+    'onOperationStatusChanged'
+  );
+
+  /**
+   * Hook invoked immediately before an individual operation starts executing.
+   */
+  public readonly beforeExecuteOperation: AsyncSeriesHook<[IOperationExecutionResult]> = new AsyncSeriesHook(
+    ['record'],
+    'beforeExecuteOperation'
+  );
+
+  /**
+   * Hook invoked after an individual operation has finished executing. The record includes
+   * the final status and timing of the operation.
+   */
+  public readonly afterExecuteOperation: AsyncSeriesHook<[IOperationExecutionResult]> = new AsyncSeriesHook(
+    ['record'],
+    'afterExecuteOperation'
+  );
+
+  /**
+   * Hook invoked after all operations have finished executing, including operations that were blocked.
+   */
+  public readonly afterExecuteOperations: AsyncSeriesHook<[IExecutionResult, ICreateOperationsContext]> =
+    new AsyncSeriesHook(['results', 'context'], 'afterExecuteOperations');
+
   /**
    * Hook invoked after a run has finished and the command is watching for changes.
    * May be used to display additional relevant data to the user.
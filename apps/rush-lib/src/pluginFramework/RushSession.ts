@@ -4,6 +4,10 @@
 import { InternalError, ITerminalProvider } from '@rushstack/node-core-library';
 import { IBuildCacheJson } from '../api/BuildCacheConfiguration';
 import { ICloudBuildCacheProvider } from '../logic/buildCache/ICloudBuildCacheProvider';
+import type { RushConfigurationProject } from '../api/RushConfigurationProject';
+import type { ISelectorParser } from '../logic/selectors/ISelectorParser';
+import type { ITelemetrySink } from '../logic/Telemetry';
+import type { RushPolicy } from '../logic/policy/RushPolicy';
 import { ILogger, ILoggerOptions, Logger } from './logging/Logger';
 import { RushLifecycleHooks } from './RushLifeCycle';
 
@@ -26,6 +30,10 @@ export type CloudBuildCacheProviderFactory = (buildCacheJson: IBuildCacheJson) =
 export class RushSession {
   private readonly _options: IRushSessionOptions;
   private readonly _cloudBuildCacheProviderFactories: Map<string, CloudBuildCacheProviderFactory> = new Map();
+  private readonly _projectSelectorParsers: Map<string, ISelectorParser<RushConfigurationProject>> =
+    new Map();
+  private readonly _telemetrySinks: Map<string, ITelemetrySink> = new Map();
+  private readonly _policies: Map<string, RushPolicy> = new Map();
 
   public readonly hooks: RushLifecycleHooks;
 
@@ -68,4 +76,53 @@ export class RushSession {
   ): CloudBuildCacheProviderFactory | undefined {
     return this._cloudBuildCacheProviderFactories.get(cacheProviderName);
   }
+
+  /**
+   * Registers a parser for project selectors with the specified scope, such as `my-scope:`. The selectors
+   * can be passed to project selection parameters, for example `rush build --to my-scope:value`.
+   */
+  public registerProjectSelectorParser(
+    scope: string,
+    selectorParser: ISelectorParser<RushConfigurationProject>
+  ): void {
+    if (this._projectSelectorParsers.has(scope)) {
+      throw new Error(`A project selector parser for the "${scope}:" scope has already been registered`);
+    }
+    this._projectSelectorParsers.set(scope, selectorParser);
+  }
+
+  public getProjectSelectorParsers(): ReadonlyMap<string, ISelectorParser<RushConfigurationProject>> {
+    return this._projectSelectorParsers;
+  }
+
+  /**
+   * Registers a sink that receives each of Rush's telemetry records as it is logged, for example to send
+   * the records to a telemetry service. Sinks only receive records if the "telemetryEnabled" setting
+   * in rush.json is true.
+   */
+  public registerTelemetrySink(sinkName: string, sink: ITelemetrySink): void {
+    if (this._telemetrySinks.has(sinkName)) {
+      throw new Error(`A telemetry sink named "${sinkName}" has already been registered`);
+    }
+    this._telemetrySinks.set(sinkName, sink);
+  }
+
+  public getTelemetrySinks(): ReadonlyMap<string, ITelemetrySink> {
+    return this._telemetrySinks;
+  }
+
+  /**
+   * Registers a repository policy, which is checked by "rush install", "rush update" and
+   * "rush check-policies".
+   */
+  public registerPolicy(policy: RushPolicy): void {
+    if (this._policies.has(policy.policyName)) {
+      throw new Error(`A policy named "${policy.policyName}" has already been registered`);
+    }
+    this._policies.set(policy.policyName, policy);
+  }
+
+  public getPolicies(): ReadonlyMap<string, RushPolicy> {
+    return this._policies;
+  }
 }
@@ -11,11 +11,34 @@ export enum StopwatchState {
   Started = 2
 }
 
+/**
+ * Represents a readonly view of a `Stopwatch`.
+ * @beta
+ */
+export interface IStopwatchResult {
+  /**
+   * Displays how long the stopwatch has been executing in a human readable format.
+   */
+  toString(): string;
+  /**
+   * Get the duration in seconds.
+   */
+  readonly duration: number;
+  /**
+   * Return the start time of the most recent stopwatch run.
+   */
+  readonly startTime: number | undefined;
+  /**
+   * Return the end time of the most recent stopwatch run.
+   */
+  readonly endTime: number | undefined;
+}
+
 /**
  * Represents a typical timer/stopwatch which keeps track
  * of elapsed time in between two events.
  */
-export class Stopwatch {
+export class Stopwatch implements IStopwatchResult {
   private _startTime: number | undefined;
   private _endTime: number | undefined;
   private _state: StopwatchState;
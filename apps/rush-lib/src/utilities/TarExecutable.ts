@@ -15,7 +15,7 @@ export interface ITarOptionsBase {
 }
 
 export interface IUntarOptions extends ITarOptionsBase {
-  archivePath: string;
+  archiveBuffer: Buffer;
   outputFolderPath: string;
 }
 
@@ -57,11 +57,14 @@ export class TarExecutable {
         // [Windows bsdtar 3.3.2] -m    Don't restore modification times
         '-m',
         // [Windows bsdtar 3.3.2] -f <filename>  Location of archive (default \\.\tape0)
+        //
+        // The archive is read from stdin
         '-f',
-        options.archivePath
+        '-'
       ],
       options.outputFolderPath,
-      options.logFilePath
+      options.logFilePath,
+      options.archiveBuffer
     );
   }
 
@@ -87,8 +90,6 @@ export class TarExecutable {
         // [Windows bsdtar 3.3.2] -f <filename>  Location of archive (default \\.\tape0)
         '-f',
         archivePath,
-        // [Windows bsdtar 3.3.2] -z, -j, -J, --lzma  Compress archive with gzip/bzip2/xz/lzma
-        '-z',
         // [GNU tar 1.33] -T, --files-from=FILE      get names to extract or create from FILE
         //
         // Windows bsdtar does not document this parameter, but seems to accept it.
@@ -106,7 +107,7 @@ export class TarExecutable {
     args: string[],
     currentWorkingDirectory: string,
     logFilePath: string,
-    input?: string
+    input?: string | Buffer
   ): Promise<number> {
     // Runs "tar" with the specified args and logs its output to the specified location.
     // The log file looks like this:
@@ -141,7 +142,7 @@ export class TarExecutable {
         `Invoking "${this._tarExecutablePath} ${args.join(' ')}"`,
         '',
         `======= BEGIN PROCESS INPUT ======`,
-        input || '',
+        Buffer.isBuffer(input) ? `<${input.length} bytes of binary input>` : input || '',
         '======== END PROCESS INPUT =======',
         '======= BEGIN PROCESS OUTPUT =======',
         ''
@@ -155,9 +156,13 @@ export class TarExecutable {
     childProcess.stdout!.on('data', (chunk) => fileWriter.write(`[stdout] ${chunk}`));
     childProcess.stderr!.on('data', (chunk) => fileWriter.write(`[stderr] ${chunk}`));
 
-    if (input !== undefined) {
+    if (typeof input === 'string') {
       childProcess.stdin!.write(input, 'utf-8');
       childProcess.stdin!.end();
+    } else if (input) {
+      // If tar exits before reading all of its input, the failure is reported by its exit code
+      childProcess.stdin!.on('error', () => undefined);
+      childProcess.stdin!.end(input);
     }
 
     const [tarExitCode] = await events.once(childProcess, 'exit');
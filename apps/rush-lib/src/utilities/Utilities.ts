@@ -76,6 +76,11 @@ export interface ILifecycleCommandOptions {
    * Options for what should be added to the PATH variable
    */
   environmentPathOptions: IEnvironmentPathOptions;
+
+  /**
+   * An existing environment to copy instead of process.env
+   */
+  initialEnvironment?: IEnvironment;
 }
 
 export interface IEnvironmentPathOptions {
@@ -150,6 +155,20 @@ export class Utilities {
     return seconds * 1000 + nanoseconds / 1000000;
   }
 
+  /**
+   * Formats a number of bytes as a human-readable string, such as "1.5 MB".
+   */
+  public static getByteSizeString(bytes: number): string {
+    const units: string[] = ['bytes', 'KB', 'MB', 'GB', 'TB'];
+    let unitIndex: number = 0;
+    while (bytes >= 1024 && unitIndex < units.length - 1) {
+      bytes /= 1024;
+      unitIndex++;
+    }
+
+    return unitIndex === 0 ? `${bytes} ${units[0]}` : `${bytes.toFixed(1)} ${units[unitIndex]}`;
+  }
+
   /**
    * Returns the values from a Set<T>
    */
@@ -634,6 +653,7 @@ export class Utilities {
 
     const environment: IEnvironment = Utilities._createEnvironmentForRushCommand({
       initCwd: options.initCwd,
+      initialEnvironment: options.initialEnvironment,
       pathOptions: {
         ...options.environmentPathOptions,
         projectRoot: options.workingDirectory,
@@ -4,6 +4,16 @@
 import { IDisposable, Utilities } from '../Utilities';
 
 describe(Utilities.name, () => {
+  describe(Utilities.getByteSizeString.name, () => {
+    it('Formats byte sizes', () => {
+      expect(Utilities.getByteSizeString(0)).toEqual('0 bytes');
+      expect(Utilities.getByteSizeString(1023)).toEqual('1023 bytes');
+      expect(Utilities.getByteSizeString(1536)).toEqual('1.5 KB');
+      expect(Utilities.getByteSizeString(5 * 1024 * 1024)).toEqual('5.0 MB');
+      expect(Utilities.getByteSizeString(3 * 1024 * 1024 * 1024 * 1024 * 1024)).toEqual('3072.0 TB');
+    });
+  });
+
   describe(Utilities.usingAsync.name, () => {
     let disposed: boolean;
 
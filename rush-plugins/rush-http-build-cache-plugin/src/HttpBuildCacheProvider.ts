@@ -0,0 +1,241 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as fetch from 'node-fetch';
+import { Async, ITerminal } from '@rushstack/node-core-library';
+import {
+  ICloudBuildCacheProvider,
+  ICredentialCacheEntry,
+  CredentialCache,
+  RushConstants,
+  EnvironmentConfiguration
+} from '@rushstack/rush-sdk';
+import { WebClient, WebClientResponse } from '@rushstack/rush-amazon-s3-build-cache-plugin';
+
+/**
+ * @public
+ */
+export interface IHttpBuildCacheProviderOptions {
+  urlTemplate: string;
+  headers: Record<string, string>;
+  isCacheWriteAllowed: boolean;
+  maxRetries: number;
+  retryDelayMs: number;
+}
+
+const CACHE_ID_TOKEN: '[cacheId]' = '[cacheId]';
+
+export class HttpBuildCacheProvider implements ICloudBuildCacheProvider {
+  private readonly _options: IHttpBuildCacheProviderOptions;
+  private readonly _environmentCredential: string | undefined;
+  private readonly _isCacheWriteAllowedByConfiguration: boolean;
+  private readonly _webClient: WebClient;
+  private __credentialCacheId: string | undefined;
+
+  public get isCacheWriteAllowed(): boolean {
+    return EnvironmentConfiguration.buildCacheWriteAllowed ?? this._isCacheWriteAllowedByConfiguration;
+  }
+
+  public constructor(options: IHttpBuildCacheProviderOptions) {
+    if (options.urlTemplate.indexOf(CACHE_ID_TOKEN) < 0) {
+      throw new Error(`The "urlTemplate" setting must contain a "${CACHE_ID_TOKEN}" token.`);
+    }
+
+    this._options = options;
+    this._environmentCredential = EnvironmentConfiguration.buildCacheCredential;
+    this._isCacheWriteAllowedByConfiguration = options.isCacheWriteAllowed;
+    this._webClient = new WebClient();
+  }
+
+  private get _credentialCacheId(): string {
+    if (!this.__credentialCacheId) {
+      const cacheIdParts: string[] = ['http', this._options.urlTemplate];
+
+      if (this._isCacheWriteAllowedByConfiguration) {
+        cacheIdParts.push('cacheWriteAllowed');
+      }
+
+      this.__credentialCacheId = cacheIdParts.join('|');
+    }
+
+    return this.__credentialCacheId;
+  }
+
+  public async tryGetCacheEntryBufferByIdAsync(
+    terminal: ITerminal,
+    cacheId: string
+  ): Promise<Buffer | undefined> {
+    try {
+      const response: WebClientResponse = await this._makeRequestAsync(terminal, 'GET', cacheId);
+      if (response.ok) {
+        return await response.buffer();
+      } else if (response.status === 404) {
+        // The cache entry does not exist
+        return undefined;
+      }
+
+      terminal.writeWarningLine(
+        `Error getting cache entry from the HTTP build cache: ${this._getResponseErrorMessage(response)}`
+      );
+      return undefined;
+    } catch (e) {
+      terminal.writeWarningLine(`Error getting cache entry from the HTTP build cache: ${e}`);
+      return undefined;
+    }
+  }
+
+  public async trySetCacheEntryBufferAsync(
+    terminal: ITerminal,
+    cacheId: string,
+    objectBuffer: Buffer
+  ): Promise<boolean> {
+    if (!this.isCacheWriteAllowed) {
+      terminal.writeErrorLine('Writing to the HTTP build cache is not allowed in the current configuration.');
+      return false;
+    }
+
+    terminal.writeDebugLine('Uploading object with cacheId: ', cacheId);
+
+    try {
+      const response: WebClientResponse = await this._makeRequestAsync(
+        terminal,
+        'PUT',
+        cacheId,
+        objectBuffer
+      );
+      if (response.ok) {
+        return true;
+      }
+
+      terminal.writeWarningLine(
+        `Error uploading cache entry to the HTTP build cache: ${this._getResponseErrorMessage(response)}`
+      );
+      return false;
+    } catch (e) {
+      terminal.writeWarningLine(`Error uploading cache entry to the HTTP build cache: ${e}`);
+      return false;
+    }
+  }
+
+  public async updateCachedCredentialAsync(terminal: ITerminal, credential: string): Promise<void> {
+    await CredentialCache.usingAsync(
+      {
+        supportEditing: true
+      },
+      async (credentialsCache: CredentialCache) => {
+        credentialsCache.setCacheEntry(this._credentialCacheId, credential);
+        await credentialsCache.saveIfModifiedAsync();
+      }
+    );
+  }
+
+  public async updateCachedCredentialInteractiveAsync(terminal: ITerminal): Promise<void> {
+    throw new Error(
+      'The interactive cloud credentials flow is not supported for the HTTP build cache.\n' +
+        'Provide your bearer token to rush using the --credential flag instead.'
+    );
+  }
+
+  public async deleteCachedCredentialsAsync(terminal: ITerminal): Promise<void> {
+    await CredentialCache.usingAsync(
+      {
+        supportEditing: true
+      },
+      async (credentialsCache: CredentialCache) => {
+        credentialsCache.deleteCacheEntry(this._credentialCacheId);
+        await credentialsCache.saveIfModifiedAsync();
+      }
+    );
+  }
+
+  private async _tryGetCredentialAsync(): Promise<string | undefined> {
+    if (this._environmentCredential) {
+      return this._environmentCredential;
+    }
+
+    let cacheEntry: ICredentialCacheEntry | undefined;
+    await CredentialCache.usingAsync(
+      {
+        supportEditing: false
+      },
+      (credentialsCache: CredentialCache) => {
+        cacheEntry = credentialsCache.tryGetCacheEntry(this._credentialCacheId);
+      }
+    );
+
+    if (cacheEntry) {
+      const expirationTime: number | undefined = cacheEntry.expires?.getTime();
+      if (expirationTime && expirationTime < Date.now()) {
+        throw new Error(
+          'The cached HTTP build cache credential has expired. ' +
+            `Update the credential by running "rush ${RushConstants.updateCloudCredentialsCommandName}".`
+        );
+      }
+
+      return cacheEntry.credential;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Issues a request, retrying with exponential backoff after network errors and server error responses.
+   */
+  private async _makeRequestAsync(
+    terminal: ITerminal,
+    verb: 'GET' | 'PUT',
+    cacheId: string,
+    body?: Buffer
+  ): Promise<WebClientResponse> {
+    const url: string = this._options.urlTemplate.split(CACHE_ID_TOKEN).join(cacheId);
+
+    const headers: fetch.Headers = new fetch.Headers();
+    for (const [name, value] of Object.entries(this._options.headers)) {
+      headers.set(name, value);
+    }
+
+    const credential: string | undefined = await this._tryGetCredentialAsync();
+    if (credential) {
+      headers.set('Authorization', `Bearer ${credential}`);
+    }
+
+    const { maxRetries } = this._options;
+    let retryDelayMs: number = this._options.retryDelayMs;
+    for (let attempt: number = 0; ; attempt++) {
+      let failureReason: string;
+      try {
+        const response: WebClientResponse = await this._webClient.fetchAsync(
+          url,
+          verb === 'PUT' ? { verb, headers, body } : { verb, headers }
+        );
+
+        if (!this._isRetryableStatus(response.status) || attempt >= maxRetries) {
+          return response;
+        }
+
+        failureReason = this._getResponseErrorMessage(response);
+      } catch (e) {
+        if (attempt >= maxRetries) {
+          throw e;
+        }
+
+        failureReason = (e as Error).message;
+      }
+
+      terminal.writeVerboseLine(
+        `${verb} request for ${url} failed (${failureReason}). Retrying in ${retryDelayMs}ms.`
+      );
+      await Async.sleep(retryDelayMs);
+      retryDelayMs *= 2;
+    }
+  }
+
+  private _isRetryableStatus(status: number): boolean {
+    // Server errors and throttling are usually transient
+    return status >= 500 || status === 429;
+  }
+
+  private _getResponseErrorMessage(response: WebClientResponse): string {
+    return `HTTP server responded with status code ${response.status} (${response.statusText})`;
+  }
+}
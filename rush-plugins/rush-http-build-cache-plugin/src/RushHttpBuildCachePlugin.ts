@@ -0,0 +1,74 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { Import } from '@rushstack/node-core-library';
+import type { IRushPlugin, RushSession, RushConfiguration } from '@rushstack/rush-sdk';
+import type { HttpBuildCacheProvider } from './HttpBuildCacheProvider';
+
+const HttpBuildCacheProviderModule: typeof import('./HttpBuildCacheProvider') = Import.lazy(
+  './HttpBuildCacheProvider',
+  require
+);
+
+const PLUGIN_NAME: string = 'HttpBuildCachePlugin';
+
+/**
+ * @public
+ */
+export interface IHttpConfigurationJson {
+  /**
+   * (Required) The URL of a cache entry. The "[cacheId]" token is replaced with the cache entry ID
+   * (e.g. "https://build-cache.example.com/rush/[cacheId]").
+   */
+  urlTemplate: string;
+
+  /**
+   * Additional HTTP headers that are sent with every request.
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * If set to true, allow writing to the cache. Defaults to false.
+   */
+  isCacheWriteAllowed?: boolean;
+
+  /**
+   * The number of times a request is retried after a network error or a server error response. Defaults to 3.
+   */
+  maxRetries?: number;
+
+  /**
+   * The number of milliseconds to wait before the first retry. The delay is doubled for each subsequent
+   * retry. Defaults to 1000.
+   */
+  retryDelayMs?: number;
+}
+
+/**
+ * @public
+ */
+export class RushHttpBuildCachePlugin implements IRushPlugin {
+  public pluginName: string = PLUGIN_NAME;
+
+  public apply(rushSession: RushSession, rushConfig: RushConfiguration): void {
+    rushSession.hooks.initialize.tap(PLUGIN_NAME, () => {
+      rushSession.registerCloudBuildCacheProviderFactory(
+        'http',
+        (buildCacheConfig): HttpBuildCacheProvider => {
+          type IBuildCache = typeof buildCacheConfig & {
+            httpConfiguration: IHttpConfigurationJson;
+          };
+          const { httpConfiguration } = buildCacheConfig as IBuildCache;
+
+          return new HttpBuildCacheProviderModule.HttpBuildCacheProvider({
+            urlTemplate: httpConfiguration.urlTemplate,
+            headers: httpConfiguration.headers ?? {},
+            isCacheWriteAllowed: !!httpConfiguration.isCacheWriteAllowed,
+            maxRetries: httpConfiguration.maxRetries ?? 3,
+            retryDelayMs: httpConfiguration.retryDelayMs ?? 1000
+          });
+        }
+      );
+    });
+  }
+}
@@ -0,0 +1,108 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { Response } from 'node-fetch';
+import { StringBufferTerminalProvider, Terminal } from '@rushstack/node-core-library';
+import { CredentialCache, EnvironmentConfiguration } from '@rushstack/rush-sdk';
+import { WebClient } from '@rushstack/rush-amazon-s3-build-cache-plugin';
+
+import { HttpBuildCacheProvider, IHttpBuildCacheProviderOptions } from '../HttpBuildCacheProvider';
+
+const DEFAULT_OPTIONS: IHttpBuildCacheProviderOptions = {
+  urlTemplate: 'https://build-cache.example.com/rush/[cacheId]',
+  headers: { 'X-Custom-Header': 'custom-value' },
+  isCacheWriteAllowed: true,
+  maxRetries: 2,
+  retryDelayMs: 0
+};
+
+describe(HttpBuildCacheProvider.name, () => {
+  let terminal: Terminal;
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    terminal = new Terminal(new StringBufferTerminalProvider());
+    jest.spyOn(EnvironmentConfiguration, 'buildCacheCredential', 'get').mockReturnValue(undefined);
+    jest.spyOn(EnvironmentConfiguration, 'buildCacheWriteAllowed', 'get').mockReturnValue(undefined);
+    jest.spyOn(CredentialCache, 'usingAsync').mockReturnValue(Promise.resolve());
+    fetchMock = jest.spyOn(WebClient.prototype, 'fetchAsync');
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  function getRequest(callIndex: number): { url: string; verb: string; headers: Record<string, string> } {
+    const [url, options] = fetchMock.mock.calls[callIndex];
+    const headers: Record<string, string> = {};
+    options.headers.forEach((value: string, name: string) => {
+      headers[name] = value;
+    });
+    return { url, verb: options.verb, headers };
+  }
+
+  it('requires a [cacheId] token in the URL template', () => {
+    expect(
+      () =>
+        new HttpBuildCacheProvider({ ...DEFAULT_OPTIONS, urlTemplate: 'https://build-cache.example.com/' })
+    ).toThrowErrorMatchingSnapshot();
+  });
+
+  it('reads a cache entry', async () => {
+    fetchMock.mockReturnValue(Promise.resolve(new Response('cache-contents', { status: 200 })));
+
+    const provider: HttpBuildCacheProvider = new HttpBuildCacheProvider(DEFAULT_OPTIONS);
+    const buffer: Buffer | undefined = await provider.tryGetCacheEntryBufferByIdAsync(terminal, 'abc123');
+
+    expect(buffer?.toString()).toEqual('cache-contents');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(getRequest(0)).toMatchSnapshot();
+  });
+
+  it('returns undefined for a cache miss without retrying', async () => {
+    fetchMock.mockReturnValue(Promise.resolve(new Response('', { status: 404 })));
+
+    const provider: HttpBuildCacheProvider = new HttpBuildCacheProvider(DEFAULT_OPTIONS);
+    expect(await provider.tryGetCacheEntryBufferByIdAsync(terminal, 'abc123')).toBeUndefined();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends the credential from the environment as a bearer token', async () => {
+    jest.spyOn(EnvironmentConfiguration, 'buildCacheCredential', 'get').mockReturnValue('my-token');
+    fetchMock.mockReturnValue(Promise.resolve(new Response('', { status: 200 })));
+
+    const provider: HttpBuildCacheProvider = new HttpBuildCacheProvider(DEFAULT_OPTIONS);
+    expect(await provider.trySetCacheEntryBufferAsync(terminal, 'abc123', Buffer.from('data'))).toBe(true);
+    expect(getRequest(0)).toMatchSnapshot();
+  });
+
+  it('retries after server errors and network errors', async () => {
+    fetchMock
+      .mockReturnValueOnce(Promise.resolve(new Response('', { status: 503 })))
+      .mockImplementationOnce(() => Promise.reject(new Error('socket hang up')))
+      .mockReturnValueOnce(Promise.resolve(new Response('cache-contents', { status: 200 })));
+
+    const provider: HttpBuildCacheProvider = new HttpBuildCacheProvider(DEFAULT_OPTIONS);
+    const buffer: Buffer | undefined = await provider.tryGetCacheEntryBufferByIdAsync(terminal, 'abc123');
+
+    expect(buffer?.toString()).toEqual('cache-contents');
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after the maximum number of retries', async () => {
+    fetchMock.mockReturnValue(Promise.resolve(new Response('', { status: 500 })));
+
+    const provider: HttpBuildCacheProvider = new HttpBuildCacheProvider(DEFAULT_OPTIONS);
+    expect(await provider.trySetCacheEntryBufferAsync(terminal, 'abc123', Buffer.from('data'))).toBe(false);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not write to the cache if writes are not allowed', async () => {
+    const provider: HttpBuildCacheProvider = new HttpBuildCacheProvider({
+      ...DEFAULT_OPTIONS,
+      isCacheWriteAllowed: false
+    });
+    expect(await provider.trySetCacheEntryBufferAsync(terminal, 'abc123', Buffer.from('data'))).toBe(false);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
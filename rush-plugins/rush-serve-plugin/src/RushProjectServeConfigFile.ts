@@ -0,0 +1,114 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as path from 'path';
+import { ConfigurationFile, InheritanceType } from '@rushstack/heft-config-file';
+import { Async, ITerminal } from '@rushstack/node-core-library';
+import { RigConfig } from '@rushstack/rig-package';
+import type { RushConfigurationProject } from '@rushstack/rush-sdk';
+
+/**
+ * A single rule in the "routing" array of "config/rush-serve.json".
+ */
+export interface IRushServeRoutingRuleJson {
+  projectRelativeFolder: string;
+  servePath: string;
+  immutable?: boolean;
+}
+
+/**
+ * Describes the file structure for a project's "config/rush-serve.json" config file.
+ */
+export interface IRushServeJson {
+  routing?: IRushServeRoutingRuleJson[];
+}
+
+/**
+ * A routing rule, resolved to an absolute folder on disk.
+ */
+export interface IRoutingRule {
+  /**
+   * The absolute path of the folder whose contents will be served.
+   */
+  diskPath: string;
+
+  /**
+   * The URL path at which the folder will be served.
+   */
+  servePath: string;
+
+  /**
+   * If true, the content is served with the `immutable` directive in the `Cache-Control` header.
+   */
+  immutable: boolean;
+
+  /**
+   * The project that declared this rule.
+   */
+  project: RushConfigurationProject;
+}
+
+const RUSH_SERVE_CONFIGURATION_FILE: ConfigurationFile<IRushServeJson> =
+  new ConfigurationFile<IRushServeJson>({
+    projectRelativeFilePath: 'config/rush-serve.json',
+    jsonSchemaPath: path.resolve(__dirname, 'schemas', 'rush-serve.schema.json'),
+    propertyInheritance: {
+      routing: {
+        inheritanceType: InheritanceType.append
+      }
+    }
+  });
+
+/**
+ * Loads the riggable "config/rush-serve.json" files for the specified projects and converts them to
+ * a list of routing rules.
+ */
+export async function getRoutingRulesAsync(
+  projects: Iterable<RushConfigurationProject>,
+  terminal: ITerminal
+): Promise<IRoutingRule[]> {
+  const rulesByProject: IRoutingRule[][] = await Async.mapAsync(
+    projects,
+    async (project: RushConfigurationProject): Promise<IRoutingRule[]> => {
+      const rigConfig: RigConfig = await RigConfig.loadForProjectFolderAsync({
+        projectFolderPath: project.projectFolder
+      });
+
+      const serveJson: IRushServeJson | undefined =
+        await RUSH_SERVE_CONFIGURATION_FILE.tryLoadConfigurationFileForProjectAsync(
+          terminal,
+          project.projectFolder,
+          rigConfig
+        );
+
+      if (!serveJson?.routing) {
+        return [];
+      }
+
+      return serveJson.routing.map((rule: IRushServeRoutingRuleJson): IRoutingRule => {
+        return {
+          diskPath: path.resolve(project.projectFolder, rule.projectRelativeFolder),
+          servePath: normalizeServePath(rule.servePath),
+          immutable: !!rule.immutable,
+          project
+        };
+      });
+    },
+    { concurrency: 20 }
+  );
+
+  const rules: IRoutingRule[] = [];
+  for (const projectRules of rulesByProject) {
+    rules.push(...projectRules);
+  }
+
+  return rules;
+}
+
+/**
+ * Ensures that a serve path begins with a slash and does not end with one.
+ */
+export function normalizeServePath(servePath: string): string {
+  const trimmed: string = servePath.replace(/^\/+|\/+$/g, '');
+  return `/${trimmed}`;
+}
@@ -0,0 +1,66 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import type { IRushPlugin, RushSession, RushConfiguration, IPhasedCommand } from '@rushstack/rush-sdk';
+
+export const PLUGIN_NAME: 'RushServePlugin' = 'RushServePlugin';
+
+/**
+ * Options for the RushServePlugin, as specified in "common/config/rush-plugins/rush-serve-plugin.json".
+ *
+ * @public
+ */
+export interface IRushServePluginOptions {
+  /**
+   * The names of the phased commands to which the plugin should be applied.
+   */
+  phasedCommands: ReadonlyArray<string>;
+
+  /**
+   * The long name of a custom parameter that specifies the port for the server. If omitted,
+   * an available port will be chosen automatically.
+   */
+  portParameterLongName?: string;
+
+  /**
+   * If true, serve content over HTTPS using a development certificate.
+   */
+  useHttps?: boolean;
+}
+
+/**
+ * A Rush plugin that serves the output folders of the selected projects during watch-mode phased commands.
+ *
+ * @public
+ */
+export class RushServePlugin implements IRushPlugin {
+  public readonly pluginName: 'RushServePlugin' = PLUGIN_NAME;
+
+  private readonly _phasedCommands: Set<string>;
+  private readonly _portParameterLongName: string | undefined;
+  private readonly _useHttps: boolean;
+
+  public constructor(options: IRushServePluginOptions) {
+    this._phasedCommands = new Set(options.phasedCommands);
+    this._portParameterLongName = options.portParameterLongName;
+    this._useHttps = !!options.useHttps;
+  }
+
+  public apply(rushSession: RushSession, rushConfiguration: RushConfiguration): void {
+    const handler: (command: IPhasedCommand) => Promise<void> = async (command: IPhasedCommand) => {
+      // Defer importing the server implementation until it is actually needed.
+      const { phasedCommandHandler } = await import('./phasedCommandHandler');
+
+      phasedCommandHandler({
+        rushSession,
+        command,
+        portParameterLongName: this._portParameterLongName,
+        useHttps: this._useHttps
+      });
+    };
+
+    for (const commandName of this._phasedCommands) {
+      rushSession.hooks.runPhasedCommand.for(commandName).tapPromise(PLUGIN_NAME, handler);
+    }
+  }
+}
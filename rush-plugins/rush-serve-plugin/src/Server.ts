@@ -0,0 +1,173 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as http from 'http';
+import * as https from 'https';
+import type { AddressInfo } from 'net';
+import express from 'express';
+import type { ICertificate } from '@rushstack/debug-certificate-manager';
+
+import type { IRoutingRule } from './RushProjectServeConfigFile';
+
+/**
+ * The URL path reserved for the plugin's own endpoints.
+ */
+export const RUSH_SERVE_PATH: string = '/.rush-serve';
+
+/**
+ * Browsers connect to this path with an `EventSource` to receive "reload" events.
+ */
+export const LIVE_RELOAD_EVENTS_PATH: string = `${RUSH_SERVE_PATH}/events`;
+
+/**
+ * Pages can include a `<script>` tag with this path to reload automatically after a rebuild.
+ */
+export const LIVE_RELOAD_SCRIPT_PATH: string = `${RUSH_SERVE_PATH}/live-reload.js`;
+
+const LIVE_RELOAD_SCRIPT: string = `(function () {
+  var source = new EventSource(${JSON.stringify(LIVE_RELOAD_EVENTS_PATH)});
+  source.addEventListener('reload', function () {
+    window.location.reload();
+  });
+})();
+`;
+
+export interface IServerOptions {
+  /**
+   * The rules that map URL paths to folders on disk.
+   */
+  routingRules: Iterable<IRoutingRule>;
+
+  /**
+   * The port on which to listen. If 0, an available port will be chosen.
+   */
+  port: number;
+
+  /**
+   * If provided, the server will use HTTPS with this certificate.
+   */
+  certificate?: ICertificate;
+}
+
+/**
+ * An HTTP(S) server that serves static content from project folders and notifies connected
+ * browsers when that content has been rebuilt.
+ */
+export class Server {
+  private readonly _server: http.Server;
+  private readonly _port: number;
+  private readonly _protocol: 'http' | 'https';
+  private readonly _liveReloadClients: Set<express.Response> = new Set();
+
+  public constructor(options: IServerOptions) {
+    const { routingRules, port, certificate } = options;
+
+    this._port = port;
+
+    const app: express.Express = express();
+
+    app.get(LIVE_RELOAD_SCRIPT_PATH, (req: express.Request, res: express.Response) => {
+      res.setHeader('Cache-Control', 'no-cache');
+      res.type('application/javascript').send(LIVE_RELOAD_SCRIPT);
+    });
+
+    app.get(LIVE_RELOAD_EVENTS_PATH, (req: express.Request, res: express.Response) => {
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive'
+      });
+      // Flush the headers so that the browser considers the connection to be open
+      res.write('\n');
+
+      this._liveReloadClients.add(res);
+      req.on('close', () => {
+        this._liveReloadClients.delete(res);
+      });
+    });
+
+    for (const rule of routingRules) {
+      // If multiple rules share a serve path, requests fall through to the next rule
+      // when a file does not exist in the folder.
+      app.use(
+        rule.servePath,
+        express.static(rule.diskPath, {
+          dotfiles: 'ignore',
+          immutable: rule.immutable,
+          redirect: false
+        })
+      );
+    }
+
+    if (certificate) {
+      this._protocol = 'https';
+      this._server = https.createServer(
+        {
+          cert: certificate.pemCertificate,
+          key: certificate.pemKey
+        },
+        app
+      );
+    } else {
+      this._protocol = 'http';
+      this._server = http.createServer(app);
+    }
+  }
+
+  /**
+   * The URL at which content is being served. Only valid after `startAsync()` has completed.
+   */
+  public get url(): string {
+    const { port } = this._server.address() as AddressInfo;
+    return `${this._protocol}://localhost:${port}`;
+  }
+
+  /**
+   * The number of browsers that are currently listening for reload events.
+   */
+  public get liveReloadClientCount(): number {
+    return this._liveReloadClients.size;
+  }
+
+  /**
+   * Starts listening for requests.
+   */
+  public async startAsync(): Promise<void> {
+    await new Promise<void>((resolve: () => void, reject: (error: Error) => void) => {
+      this._server.once('error', reject);
+      this._server.listen(this._port, () => {
+        this._server.off('error', reject);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Tells all connected browsers to reload.
+   */
+  public notifyReload(): void {
+    for (const client of this._liveReloadClients) {
+      client.write('event: reload\ndata: {}\n\n');
+    }
+  }
+
+  /**
+   * Disconnects all browsers and stops listening for requests.
+   */
+  public async stopAsync(): Promise<void> {
+    for (const client of this._liveReloadClients) {
+      client.end();
+    }
+    this._liveReloadClients.clear();
+
+    await new Promise<void>((resolve: () => void, reject: (error: Error) => void) => {
+      this._server.close((error: Error | undefined) => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+}
@@ -1 +1,7 @@
-throw new Error('Not implemented yet!');
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { RushServePlugin } from './RushServePlugin';
+
+export { IRushServePluginOptions } from './RushServePlugin';
+export default RushServePlugin;
@@ -0,0 +1,133 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { CertificateManager, ICertificate } from '@rushstack/debug-certificate-manager';
+import { AlreadyReportedError } from '@rushstack/node-core-library';
+import type { CommandLineParameter, CommandLineStringParameter } from '@rushstack/ts-command-line';
+import type {
+  ICreateOperationsContext,
+  ILogger,
+  IPhasedCommand,
+  Operation,
+  RushSession
+} from '@rushstack/rush-sdk';
+
+import { PLUGIN_NAME } from './RushServePlugin';
+import { getRoutingRulesAsync, IRoutingRule } from './RushProjectServeConfigFile';
+import { LIVE_RELOAD_SCRIPT_PATH, Server } from './Server';
+
+export interface IPhasedCommandHandlerOptions {
+  rushSession: RushSession;
+  command: IPhasedCommand;
+  portParameterLongName: string | undefined;
+  useHttps: boolean;
+}
+
+export function phasedCommandHandler(options: IPhasedCommandHandlerOptions): void {
+  const { rushSession, command, portParameterLongName, useHttps } = options;
+
+  const logger: ILogger = rushSession.getLogger(PLUGIN_NAME);
+
+  let server: Server | undefined;
+
+  command.hooks.createOperations.tapPromise(
+    {
+      name: PLUGIN_NAME,
+      // Run before any other plugins so that the server is available as early as possible
+      stage: -1
+    },
+    async (operations: Set<Operation>, context: ICreateOperationsContext): Promise<Set<Operation>> => {
+      if (!context.isInitial || !context.isWatch) {
+        // The server is only started once, and only in watch mode
+        return operations;
+      }
+
+      const port: number = getPort(context.customParameters, portParameterLongName);
+
+      const routingRules: IRoutingRule[] = await getRoutingRulesAsync(
+        context.projectSelection,
+        logger.terminal
+      );
+
+      if (routingRules.length === 0) {
+        logger.terminal.writeWarningLine(
+          `None of the selected projects have a "config/rush-serve.json" file. Nothing will be served.`
+        );
+        return operations;
+      }
+
+      let certificate: ICertificate | undefined;
+      if (useHttps) {
+        const certificateManager: CertificateManager = new CertificateManager();
+        certificate = await certificateManager.ensureCertificateAsync(true, logger.terminal);
+      }
+
+      server = new Server({
+        routingRules,
+        port,
+        certificate
+      });
+
+      try {
+        await server.startAsync();
+      } catch (error) {
+        logger.emitError(new Error(`Unable to start the server on port ${port}: ${(error as Error).message}`));
+        throw new AlreadyReportedError();
+      }
+
+      const { url } = server;
+      for (const rule of routingRules) {
+        logger.terminal.writeVerboseLine(
+          `Serving "${rule.diskPath}" from ${url}${rule.servePath} (${rule.project.packageName})`
+        );
+      }
+
+      logger.terminal.writeLine(
+        `To reload pages automatically after each rebuild, include "${url}${LIVE_RELOAD_SCRIPT_PATH}" ` +
+          'as a script in the page.'
+      );
+
+      return operations;
+    }
+  );
+
+  command.hooks.waitingForChanges.tap(PLUGIN_NAME, () => {
+    if (!server) {
+      return;
+    }
+
+    // The outputs have just been rebuilt, so any open pages are now stale
+    server.notifyReload();
+
+    logger.terminal.writeLine(`Content is being served from ${server.url}`);
+  });
+}
+
+function getPort(
+  customParameters: ReadonlyMap<string, CommandLineParameter>,
+  portParameterLongName: string | undefined
+): number {
+  if (!portParameterLongName) {
+    return 0;
+  }
+
+  const parameter: CommandLineParameter | undefined = customParameters.get(portParameterLongName);
+  if (!parameter) {
+    throw new Error(
+      `The "portParameterLongName" option for ${PLUGIN_NAME} refers to "${portParameterLongName}", ` +
+        `which is not a parameter of this command.`
+    );
+  }
+
+  const rawValue: string | undefined = (parameter as CommandLineStringParameter).value;
+  if (rawValue === undefined) {
+    return 0;
+  }
+
+  const port: number = Number(rawValue);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`The value "${rawValue}" for the ${portParameterLongName} parameter is not a valid port.`);
+  }
+
+  return port;
+}
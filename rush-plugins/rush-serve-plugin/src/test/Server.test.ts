@@ -1,5 +1,103 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as http from 'http';
+import * as path from 'path';
+import type { RushConfigurationProject } from '@rushstack/rush-sdk';
+
+import { LIVE_RELOAD_EVENTS_PATH, LIVE_RELOAD_SCRIPT_PATH, Server } from '../Server';
+import { normalizeServePath } from '../RushProjectServeConfigFile';
+
+interface IResponse {
+  statusCode: number | undefined;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+function getAsync(url: string): Promise<IResponse> {
+  return new Promise((resolve, reject) => {
+    http
+      .get(url, (res: http.IncomingMessage) => {
+        let body: string = '';
+        res.setEncoding('utf8');
+        res.on('data', (chunk: string) => (body += chunk));
+        res.on('end', () => resolve({ statusCode: res.statusCode, headers: res.headers, body }));
+      })
+      .on('error', reject);
+  });
+}
+
 describe('Server', () => {
-  it('Is not implemented yet.', () => {
-    // Do nothing.
+  let server: Server;
+
+  beforeEach(async () => {
+    server = new Server({
+      routingRules: [
+        {
+          diskPath: path.resolve(__dirname, 'serveFolder'),
+          servePath: '/app',
+          immutable: false,
+          project: { packageName: 'test-project' } as RushConfigurationProject
+        }
+      ],
+      port: 0
+    });
+    await server.startAsync();
+  });
+
+  afterEach(async () => {
+    await server.stopAsync();
+  });
+
+  it('serves files from the routed folder', async () => {
+    const response: IResponse = await getAsync(`${server.url}/app/index.html`);
+    expect(response.statusCode).toEqual(200);
+    expect(response.body).toContain('Hello from rush-serve-plugin');
+  });
+
+  it('returns 404 for files outside of the routed paths', async () => {
+    const response: IResponse = await getAsync(`${server.url}/other/index.html`);
+    expect(response.statusCode).toEqual(404);
+  });
+
+  it('serves the live reload script', async () => {
+    const response: IResponse = await getAsync(`${server.url}${LIVE_RELOAD_SCRIPT_PATH}`);
+    expect(response.statusCode).toEqual(200);
+    expect(response.headers['content-type']).toMatch(/javascript/);
+    expect(response.body).toContain(LIVE_RELOAD_EVENTS_PATH);
+  });
+
+  it('sends reload events to connected browsers', async () => {
+    const received: string = await new Promise((resolve, reject) => {
+      http
+        .get(`${server.url}${LIVE_RELOAD_EVENTS_PATH}`, (res: http.IncomingMessage) => {
+          let data: string = '';
+          res.setEncoding('utf8');
+          res.on('data', (chunk: string) => {
+            data += chunk;
+            if (data.includes('\n\n')) {
+              resolve(data);
+              res.destroy();
+            }
+          });
+
+          // Wait for the server to register the connection before notifying
+          setImmediate(() => {
+            expect(server.liveReloadClientCount).toEqual(1);
+            server.notifyReload();
+          });
+        })
+        .on('error', reject);
+    });
+
+    expect(received).toContain('event: reload');
+  });
+});
+
+describe('normalizeServePath', () => {
+  it('adds a leading slash and removes trailing slashes', () => {
+    expect(normalizeServePath('app')).toEqual('/app');
+    expect(normalizeServePath('/app/')).toEqual('/app');
+    expect(normalizeServePath('/')).toEqual('/');
   });
 });